@@ -0,0 +1,380 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/components/ui/Toast'
+import type {
+  CacheEntryDetail,
+  CacheEntryList,
+  CacheLayerStats,
+  CacheName,
+} from '@/lib/services/cache-admin-service'
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString('it-IT') : '—'
+}
+
+export default function CacheAdminPage() {
+  const { showToast } = useToast()
+  const [caches, setCaches] = useState<CacheLayerStats[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [cleaning, setCleaning] = useState(false)
+  const [selected, setSelected] = useState<CacheName | null>(null)
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [entries, setEntries] = useState<CacheEntryList | null>(null)
+  const [entriesLoading, setEntriesLoading] = useState(false)
+  const [detail, setDetail] = useState<CacheEntryDetail | null>(null)
+
+  const loadOverview = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/cache')
+      if (response.status === 403) {
+        throw new Error('Sezione riservata agli amministratori')
+      }
+      if (!response.ok) {
+        throw new Error('Errore nel caricamento delle statistiche delle cache')
+      }
+      const data = await response.json()
+      setCaches(data.caches)
+    } catch (err) {
+      console.error('Error loading cache stats:', err)
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle statistiche delle cache')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const loadEntries = useCallback(async () => {
+    if (!selected) {
+      setEntries(null)
+      return
+    }
+
+    setEntriesLoading(true)
+    const params = new URLSearchParams({ page: String(page) })
+    if (search) params.set('q', search)
+
+    try {
+      const response = await fetch(`/api/admin/cache/${selected}/entries?${params.toString()}`)
+      if (!response.ok) {
+        throw new Error('Errore nel caricamento delle voci')
+      }
+      setEntries(await response.json())
+    } catch (err) {
+      console.error('Error loading cache entries:', err)
+      showToast(err instanceof Error ? err.message : 'Errore nel caricamento delle voci', 'error')
+      setEntries(null)
+    } finally {
+      setEntriesLoading(false)
+    }
+  }, [selected, search, page, showToast])
+
+  useEffect(() => {
+    loadOverview()
+  }, [loadOverview])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const handleSelect = (name: CacheName) => {
+    setSelected(name)
+    setSearchInput('')
+    setSearch('')
+    setPage(1)
+    setDetail(null)
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearch(searchInput.trim())
+    setPage(1)
+  }
+
+  const handleInspect = async (id: string) => {
+    if (!selected) return
+
+    try {
+      const response = await fetch(`/api/admin/cache/${selected}/entries/${id}`)
+      if (!response.ok) {
+        throw new Error('Voce non trovata')
+      }
+      const data = await response.json()
+      setDetail(data.entry)
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Errore nel caricamento della voce', 'error')
+    }
+  }
+
+  const handleDelete = async (id: string, queryText: string) => {
+    if (!selected) return
+    if (!confirm(`Eliminare dalla cache la voce "${queryText.slice(0, 80)}"?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/cache/${selected}/entries/${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error("Errore nell'eliminazione della voce")
+      }
+      showToast('Voce eliminata', 'success')
+      if (detail?.id === id) {
+        setDetail(null)
+      }
+      await Promise.all([loadEntries(), loadOverview()])
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Errore nell'eliminazione della voce", 'error')
+    }
+  }
+
+  const handleCleanup = async () => {
+    setCleaning(true)
+    try {
+      const response = await fetch('/api/admin/cache/cleanup', { method: 'POST' })
+      if (!response.ok) {
+        throw new Error('Errore nella pulizia delle cache')
+      }
+      const data: { results: Array<{ deleted: number }> } = await response.json()
+      const deleted = data.results.reduce((sum, result) => sum + result.deleted, 0)
+      showToast(`Pulizia completata: ${deleted} voci scadute eliminate`, 'success')
+      await Promise.all([loadOverview(), loadEntries()])
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Errore nella pulizia delle cache', 'error')
+    } finally {
+      setCleaning(false)
+    }
+  }
+
+  const selectedCache = caches.find((cache) => cache.name === selected) ?? null
+  const totalPages = entries ? Math.max(1, Math.ceil(entries.total / entries.pageSize)) : 1
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Cache delle query</h1>
+              <p className="text-sm text-gray-600">
+                Voci, utilizzo e spazio occupato da ciascuna cache. Le voci scadute vengono eliminate ogni notte;
+                l&apos;hit rate si riferisce agli ultimi 14 giorni.
+              </p>
+            </div>
+            <button
+              onClick={handleCleanup}
+              disabled={cleaning || loading}
+              className="shrink-0 px-3 py-2 text-sm font-medium text-white bg-gray-900 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {cleaning ? 'Pulizia...' : 'Elimina voci scadute'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loading && caches.length === 0 ? (
+            <p className="text-sm text-gray-600">Caricamento statistiche...</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Cache</th>
+                    <th className="py-2 pr-4 font-medium text-right">Voci</th>
+                    <th className="py-2 pr-4 font-medium text-right">Scadute</th>
+                    <th className="py-2 pr-4 font-medium text-right">Hit totali</th>
+                    <th className="py-2 pr-4 font-medium">Hit rate</th>
+                    <th className="py-2 pr-4 font-medium">Voce più vecchia</th>
+                    <th className="py-2 font-medium text-right">Spazio</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {caches.map((cache) => (
+                    <tr
+                      key={cache.name}
+                      className={`border-b border-gray-100 align-top ${
+                        cache.name === selected ? 'bg-gray-50' : ''
+                      }`}
+                    >
+                      <td className="py-3 pr-4">
+                        {cache.available ? (
+                          <button
+                            onClick={() => handleSelect(cache.name)}
+                            className="font-medium text-gray-900 hover:underline text-left"
+                          >
+                            {cache.label}
+                          </button>
+                        ) : (
+                          <span className="font-medium text-gray-400">{cache.label}</span>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          {cache.available ? cache.description : 'Tabella non presente nel database'}
+                        </p>
+                      </td>
+                      <td className="py-3 pr-4 text-right text-gray-900">{cache.entryCount}</td>
+                      <td className="py-3 pr-4 text-right text-gray-600">{cache.expiredCount}</td>
+                      <td className="py-3 pr-4 text-right text-gray-600">{cache.totalHits}</td>
+                      <td className="py-3 pr-4">
+                        <div className="flex items-end gap-2">
+                          <span className="w-10 text-gray-900">{formatRate(cache.hitRate)}</span>
+                          <div className="flex items-end gap-px h-6" aria-hidden="true">
+                            {cache.hitRateSeries.map((point) => (
+                              <div
+                                key={point.day}
+                                title={`${point.day}: ${point.hits} hit, ${point.misses} miss`}
+                                className={point.hitRate === null ? 'w-1.5 bg-gray-100' : 'w-1.5 bg-gray-700'}
+                                style={{ height: `${Math.max(point.hitRate ?? 0, 0.08) * 100}%` }}
+                              />
+                            ))}
+                          </div>
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4 whitespace-nowrap text-gray-600">{formatDate(cache.oldestCreatedAt)}</td>
+                      <td className="py-3 text-right whitespace-nowrap text-gray-600">{formatBytes(cache.totalBytes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {selectedCache && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">{selectedCache.label}</h2>
+
+            {selectedCache.oldestEntries.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Voci più vecchie</h3>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {selectedCache.oldestEntries.map((entry) => (
+                    <li key={entry.id} className="flex gap-3">
+                      <span className="whitespace-nowrap text-gray-500">{formatDate(entry.createdAt)}</span>
+                      <button onClick={() => handleInspect(entry.id)} className="truncate text-left hover:underline">
+                        {entry.queryText}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Cerca nel testo della query..."
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+              <button type="submit" className="px-3 py-2 text-sm rounded-lg border border-gray-300 hover:bg-gray-50">
+                Cerca
+              </button>
+            </form>
+
+            {entriesLoading && !entries ? (
+              <p className="text-sm text-gray-600">Caricamento voci...</p>
+            ) : entries && entries.items.length === 0 ? (
+              <p className="text-sm text-gray-600">Nessuna voce trovata.</p>
+            ) : entries ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium">Query</th>
+                      <th className="py-2 pr-4 font-medium text-right">Hit</th>
+                      <th className="py-2 pr-4 font-medium">Creata</th>
+                      <th className="py-2 pr-4 font-medium">Scadenza</th>
+                      <th className="py-2 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.items.map((entry) => (
+                      <tr key={entry.id} className="border-b border-gray-100 align-top">
+                        <td className="py-3 pr-4 text-gray-900 max-w-md">
+                          <p className="line-clamp-2">{entry.queryText}</p>
+                        </td>
+                        <td className="py-3 pr-4 text-right text-gray-600">{entry.hitCount}</td>
+                        <td className="py-3 pr-4 whitespace-nowrap text-gray-600">{formatDate(entry.createdAt)}</td>
+                        <td className="py-3 pr-4 whitespace-nowrap text-gray-600">{formatDate(entry.expiresAt)}</td>
+                        <td className="py-3 whitespace-nowrap text-right">
+                          <button
+                            onClick={() => handleInspect(entry.id)}
+                            className="px-2 py-1 text-xs text-gray-700 hover:underline"
+                          >
+                            Dettagli
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entry.id, entry.queryText)}
+                            className="px-2 py-1 text-xs text-red-600 hover:underline"
+                          >
+                            Elimina
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+
+            {entries && entries.total > 0 && (
+              <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                <span>
+                  {entries.total} voci · pagina {entries.page} di {totalPages}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page <= 1 || entriesLoading}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 disabled:opacity-50"
+                  >
+                    Precedente
+                  </button>
+                  <button
+                    onClick={() => setPage((p) => p + 1)}
+                    disabled={page >= totalPages || entriesLoading}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 disabled:opacity-50"
+                  >
+                    Successiva
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {detail && (
+              <div className="mt-6 border-t border-gray-200 pt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">Dettaglio voce</h3>
+                  <button onClick={() => setDetail(null)} className="text-xs text-gray-500 hover:underline">
+                    Chiudi
+                  </button>
+                </div>
+                <p className="text-sm text-gray-900 mb-2">{detail.queryText}</p>
+                <pre className="text-xs bg-gray-50 border border-gray-200 rounded-lg p-3 overflow-auto max-h-96 whitespace-pre-wrap">
+                  {JSON.stringify(detail.data, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
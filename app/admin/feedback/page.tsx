@@ -0,0 +1,210 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FEEDBACK_REASONS, getFeedbackReasonLabel } from '@/lib/utils/feedback-reasons'
+import type { FeedbackList } from '@/lib/services/feedback-service'
+
+interface Filters {
+  rating: string
+  reason: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: Filters = { rating: '', reason: '', from: '', to: '' }
+
+export default function FeedbackAdminPage() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+  const [result, setResult] = useState<FeedbackList | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadFeedback = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams({ page: String(page) })
+    if (filters.rating) params.set('rating', filters.rating)
+    if (filters.reason) params.set('reason', filters.reason)
+    if (filters.from) params.set('from', `${filters.from}T00:00:00`)
+    // Data finale inclusa: fino alla fine della giornata
+    if (filters.to) params.set('to', `${filters.to}T23:59:59.999`)
+
+    try {
+      const response = await fetch(`/api/feedback?${params.toString()}`)
+      if (response.status === 403) {
+        throw new Error('Sezione riservata agli amministratori')
+      }
+      if (!response.ok) {
+        throw new Error('Errore nel caricamento dei feedback')
+      }
+      setResult(await response.json())
+    } catch (err) {
+      console.error('Error loading feedback:', err)
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento dei feedback')
+      setResult(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => {
+    loadFeedback()
+  }, [loadFeedback])
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value,
+      // Il motivo esiste solo per i feedback negativi
+      ...(key === 'rating' && value === 'up' ? { reason: '' } : {}),
+    }))
+    setPage(1)
+  }
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Feedback sulle risposte</h1>
+          <p className="text-sm text-gray-600 mb-6">
+            Valutazioni degli utenti sulle risposte dell&apos;assistente. Le risposte con feedback negativo
+            vengono rimosse dalla cache semantica.
+          </p>
+
+          {/* Filtri */}
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6">
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Valutazione</span>
+              <select
+                value={filters.rating}
+                onChange={(e) => updateFilter('rating', e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="">Tutte</option>
+                <option value="up">Positive</option>
+                <option value="down">Negative</option>
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Motivo</span>
+              <select
+                value={filters.reason}
+                onChange={(e) => updateFilter('reason', e.target.value)}
+                disabled={filters.rating === 'up'}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm disabled:opacity-50"
+              >
+                <option value="">Tutti</option>
+                {FEEDBACK_REASONS.map((reason) => (
+                  <option key={reason.value} value={reason.value}>
+                    {reason.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Dal</span>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">Al</span>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-600">Caricamento feedback...</p>
+          ) : result && result.items.length === 0 ? (
+            <p className="text-sm text-gray-600">Nessun feedback per i filtri selezionati.</p>
+          ) : result ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Data</th>
+                    <th className="py-2 pr-4 font-medium">Valutazione</th>
+                    <th className="py-2 pr-4 font-medium">Motivo</th>
+                    <th className="py-2 pr-4 font-medium">Domanda</th>
+                    <th className="py-2 pr-4 font-medium">Risposta</th>
+                    <th className="py-2 font-medium">Modello</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.items.map((item) => (
+                    <tr key={item.messageId} className="border-b border-gray-100 align-top">
+                      <td className="py-3 pr-4 whitespace-nowrap text-gray-600">
+                        {new Date(item.feedbackAt).toLocaleString('it-IT')}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span
+                          className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${
+                            item.rating === 'up' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                          }`}
+                        >
+                          {item.rating === 'up' ? 'Positiva' : 'Negativa'}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">{getFeedbackReasonLabel(item.reason) ?? '—'}</td>
+                      <td className="py-3 pr-4 text-gray-900 max-w-xs">
+                        {item.question || item.conversationTitle || '—'}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-600 max-w-md">
+                        <p className="line-clamp-3">{item.answerPreview}</p>
+                      </td>
+                      <td className="py-3 text-xs text-gray-500 whitespace-nowrap">
+                        {item.model?.replace('openrouter/', '') ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          {result && result.total > 0 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <span>
+                {result.total} feedback · pagina {result.page} di {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page <= 1 || loading}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 disabled:opacity-50"
+                >
+                  Precedente
+                </button>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page >= totalPages || loading}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 disabled:opacity-50"
+                >
+                  Successiva
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
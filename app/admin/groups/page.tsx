@@ -0,0 +1,313 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/components/ui/Toast'
+import type { UserGroup } from '@/lib/supabase/folder-permissions'
+import type { UserRoleItem } from '@/lib/services/user-role-service'
+
+interface FolderAcl {
+  name: string
+  groupIds: string[]
+}
+
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+}
+
+export default function GroupsAdminPage() {
+  const { showToast } = useToast()
+  const [groups, setGroups] = useState<UserGroup[]>([])
+  const [folders, setFolders] = useState<FolderAcl[]>([])
+  const [users, setUsers] = useState<UserRoleItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newGroupName, setNewGroupName] = useState('')
+  const [newGroupDescription, setNewGroupDescription] = useState('')
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+
+  const loadData = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const [groupsResponse, usersResponse] = await Promise.all([
+        fetch('/api/admin/groups'),
+        fetch('/api/admin/users'),
+      ])
+      if (groupsResponse.status === 403 || usersResponse.status === 403) {
+        throw new Error('Sezione riservata agli amministratori')
+      }
+      if (!groupsResponse.ok || !usersResponse.ok) {
+        throw new Error('Errore nel caricamento di gruppi e cartelle')
+      }
+      const groupsData = await groupsResponse.json()
+      const usersData = await usersResponse.json()
+      setGroups(groupsData.groups)
+      setFolders(groupsData.folders)
+      setUsers(usersData.users)
+    } catch (err) {
+      console.error('Error loading groups:', err)
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento di gruppi e cartelle')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const handleCreateGroup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newGroupName.trim()) return
+
+    setSavingKey('new-group')
+    try {
+      const response = await fetch('/api/admin/groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newGroupName, description: newGroupDescription }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Errore nella creazione del gruppo')
+      }
+      setGroups((prev) => [...prev, data.group].sort((a, b) => a.name.localeCompare(b.name)))
+      setNewGroupName('')
+      setNewGroupDescription('')
+      showToast('Gruppo creato', 'success')
+    } catch (err) {
+      console.error('Error creating group:', err)
+      showToast(err instanceof Error ? err.message : 'Errore nella creazione del gruppo', 'error')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handleDeleteGroup = async (group: UserGroup) => {
+    const warning = group.folders.length > 0
+      ? ` Le cartelle riservate solo a questo gruppo diventeranno visibili a tutti.`
+      : ''
+    if (!confirm(`Sei sicuro di voler eliminare il gruppo "${group.name}"?${warning}`)) return
+
+    setSavingKey(`group:${group.id}`)
+    try {
+      const response = await fetch(`/api/admin/groups/${group.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Errore nell'eliminazione del gruppo")
+      }
+      await loadData()
+      showToast('Gruppo eliminato', 'success')
+    } catch (err) {
+      console.error('Error deleting group:', err)
+      showToast(err instanceof Error ? err.message : "Errore nell'eliminazione del gruppo", 'error')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handleMemberToggle = async (group: UserGroup, userId: string) => {
+    const memberIds = toggle(group.memberIds, userId)
+
+    setSavingKey(`group:${group.id}`)
+    try {
+      const response = await fetch(`/api/admin/groups/${group.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ memberIds }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Errore nel salvataggio dei membri')
+      }
+      setGroups((prev) => prev.map((g) => (g.id === group.id ? { ...g, memberIds } : g)))
+    } catch (err) {
+      console.error('Error updating members:', err)
+      showToast(err instanceof Error ? err.message : 'Errore nel salvataggio dei membri', 'error')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handleFolderToggle = async (folder: FolderAcl, groupId: string) => {
+    const groupIds = toggle(folder.groupIds, groupId)
+
+    setSavingKey(`folder:${folder.name}`)
+    try {
+      const response = await fetch('/api/admin/folder-permissions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ folder: folder.name, groupIds }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Errore nel salvataggio dei permessi')
+      }
+      setFolders((prev) => prev.map((f) => (f.name === folder.name ? { ...f, groupIds } : f)))
+      setGroups((prev) => prev.map((g) => ({
+        ...g,
+        folders: groupIds.includes(g.id)
+          ? Array.from(new Set([...g.folders, folder.name])).sort()
+          : g.folders.filter((name) => name !== folder.name),
+      })))
+    } catch (err) {
+      console.error('Error updating folder permissions:', err)
+      showToast(err instanceof Error ? err.message : 'Errore nel salvataggio dei permessi', 'error')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Gruppi e cartelle riservate</h1>
+          <p className="text-sm text-gray-600">
+            Una cartella assegnata ad almeno un gruppo è visibile solo ai membri di quei gruppi: i suoi documenti
+            non compaiono nella ricerca, nelle risposte della chat né nelle citazioni degli altri utenti.
+            Le cartelle senza gruppi sono visibili a tutti. Gli amministratori vedono sempre tutte le cartelle.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Caricamento gruppi...</p>
+        ) : !error && (
+          <>
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Gruppi</h2>
+
+              <form onSubmit={handleCreateGroup} className="flex flex-col sm:flex-row gap-2 mb-6">
+                <input
+                  type="text"
+                  value={newGroupName}
+                  onChange={(e) => setNewGroupName(e.target.value)}
+                  placeholder="Nome del gruppo (es. Risorse umane)"
+                  className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm"
+                />
+                <input
+                  type="text"
+                  value={newGroupDescription}
+                  onChange={(e) => setNewGroupDescription(e.target.value)}
+                  placeholder="Descrizione (opzionale)"
+                  className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={!newGroupName.trim() || savingKey === 'new-group'}
+                  className="rounded-lg bg-blue-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Crea gruppo
+                </button>
+              </form>
+
+              {groups.length === 0 ? (
+                <p className="text-sm text-gray-600">Nessun gruppo. Crea un gruppo per riservare una cartella.</p>
+              ) : (
+                <div className="space-y-4">
+                  {groups.map((group) => (
+                    <div key={group.id} className="rounded-lg border border-gray-200 p-4">
+                      <div className="flex items-start justify-between gap-4 mb-3">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{group.name}</div>
+                          {group.description && (
+                            <div className="text-xs text-gray-500">{group.description}</div>
+                          )}
+                          <div className="text-xs text-gray-500 mt-1">
+                            {group.folders.length > 0
+                              ? `Cartelle: ${group.folders.join(', ')}`
+                              : 'Nessuna cartella assegnata'}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleDeleteGroup(group)}
+                          disabled={savingKey === `group:${group.id}`}
+                          className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          Elimina
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                        {users.map((user) => (
+                          <label key={user.userId} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={group.memberIds.includes(user.userId)}
+                              onChange={() => handleMemberToggle(group, user.userId)}
+                              disabled={savingKey === `group:${group.id}`}
+                            />
+                            {user.email ?? user.userId}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Cartelle</h2>
+
+              {folders.length === 0 ? (
+                <p className="text-sm text-gray-600">Nessuna cartella.</p>
+              ) : groups.length === 0 ? (
+                <p className="text-sm text-gray-600">Crea almeno un gruppo per riservare una cartella.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Cartella</th>
+                        <th className="py-2 pr-4 font-medium">Visibilità</th>
+                        <th className="py-2 font-medium">Gruppi ammessi</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {folders.map((folder) => (
+                        <tr key={folder.name} className="border-b border-gray-100 align-top">
+                          <td className="py-3 pr-4 text-gray-900">{folder.name}</td>
+                          <td className="py-3 pr-4 whitespace-nowrap">
+                            <span
+                              className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${
+                                folder.groupIds.length > 0 ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-700'
+                              }`}
+                            >
+                              {folder.groupIds.length > 0 ? 'Riservata' : 'Tutti'}
+                            </span>
+                          </td>
+                          <td className="py-3">
+                            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                              {groups.map((group) => (
+                                <label key={group.id} className="flex items-center gap-2 text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={folder.groupIds.includes(group.id)}
+                                    onChange={() => handleFolderToggle(folder, group.id)}
+                                    disabled={savingKey === `folder:${folder.name}`}
+                                  />
+                                  {group.name}
+                                </label>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useToast } from '@/components/ui/Toast'
+import { ROLE_LABELS, USER_ROLES, type UserRole } from '@/lib/auth/roles'
+import type { UserRoleItem } from '@/lib/services/user-role-service'
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Tutto, incluse impostazioni, diagnostica, feedback e ruoli',
+  editor: 'Carica, elimina, sposta e aggiorna i documenti',
+  reader: 'Usa la chat e consulta i documenti',
+}
+
+export default function UsersAdminPage() {
+  const { showToast } = useToast()
+  const [users, setUsers] = useState<UserRoleItem[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingUserId, setSavingUserId] = useState<string | null>(null)
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/users')
+      if (response.status === 403) {
+        throw new Error('Sezione riservata agli amministratori')
+      }
+      if (!response.ok) {
+        throw new Error('Errore nel caricamento degli utenti')
+      }
+      const data = await response.json()
+      setUsers(data.users)
+      setCurrentUserId(data.currentUserId)
+    } catch (err) {
+      console.error('Error loading users:', err)
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento degli utenti')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const handleRoleChange = async (userId: string, role: UserRole) => {
+    setSavingUserId(userId)
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Errore nel salvataggio del ruolo')
+      }
+      setUsers((prev) => prev.map((u) => (u.userId === userId ? { ...u, role } : u)))
+      showToast('Ruolo aggiornato', 'success')
+    } catch (err) {
+      console.error('Error updating role:', err)
+      showToast(err instanceof Error ? err.message : 'Errore nel salvataggio del ruolo', 'error')
+    } finally {
+      setSavingUserId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Utenti e ruoli</h1>
+          <p className="text-sm text-gray-600 mb-4">
+            Il ruolo determina le azioni consentite. I nuovi utenti sono lettori finché un amministratore
+            non assegna un ruolo diverso.
+          </p>
+
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+            {USER_ROLES.map((role) => (
+              <div key={role} className="rounded-lg border border-gray-200 px-3 py-2">
+                <dt className="text-sm font-medium text-gray-900">{ROLE_LABELS[role]}</dt>
+                <dd className="text-xs text-gray-600">{ROLE_DESCRIPTIONS[role]}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-600">Caricamento utenti...</p>
+          ) : users.length === 0 && !error ? (
+            <p className="text-sm text-gray-600">Nessun utente registrato.</p>
+          ) : users.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Utente</th>
+                    <th className="py-2 pr-4 font-medium">Ultimo accesso</th>
+                    <th className="py-2 font-medium">Ruolo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((user) => (
+                    <tr key={user.userId} className="border-b border-gray-100 align-top">
+                      <td className="py-3 pr-4">
+                        <div className="text-gray-900">{user.email ?? '—'}</div>
+                        {user.displayName && user.displayName !== user.email && (
+                          <div className="text-xs text-gray-500">{user.displayName}</div>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 whitespace-nowrap text-gray-600">
+                        {user.lastSignInAt ? new Date(user.lastSignInAt).toLocaleString('it-IT') : 'Mai'}
+                      </td>
+                      <td className="py-3">
+                        {user.bootstrapAdmin ? (
+                          <span
+                            className="inline-block rounded-full px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-700"
+                            title="Amministratore definito in ADMIN_EMAILS"
+                          >
+                            {ROLE_LABELS.admin} (ADMIN_EMAILS)
+                          </span>
+                        ) : (
+                          <select
+                            value={user.role}
+                            onChange={(e) => handleRoleChange(user.userId, e.target.value as UserRole)}
+                            disabled={savingUserId === user.userId || user.userId === currentUserId}
+                            title={user.userId === currentUserId ? 'Non puoi modificare il tuo ruolo' : undefined}
+                            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm disabled:opacity-50"
+                          >
+                            {USER_ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  )
+}
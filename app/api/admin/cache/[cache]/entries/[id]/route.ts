@@ -0,0 +1,59 @@
+/**
+ * API per ispezionare o eliminare una voce di una cache (solo amministratori)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { deleteCacheEntry, getCacheEntry, isCacheName } from '@/lib/services/cache-admin-service'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { cache: string; id: string } }
+) {
+  try {
+    const auth = await requirePermission('cache:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    if (!isCacheName(params.cache)) {
+      return NextResponse.json({ error: 'Cache non trovata' }, { status: 404 })
+    }
+
+    const entry = await getCacheEntry(params.cache, params.id)
+    if (!entry) {
+      return NextResponse.json({ error: 'Voce non trovata' }, { status: 404 })
+    }
+
+    return NextResponse.json({ entry })
+  } catch (error) {
+    console.error('[api/admin/cache] Entry lookup error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { cache: string; id: string } }
+) {
+  try {
+    const auth = await requirePermission('cache:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    if (!isCacheName(params.cache)) {
+      return NextResponse.json({ error: 'Cache non trovata' }, { status: 404 })
+    }
+
+    const deleted = await deleteCacheEntry(params.cache, params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Voce non trovata' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[api/admin/cache] Entry delete error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * API per l'elenco delle voci di una cache (solo amministratori)
+ *
+ * Query params: q (ricerca nel testo della query), page
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { isCacheName, listCacheEntries } from '@/lib/services/cache-admin-service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { cache: string } }
+) {
+  try {
+    const auth = await requirePermission('cache:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    if (!isCacheName(params.cache)) {
+      return NextResponse.json({ error: 'Cache non trovata' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const page = parseInt(searchParams.get('page') || '1', 10)
+
+    const result = await listCacheEntries(params.cache, {
+      search: searchParams.get('q') || undefined,
+      page: isNaN(page) ? 1 : page,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[api/admin/cache] Entry list error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * API per avviare manualmente la pulizia delle voci scadute (solo amministratori)
+ * La stessa pulizia è eseguita ogni notte dal cron su /api/cache/cleanup
+ */
+
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { runCacheCleanup } from '@/lib/services/cache-admin-service'
+
+export async function POST() {
+  try {
+    const auth = await requirePermission('cache:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const results = await runCacheCleanup()
+    return NextResponse.json({ success: true, results })
+  } catch (error) {
+    console.error('[api/admin/cache/cleanup] Cleanup error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
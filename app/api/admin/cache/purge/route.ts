@@ -0,0 +1,54 @@
+/**
+ * API per svuotare la cache semantica delle risposte (solo amministratori)
+ * Criteri combinabili: documento citato, cartella dei documenti citati, età della voce
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { purgeCache, type CachePurgeFilter } from '@/lib/supabase/semantic-cache'
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('cache:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const { documentId, folder, olderThanDays } = await request.json()
+    const filter: CachePurgeFilter = {}
+
+    if (documentId !== undefined) {
+      if (typeof documentId !== 'string' || documentId.trim().length === 0) {
+        return NextResponse.json({ error: 'documentId deve essere un ID documento' }, { status: 400 })
+      }
+      filter.documentId = documentId
+    }
+    if (folder !== undefined) {
+      if (folder !== null && (typeof folder !== 'string' || folder.trim().length === 0)) {
+        return NextResponse.json({ error: 'folder deve essere un nome di cartella o null' }, { status: 400 })
+      }
+      filter.folder = folder
+    }
+    if (olderThanDays !== undefined) {
+      if (typeof olderThanDays !== 'number' || !Number.isFinite(olderThanDays) || olderThanDays < 0) {
+        return NextResponse.json({ error: 'olderThanDays deve essere un numero di giorni' }, { status: 400 })
+      }
+      filter.olderThan = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+    }
+
+    if (Object.keys(filter).length === 0) {
+      return NextResponse.json(
+        { error: 'Indicare almeno un criterio: documentId, folder o olderThanDays' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await purgeCache(filter)
+    console.log('[api/admin/cache/purge] Cache purged:', { userId: auth.user.id, documentId, folder, olderThanDays, deleted })
+
+    return NextResponse.json({ success: true, deleted })
+  } catch (error) {
+    console.error('[api/admin/cache/purge] Purge error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
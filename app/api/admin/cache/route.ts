@@ -0,0 +1,26 @@
+/**
+ * API per le statistiche delle cache delle query (solo amministratori)
+ *
+ * Query params: days (ampiezza della serie dell'hit rate, 1-90, default 14)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { getCacheOverview } from '@/lib/services/cache-admin-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('cache:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '14', 10)
+    const caches = await getCacheOverview(isNaN(days) ? 14 : Math.min(Math.max(days, 1), 90))
+
+    return NextResponse.json({ caches })
+  } catch (error) {
+    console.error('[api/admin/cache] Stats error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * API per assegnare i gruppi ammessi a una cartella (solo amministratori)
+ * Nessun gruppo = cartella aperta a tutti gli utenti
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { setFolderGroups } from '@/lib/supabase/folder-permissions'
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requirePermission('users:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const { folder, groupIds } = await request.json()
+
+    if (typeof folder !== 'string' || folder.trim().length === 0) {
+      return NextResponse.json({ error: 'folder è obbligatorio' }, { status: 400 })
+    }
+    if (!Array.isArray(groupIds) || groupIds.some((id) => typeof id !== 'string')) {
+      return NextResponse.json({ error: 'groupIds deve essere una lista di ID gruppo' }, { status: 400 })
+    }
+
+    await setFolderGroups(folder, groupIds)
+    return NextResponse.json({ success: true, folder, groupIds })
+  } catch (error) {
+    console.error('[api/admin/folder-permissions] ACL update error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * API per aggiornare i membri di un gruppo o eliminarlo (solo amministratori)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { deleteUserGroup, setGroupMembers } from '@/lib/supabase/folder-permissions'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission('users:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const { memberIds } = await request.json()
+
+    if (!Array.isArray(memberIds) || memberIds.some((id) => typeof id !== 'string')) {
+      return NextResponse.json({ error: 'memberIds deve essere una lista di ID utente' }, { status: 400 })
+    }
+
+    await setGroupMembers(params.id, memberIds)
+    return NextResponse.json({ success: true, groupId: params.id, memberIds })
+  } catch (error) {
+    console.error('[api/admin/groups] Member update error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission('users:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    await deleteUserGroup(params.id)
+    return NextResponse.json({ success: true, groupId: params.id })
+  } catch (error) {
+    console.error('[api/admin/groups] Group deletion error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
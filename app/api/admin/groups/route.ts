@@ -0,0 +1,64 @@
+/**
+ * API per i gruppi di utenti e l'ACL delle cartelle (solo amministratori)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { listFoldersMeta } from '@/lib/supabase/meta-queries'
+import {
+  SYSTEM_DOCUMENT_ACCESS,
+  createUserGroup,
+  listFolderPermissions,
+  listUserGroups,
+} from '@/lib/supabase/folder-permissions'
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('users:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const [groups, acl, folderMeta] = await Promise.all([
+      listUserGroups(),
+      listFolderPermissions(),
+      listFoldersMeta(SYSTEM_DOCUMENT_ACCESS),
+    ])
+
+    // Anche le cartelle ancora vuote possono avere un'ACL
+    const folderNames = Array.from(new Set([...folderMeta.map((f) => f.name), ...Object.keys(acl)]))
+      .sort((a, b) => a.localeCompare(b))
+    const folders = folderNames.map((name) => ({ name, groupIds: acl[name] || [] }))
+
+    return NextResponse.json({ groups, folders })
+  } catch (error) {
+    console.error('[api/admin/groups] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('users:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const { name, description } = await request.json()
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return NextResponse.json({ error: 'name è obbligatorio' }, { status: 400 })
+    }
+
+    const existing = await listUserGroups()
+    if (existing.some((group) => group.name.toLowerCase() === name.trim().toLowerCase())) {
+      return NextResponse.json({ error: 'Esiste già un gruppo con questo nome' }, { status: 409 })
+    }
+
+    const group = await createUserGroup(name, typeof description === 'string' ? description : null)
+    return NextResponse.json({ success: true, group }, { status: 201 })
+  } catch (error) {
+    console.error('[api/admin/groups] Group creation error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API per assegnare il ruolo a un utente (solo amministratori)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { isUserRole } from '@/lib/auth/roles'
+import { setUserRole } from '@/lib/services/user-role-service'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission('users:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const { role } = await request.json()
+
+    if (!isUserRole(role)) {
+      return NextResponse.json({ error: "role deve essere 'admin', 'editor' o 'reader'" }, { status: 400 })
+    }
+
+    // Evita che l'ultimo amministratore si tolga l'accesso a questa pagina
+    if (params.id === auth.user.id && role !== 'admin') {
+      return NextResponse.json({ error: 'Non puoi rimuovere il tuo ruolo di amministratore' }, { status: 400 })
+    }
+
+    const updated = await setUserRole(params.id, role)
+    if (!updated) {
+      return NextResponse.json({ error: 'Utente non trovato' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, userId: params.id, role })
+  } catch (error) {
+    console.error('[api/admin/users] Role update error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
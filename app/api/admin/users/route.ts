@@ -0,0 +1,22 @@
+/**
+ * API per l'elenco degli utenti con il loro ruolo (solo amministratori)
+ */
+
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { listUsersWithRoles } from '@/lib/services/user-role-service'
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('users:manage')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const users = await listUsersWithRoles()
+    return NextResponse.json({ users, currentUserId: auth.user.id })
+  } catch (error) {
+    console.error('[api/admin/users] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
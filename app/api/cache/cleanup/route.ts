@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequestAuthorized } from '@/lib/auth/cron'
+import { runCacheCleanup } from '@/lib/services/cache-admin-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cache/cleanup
+ * Invocato dal cron notturno: elimina le voci scadute di tutte le cache delle query
+ */
+export async function GET(req: NextRequest) {
+  if (!isCronRequestAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const results = await runCacheCleanup()
+
+    return NextResponse.json({
+      success: true,
+      results,
+    })
+  } catch (error) {
+    console.error('[api/cache/cleanup] Cleanup run failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Cache cleanup failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
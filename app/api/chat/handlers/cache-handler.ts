@@ -8,7 +8,9 @@
  * - qui si aggiunge solo metadata aggiuntiva per dettagli interni
  */
 
+import { createHash } from 'crypto'
 import { findCachedResponse, saveCachedResponse } from '@/lib/supabase/semantic-cache'
+import { isFollowUpQuery, type ConversationMessage } from '@/lib/context/conversation-context'
 import type { Source } from '@/lib/services/citation-service'
 import { processCitations } from '@/lib/services/citation-service'
 import type { TraceContext } from '@/lib/observability/langfuse'
@@ -21,10 +23,99 @@ export interface CachedResponse {
 
 export interface CacheResult {
   cached: boolean
+  cacheId?: string // ID della voce in query_cache (per l'eviction su feedback negativo)
   response?: string
   sources?: Source[]
 }
 
+/**
+ * Scope di retrieval che partiziona la cache semantica
+ * Una risposta generata con uno scope non viene mai servita per uno scope diverso
+ */
+export interface CacheScope {
+  folder?: string | null
+  documentIds?: string[] // Documenti taggati con @ (ricerca ristretta a quei documenti)
+  includeHistory?: boolean // Risposte costruite anche su versioni superate dei documenti
+  deniedFolders?: string[] // Cartelle riservate non leggibili dall'utente (ACL)
+  model?: string // Modello previsto per la risposta
+  conversationFingerprint?: string | null // Contesto della conversazione, solo per le domande di follow-up
+}
+
+/**
+ * Contesto della conversazione rilevante per la cache
+ * Una domanda di follow-up ("e per l'articolo 5?") ha senso solo nel contesto dello scambio
+ * precedente: la sua risposta è riusata solo a parità di contesto (fingerprint)
+ */
+export interface ConversationCacheContext {
+  isFollowUp: boolean
+  fingerprint: string | null // null = domanda autonoma, chiave condivisa tra conversazioni
+}
+
+// Soglia di similarità per le domande di follow-up (default 0.95 per le domande autonome)
+const FOLLOW_UP_CACHE_THRESHOLD = 0.98
+
+// Messaggi della cronologia che definiscono il contesto di un follow-up (ultimo scambio)
+const FINGERPRINT_MESSAGES = 2
+
+function normalizeForFingerprint(content: string): string {
+  return content.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Impronta dell'ultimo scambio della conversazione (domanda e risposta precedenti)
+ */
+export function buildConversationFingerprint(history: ConversationMessage[]): string {
+  const recent = history
+    .slice(-FINGERPRINT_MESSAGES)
+    .map((msg) => `${msg.role}:${normalizeForFingerprint(msg.content)}`)
+    .join('\n')
+  return createHash('sha256').update(recent).digest('hex').substring(0, 16)
+}
+
+/**
+ * Decide se la query dipende dalla conversazione (follow-up) e ne calcola l'impronta
+ */
+export function getConversationCacheContext(
+  query: string,
+  history: ConversationMessage[] | undefined
+): ConversationCacheContext {
+  if (!history || history.length === 0 || !isFollowUpQuery(query, history)) {
+    return { isFollowUp: false, fingerprint: null }
+  }
+  return { isFollowUp: true, fingerprint: buildConversationFingerprint(history) }
+}
+
+/**
+ * Costruisce la chiave di scope salvata in query_cache.scope_key
+ * Stringa vuota = nessuno scope (intero corpus, solo ultime versioni, nessuna cartella negata)
+ *
+ * Le cartelle negate fanno parte della chiave: una risposta è riusata solo da utenti che
+ * vedono esattamente le stesse cartelle, e ogni modifica all'ACL o ai gruppi cambia la chiave.
+ * Documenti taggati, modello e contesto dei follow-up restringono ulteriormente la chiave
+ */
+export function buildCacheScopeKey(scope?: CacheScope): string {
+  const parts: string[] = []
+  if (scope?.folder) {
+    parts.push(`folder:${scope.folder}`)
+  }
+  if (scope?.documentIds && scope.documentIds.length > 0) {
+    parts.push(`docs:${Array.from(new Set(scope.documentIds)).sort().join(',')}`)
+  }
+  if (scope?.includeHistory) {
+    parts.push('history')
+  }
+  if (scope?.deniedFolders && scope.deniedFolders.length > 0) {
+    parts.push(`deny:${[...scope.deniedFolders].sort().join(',')}`)
+  }
+  if (scope?.model) {
+    parts.push(`model:${scope.model}`)
+  }
+  if (scope?.conversationFingerprint) {
+    parts.push(`ctx:${scope.conversationFingerprint}`)
+  }
+  return parts.join('|')
+}
+
 /**
  * Cerca una risposta cached per la query
  * 
@@ -35,7 +126,8 @@ export async function lookupCache(
   query: string,
   queryEmbedding: number[],
   skipCache: boolean = false,
-  _traceContext?: TraceContext | null
+  _traceContext?: TraceContext | null,
+  scope?: CacheScope
 ): Promise<CacheResult> {
   if (skipCache) {
     console.log('[cache-handler] Cache lookup skipped (skipCache=true)')
@@ -49,7 +141,8 @@ export async function lookupCache(
   }
 
   try {
-    const cached = await findCachedResponse(queryEmbedding)
+    const threshold = scope?.conversationFingerprint ? FOLLOW_UP_CACHE_THRESHOLD : undefined
+    const cached = await findCachedResponse(queryEmbedding, threshold, buildCacheScopeKey(scope))
     
     if (!cached || !cached.response_text || cached.response_text.trim().length === 0) {
       console.log('[cache-handler] Cache miss')
@@ -124,6 +217,7 @@ export async function lookupCache(
 
     return {
       cached: true,
+      cacheId: cached.id,
       response: processedResponse,
       sources: cachedSources,
     }
@@ -142,7 +236,8 @@ export function saveCache(
   query: string,
   queryEmbedding: number[],
   response: string,
-  sources: Source[]
+  sources: Source[],
+  scope?: CacheScope
 ): void {
   // Check if conversation cache is disabled
   if (!isCacheEnabled('conversation')) {
@@ -151,7 +246,7 @@ export function saveCache(
   }
 
   // Fire-and-forget: Start save but don't wait for completion
-  saveCachedResponse(query, queryEmbedding, response, sources).catch((error) => {
+  saveCachedResponse(query, queryEmbedding, response, sources, undefined, buildCacheScopeKey(scope)).catch((error) => {
     console.error('[cache-handler] Fire-and-forget cache save failed:', {
       queryPreview: query.substring(0, 50),
       error: error.message || error,
@@ -6,14 +6,22 @@
 
 import { 
   getRagAgentForModel,
-  clearToolResults,
+  createToolExecutionContext,
   getWebSearchResults,
   getMetaQueryDocuments,
-  getMetaQueryChunks
+  getMetaQueryChunks,
+  type ToolExecutionContext
 } from '@/lib/mastra/agent'
-import { buildSystemPrompt } from '@/lib/llm/system-prompt'
+import type { Agent } from '@mastra/core/agent'
+import {
+  buildSystemPrompt,
+  type SystemPromptOverride,
+  type SystemPromptUsage,
+  type VersionComparisonInfo,
+} from '@/lib/llm/system-prompt'
 import { DEFAULT_FLASH_MODEL, DEFAULT_PRO_MODEL } from '@/lib/llm/models'
 import type { SearchResult } from '@/lib/supabase/database.types'
+import type { DocumentAccess } from '@/lib/supabase/folder-permissions'
 import type { QueryAnalysisResult } from '@/lib/embeddings/query-analysis'
 import { extractUniqueDocumentNames, calculateAverageSimilarity } from '../services/context-builder'
 import { evaluateWebSearchNeed, formatDecisionForLog } from '@/lib/decisions/web-search-strategy'
@@ -33,6 +41,11 @@ import {
   type TraceContext 
 } from '@/lib/observability/langfuse'
 
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
 export interface ResponseContext {
   message: string
   conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>
@@ -48,9 +61,25 @@ export interface ResponseContext {
   metaQueryChunks?: SearchResult[]
   webSearchEnabled: boolean
   articleNumber?: number
+  folderScope?: string | null // Cartella a cui è ristretta la conversazione
+  documentAccess?: DocumentAccess // Utente della richiesta, per l'ACL delle cartelle nei tools
+  versionComparison?: VersionComparisonInfo // Versioni confrontate (intent version_changes)
+  promptAssignmentKey?: string // Chiave per la variante degli esperimenti sui prompt
+  promptOverride?: SystemPromptOverride // Label/versione forzata del system prompt (playground)
   traceContext?: TraceContext | null
 }
 
+/**
+ * Dati necessari a processResponse per risolvere le citazioni
+ * (sottoinsieme di ResponseContext, salvabile per rigenerare la risposta)
+ */
+export interface CitationContext {
+  sources: Source[]
+  webSearchResults?: Array<{ index: number; title: string; url: string; content: string }>
+  metaQueryDocuments?: MetaDocument[]
+  analysis: Pick<QueryAnalysisResult, 'isMeta' | 'metaType'>
+}
+
 export interface ResponseResult {
   content: string
   sources: Source[]
@@ -64,6 +93,113 @@ export interface GenerateResponseResult {
   metaQueryDocuments?: MetaDocument[]
   metaQueryChunks?: SearchResult[] // Chunks effettivi dei documenti meta query
   webSearchResults?: Array<{ index: number; title: string; url: string; content: string }>
+  toolContext: ToolExecutionContext // Contesto tools della request (risultati isolati)
+  llmMessages: LLMMessage[] // Messaggi inviati al modello (system prompt con il contesto recuperato)
+  prompt: SystemPromptUsage // System prompt usato (versione e variante dell'esperimento)
+}
+
+/**
+ * Esegue l'agent in streaming inoltrando il testo al client
+ * (fallback a generate() se lo stream non è disponibile)
+ *
+ * @returns Il testo completo generato (stringa vuota se anche il fallback fallisce)
+ */
+export async function streamAgentText(
+  agent: Agent,
+  messages: LLMMessage[],
+  streamOptions: Record<string, unknown>,
+  streamController: StreamController
+): Promise<string> {
+  let fullResponse = ''
+
+  // Execute agent stream directly (no AsyncLocalStorage wrapper needed)
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = await agent.stream(messages as any, streamOptions as any)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const streamSource = (result as any).textStream || (result as any).stream || ((result as any)[Symbol.asyncIterator] ? result : null)
+
+    if (streamSource && typeof streamSource[Symbol.asyncIterator] === 'function') {
+      let firstChunk = true
+      for await (const chunk of streamSource) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const content = typeof chunk === 'string' ? chunk : (chunk as any)?.text || (chunk as any)?.content || ''
+        if (content) {
+          if (firstChunk) {
+            try {
+              streamController.hideStatus()
+            } catch (error) {
+              // Controller potrebbe essere chiuso, continua comunque
+              console.warn('[response-handler] Failed to hide status:', error)
+            }
+            firstChunk = false
+          }
+          
+          fullResponse += content
+          try {
+            streamController.sendText(content)
+          } catch (error) {
+            // Controller potrebbe essere chiuso, continua comunque
+            console.warn('[response-handler] Failed to send text chunk:', error)
+          }
+        }
+      }
+    } else {
+      throw new Error('No valid stream source found')
+    }
+  } catch (streamError) {
+    console.error('[response-handler] Stream failed, trying generate():', streamError)
+    
+    // Fallback a generate() se stream() non funziona
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const generated = await agent.generate(messages as any)
+      
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const generatedText = (generated as any).text || (generated as any).content || String(generated) || ''
+      fullResponse = generatedText
+      
+      if (fullResponse) {
+        try {
+          streamController.hideStatus()
+          
+          // Stream la risposta completa in chunks per simulare lo streaming
+          const words = fullResponse.split(/\s+/)
+          for (const word of words) {
+            const chunk = word + ' '
+            try {
+              streamController.sendText(chunk)
+            } catch (error) {
+              // Controller chiuso, interrompi lo streaming
+              console.warn('[response-handler] Stream controller closed during fallback streaming')
+              break
+            }
+            await new Promise(resolve => setTimeout(resolve, 10))
+          }
+        } catch (error) {
+          // Controller chiuso, continua comunque per salvare la risposta
+          console.warn('[response-handler] Stream controller closed during fallback:', error)
+        }
+      }
+    } catch (generateError) {
+      console.error('[response-handler] Generate fallback also failed:', generateError)
+      // Continua comunque per recuperare i risultati dal cache
+    }
+  }
+
+  return fullResponse
+}
+
+/**
+ * Modello della risposta se il prompt Langfuse non ne indica uno:
+ * pro per confronti e modifiche tra versioni, flash per le altre domande
+ */
+export function selectFallbackModel(
+  analysis: Pick<QueryAnalysisResult, 'isComparative'>,
+  hasVersionComparison: boolean
+): string {
+  return analysis.isComparative || hasVersionComparison ? DEFAULT_PRO_MODEL : DEFAULT_FLASH_MODEL
 }
 
 /**
@@ -81,6 +217,7 @@ export async function generateResponse(
     context: contextText,
     webSearchEnabled,
     articleNumber,
+    versionComparison,
   } = context
 
   // CRITICAL: isMetaQuery deve includere TUTTI i tipi di meta query, non solo "list"
@@ -112,7 +249,11 @@ export async function generateResponse(
     : []
 
   // Costruisci system prompt (now async with Langfuse)
-  const { text: systemPromptText, config: systemPromptConfig } = await buildSystemPrompt({
+  const {
+    text: systemPromptText,
+    config: systemPromptConfig,
+    prompt: systemPromptUsage,
+  } = await buildSystemPrompt({
     hasContext: contextText !== null,
     context: contextText || undefined,
     documentCount: relevantResults.length,
@@ -123,9 +264,12 @@ export async function generateResponse(
     sourcesInsufficient: SOURCES_INSUFFICIENT,
     avgSimilarity,
     isMetaQuery,
+    versionComparison,
+    promptAssignmentKey: context.promptAssignmentKey,
+    promptOverride: context.promptOverride,
   })
 
-  const messages = [
+  const messages: LLMMessage[] = [
     {
       role: 'system' as const,
       content: systemPromptText,
@@ -154,7 +298,6 @@ export async function generateResponse(
     maxToolRoundtrips: streamOptions.maxToolRoundtrips || 'unlimited',
   })
 
-  let fullResponse = ''
   let capturedMetaDocuments: Array<{ id: string; filename: string; index: number }> = []
   let capturedMetaChunks: SearchResult[] = []
   let capturedWebResults: Array<{ index: number; title: string; url: string; content: string }> = []
@@ -164,7 +307,7 @@ export async function generateResponse(
       ? (systemPromptConfig as { model: string }).model
       : undefined
 
-  const fallbackModel = analysis.isComparative ? DEFAULT_PRO_MODEL : DEFAULT_FLASH_MODEL
+  const fallbackModel = selectFallbackModel(analysis, Boolean(versionComparison))
   const requestedModel = promptModel ?? fallbackModel
   
   // CRITICAL: Per meta query, forza webSearchEnabled=true per usare agent predefinito
@@ -172,7 +315,13 @@ export async function generateResponse(
   // Le meta query non useranno mai web_search comunque, quindi è sicuro
   const effectiveWebSearchEnabled = isMetaQuery ? true : webSearchEnabled
   
-  const selectedAgent = getRagAgentForModel(requestedModel, effectiveWebSearchEnabled)
+  // Contesto tools dedicato a questa request: i risultati non sono condivisi con altre request
+  // I tools (meta_query) rispettano lo scope cartella della conversazione
+  const toolContext = createToolExecutionContext({
+    folder: context.folderScope ?? null,
+    access: context.documentAccess,
+  })
+  const selectedAgent = getRagAgentForModel(requestedModel, effectiveWebSearchEnabled, toolContext)
 
   console.log('[response-handler] Selected LLM model', {
     requestedModel,
@@ -184,91 +333,14 @@ export async function generateResponse(
     isMetaQuery,
   })
 
-  // Clear previous tool results before starting new agent execution
-  clearToolResults()
-
-  // Execute agent stream directly (no AsyncLocalStorage wrapper needed)
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await selectedAgent.stream(messages as any, streamOptions as any)
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const streamSource = (result as any).textStream || (result as any).stream || ((result as any)[Symbol.asyncIterator] ? result : null)
-
-    if (streamSource && typeof streamSource[Symbol.asyncIterator] === 'function') {
-      let firstChunk = true
-      for await (const chunk of streamSource) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const content = typeof chunk === 'string' ? chunk : (chunk as any)?.text || (chunk as any)?.content || ''
-        if (content) {
-          if (firstChunk) {
-            try {
-              streamController.hideStatus()
-            } catch (error) {
-              // Controller potrebbe essere chiuso, continua comunque
-              console.warn('[response-handler] Failed to hide status:', error)
-            }
-            firstChunk = false
-          }
-          
-          fullResponse += content
-          try {
-            streamController.sendText(content)
-          } catch (error) {
-            // Controller potrebbe essere chiuso, continua comunque
-            console.warn('[response-handler] Failed to send text chunk:', error)
-          }
-        }
-      }
-    } else {
-      throw new Error('No valid stream source found')
-    }
-  } catch (streamError) {
-    console.error('[response-handler] Stream failed, trying generate():', streamError)
-    
-    // Fallback a generate() se stream() non funziona
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const generated = await selectedAgent.generate(messages as any)
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const generatedText = (generated as any).text || (generated as any).content || String(generated) || ''
-      fullResponse = generatedText
-      
-      if (fullResponse) {
-        try {
-          streamController.hideStatus()
-          
-          // Stream la risposta completa in chunks per simulare lo streaming
-          const words = fullResponse.split(/\s+/)
-          for (const word of words) {
-            const chunk = word + ' '
-            try {
-              streamController.sendText(chunk)
-            } catch (error) {
-              // Controller chiuso, interrompi lo streaming
-              console.warn('[response-handler] Stream controller closed during fallback streaming')
-              break
-            }
-            await new Promise(resolve => setTimeout(resolve, 10))
-          }
-        } catch (error) {
-          // Controller chiuso, continua comunque per salvare la risposta
-          console.warn('[response-handler] Stream controller closed during fallback:', error)
-        }
-      }
-    } catch (generateError) {
-      console.error('[response-handler] Generate fallback also failed:', generateError)
-      // Continua comunque per recuperare i risultati dal cache
-    }
-  }
+  const fullResponse = await streamAgentText(selectedAgent, messages, streamOptions, streamController)
   
-  // Recupera i documenti E chunks dal cache dopo l'esecuzione dell'agent
-  capturedMetaDocuments = getMetaQueryDocuments()
-  capturedMetaChunks = getMetaQueryChunks()
-  capturedWebResults = getWebSearchResults()
+  // Recupera i documenti E chunks dal contesto tools dopo l'esecuzione dell'agent
+  capturedMetaDocuments = getMetaQueryDocuments(toolContext)
+  capturedMetaChunks = getMetaQueryChunks(toolContext)
+  capturedWebResults = getWebSearchResults(toolContext)
   
-  console.log('[response-handler] Captured from agent cache:', {
+  console.log('[response-handler] Captured from tool context:', {
     metaDocumentsCount: capturedMetaDocuments.length,
     metaChunksCount: capturedMetaChunks.length,
     webResultsCount: capturedWebResults.length,
@@ -296,6 +368,9 @@ export async function generateResponse(
         contextLength: contextText?.length || 0,
         sourcesInsufficient: SOURCES_INSUFFICIENT,
         avgSimilarity,
+        promptName: systemPromptUsage.name,
+        promptVersion: systemPromptUsage.version,
+        promptVariant: systemPromptUsage.variant?.variant ?? null,
       }
     )
 
@@ -321,6 +396,9 @@ export async function generateResponse(
       url: (r as { url: string }).url || '',
       content: (r as { content: string }).content || '',
     })),
+    toolContext,
+    llmMessages: messages,
+    prompt: systemPromptUsage,
   }
 }
 
@@ -329,7 +407,7 @@ export async function generateResponse(
  */
 export async function processResponse(
   fullResponse: string,
-  context: ResponseContext,
+  context: CitationContext,
   model: string
 ): Promise<ResponseResult> {
   const { sources, webSearchResults, metaQueryDocuments, analysis } = context
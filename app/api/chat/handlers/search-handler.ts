@@ -9,15 +9,67 @@
  */
 
 import { generateEmbedding } from '@/lib/embeddings/openai'
-import { hybridSearch } from '@/lib/supabase/vector-operations'
+import { hybridSearch, getChunksByDocumentIds } from '@/lib/supabase/vector-operations'
 import { extractPossibleFilenames, searchByFilename, combineSearchResults } from '@/lib/supabase/filename-search'
 import type { SearchResult } from '@/lib/supabase/database.types'
+import type { DocumentAccess } from '@/lib/supabase/folder-permissions'
 import type { QueryAnalysisResult } from '@/lib/embeddings/query-analysis'
 import { createSpan, endSpan, type TraceContext } from '@/lib/observability/langfuse'
 
 const COMPARATIVE_PER_TERM_LIMIT = 8
 const COMPARATIVE_TARGET_RESULTS = 20
 const COMPARATIVE_FALLBACK_LIMIT = 20
+const SCOPED_FALLBACK_CHUNKS_PER_DOCUMENT = 5
+
+/**
+ * Scope di ricerca opzionale
+ * - documentIds: documenti taggati con @documento nella chat
+ * - folder: cartella a cui è ristretta la conversazione
+ * - includeHistory: include anche le versioni superate dei documenti
+ * - access: utente che legge, per l'ACL delle cartelle (assente = solo cartelle aperte)
+ */
+export interface SearchScope {
+  documentIds?: string[]
+  folder?: string | null
+  includeHistory?: boolean
+  access?: DocumentAccess
+}
+
+/**
+ * Hybrid search con scope opzionale su documenti e cartella
+ *
+ * hybrid_search accetta un solo p_document_id, quindi con più documenti taggati
+ * esegue una ricerca per documento e combina i risultati per similarity
+ */
+export async function scopedHybridSearch(
+  queryEmbedding: number[],
+  queryText: string,
+  limit: number,
+  threshold: number,
+  vectorWeight: number,
+  articleNumber?: number,
+  scope?: SearchScope
+): Promise<SearchResult[]> {
+  const documentIds = scope?.documentIds || []
+  const folder = scope?.folder || undefined
+  const includeHistory = scope?.includeHistory ?? false
+  const access = scope?.access
+
+  if (documentIds.length === 0) {
+    return hybridSearch(queryEmbedding, queryText, limit, threshold, vectorWeight, articleNumber, undefined, folder, includeHistory, access)
+  }
+
+  const perDocumentResults = await Promise.all(
+    documentIds.map((documentId) =>
+      hybridSearch(queryEmbedding, queryText, limit, threshold, vectorWeight, articleNumber, documentId, folder, includeHistory, access)
+    )
+  )
+
+  return perDocumentResults
+    .flat()
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+}
 
 /**
  * Esegue ricerche multiple per query comparative e combina i risultati
@@ -31,7 +83,8 @@ export async function performMultiQuerySearch(
   originalEmbedding: number[],
   articleNumber?: number,
   traceContext?: TraceContext | null,
-  parentSpan?: ReturnType<typeof createSpan> | null
+  parentSpan?: ReturnType<typeof createSpan> | null,
+  scope?: SearchScope
 ): Promise<SearchResult[]> {
   console.log('[search-handler] Performing multi-query search for terms:', terms)
   
@@ -54,13 +107,14 @@ export async function performMultiQuerySearch(
       )
       
       // Ricerca con threshold più alto per risultati più rilevanti
-      const results = await hybridSearch(
+      const results = await scopedHybridSearch(
         targetedEmbedding,
         targetedQuery,
         COMPARATIVE_PER_TERM_LIMIT,
         0.25,
         0.7,
-        articleNumber
+        articleNumber,
+        scope
       )
       
       console.log(`[search-handler] Results for ${term}:`, results.length, 
@@ -107,13 +161,14 @@ export async function performMultiQuerySearch(
   // Se abbiamo pochi risultati dalla multi-query, aggiungi anche dalla query originale
   if (combined.length < COMPARATIVE_TARGET_RESULTS) {
     console.log('[search-handler] Adding results from original query to boost coverage')
-    const originalResults = await hybridSearch(
+    const originalResults = await scopedHybridSearch(
       originalEmbedding,
       originalQuery,
       COMPARATIVE_FALLBACK_LIMIT,
       0.25,
       0.7,
-      articleNumber
+      articleNumber,
+      scope
     )
     
     originalResults.forEach((result: SearchResult) => {
@@ -134,6 +189,9 @@ export async function performMultiQuerySearch(
  * Esegue la ricerca vettoriale in base al tipo di query
  * Include anche ricerca per nome file come fallback
  * 
+ * Se lo scope contiene documentIds (tag @documento), la ricerca è ristretta a quei
+ * documenti e il fallback per nome file è disabilitato
+ * 
  * NOTA: Questa funzione è chiamata all'interno dello span vector-search creato in route.ts
  * Gli embeddings multi-query creano generation objects figli dello span
  */
@@ -142,9 +200,11 @@ export async function performSearch(
   queryEmbedding: number[],
   analysis: QueryAnalysisResult,
   articleNumber?: number,
-  traceContext?: TraceContext | null
+  traceContext?: TraceContext | null,
+  scope?: SearchScope
 ): Promise<SearchResult[]> {
   const { isComparative, comparativeTerms } = analysis
+  const scopedDocumentIds = scope?.documentIds || []
 
   // Recupera lo span "vector-search" corrente dal context (se disponibile)
   // In route.ts viene creato con createSpan(traceContext.trace, 'vector-search', ...)
@@ -161,11 +221,22 @@ export async function performSearch(
       queryEmbedding, 
       articleNumber, 
       traceContext,
-      parentSpan
+      parentSpan,
+      scope
     )
   } else {
     // Query standard: hybrid search normale
-    vectorResults = await hybridSearch(queryEmbedding, query, 10, 0.3, 0.7, articleNumber)
+    vectorResults = await scopedHybridSearch(queryEmbedding, query, 10, 0.3, 0.7, articleNumber, scope)
+  }
+
+  // Ricerca ristretta a documenti taggati: niente fallback per nome file (uscirebbe dallo scope)
+  // Se la ricerca non trova chunk, usa i primi chunk dei documenti taggati
+  if (scopedDocumentIds.length > 0) {
+    if (vectorResults.length > 0) {
+      return vectorResults
+    }
+    console.log('[search-handler] No scoped results, falling back to first chunks of tagged documents')
+    return getChunksByDocumentIds(scopedDocumentIds, SCOPED_FALLBACK_CHUNKS_PER_DOCUMENT, scope?.access)
   }
 
   // Calcola similarità media per decidere se usare fallback
@@ -205,7 +276,13 @@ export async function performSearch(
       console.log('[search-handler] Extracted query terms for filename search:', queryTerms)
     }
     
-    filenameResults = await searchByFilename(searchTerms, 10)
+    filenameResults = await searchByFilename(
+      searchTerms,
+      10,
+      scope?.folder || undefined,
+      scope?.includeHistory ?? false,
+      scope?.access
+    )
     console.log('[search-handler] Filename search results:', filenameResults.length)
   } else if (possibleFilenames.length > 0 && avgSimilarity >= 0.5) {
     // Log informativo: abbiamo possibili filenames ma non li usiamo perché la similarità è buona
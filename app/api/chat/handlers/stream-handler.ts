@@ -5,11 +5,13 @@
  */
 
 export interface StreamMessage {
-  type: 'status' | 'text' | 'text_complete' | 'done' | 'sources_chunk' | 'error'
+  type: 'status' | 'text' | 'text_complete' | 'done' | 'sources_chunk' | 'user_message' | 'warning' | 'error'
   message?: string | null
   content?: string
   sources?: unknown[]
   model?: string // Nome del modello usato
+  messageId?: string // ID del messaggio salvato (assistant: feedback; user: modifica e rami)
+  details?: unknown // Dettagli strutturati per messaggi di tipo warning
   error?: string
 }
 
@@ -123,14 +125,14 @@ export class StreamController {
    * Invia le sources finali con il modello usato
    * Chunka automaticamente se ci sono molte sources per evitare payload JSON troppo grandi
    */
-  sendDone(sources: unknown[], model?: string): void {
+  sendDone(sources: unknown[], model?: string, messageId?: string): void {
     // Calcola dimensione approssimativa del JSON
-    const jsonSize = JSON.stringify({ type: 'done', sources, model }).length
+    const jsonSize = JSON.stringify({ type: 'done', sources, model, messageId }).length
     const MAX_JSON_SIZE = 16384 // 16KB - limite sicuro per chunk SSE
     
     if (jsonSize <= MAX_JSON_SIZE || sources.length <= 5) {
       // Payload piccolo - invia tutto insieme
-      this.enqueue({ type: 'done', sources, model })
+      this.enqueue({ type: 'done', sources, model, messageId })
     } else {
       // Payload grande - invia in chunks
       console.log(`[stream-handler] Large sources payload (${jsonSize} bytes), chunking ${sources.length} sources`)
@@ -144,11 +146,26 @@ export class StreamController {
           type: isLast ? 'done' : 'sources_chunk',
           sources: chunk,
           model: isLast ? model : undefined, // Invia il modello solo nell'ultimo chunk
+          messageId: isLast ? messageId : undefined,
         })
       }
     }
   }
 
+  /**
+   * Invia l'ID del messaggio utente salvato (necessario per modificarlo e creare un nuovo ramo)
+   */
+  sendUserMessage(messageId: string): void {
+    this.enqueue({ type: 'user_message', messageId })
+  }
+
+  /**
+   * Invia un avviso non bloccante (es. tag @documento non risolti)
+   */
+  sendWarning(message: string, details?: unknown): void {
+    this.enqueue({ type: 'warning', message, details })
+  }
+
   /**
    * Invia un errore
    */
@@ -7,19 +7,23 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
 import { generateEmbedding } from '@/lib/embeddings/openai'
 import { analyzeQuery } from '@/lib/embeddings/query-analysis'
 import { enhanceQueryIfNeeded } from '@/lib/embeddings/query-enhancement'
-import { clearToolResults } from '@/lib/mastra/agent'
 import { createStream, StreamController } from './handlers/stream-handler'
-import { lookupCache, saveCache } from './handlers/cache-handler'
+import { buildCacheScopeKey, getConversationCacheContext, lookupCache, saveCache, type CacheScope } from './handlers/cache-handler'
 import { performSearch } from './handlers/search-handler'
-import { generateResponse, processResponse, type ResponseContext } from './handlers/response-handler'
-import { buildContext, filterRelevantResults } from './services/context-builder'
+import { generateResponse, processResponse, selectFallbackModel, type ResponseContext } from './handlers/response-handler'
+import { buildContext, filterRelevantResults, formatSupersededVersionLabel } from './services/context-builder'
+import { rerankResults, type RerankOutcome } from '@/lib/reranking/reranker'
 import { createKBSources, combineSources } from './services/source-service'
-import { getConversationHistory } from './services/message-service'
+import { retrieveVersionChanges, type VersionChangeContext } from './services/version-change-service'
+import { getBranchParentId, getConversationHistory, getConversationFolderScope } from './services/message-service'
 import { saveUserMessageAsync, saveAssistantMessageAsync } from '@/lib/async/message-operations'
 import { searchDocumentsBySummary } from '@/lib/supabase/document-search'
+import { parseDocumentTags } from '@/lib/utils/document-tag-parser'
+import { resolveDocumentTags } from '@/lib/supabase/document-tag-resolver'
 import { 
   createChatTrace, 
   createSpan,
@@ -29,6 +33,8 @@ import {
   type TraceContext 
 } from '@/lib/observability/langfuse'
 import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { getCurrentUser, getDocumentAccess } from '@/lib/auth/authorization'
+import { ANONYMOUS_DOCUMENT_ACCESS, getDeniedFolders, type DocumentAccess } from '@/lib/supabase/folder-permissions'
 
 export const maxDuration = 60 // 60 secondi per Vercel
 
@@ -40,8 +46,11 @@ async function handleChatRequest(
   conversationId: string | null,
   webSearchEnabled: boolean,
   skipCache: boolean,
+  includeHistory: boolean,
+  documentAccess: DocumentAccess,
   streamController: StreamController,
-  traceContext?: TraceContext | null
+  traceContext?: TraceContext | null,
+  editMessageId: string | null = null
 ): Promise<void> {
   // Se traceContext non è fornito, crea un nuovo trace
   // (questo può accadere se viene chiamato direttamente senza trace)
@@ -61,32 +70,86 @@ async function handleChatRequest(
       conversationId || 'anonymous',
       userId,
       message,
-      { webSearchEnabled, skipCache }
+      { webSearchEnabled, skipCache, includeHistory }
     )
   }
 
   // STEP 1: Recupera cronologia conversazione (PRIMA di salvare il messaggio corrente)
-  // Questo ci dà il contesto dei messaggi PRECEDENTI, non quello corrente
-  const conversationHistory = conversationId
-    ? await getConversationHistory(conversationId)
-    : []
+  // Questo ci dà il contesto dei messaggi PRECEDENTI, non quello corrente, lungo il ramo
+  // a cui viene agganciato il messaggio (foglia attiva, o padre del messaggio modificato)
+  // Insieme alla cronologia recupera lo scope cartella della conversazione (se impostato)
+  // e le cartelle riservate che l'utente non può leggere
+  const parentMessageId = conversationId ? await getBranchParentId(conversationId, editMessageId) : null
+  const [conversationHistory, folderScope, deniedFolders] = await Promise.all([
+    conversationId ? getConversationHistory(conversationId, undefined, parentMessageId) : Promise.resolve([]),
+    conversationId ? getConversationFolderScope(conversationId) : Promise.resolve(null),
+    getDeniedFolders(documentAccess),
+  ])
   
   console.log('[api/chat] Conversation history retrieved:', {
     conversationId,
+    parentMessageId,
+    editMessageId,
+    folderScope,
+    deniedFolders: deniedFolders.length,
     historyLength: conversationHistory.length,
     lastMessages: conversationHistory.slice(-2).map(m => ({ role: m.role, preview: m.content.substring(0, 50) }))
   })
 
   // STEP 2: Salva messaggio utente (DOPO aver recuperato la history)
   // Fire-and-forget: Don't block on message save
-  if (conversationId) {
-    saveUserMessageAsync(conversationId, message)
+  // L'ID viene inviato subito al client: serve per modificare il messaggio e cambiare ramo
+  // Il salvataggio della risposta attende userMessageSaved (parent_id è una foreign key)
+  const userMessageId = conversationId ? randomUUID() : undefined
+  let userMessageSaved: Promise<string | null> = Promise.resolve(null)
+  if (conversationId && userMessageId) {
+    userMessageSaved = saveUserMessageAsync(conversationId, message, { id: userMessageId, parentId: parentMessageId })
+    streamController.sendUserMessage(userMessageId)
+  }
+
+  // ID del messaggio assistant generato qui: viene inviato al client nel 'done' per il feedback
+  const assistantMessageId = conversationId ? randomUUID() : undefined
+
+  // STEP 2b: Risolvi tag @documento (es. @"GDPR report") in document IDs
+  // La query senza tag viene usata per analisi, enhancement e ricerca
+  const parsedTags = parseDocumentTags(message)
+  const searchMessage = parsedTags.tags.length > 0 && parsedTags.cleanedQuery
+    ? parsedTags.cleanedQuery
+    : message
+  let scopedDocumentIds: string[] = []
+
+  if (parsedTags.tags.length > 0) {
+    streamController.sendStatus('Risoluzione documenti menzionati...')
+    const tagSpan = traceContext ? createSpan(traceContext.trace, 'document-tag-resolution', {
+      tags: parsedTags.tags.map(t => t.tag),
+    }) : null
+    const tagResolution = await resolveDocumentTags(parsedTags.tags, documentAccess)
+    scopedDocumentIds = tagResolution.resolved.map(r => r.documentId)
+    endSpan(tagSpan, {
+      resolved: tagResolution.resolved.map(r => ({ tag: r.tag, filename: r.filename, matchType: r.matchType })),
+      unresolved: tagResolution.unresolved.map(t => t.tag),
+    })
+
+    if (tagResolution.unresolved.length > 0) {
+      const unresolvedTags = tagResolution.unresolved.map(t => t.tag)
+      streamController.sendWarning(
+        `Documenti non trovati: ${unresolvedTags.join(', ')}`,
+        { unresolvedTags }
+      )
+    }
   }
+  const hasDocumentScope = scopedDocumentIds.length > 0
+  // I documenti taggati hanno priorità sullo scope cartella della conversazione
+  // includeHistory: di default solo l'ultima versione di ogni documento
+  // documentAccess: l'ACL delle cartelle vale per ogni ricerca; la cache è partizionata per cartelle negate
+  const searchScope = hasDocumentScope
+    ? { documentIds: scopedDocumentIds, includeHistory, access: documentAccess }
+    : { folder: folderScope, includeHistory, access: documentAccess }
 
   // STEP 3: Analisi query
   streamController.sendStatus('Analisi della query...')
-  const analysisSpan = traceContext ? createSpan(traceContext.trace, 'query-analysis', { message }) : null
-  const analysis = await analyzeQuery(message)
+  const analysisSpan = traceContext ? createSpan(traceContext.trace, 'query-analysis', { message: searchMessage }) : null
+  const analysis = await analyzeQuery(searchMessage)
   endSpan(analysisSpan, {
     intent: analysis.intent,
     isMeta: analysis.isMeta,
@@ -97,10 +160,10 @@ async function handleChatRequest(
   // STEP 4: Enhancement query (with conversation history)
   streamController.sendStatus('Miglioramento query...')
   const enhancementSpan = traceContext ? createSpan(traceContext.trace, 'query-enhancement', { 
-    original: message, 
+    original: searchMessage, 
     analysis 
   }) : null
-  const enhancement = await enhanceQueryIfNeeded(message, analysis, conversationHistory)
+  const enhancement = await enhanceQueryIfNeeded(searchMessage, analysis, conversationHistory)
   const queryToEmbed = enhancement.enhanced
   const articleNumber = analysis.articleNumber || enhancement.articleNumber
   endSpan(enhancementSpan, {
@@ -109,21 +172,56 @@ async function handleChatRequest(
   })
 
   // STEP 5: Check cache
+  // La chiave include cartella, documenti taggati, ACL, modello previsto e, per le domande di follow-up,
+  // l'impronta dell'ultimo scambio: un follow-up è riusato solo a parità di contesto (e con soglia più alta)
+  // Le domande "cosa è cambiato" non usano la cache: la risposta dipende dalle versioni caricate in quel momento
+  const isVersionChangeQuery = analysis.intent === 'version_changes'
+  const isCacheable = !isVersionChangeQuery
+  const conversationCache = getConversationCacheContext(searchMessage, conversationHistory)
+  const cacheScope: CacheScope = {
+    folder: folderScope,
+    documentIds: scopedDocumentIds,
+    includeHistory,
+    deniedFolders,
+    model: selectFallbackModel(analysis, isVersionChangeQuery),
+    conversationFingerprint: conversationCache.fingerprint,
+  }
+  const cacheScopeKey = buildCacheScopeKey(cacheScope)
+  const cacheBypassReason = skipCache ? 'skip-cache' : isVersionChangeQuery ? 'version-changes' : null
   streamController.sendStatus('Verifica cache...')
-  const cacheSpan = traceContext ? createSpan(traceContext.trace, 'cache-lookup', { query: queryToEmbed }) : null
+  const cacheSpan = traceContext ? createSpan(traceContext.trace, 'cache-lookup', {
+    query: queryToEmbed,
+    scopeKey: cacheScopeKey,
+    isFollowUp: conversationCache.isFollowUp,
+    folderScope,
+    documentScope: hasDocumentScope ? scopedDocumentIds : undefined,
+    includeHistory,
+  }) : null
   const queryEmbedding = await generateEmbedding(
     queryToEmbed, 
     'text-embedding-3-large', 
     traceContext ? traceContext.trace : null
   )
-  const cached = await lookupCache(queryToEmbed, queryEmbedding, skipCache, traceContext)
-  endSpan(cacheSpan, { cached: cached.cached })
+  const cached = await lookupCache(
+    queryToEmbed,
+    queryEmbedding,
+    skipCache || !isCacheable,
+    traceContext,
+    cacheScope
+  )
+  endSpan(cacheSpan, {
+    decision: cacheBypassReason ? 'bypass' : cached.cached ? 'hit' : 'miss',
+    bypassReason: cacheBypassReason,
+    matching: conversationCache.isFollowUp ? 'conversation-context' : 'shared',
+    cached: cached.cached,
+    cacheId: cached.cacheId,
+  })
 
   if (cached.cached && cached.response && cached.sources) {
     // Cache hit: invia risposta cached
     streamController.sendText(cached.response)
     streamController.sendTextComplete(cached.response)
-    streamController.sendDone(cached.sources)
+    streamController.sendDone(cached.sources, undefined, assistantMessageId)
     
     // Salva messaggio assistant (fire-and-forget)
     if (conversationId) {
@@ -132,7 +230,9 @@ async function handleChatRequest(
         query_enhanced: enhancement.shouldEnhance,
         original_query: message,
         enhanced_query: enhancement.shouldEnhance ? queryToEmbed : undefined,
-      })
+        trace_id: traceContext?.traceId,
+        cache_id: cached.cacheId,
+      }, assistantMessageId, userMessageSaved)
     }
     
     // Finalize Langfuse trace (cache hit)
@@ -146,6 +246,7 @@ async function handleChatRequest(
         analysis: analysis.intent,
         enhancement: enhancement.shouldEnhance,
         cacheHit: true,
+        promptVariant: null, // Risposta dalla cache: nessun prompt compilato
       })
 
       // CRITICAL: Flush Langfuse anche per cache hit
@@ -156,15 +257,58 @@ async function handleChatRequest(
   }
 
   // STEP 6: Vector search
-  const isMetaQuery = analysis.isMeta && analysis.metaType === 'list'
-  const isExploratoryQuery = analysis.intent === 'exploratory'
+  // Con documenti taggati si esegue sempre la ricerca sui chunk di quei documenti
+  const isMetaQuery = !hasDocumentScope && analysis.isMeta && analysis.metaType === 'list'
+  const isExploratoryQuery = !hasDocumentScope && analysis.intent === 'exploratory'
   
   let searchResults: Awaited<ReturnType<typeof performSearch>> = []
   let relevantResults: Awaited<ReturnType<typeof performSearch>> = []
   let context: string | null = null
   let kbSources: ReturnType<typeof createKBSources> = []
+  let versionChanges: VersionChangeContext | null = null
+
+  // Query "cosa è cambiato": il contesto sono le parti modificate tra ultima versione e precedente
+  if (!isMetaQuery && isVersionChangeQuery) {
+    streamController.sendStatus('Confronto tra le versioni del documento...')
+    const versionSpan = traceContext ? createSpan(traceContext.trace, 'version-changes', {
+      documentName: analysis.versionDocument,
+      documentScope: hasDocumentScope ? scopedDocumentIds : undefined,
+      articleNumber,
+    }) : null
 
-  if (!isMetaQuery && !isExploratoryQuery) {
+    try {
+      versionChanges = await retrieveVersionChanges({
+        query: searchMessage,
+        documentIds: scopedDocumentIds,
+        documentName: analysis.versionDocument,
+        folder: folderScope,
+        articleNumber,
+        access: documentAccess,
+      })
+      endSpan(versionSpan, versionChanges ? {
+        ...versionChanges.comparison,
+        totalChanges: versionChanges.totalChanges,
+        passages: versionChanges.results.length,
+      } : { found: false })
+    } catch (error) {
+      console.error('[api/chat] Version changes retrieval failed:', error)
+      endSpan(versionSpan, { error: String(error) })
+    }
+
+    if (!versionChanges) {
+      // Nessun documento con più versioni: si prosegue con la ricerca normale
+      streamController.sendWarning('Nessuna versione precedente trovata per il documento richiesto')
+    }
+  }
+
+  if (versionChanges) {
+    const { filename, baseVersion, targetVersion } = versionChanges.comparison
+    relevantResults = versionChanges.results
+    context = relevantResults.length > 0
+      ? buildContext(relevantResults)
+      : `Nessuna differenza di contenuto tra la v${baseVersion} e la v${targetVersion} del documento "${filename}".`
+    kbSources = createKBSources(relevantResults)
+  } else if (!isMetaQuery && !isExploratoryQuery) {
     // Query normale: esegui ricerca vettoriale sui chunk
     if (analysis.comparativeTerms && analysis.comparativeTerms.length >= 2) {
       streamController.sendStatus(`Analisi comparativa tra ${analysis.comparativeTerms.join(' e ')}...`)
@@ -176,13 +320,24 @@ async function handleChatRequest(
       query: queryToEmbed,
       isComparative: analysis.isComparative,
       comparativeTerms: analysis.comparativeTerms,
+      documentScope: hasDocumentScope ? scopedDocumentIds : undefined,
+      folderScope,
+      includeHistory,
     }) : null
-    searchResults = await performSearch(queryToEmbed, queryEmbedding, analysis, articleNumber, traceContext)
+    searchResults = await performSearch(
+      queryToEmbed,
+      queryEmbedding,
+      analysis,
+      articleNumber,
+      traceContext,
+      searchScope
+    )
     
     // Filtra risultati rilevanti
     // Threshold più basso per includere più risultati (0.35 invece di 0.40)
     // Questo permette di includere risultati con similarità 0.35-0.40 che potrebbero essere comunque utili
-    const RELEVANCE_THRESHOLD = articleNumber ? 0.1 : 0.35
+    // Per articoli specifici o documenti taggati l'utente ha già ristretto lo scope: soglia bassa
+    const RELEVANCE_THRESHOLD = articleNumber || hasDocumentScope ? 0.1 : 0.35
     relevantResults = filterRelevantResults(searchResults, RELEVANCE_THRESHOLD)
     
     // Log per debugging
@@ -210,6 +365,14 @@ async function handleChatRequest(
       })
     }
     
+    // Reranking dei migliori candidati prima di costruire il contesto
+    // Saltato per query list-like: la deduplicazione riordina comunque per documento
+    let rerank: RerankOutcome | null = null
+    if (!isListLikeQuery && relevantResults.length > 1) {
+      rerank = await rerankResults(queryToEmbed, relevantResults, { parent: searchSpan })
+      relevantResults = rerank.results
+    }
+    
     // Costruisci contesto (deduplica se è query list-like)
     context = buildContext(relevantResults, isListLikeQuery)
     
@@ -228,6 +391,17 @@ async function handleChatRequest(
       relevantResults: relevantResults.length,
       avgSimilarity: avgSimilarity.toFixed(3),
       threshold: RELEVANCE_THRESHOLD,
+      reranker: rerank?.reranker ?? null,
+      rerankFallbackUsed: rerank?.fallbackUsed ?? false,
+      rerankDurationMs: rerank?.durationMs,
+      rerankScores: rerank?.scores.map((s) => ({
+        id: s.id,
+        filename: s.documentFilename,
+        similarity: Number(s.similarity.toFixed(3)),
+        rerankScore: Number(s.rerankScore.toFixed(3)),
+        originalRank: s.originalRank,
+        rerankedRank: s.rerankedRank,
+      })),
     })
   } else if (isExploratoryQuery) {
     // Query esplorativa: ricerca per similarity sui summary dei documenti
@@ -241,7 +415,10 @@ async function handleChatRequest(
       const documents = await searchDocumentsBySummary(queryToEmbed, {
         threshold: 0.6, // Lower threshold for broader matches
         limit: 50,
-        includeWithoutSummary: false // Solo documenti con summary generato
+        includeWithoutSummary: false, // Solo documenti con summary generato
+        folder: folderScope,
+        includeHistory,
+        access: documentAccess,
       })
       
       console.log('[api/chat] Exploratory search results:', {
@@ -252,9 +429,12 @@ async function handleChatRequest(
       // Costruisci contesto da documenti (non da chunk)
       // Format: filename + summary per ogni documento
       if (documents.length > 0) {
-        context = documents.map((doc, idx) => 
-          `[Documento ${idx + 1}: ${doc.filename}]\n${doc.summary || 'Nessun riassunto disponibile'}`
-        ).join('\n\n---\n\n')
+        context = documents.map((doc, idx) => {
+          const label = doc.is_latest_version === false
+            ? `${doc.filename} — ${formatSupersededVersionLabel(doc.version)}`
+            : doc.filename
+          return `[Documento ${idx + 1}: ${label}]\n${doc.summary || 'Nessun riassunto disponibile'}`
+        }).join('\n\n---\n\n')
         
         // Crea sources da documenti (non chunk-based)
         kbSources = documents.map((doc, idx) => ({
@@ -266,6 +446,7 @@ async function handleChatRequest(
           folderPath: doc.folder_path || undefined,
           documentId: doc.id,
           chunkIndex: 0, // Document-level search, not chunk-based
+          ...(doc.is_latest_version === false ? { versionLabel: formatSupersededVersionLabel(doc.version) } : {}),
           // No chunk-specific fields for document-level search
         }))
       }
@@ -282,7 +463,7 @@ async function handleChatRequest(
       
       // Fallback: usa ricerca normale
       streamController.sendStatus('Ricerca documenti nella knowledge base...')
-      searchResults = await performSearch(queryToEmbed, queryEmbedding, analysis, articleNumber, traceContext)
+      searchResults = await performSearch(queryToEmbed, queryEmbedding, analysis, articleNumber, traceContext, searchScope)
       const RELEVANCE_THRESHOLD = 0.35
       relevantResults = filterRelevantResults(searchResults, RELEVANCE_THRESHOLD)
       context = buildContext(relevantResults, false)
@@ -308,6 +489,11 @@ async function handleChatRequest(
     sources: kbSources,
     webSearchEnabled,
     articleNumber,
+    folderScope,
+    documentAccess,
+    versionComparison: versionChanges?.comparison,
+    // Variante degli esperimenti sui prompt stabile per conversazione (o utente, o singola richiesta)
+    promptAssignmentKey: conversationId ?? traceContext?.userId ?? traceContext?.traceId,
     traceContext, // Passa traceContext al context per logging LLM
   }
 
@@ -318,9 +504,13 @@ async function handleChatRequest(
     searchResultsCount: searchResults.length,
   }) : null
   const generateResult = await generateResponse(responseContext, streamController)
+  const promptUsage = generateResult.prompt
   endSpan(responseSpan, {
     responseLength: generateResult.fullResponse?.length || 0,
     truncated: generateResult.fullResponse?.substring(0, 200) || '',
+    promptName: promptUsage.name,
+    promptVersion: promptUsage.version,
+    promptVariant: promptUsage.variant,
   })
 
   // STEP 8: Valida risposta non vuota
@@ -366,6 +556,12 @@ async function handleChatRequest(
   // STEP 10: Combina sources
   const allSources = combineSources(processed.sources, processed.webSources)
 
+  // La risposta va in cache solo se generata dal modello della chiave
+  // (la configurazione del prompt Langfuse può indicare un modello diverso da quello previsto)
+  // e non da un prompt sotto esperimento: la cache servirebbe la variante anche all'altro gruppo
+  const isPromptExperiment = Boolean(promptUsage.variant)
+  const shouldSaveCache = isCacheable && processed.model === cacheScope.model && !isPromptExperiment
+
   // STEP 11: Salva messaggio assistant (fire-and-forget)
   if (conversationId) {
     saveAssistantMessageAsync(conversationId, processed.content, {
@@ -378,18 +574,39 @@ async function handleChatRequest(
       original_query: message,
       enhanced_query: enhancement.shouldEnhance ? queryToEmbed : undefined,
       model: processed.model, // Salva il modello usato
+      trace_id: traceContext?.traceId,
+      // Chiave della voce di cache salvata allo STEP 13, per l'eviction su feedback negativo
+      ...(!shouldSaveCache ? {} : {
+        cache_query: queryToEmbed,
+        cache_scope_key: cacheScopeKey,
+      }),
+    }, assistantMessageId, userMessageSaved, {
+      // Stesso input e stesse fonti citabili per "rigenera con…" un altro modello
+      llmMessages: generateResult.llmMessages,
+      citationContext: {
+        sources: responseContext.sources,
+        webSearchResults: responseContext.webSearchResults,
+        metaQueryDocuments: responseContext.metaQueryDocuments,
+        analysis: { isMeta: analysis.isMeta, metaType: analysis.metaType },
+      },
     })
   }
 
   // STEP 12: Invia risposta finale
   streamController.sendTextComplete(processed.content)
-  streamController.sendDone(allSources, processed.model)
+  streamController.sendDone(allSources, processed.model, assistantMessageId)
 
   // STEP 13: Salva in cache (fire-and-forget)
-  saveCache(queryToEmbed, queryEmbedding, processed.content, processed.sources)
-
-  // Pulisci cache tool results per la prossima request
-  clearToolResults()
+  // Le risposte sulle modifiche tra versioni non vanno in cache
+  if (shouldSaveCache) {
+    saveCache(queryToEmbed, queryEmbedding, processed.content, processed.sources, cacheScope)
+  } else if (isCacheable) {
+    console.log('[api/chat] Cache save skipped:', {
+      reason: isPromptExperiment ? 'prompt-experiment' : 'model-mismatch',
+      model: processed.model,
+      cacheModel: cacheScope.model,
+    })
+  }
 
   // Finalize Langfuse trace con la risposta completa
   if (traceContext) {
@@ -405,6 +622,10 @@ async function handleChatRequest(
       relevantResultsCount: relevantResults.length,
       webSourcesCount: processed.webSources?.length || 0,
       kbSourcesCount: processed.sources?.length || 0,
+      promptName: promptUsage.name,
+      promptVersion: promptUsage.version,
+      promptVariant: promptUsage.variant?.variant ?? null,
+      promptVariantTarget: promptUsage.variant?.target ?? null,
     })
 
     // CRITICAL: Flush Langfuse prima che la funzione serverless termini
@@ -418,7 +639,14 @@ async function handleChatRequest(
  */
 export async function POST(req: NextRequest) {
   try {
-    const { message, conversationId, webSearchEnabled = false, skipCache = false } = await req.json()
+    const {
+      message,
+      conversationId,
+      webSearchEnabled = false,
+      skipCache = false,
+      includeHistory = false,
+      editMessageId = null,
+    } = await req.json()
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json(
@@ -427,15 +655,24 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Estrai userId dalla sessione Supabase
+    // editMessageId: il messaggio diventa un ramo alternativo del messaggio utente modificato
+    if (editMessageId !== null && (typeof editMessageId !== 'string' || !conversationId)) {
+      return NextResponse.json(
+        { error: 'editMessageId requires a conversationId' },
+        { status: 400 }
+      )
+    }
+
+    // Estrai utente e ruolo dalla sessione Supabase: determinano le cartelle leggibili
     let userId: string | null = null
+    let documentAccess: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
     try {
-      const supabase = await createServerSupabaseClient()
-      const { data: { user } } = await supabase.auth.getUser()
-      userId = user?.id || null
+      const current = await getCurrentUser()
+      userId = current?.user.id || null
+      documentAccess = getDocumentAccess(current)
     } catch (error) {
       console.warn('[api/chat] Failed to get user from session:', error)
-      // Continua senza userId se non disponibile
+      // Continua senza userId se non disponibile (solo cartelle aperte)
     }
 
     // Crea trace Langfuse per questa richiesta chat
@@ -443,7 +680,7 @@ export async function POST(req: NextRequest) {
       conversationId || 'anonymous',
       userId,
       message,
-      { webSearchEnabled, skipCache }
+      { webSearchEnabled, skipCache, includeHistory }
     )
 
     // Crea stream
@@ -454,8 +691,11 @@ export async function POST(req: NextRequest) {
           conversationId || null,
           webSearchEnabled,
           skipCache,
+          includeHistory === true,
+          documentAccess,
           streamController,
-          traceContext // Passa traceContext al handler
+          traceContext, // Passa traceContext al handler
+          editMessageId
         )
         streamController.close()
       } catch (error) {
@@ -55,11 +55,34 @@ export function buildContext(searchResults: SearchResult[], deduplicateDocuments
     .map((r, index) => {
       const docNumber = index + 1
       const filename = r.document_filename || 'Documento sconosciuto'
-      return `[Documento ${docNumber}: ${filename}]\n${r.content}`
+      const label = [filename, getLocationLabel(r), getVersionLabel(r)].filter(Boolean).join(' — ')
+      return `[Documento ${docNumber}: ${label}]\n${r.content}`
     })
     .join('\n\n')
 }
 
+/**
+ * Posizione del chunk nel documento originale (foglio/righe o slide), se disponibile
+ */
+export function getLocationLabel(result: SearchResult): string | undefined {
+  const label = result.metadata?.locationLabel
+  return typeof label === 'string' && label ? label : undefined
+}
+
+/**
+ * Etichetta per una versione superata di un documento
+ */
+export function formatSupersededVersionLabel(version: number | undefined): string {
+  return `VERSIONE PRECEDENTE (v${version ?? 1}, superata da una versione più recente)`
+}
+
+/**
+ * Etichetta di versione del chunk: presente solo per versioni superate (ricerca con includeHistory)
+ */
+export function getVersionLabel(result: SearchResult): string | undefined {
+  return result.is_latest_version === false ? formatSupersededVersionLabel(result.document_version) : undefined
+}
+
 /**
  * Estrae i nomi unici dei documenti dai risultati
  */
@@ -5,18 +5,44 @@
  */
 
 import { supabaseAdmin } from '@/lib/supabase/admin'
+import { embedMessage } from '@/lib/supabase/conversation-search'
+import { getBranchPath, type BranchNode } from '@/lib/utils/message-branches'
+import { saveGenerationContext, type GenerationContextSnapshot } from '@/lib/services/regeneration-service'
+
+export interface UserMessageOptions {
+  id?: string // ID generato dalla route, già inviato al client
+  parentId?: string | null // Messaggio precedente nel ramo (null = radice)
+}
+
+/**
+ * Imposta l'ultimo messaggio salvato come foglia del ramo attivo
+ */
+async function setActiveLeaf(conversationId: string, messageId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('conversations')
+    .update({ active_leaf_id: messageId })
+    .eq('id', conversationId)
+
+  if (error) {
+    console.error('[message-service] Failed to update active branch:', error)
+  }
+}
 
 /**
- * Salva il messaggio dell'utente
+ * Salva il messaggio dell'utente e lo rende la foglia del ramo attivo
+ *
+ * @returns ID del messaggio salvato, o null se l'inserimento è fallito
  */
 export async function saveUserMessage(
   conversationId: string,
-  message: string
-): Promise<void> {
+  message: string,
+  options: UserMessageOptions = {}
+): Promise<string | null> {
   try {
     console.log('[message-service] Saving user message:', {
       conversationId,
       messagePreview: message.substring(0, 50),
+      parentId: options.parentId ?? null,
     })
     
     // Conta i messaggi esistenti per verificare se è il primo messaggio
@@ -32,16 +58,23 @@ export async function saveUserMessage(
       isFirstMessage,
     })
     
-    const { error } = await supabaseAdmin.from('messages').insert({
-      conversation_id: conversationId,
-      role: 'user',
-      content: message,
-    })
+    const { data: inserted, error } = await supabaseAdmin
+      .from('messages')
+      .insert({
+        ...(options.id ? { id: options.id } : {}),
+        conversation_id: conversationId,
+        parent_id: options.parentId ?? null,
+        role: 'user',
+        content: message,
+      })
+      .select('id')
+      .single()
     
     if (error) {
       console.error('[message-service] Failed to insert user message:', error)
     } else {
       console.log('[message-service] User message saved successfully')
+      await setActiveLeaf(conversationId, inserted.id)
     }
     
     // Aggiorna il titolo della conversazione se è il primo messaggio
@@ -52,40 +85,111 @@ export async function saveUserMessage(
         .update({ title, updated_at: new Date().toISOString() })
         .eq('id', conversationId)
     }
+
+    // Embedding per la ricerca semantica nella cronologia
+    if (inserted) {
+      await embedMessage(inserted.id, message)
+    }
+
+    return inserted?.id ?? null
   } catch (err) {
     console.error('[message-service] Failed to save user message:', err)
     // Continue anyway, don't fail the request
+    return null
   }
 }
 
 /**
- * Recupera la cronologia della conversazione
+ * Messaggio a cui agganciare il nuovo messaggio utente:
+ * la foglia del ramo attivo, oppure il padre del messaggio modificato (nuovo ramo)
+ *
+ * @param editMessageId - Messaggio utente modificato dall'utente
+ * @returns ID del padre (null = il nuovo messaggio è una radice)
+ */
+export async function getBranchParentId(
+  conversationId: string,
+  editMessageId?: string | null
+): Promise<string | null> {
+  if (editMessageId) {
+    const { data, error } = await supabaseAdmin
+      .from('messages')
+      .select('parent_id, role')
+      .eq('id', editMessageId)
+      .eq('conversation_id', conversationId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[message-service] Failed to fetch edited message:', error)
+      throw error
+    }
+    if (!data || data.role !== 'user') {
+      throw new Error('Messaggio da modificare non trovato')
+    }
+    return data.parent_id
+  }
+
+  const [{ data: conversation }, { data: lastMessages }] = await Promise.all([
+    supabaseAdmin
+      .from('conversations')
+      .select('active_leaf_id')
+      .eq('id', conversationId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from('messages')
+      .select('id')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .limit(1),
+  ])
+
+  // Conversazioni senza foglia attiva: si continua dall'ultimo messaggio
+  return conversation?.active_leaf_id || lastMessages?.[0]?.id || null
+}
+
+/**
+ * Recupera la cronologia della conversazione lungo il ramo attivo
+ *
+ * @param leafId - Ultimo messaggio del ramo da seguire (default: foglia attiva; null = nessuna cronologia)
+ * @returns Gli ultimi `limit` messaggi del ramo, in ordine cronologico
  */
 export async function getConversationHistory(
   conversationId: string,
-  limit: number = 10
+  limit: number = 10,
+  leafId?: string | null
 ): Promise<Array<{ role: 'user' | 'assistant'; content: string }>> {
   try {
-    console.log('[message-service] Fetching conversation history:', { conversationId, limit })
-    
-    const { data: historyMessages, error } = await supabaseAdmin
-      .from('messages')
-      .select('role, content')
-      .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true })
-      .limit(limit)
+    console.log('[message-service] Fetching conversation history:', { conversationId, limit, leafId })
+
+    if (leafId === null) {
+      return []
+    }
+
+    const [{ data: historyMessages, error }, activeLeafId] = await Promise.all([
+      supabaseAdmin
+        .from('messages')
+        .select('id, parent_id, role, content, created_at')
+        .eq('conversation_id', conversationId),
+      leafId === undefined ? getBranchParentId(conversationId) : Promise.resolve(leafId),
+    ])
     
     if (error) {
       console.error('[message-service] Database error fetching history:', error)
       return []
     }
+
+    const branch = getBranchPath(
+      (historyMessages ?? []) as Array<BranchNode & { role: 'user' | 'assistant'; content: string }>,
+      activeLeafId
+    )
+      .slice(-limit)
+      .map(({ role, content }) => ({ role, content }))
     
     console.log('[message-service] Retrieved messages:', {
-      count: historyMessages?.length || 0,
-      messageRoles: historyMessages?.map(m => m.role) || [],
+      count: branch.length,
+      messageRoles: branch.map(m => m.role),
     })
     
-    return historyMessages || []
+    return branch
   } catch (err) {
     console.error('[message-service] Failed to retrieve conversation history:', err)
     return []
@@ -93,19 +197,58 @@ export async function getConversationHistory(
 }
 
 /**
- * Salva il messaggio dell'assistant
+ * Recupera lo scope cartella della conversazione (null = intero corpus)
+ */
+export async function getConversationFolderScope(
+  conversationId: string
+): Promise<string | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('conversations')
+      .select('folder_scope')
+      .eq('id', conversationId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[message-service] Failed to fetch conversation folder scope:', error)
+      return null
+    }
+
+    return data?.folder_scope || null
+  } catch (err) {
+    console.error('[message-service] Failed to retrieve conversation folder scope:', err)
+    return null
+  }
+}
+
+export interface AssistantMessageMetadata {
+  chunks_used?: Array<{ id: string; similarity: number }>
+  sources?: unknown[]
+  query_enhanced?: boolean
+  original_query?: string
+  enhanced_query?: string
+  model?: string // Nome del modello LLM usato
+  trace_id?: string // Trace Langfuse della richiesta, per i feedback
+  // Voce della semantic cache che ha servito (cache_id) o memorizzato (cache_query + cache_scope_key) la risposta
+  cache_id?: string
+  cache_query?: string
+  cache_scope_key?: string
+}
+
+/**
+ * Salva il messaggio dell'assistant e lo rende la foglia del ramo attivo
+ *
+ * @param messageId - ID generato dalla route, già inviato al client per il feedback
+ * @param parentId - Messaggio utente a cui risponde
+ * @param generationContext - Input del modello e fonti citabili, per "rigenera con…" (assente per le risposte dalla cache)
  */
 export async function saveAssistantMessage(
   conversationId: string,
   content: string,
-  metadata: {
-    chunks_used?: Array<{ id: string; similarity: number }>
-    sources?: unknown[]
-    query_enhanced?: boolean
-    original_query?: string
-    enhanced_query?: string
-    model?: string // Nome del modello LLM usato
-  }
+  metadata: AssistantMessageMetadata,
+  messageId?: string,
+  parentId?: string | null,
+  generationContext?: GenerationContextSnapshot
 ): Promise<void> {
   try {
     console.log('[message-service] Saving assistant message:', {
@@ -115,18 +258,30 @@ export async function saveAssistantMessage(
     })
     
     const insertData = {
+      ...(messageId ? { id: messageId } : {}),
       conversation_id: conversationId,
+      parent_id: parentId ?? null,
       role: 'assistant' as const,
       content: content.trim(),
       metadata,
     }
     
-    const { error } = await supabaseAdmin.from('messages').insert(insertData)
+    const { data: inserted, error } = await supabaseAdmin
+      .from('messages')
+      .insert(insertData)
+      .select('id')
+      .single()
     
     if (error) {
       console.error('[message-service] Failed to save assistant message:', error)
     } else {
       console.log('[message-service] Assistant message saved successfully')
+      await setActiveLeaf(conversationId, inserted.id)
+      if (generationContext) {
+        await saveGenerationContext(inserted.id, generationContext)
+      }
+      // Embedding per la ricerca semantica nella cronologia
+      await embedMessage(inserted.id, insertData.content)
     }
   } catch (err) {
     console.error('[message-service] Failed to save assistant message:', err)
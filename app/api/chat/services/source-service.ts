@@ -6,7 +6,7 @@
 
 import type { SearchResult } from '@/lib/supabase/database.types'
 import type { Source } from '@/lib/services/citation-service'
-import { deduplicateByDocument } from './context-builder'
+import { deduplicateByDocument, getLocationLabel, getVersionLabel } from './context-builder'
 
 export interface WebSearchResult {
   index: number
@@ -30,6 +30,34 @@ export interface MetaDocument {
   processingStatus?: string | null
 }
 
+const PREVIEW_MAX_LENGTH = 1000
+
+function truncatePreview(content: string): string {
+  return content.substring(0, PREVIEW_MAX_LENGTH) + (content.length > PREVIEW_MAX_LENGTH ? '...' : '')
+}
+
+/**
+ * Tronca una tabella markdown a righe intere, così resta renderizzabile
+ */
+function truncateTablePreview(content: string): string {
+  if (content.length <= PREVIEW_MAX_LENGTH) {
+    return content
+  }
+
+  const lines = content.split('\n')
+  const kept: string[] = []
+  let length = 0
+  for (const line of lines) {
+    // Intestazione e separatore vanno sempre mantenuti
+    if (length + line.length > PREVIEW_MAX_LENGTH && kept.filter((l) => l.includes('|')).length >= 2) {
+      break
+    }
+    kept.push(line)
+    length += line.length + 1
+  }
+  return kept.join('\n')
+}
+
 /**
  * Converte SearchResult in Source per KB
  * 
@@ -42,15 +70,23 @@ export function createKBSources(searchResults: SearchResult[], deduplicateDocume
     ? deduplicateByDocument(searchResults)
     : searchResults
 
-  return resultsToUse.map((r, index) => ({
-    index: index + 1,
-    documentId: r.document_id,
-    filename: r.document_filename || 'Documento sconosciuto',
-    similarity: r.similarity,
-    content: r.content.substring(0, 1000) + (r.content.length > 1000 ? '...' : ''), // Preview del chunk
-    chunkIndex: r.chunk_index,
-    type: 'kb' as const,
-  }))
+  return resultsToUse.map((r, index) => {
+    const location = getLocationLabel(r)
+    const versionLabel = getVersionLabel(r)
+    const isTable = r.metadata?.contentType === 'table'
+    return {
+      index: index + 1,
+      documentId: r.document_id,
+      filename: r.document_filename || 'Documento sconosciuto',
+      similarity: r.similarity,
+      content: isTable ? truncateTablePreview(r.content) : truncatePreview(r.content), // Preview del chunk
+      chunkIndex: r.chunk_index,
+      type: 'kb' as const,
+      ...(location ? { location } : {}),
+      ...(versionLabel ? { versionLabel } : {}),
+      ...(isTable ? { contentType: 'table' as const } : {}),
+    }
+  })
 }
 
 /**
@@ -0,0 +1,192 @@
+/**
+ * Version Change Service
+ *
+ * Recupera il contesto per le domande "cosa è cambiato" tra versioni di un documento:
+ * risolve la catena di versioni, confronta l'ultima versione con la precedente
+ * e restituisce le parti modificate di entrambe le versioni come risultati citabili
+ */
+
+import type { Document, SearchResult } from '@/lib/supabase/database.types'
+import { getDocumentVersions } from '@/lib/supabase/document-operations'
+import { resolveDocumentIdentifier } from '@/lib/supabase/document-tag-resolver'
+import { searchDocumentsBySummary } from '@/lib/supabase/document-search'
+import { getDeniedFolders, isFolderReadable, type DocumentAccess } from '@/lib/supabase/folder-permissions'
+import { getDocumentText } from '@/lib/processing/document-text'
+import { diffDocumentVersions, type SectionChangeType, type SectionDiff } from '@/lib/processing/version-diff'
+import type { VersionComparisonInfo } from '@/lib/llm/system-prompt'
+
+const MAX_CHANGED_SECTIONS = 8
+const MAX_SECTION_CHARS = 3000
+
+const CHANGE_LABELS: Record<Exclude<SectionChangeType, 'unchanged'>, string> = {
+  added: 'aggiunto',
+  removed: 'rimosso',
+  modified: 'modificato',
+}
+
+export interface VersionChangeRequest {
+  query: string
+  documentIds: string[] // Documenti taggati con @ (hanno priorità)
+  documentName?: string // Nome del documento estratto dall'analisi della query
+  folder?: string | null
+  articleNumber?: number
+  access?: DocumentAccess // Utente che legge: le cartelle riservate non accessibili sono escluse
+}
+
+export interface VersionChangeContext {
+  comparison: VersionComparisonInfo
+  baseDocumentId: string
+  targetDocumentId: string
+  results: SearchResult[] // Parti modificate di entrambe le versioni, in ordine di documento
+  totalChanges: number
+}
+
+/**
+ * Individua il documento di cui confrontare le versioni
+ * Ordine: documento taggato, nome indicato nella query, documento più simile alla query con più versioni
+ */
+async function resolveTargetDocument(request: VersionChangeRequest): Promise<string | null> {
+  if (request.documentIds.length > 0) {
+    return request.documentIds[0]
+  }
+
+  if (request.documentName) {
+    const match = await resolveDocumentIdentifier(request.documentName, request.access)
+    if (match) {
+      return match.id
+    }
+  }
+
+  const candidates = await searchDocumentsBySummary(request.query, {
+    threshold: 0.3,
+    limit: 5,
+    folder: request.folder ?? null,
+    access: request.access,
+  })
+  // La ricerca restituisce solo ultime versioni: version > 1 significa che esiste una precedente
+  return candidates.find((doc) => (doc.version ?? 1) > 1)?.id ?? null
+}
+
+function queryTerms(query: string): string[] {
+  return Array.from(new Set(
+    query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length >= 4)
+  ))
+}
+
+/**
+ * Seleziona le parti modificate da passare all'LLM
+ * Con un articolo indicato nella query restano solo le sue modifiche; se le modifiche
+ * sono troppe restano quelle con più termini della query, nell'ordine del documento
+ */
+export function selectChangedSections(
+  sections: SectionDiff[],
+  query: string,
+  articleNumber?: number,
+  limit: number = MAX_CHANGED_SECTIONS
+): SectionDiff[] {
+  const changed = sections.filter((section) => section.change !== 'unchanged')
+
+  if (articleNumber) {
+    const articleKey = `art:${articleNumber}`
+    const forArticle = changed.filter((s) => s.key === articleKey || s.key.startsWith(`${articleKey}#`))
+    if (forArticle.length > 0) {
+      return forArticle
+    }
+  }
+
+  if (changed.length <= limit) {
+    return changed
+  }
+
+  const terms = queryTerms(query)
+  const scored = changed.map((section, position) => {
+    const text = `${section.title}\n${section.oldContent ?? ''}\n${section.newContent ?? ''}`.toLowerCase()
+    return { section, position, score: terms.filter((term) => text.includes(term)).length }
+  })
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .slice(0, limit)
+    .sort((a, b) => a.position - b.position)
+    .map((s) => s.section)
+}
+
+function truncateSection(content: string): string {
+  return content.length > MAX_SECTION_CHARS ? `${content.substring(0, MAX_SECTION_CHARS)}...` : content
+}
+
+function toSearchResult(document: Document, section: SectionDiff, content: string, isLatest: boolean): SearchResult {
+  const change = CHANGE_LABELS[section.change as keyof typeof CHANGE_LABELS]
+  return {
+    id: `${document.id}:${section.key}`,
+    document_id: document.id,
+    content: truncateSection(content),
+    chunk_index: 0, // Parte del diff, non un chunk indicizzato
+    created_at: document.created_at,
+    similarity: 1,
+    document_filename: document.filename,
+    document_version: document.version || 1,
+    is_latest_version: isLatest,
+    metadata: { locationLabel: `${section.title} (${change})` },
+  }
+}
+
+/**
+ * Recupera le modifiche tra l'ultima versione di un documento e la precedente
+ *
+ * @returns null se il documento non è individuabile o non ha una versione precedente completata
+ */
+export async function retrieveVersionChanges(request: VersionChangeRequest): Promise<VersionChangeContext | null> {
+  const documentId = await resolveTargetDocument(request)
+  if (!documentId) {
+    console.log('[version-change-service] No versioned document found for query')
+    return null
+  }
+
+  // Il documento taggato o le sue versioni possono trovarsi in una cartella riservata
+  const deniedFolders = await getDeniedFolders(request.access)
+  const versions = (await getDocumentVersions(documentId))
+    .filter((doc) => doc.processing_status === 'completed')
+    .filter((doc) => isFolderReadable(doc.folder, deniedFolders))
+  const [target, base] = versions
+
+  if (!target || !base) {
+    console.log('[version-change-service] Document has no previous version:', { documentId })
+    return null
+  }
+
+  const [baseText, targetText] = await Promise.all([getDocumentText(base), getDocumentText(target)])
+  const format = baseText.format === 'markdown' || targetText.format === 'markdown' ? 'markdown' : 'plain'
+  const diff = diffDocumentVersions(baseText.text, targetText.text, format)
+  const totalChanges = diff.stats.added + diff.stats.removed + diff.stats.modified
+
+  // Per ogni modifica: testo precedente seguito dal testo nuovo, così l'LLM può citarli insieme
+  const results = selectChangedSections(diff.sections, request.query, request.articleNumber).flatMap((section) => [
+    ...(section.oldContent !== undefined ? [toSearchResult(base, section, section.oldContent, false)] : []),
+    ...(section.newContent !== undefined ? [toSearchResult(target, section, section.newContent, true)] : []),
+  ])
+
+  console.log('[version-change-service] Version changes retrieved:', {
+    filename: target.filename,
+    baseVersion: base.version || 1,
+    targetVersion: target.version || 1,
+    strategy: diff.strategy,
+    totalChanges,
+    passages: results.length,
+  })
+
+  return {
+    comparison: {
+      filename: target.filename,
+      baseVersion: base.version || 1,
+      targetVersion: target.version || 1,
+    },
+    baseDocumentId: base.id,
+    targetDocumentId: target.id,
+    results,
+    totalChanges,
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Cambio del ramo attivo di una conversazione (messaggi modificati)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { switchConversationBranch } from '@/lib/services/conversation-service'
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: conversationId } = await context.params
+    const { messageId } = await request.json()
+
+    if (!messageId || typeof messageId !== 'string') {
+      return NextResponse.json({ error: 'messageId obbligatorio' }, { status: 400 })
+    }
+
+    const detail = await switchConversationBranch(conversationId, messageId)
+    if (detail.notFound) {
+      return NextResponse.json({ error: 'Messaggio non trovato' }, { status: 404 })
+    }
+
+    return NextResponse.json({ messages: detail.messages })
+  } catch (error) {
+    console.error('[api/conversations/branch] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCitedDocuments, getConversationDetail } from '@/lib/services/conversation-service'
+import { getCurrentDocumentAccess } from '@/lib/auth/authorization'
+import {
+  buildConversationTranscript,
+  renderTranscriptMarkdown,
+  transcriptFilename,
+} from '@/lib/export/conversation-transcript'
+import { renderTranscriptPdf } from '@/lib/export/pdf-writer'
+import { renderTranscriptDocx } from '@/lib/export/docx-writer'
+
+const EXPORT_FORMATS = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+  docx: {
+    extension: 'docx',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+} as const
+
+type ExportFormat = keyof typeof EXPORT_FORMATS
+
+function isExportFormat(value: string): value is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value)
+}
+
+/**
+ * GET /api/conversations/[id]/export?format=markdown|pdf|docx
+ * Esporta l'intera conversazione con le citazioni trasformate in note a piè di pagina
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const format = req.nextUrl.searchParams.get('format') ?? 'markdown'
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'Invalid format. Use markdown, pdf or docx' },
+        { status: 400 }
+      )
+    }
+
+    const params = await context.params
+    // RLS: la conversazione deve appartenere all'utente
+    const { conversation, messages, notFound } = await getConversationDetail(params.id)
+
+    if (notFound || !conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const transcript = buildConversationTranscript(messages, {
+      title: conversation.title,
+      folderScope: conversation.folder_scope ?? null,
+      // Dei documenti in cartelle riservate non si esportano cartella ed estratto
+      documents: await getCitedDocuments(messages, await getCurrentDocumentAccess()),
+    })
+
+    const { extension, contentType } = EXPORT_FORMATS[format]
+    let body: BodyInit
+    if (format === 'pdf') {
+      body = Uint8Array.from(renderTranscriptPdf(transcript))
+    } else if (format === 'docx') {
+      body = Uint8Array.from(await renderTranscriptDocx(transcript))
+    } else {
+      body = renderTranscriptMarkdown(transcript)
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${transcriptFilename(transcript.title, extension)}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[api/conversations/export] Error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    )
+  }
+}
@@ -125,19 +125,37 @@ export async function PATCH(
 
     const params = await context.params
     const conversationId = params.id
-    const { title } = await req.json()
+    const body = await req.json()
+    const { title } = body
+    const hasFolderScope = 'folderScope' in body
 
-    if (!title) {
+    if (!title && !hasFolderScope) {
       return NextResponse.json(
-        { error: 'Title is required' },
+        { error: 'Title or folderScope is required' },
         { status: 400 }
       )
     }
 
+    if (hasFolderScope && body.folderScope !== null && typeof body.folderScope !== 'string') {
+      return NextResponse.json(
+        { error: 'folderScope must be a string or null' },
+        { status: 400 }
+      )
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (title) {
+      updates.title = title
+    }
+    if (hasFolderScope) {
+      // Stringa vuota o null = nessuno scope (intero corpus)
+      updates.folder_scope = body.folderScope?.trim() || null
+    }
+
     // RLS will ensure user can only update their own conversations
     const { data, error } = await supabase
       .from('conversations')
-      .update({ title, updated_at: new Date().toISOString() })
+      .update(updates)
       .eq('id', conversationId)
       .select()
       .single()
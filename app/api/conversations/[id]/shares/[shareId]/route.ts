@@ -0,0 +1,32 @@
+/**
+ * Revoca di un link di condivisione
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { revokeConversationShare } from '@/lib/services/conversation-share-service'
+
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string; shareId: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: conversationId, shareId } = await context.params
+    const revoked = await revokeConversationShare(conversationId, shareId)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Link non trovato' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[api/conversations/shares] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API per i link di condivisione in sola lettura di una conversazione
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import {
+  createConversationShare,
+  listConversationShares,
+  MAX_SHARE_EXPIRY_DAYS,
+} from '@/lib/services/conversation-share-service'
+
+function isValidExpiry(value: unknown): value is number | null {
+  return value === null ||
+    (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_SHARE_EXPIRY_DAYS)
+}
+
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: conversationId } = await context.params
+    const shares = await listConversationShares(conversationId)
+
+    return NextResponse.json({ shares })
+  } catch (error) {
+    console.error('[api/conversations/shares] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: conversationId } = await context.params
+    const { expiresInDays = null } = await request.json().catch(() => ({}))
+
+    if (!isValidExpiry(expiresInDays)) {
+      return NextResponse.json(
+        { error: `expiresInDays deve essere null o un intero tra 1 e ${MAX_SHARE_EXPIRY_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const share = await createConversationShare(conversationId, expiresInDays)
+    if (!share) {
+      return NextResponse.json({ error: 'Conversazione non trovata' }, { status: 404 })
+    }
+
+    return NextResponse.json({ share }, { status: 201 })
+  } catch (error) {
+    console.error('[api/conversations/shares] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -53,13 +53,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { title } = await req.json()
+    const { title, folderScope } = await req.json()
 
     const { data, error } = await supabase
       .from('conversations')
       .insert({
         title: title || 'Nuova conversazione',
         user_id: user.id,
+        folder_scope: typeof folderScope === 'string' && folderScope.trim() ? folderScope.trim() : null,
       })
       .select()
       .single()
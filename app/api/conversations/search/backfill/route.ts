@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequestAuthorized } from '@/lib/auth/cron'
+import { backfillMessageEmbeddings } from '@/lib/supabase/conversation-search'
+
+export const maxDuration = 300
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/conversations/search/backfill
+ * Invocato dal cron: calcola gli embedding mancanti dei messaggi per la ricerca semantica
+ */
+export async function GET(req: NextRequest) {
+  if (!isCronRequestAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await backfillMessageEmbeddings()
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    console.error('[api/conversations/search/backfill] Backfill run failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Embedding backfill failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Ricerca nella cronologia delle conversazioni dell'utente
+ *
+ * GET /api/conversations/search?q=...&mode=text|semantic&limit=20
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { searchConversationMessages } from '@/lib/supabase/conversation-search'
+import type { ConversationSearchMode } from '@/types/chat'
+
+const MIN_QUERY_LENGTH = 2
+const MAX_LIMIT = 50
+
+function isSearchMode(value: string): value is ConversationSearchMode {
+  return value === 'text' || value === 'semantic'
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const query = (searchParams.get('q') ?? '').trim()
+    const mode = searchParams.get('mode') ?? 'text'
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') ?? '20', 10) || 20, 1), MAX_LIMIT)
+
+    if (!isSearchMode(mode)) {
+      return NextResponse.json({ error: "mode deve essere 'text' o 'semantic'" }, { status: 400 })
+    }
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json({ results: [] })
+    }
+
+    const results = await searchConversationMessages(query, { mode, limit })
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('[api/conversations/search] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -1,11 +1,17 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/admin'
+import { requirePermission } from '@/lib/auth/authorization'
 
 /**
  * Diagnostic endpoint to check document processing status
  * GET /api/diagnostics/documents
  */
 export async function GET() {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     // Get all documents with their chunk counts
     const { data: documents, error: docError } = await supabaseAdmin
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getDocumentAccess, requirePermission } from '@/lib/auth/authorization'
+import { getPromptExperiments } from '@/lib/observability/prompt-experiments'
+import { PLAYGROUND_PROMPTS, runPromptPlayground } from '@/lib/services/prompt-playground-service'
+
+export const maxDuration = 60 // 60 secondi per Vercel
+
+const playgroundSchema = z.object({
+  question: z.string().trim().min(1),
+  promptName: z.string().refine((name) => PLAYGROUND_PROMPTS.includes(name), 'Unknown prompt'),
+  label: z.string().trim().min(1).optional(),
+  version: z.number().int().positive().optional(),
+  folder: z.string().trim().min(1).nullable().optional(),
+}).refine((body) => body.label !== undefined || body.version !== undefined, {
+  message: 'label or version is required',
+})
+
+/**
+ * Prompt disponibili ed esperimenti attivi
+ * GET /api/diagnostics/prompt-playground
+ */
+export async function GET() {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  return NextResponse.json({
+    prompts: PLAYGROUND_PROMPTS,
+    experiments: getPromptExperiments(),
+  })
+}
+
+/**
+ * Esegue una domanda con una label o versione scelta di un system prompt
+ * POST /api/diagnostics/prompt-playground
+ *
+ * Body:
+ * {
+ *   "question": "Quali sono gli obblighi ESPR?",
+ *   "promptName": "system-rag-with-context",
+ *   "label": "candidate",   // oppure "version": 12
+ *   "folder": "GRI"         // optional
+ * }
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  try {
+    const body = playgroundSchema.parse(await req.json())
+
+    console.log('[api/diagnostics/prompt-playground] Running:', {
+      promptName: body.promptName,
+      label: body.label,
+      version: body.version,
+      folder: body.folder,
+    })
+
+    const result = await runPromptPlayground({
+      question: body.question,
+      promptName: body.promptName,
+      // La versione ha la precedenza sulla label
+      target: body.version !== undefined ? { version: body.version } : { label: body.label },
+      folder: body.folder ?? null,
+      access: getDocumentAccess(auth),
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('[api/diagnostics/prompt-playground] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { generateEmbedding } from '@/lib/embeddings/openai'
 import { hybridSearch } from '@/lib/supabase/vector-operations'
 import { z } from 'zod'
+import { getDocumentAccess, requirePermission } from '@/lib/auth/authorization'
 
 const searchSchema = z.object({
   query: z.string().min(1),
@@ -23,6 +24,11 @@ const searchSchema = z.object({
  * }
  */
 export async function POST(req: NextRequest) {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     const body = await req.json()
     const { query, limit, threshold, vectorWeight } = searchSchema.parse(body)
@@ -40,7 +46,18 @@ export async function POST(req: NextRequest) {
 
     // Perform search
     const startTime = Date.now()
-    const results = await hybridSearch(queryEmbedding, query, limit, threshold, vectorWeight)
+    const results = await hybridSearch(
+      queryEmbedding,
+      query,
+      limit,
+      threshold,
+      vectorWeight,
+      undefined,
+      undefined,
+      undefined,
+      false,
+      getDocumentAccess(auth)
+    )
     const searchTime = Date.now() - startTime
 
     console.log('[api/diagnostics/search] Search completed in', searchTime, 'ms')
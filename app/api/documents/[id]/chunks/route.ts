@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/admin'
 import type { DocumentChunk } from '@/lib/supabase/database.types'
+import { getDocument } from '@/lib/supabase/document-operations'
+import { canReadFolder } from '@/lib/supabase/folder-permissions'
+import { requireDocumentAccess } from '@/lib/auth/authorization'
 
 /**
  * GET /api/documents/[id]/chunks
@@ -10,10 +13,24 @@ export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  // Anteprime e file solo per utenti autenticati, con la loro ACL delle cartelle
+  const access = await requireDocumentAccess()
+  if (access instanceof NextResponse) {
+    return access
+  }
+
   try {
     const { searchParams } = new URL(req.url)
     const highlight = searchParams.get('highlight') || undefined
 
+    const document = await getDocument(params.id)
+    if (!document || !(await canReadFolder(document.folder, access))) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
     const { data: chunks, error } = await supabaseAdmin
       .from('document_chunks')
       .select('*')
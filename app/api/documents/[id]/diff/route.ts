@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDocumentVersions } from '@/lib/supabase/document-operations'
+import { getDocumentText } from '@/lib/processing/document-text'
+import { diffDocumentVersions } from '@/lib/processing/version-diff'
+import { getDeniedFolders, isFolderReadable } from '@/lib/supabase/folder-permissions'
+import { requireDocumentAccess } from '@/lib/auth/authorization'
+
+export const maxDuration = 120 // I documenti caricati prima del salvataggio del testo vanno ri-estratti
+
+/**
+ * GET /api/documents/[id]/diff?base=<documentId>
+ * Confronta una versione del documento con una versione precedente della stessa catena
+ * Senza base, il confronto è con la versione immediatamente precedente
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Il confronto espone il testo completo dei documenti: serve una sessione
+  const access = await requireDocumentAccess()
+  if (access instanceof NextResponse) {
+    return access
+  }
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const baseId = searchParams.get('base')
+
+    // Le versioni in cartelle riservate non accessibili non sono confrontabili
+    const deniedFolders = await getDeniedFolders(access)
+    const versions = (await getDocumentVersions(params.id))
+      .filter((v) => isFolderReadable(v.folder, deniedFolders))
+    const target = versions.find((v) => v.id === params.id)
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    // Le versioni sono ordinate dalla più recente
+    const base = baseId
+      ? versions.find((v) => v.id === baseId)
+      : versions.find((v) => (v.version || 1) < (target.version || 1))
+
+    const versionList = versions.map((v) => ({
+      id: v.id,
+      version: v.version || 1,
+      created_at: v.created_at,
+      processing_status: v.processing_status,
+    }))
+
+    if (!base) {
+      return NextResponse.json(
+        {
+          error: baseId
+            ? 'Base version must belong to the same document'
+            : 'No previous version to compare with',
+          versions: versionList,
+        },
+        { status: baseId ? 400 : 404 }
+      )
+    }
+
+    if (base.id === target.id) {
+      return NextResponse.json(
+        { error: 'Cannot compare a version with itself', versions: versionList },
+        { status: 400 }
+      )
+    }
+
+    const [baseText, targetText] = await Promise.all([
+      getDocumentText(base),
+      getDocumentText(target),
+    ])
+
+    // Markdown se almeno una delle due versioni lo è (header come sezioni)
+    const format = baseText.format === 'markdown' || targetText.format === 'markdown' ? 'markdown' : 'plain'
+    const diff = diffDocumentVersions(baseText.text, targetText.text, format)
+
+    return NextResponse.json({
+      success: true,
+      base: { id: base.id, filename: base.filename, version: base.version || 1, created_at: base.created_at },
+      target: { id: target.id, filename: target.filename, version: target.version || 1, created_at: target.created_at },
+      versions: versionList,
+      diff,
+    })
+  } catch (error) {
+    console.error('[api/documents/[id]/diff] Diff failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to compare document versions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
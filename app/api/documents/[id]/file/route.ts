@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/admin'
 import { getDocument } from '@/lib/supabase/document-operations'
+import { canReadFolder } from '@/lib/supabase/folder-permissions'
+import { requireDocumentAccess } from '@/lib/auth/authorization'
 
 /**
  * GET /api/documents/[id]/file
@@ -10,9 +12,15 @@ export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  // Anteprime e file solo per utenti autenticati, con la loro ACL delle cartelle
+  const access = await requireDocumentAccess()
+  if (access instanceof NextResponse) {
+    return access
+  }
+
   try {
     const document = await getDocument(params.id)
-    if (!document) {
+    if (!document || !(await canReadFolder(document.folder, access))) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
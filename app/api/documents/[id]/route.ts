@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getDocument, deleteDocument } from '@/lib/supabase/document-operations'
 import { supabaseAdmin } from '@/lib/supabase/admin'
+import { documentTextPath } from '@/lib/processing/document-text'
+import { requireDocumentAccess, requirePermission } from '@/lib/auth/authorization'
+import { canReadFolder } from '@/lib/supabase/folder-permissions'
 
 /**
  * GET /api/documents/[id]
@@ -10,6 +13,12 @@ export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  // Anteprime e file solo per utenti autenticati, con la loro ACL delle cartelle
+  const access = await requireDocumentAccess()
+  if (access instanceof NextResponse) {
+    return access
+  }
+
   try {
     const documentId = params.id
 
@@ -22,7 +31,8 @@ export async function GET(
 
     const document = await getDocument(documentId)
 
-    if (!document) {
+    // Documento di una cartella riservata non accessibile: 404, come se non esistesse
+    if (!document || !(await canReadFolder(document.folder, access))) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -54,6 +64,11 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const auth = await requirePermission('documents:write')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     const documentId = params.id
 
@@ -76,11 +91,11 @@ export async function DELETE(
 
     console.log(`[api/documents/delete] Deleting document ${documentId}: ${document.filename}`)
 
-    // Elimina il file dallo storage (se esiste)
+    // Elimina il file e il testo estratto dallo storage (se esistono)
     if (document.storage_path) {
       const { error: storageError } = await supabaseAdmin.storage
         .from('documents')
-        .remove([document.storage_path])
+        .remove([document.storage_path, documentTextPath(document.id)])
 
       if (storageError) {
         console.warn(
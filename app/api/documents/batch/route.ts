@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { batchDeleteDocuments, batchMoveDocuments } from '@/lib/supabase/document-operations'
 import { z } from 'zod'
+import { requirePermission } from '@/lib/auth/authorization'
 
 /**
  * DELETE /api/documents/batch
@@ -11,6 +12,11 @@ const batchDeleteSchema = z.object({
 })
 
 export async function DELETE(req: NextRequest) {
+  const auth = await requirePermission('documents:write')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     const body = await req.json()
     const validated = batchDeleteSchema.parse(body)
@@ -53,6 +59,11 @@ const batchMoveSchema = z.object({
 })
 
 export async function PATCH(req: NextRequest) {
+  const auth = await requirePermission('documents:write')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     const body = await req.json()
     const validated = batchMoveSchema.parse(body)
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/admin'
+import { requirePermission } from '@/lib/auth/authorization'
 
 /**
  * DELETE /api/documents/folders/[folderName]
@@ -9,6 +10,11 @@ export async function DELETE(
   request: Request,
   { params }: { params: { folderName: string } }
 ) {
+  const auth = await requirePermission('documents:write')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     const folderName = decodeURIComponent(params.folderName)
 
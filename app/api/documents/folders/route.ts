@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/admin'
+import { getDeniedFolders, isFolderReadable } from '@/lib/supabase/folder-permissions'
+import { getCurrentDocumentAccess } from '@/lib/auth/authorization'
 
 /**
  * GET /api/documents/folders
- * Lista tutte le cartelle esistenti con conteggio documenti
+ * Lista le cartelle esistenti con conteggio documenti (escluse le cartelle riservate non accessibili)
  */
 export async function GET() {
   try {
@@ -17,11 +19,16 @@ export async function GET() {
       throw error
     }
 
+    const deniedFolders = await getDeniedFolders(await getCurrentDocumentAccess())
+
     // Count documents per folder
     const folderCounts = new Map<string, number>()
     let noFolderCount = 0
 
     documents?.forEach((doc) => {
+      if (!isFolderReadable(doc.folder, deniedFolders)) {
+        return
+      }
       if (doc.folder) {
         folderCounts.set(doc.folder, (folderCounts.get(doc.folder) || 0) + 1)
       } else {
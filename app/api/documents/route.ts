@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { listDocuments } from '@/lib/supabase/document-operations'
+import { getDeniedFolders, isFolderReadable } from '@/lib/supabase/folder-permissions'
+import { getCurrentDocumentAccess } from '@/lib/auth/authorization'
 
 /**
  * GET /api/documents
@@ -14,8 +16,9 @@ export async function GET(req: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '100')
     const folder = searchParams.get('folder') || undefined
 
-    // Fetch documenti dal database
-    let documents = await listDocuments(limit)
+    // Fetch documenti dal database, escluse le cartelle riservate non accessibili all'utente
+    const deniedFolders = await getDeniedFolders(await getCurrentDocumentAccess())
+    let documents = (await listDocuments(limit)).filter((doc) => isFolderReadable(doc.folder, deniedFolders))
     
     // Filter by folder if provided
     if (folder !== undefined) {
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { buildDeniedFoldersFilter, getDeniedFolders } from '@/lib/supabase/folder-permissions'
+import { getCurrentDocumentAccess } from '@/lib/auth/authorization'
+
+const DEFAULT_LIMIT = 8
+const MAX_LIMIT = 20
+
+/**
+ * GET /api/documents/suggest?q=...
+ * Suggerimenti documenti per l'autocomplete dei tag @documento nella chat
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const query = (searchParams.get('q') || '').trim()
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT)) || DEFAULT_LIMIT,
+      MAX_LIMIT
+    )
+
+    let dbQuery = supabaseAdmin
+      .from('documents')
+      .select('id, filename, folder')
+      .eq('processing_status', 'completed')
+      .order('filename', { ascending: true })
+      .limit(limit)
+
+    if (query) {
+      // Escape dei caratteri speciali di ilike
+      const escaped = query.replace(/[%_\\]/g, (char) => `\\${char}`)
+      dbQuery = dbQuery.ilike('filename', `%${escaped}%`)
+    }
+
+    // Niente suggerimenti dalle cartelle riservate non accessibili all'utente
+    const deniedFoldersFilter = buildDeniedFoldersFilter(await getDeniedFolders(await getCurrentDocumentAccess()))
+    if (deniedFoldersFilter) {
+      dbQuery = dbQuery.or(deniedFoldersFilter)
+    }
+
+    const { data, error } = await dbQuery
+
+    if (error) {
+      console.error('[api/documents/suggest] Query failed:', error)
+      throw error
+    }
+
+    return NextResponse.json({
+      success: true,
+      documents: data || [],
+    })
+  } catch (error) {
+    console.error('[api/documents/suggest] Suggest failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to suggest documents',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
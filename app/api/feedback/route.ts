@@ -0,0 +1,45 @@
+/**
+ * API per l'elenco dei feedback sulle risposte (solo amministratori)
+ *
+ * Query params: rating (up|down), reason, from, to (ISO date), page
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
+import { listFeedback } from '@/lib/services/feedback-service'
+import { isFeedbackRating, isFeedbackReason } from '@/lib/utils/feedback-reasons'
+
+function parseDate(value: string | null): string | undefined {
+  if (!value) {
+    return undefined
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('feedback:review')
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+
+    const params = request.nextUrl.searchParams
+    const rating = params.get('rating')
+    const reason = params.get('reason')
+    const page = parseInt(params.get('page') || '1', 10)
+
+    const result = await listFeedback({
+      rating: isFeedbackRating(rating) ? rating : undefined,
+      reason: isFeedbackReason(reason) ? reason : undefined,
+      from: parseDate(params.get('from')),
+      to: parseDate(params.get('to')),
+      page: isNaN(page) ? 1 : page,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[api/feedback] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requeueIngestionJob } from '@/lib/supabase/ingestion-jobs'
+import { triggerIngestionWorker } from '@/lib/processing/ingestion-worker'
+import { requirePermission } from '@/lib/auth/authorization'
+
+/**
+ * POST /api/ingestion/jobs/[id]/retry
+ * Ri-accoda un job fallito: il worker riparte dall'ultimo stage completato
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requirePermission('documents:write')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  try {
+    const job = await requeueIngestionJob(params.id)
+
+    await triggerIngestionWorker(req.nextUrl.origin)
+
+    return NextResponse.json({
+      success: true,
+      job,
+    })
+  } catch (error) {
+    console.error('[api/ingestion/jobs/[id]/retry] Retry failed:', error)
+    const details = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to retry ingestion job',
+        details,
+      },
+      { status: details === 'Only failed jobs can be retried' ? 409 : 500 }
+    )
+  }
+}
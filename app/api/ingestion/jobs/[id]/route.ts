@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/authorization'
+import { getIngestionJob } from '@/lib/supabase/ingestion-jobs'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/ingestion/jobs/[id]
+ * Stato di un job di ingestion (polling dall'uploader)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const current = await getCurrentUser()
+  if (!current) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const job = await getIngestionJob(params.id)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Ingestion job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      job,
+    })
+  } catch (error) {
+    console.error('[api/ingestion/jobs/[id]] Get failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to get ingestion job',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequestAuthorized } from '@/lib/auth/cron'
+import { runIngestionWorker } from '@/lib/processing/ingestion-worker'
+
+export const maxDuration = 300 // 5 minuti per invocazione del worker
+export const dynamic = 'force-dynamic'
+
+async function handleWorkerRequest(req: NextRequest) {
+  if (!isCronRequestAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await runIngestionWorker()
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    console.error('[api/ingestion/worker] Worker run failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Worker run failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/ingestion/worker
+ * Invocato dal cron per processare i job in coda (retry con backoff, lock scaduti)
+ */
+export async function GET(req: NextRequest) {
+  return handleWorkerRequest(req)
+}
+
+/**
+ * POST /api/ingestion/worker
+ * Invocato dopo l'enqueue di un nuovo job per avviare subito il processing
+ */
+export async function POST(req: NextRequest) {
+  return handleWorkerRequest(req)
+}
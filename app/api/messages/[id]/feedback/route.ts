@@ -0,0 +1,71 @@
+/**
+ * API per il feedback dell'utente (pollice su/giù) su una risposta dell'assistant
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { clearMessageFeedback, submitMessageFeedback } from '@/lib/services/feedback-service'
+import { isFeedbackRating, isFeedbackReason } from '@/lib/utils/feedback-reasons'
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: messageId } = await context.params
+    const { rating, reason = null } = await request.json()
+
+    if (!isFeedbackRating(rating)) {
+      return NextResponse.json({ error: "rating deve essere 'up' o 'down'" }, { status: 400 })
+    }
+
+    if (reason !== null && (rating !== 'down' || !isFeedbackReason(reason))) {
+      return NextResponse.json(
+        { error: 'reason non valido (ammesso solo per feedback negativo)' },
+        { status: 400 }
+      )
+    }
+
+    const saved = await submitMessageFeedback(messageId, { rating, reason })
+    if (!saved) {
+      return NextResponse.json({ error: 'Messaggio non trovato' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, feedback: { rating, reason } })
+  } catch (error) {
+    console.error('[api/messages/feedback] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: messageId } = await context.params
+    const cleared = await clearMessageFeedback(messageId)
+    if (!cleared) {
+      return NextResponse.json({ error: 'Messaggio non trovato' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[api/messages/feedback] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Sceglie la risposta rigenerata: sostituisce la risposta originale nella conversazione
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { acceptRegeneration } from '@/lib/services/regeneration-service'
+
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string; regenerationId: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: messageId, regenerationId } = await context.params
+    const message = await acceptRegeneration(messageId, regenerationId)
+    if (!message) {
+      return NextResponse.json({ error: 'Risposta rigenerata non trovata' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message })
+  } catch (error) {
+    console.error('[api/messages/regenerations/accept] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * "Rigenera con…": riesegue una risposta assistant con un altro modello
+ *
+ * Usa lo stesso input (contesto recuperato, cronologia, domanda) e le stesse fonti
+ * della risposta originale, senza strumenti. La risposta viene trasmessa in streaming
+ * (stesso formato SSE della chat) e salvata in attesa della scelta dell'utente.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { getRagAgentForModel } from '@/lib/mastra/agent'
+import { isRegenerationModel, normalizeModelId } from '@/lib/llm/models'
+import {
+  buildReplayMessages,
+  getRegenerationSource,
+  saveRegeneration,
+} from '@/lib/services/regeneration-service'
+import { createStream } from '@/app/api/chat/handlers/stream-handler'
+import { processResponse, streamAgentText } from '@/app/api/chat/handlers/response-handler'
+import { combineSources } from '@/app/api/chat/services/source-service'
+
+export const maxDuration = 60 // 60 secondi per Vercel
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Non autenticato' }, { status: 401 })
+    }
+
+    const { id: messageId } = await context.params
+    const { model } = await request.json()
+
+    if (!isRegenerationModel(model)) {
+      return NextResponse.json({ error: 'Modello non supportato' }, { status: 400 })
+    }
+
+    const source = await getRegenerationSource(messageId)
+    if (!source) {
+      return NextResponse.json({ error: 'Messaggio non trovato' }, { status: 404 })
+    }
+    if (!source.snapshot) {
+      return NextResponse.json(
+        { error: 'Contesto originale non disponibile per questa risposta' },
+        { status: 409 }
+      )
+    }
+
+    const targetModel = normalizeModelId(model)
+    if (source.model && normalizeModelId(source.model) === targetModel) {
+      return NextResponse.json({ error: 'Scegli un modello diverso da quello originale' }, { status: 400 })
+    }
+
+    const snapshot = source.snapshot
+    const stream = createStream(async (streamController) => {
+      streamController.sendStatus('Generazione risposta...')
+
+      // Nessuno strumento: il contesto è quello della risposta originale
+      const agent = getRagAgentForModel(targetModel, false)
+      const fullResponse = await streamAgentText(
+        agent,
+        buildReplayMessages(snapshot),
+        { maxToolRoundtrips: 0 },
+        streamController
+      )
+
+      if (!fullResponse.trim()) {
+        streamController.sendError('Failed to generate response: empty content')
+        streamController.close()
+        return
+      }
+
+      const processed = await processResponse(fullResponse, snapshot.citationContext, targetModel)
+      const sources = combineSources(processed.sources, processed.webSources)
+      const regenerationId = await saveRegeneration(messageId, user.id, {
+        model: targetModel,
+        content: processed.content,
+        sources,
+      })
+
+      console.log('[api/messages/regenerations] Regeneration saved:', {
+        messageId,
+        regenerationId,
+        originalModel: source.model,
+        model: targetModel,
+      })
+
+      streamController.sendTextComplete(processed.content)
+      streamController.sendDone(sources, targetModel, regenerationId)
+      streamController.close()
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('[api/messages/regenerations] Error:', error)
+    return NextResponse.json({ error: 'Errore interno del server' }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/admin'
+import { requirePermission } from '@/lib/auth/authorization'
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
 const ALLOWED_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/svg+xml', 'image/webp']
@@ -9,6 +10,11 @@ const ALLOWED_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/svg+xml',
  * Upload company logo
  */
 export async function POST(req: NextRequest) {
+  const auth = await requirePermission('settings:manage')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     const formData = await req.formData()
     const file = formData.get('file') as File | null
@@ -119,6 +125,11 @@ export async function POST(req: NextRequest) {
  * Remove company logo
  */
 export async function DELETE(_req: NextRequest) {
+  const auth = await requirePermission('settings:manage')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     // Get current logo path
     const { data: settings } = await supabaseAdmin
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
 
 export async function GET(req: NextRequest) {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  // I test singoli richiedono gli stessi permessi: inoltra i cookie di sessione
+  const init: RequestInit = { headers: { cookie: req.headers.get('cookie') ?? '' } }
+
   const results = {
     supabase: { success: false, error: '' },
     openai: { success: false, error: '' },
@@ -9,7 +18,7 @@ export async function GET(req: NextRequest) {
 
   // Test Supabase
   try {
-    const supabaseRes = await fetch(`${req.nextUrl.origin}/api/test/supabase`)
+    const supabaseRes = await fetch(`${req.nextUrl.origin}/api/test/supabase`, init)
     const supabaseData = await supabaseRes.json()
     results.supabase = supabaseData
   } catch (error) {
@@ -21,7 +30,7 @@ export async function GET(req: NextRequest) {
 
   // Test OpenAI
   try {
-    const openaiRes = await fetch(`${req.nextUrl.origin}/api/test/openai`)
+    const openaiRes = await fetch(`${req.nextUrl.origin}/api/test/openai`, init)
     const openaiData = await openaiRes.json()
     results.openai = openaiData
   } catch (error) {
@@ -33,7 +42,7 @@ export async function GET(req: NextRequest) {
 
   // Test OpenRouter
   try {
-    const openrouterRes = await fetch(`${req.nextUrl.origin}/api/test/openrouter`)
+    const openrouterRes = await fetch(`${req.nextUrl.origin}/api/test/openrouter`, init)
     const openrouterData = await openrouterRes.json()
     results.openrouter = openrouterData
   } catch (error) {
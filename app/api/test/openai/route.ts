@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateEmbedding } from '@/lib/embeddings/openai'
+import { requirePermission } from '@/lib/auth/authorization'
 
 export async function GET(_req: NextRequest) {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     // Test connessione OpenAI
     const embedding = await generateEmbedding('test connection')
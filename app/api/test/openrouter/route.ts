@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
 
 export async function GET(_req: NextRequest) {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     // Verifica che la chiave OpenRouter sia configurata
     const apiKey = process.env.OPENROUTER_API_KEY
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/authorization'
 
 /**
  * Test route to check if user profile API structure is working
  * GET /api/test/profile
  */
 export async function GET(_req: NextRequest) {
+  const auth = await requirePermission('diagnostics:access')
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
   try {
     return NextResponse.json({ 
       message: 'Profile API structure is ready',
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase/client'
 import { supabaseAdmin } from '@/lib/supabase/admin'
+import type { UserRole } from '@/lib/auth/roles'
 
 export interface UserProfile {
   id: string
@@ -9,6 +10,7 @@ export interface UserProfile {
   avatar_url: string | null
   bio: string | null
   preferences: Record<string, unknown>
+  role: UserRole // Modificabile solo dagli amministratori (/admin/users)
   created_at: string
   updated_at: string
 }
@@ -4,16 +4,17 @@ import { getCompanyLogoSetting } from '@/lib/services/settings-service'
 
 interface ChatRouteProps {
   readonly conversationId?: string
+  readonly focusMessageId?: string | null
 }
 
-export async function ChatRoute({ conversationId }: ChatRouteProps) {
+export async function ChatRoute({ conversationId, focusMessageId = null }: ChatRouteProps) {
   const [logoSetting, conversationDetail] = await Promise.all([
     getCompanyLogoSetting().catch((error) => {
       console.error('[ChatRoute] Failed to load company logo:', error)
       return { url: null, storage_path: null }
     }),
     conversationId
-      ? getConversationDetail(conversationId).catch((error) => {
+      ? getConversationDetail(conversationId, { focusMessageId }).catch((error) => {
           console.error('[ChatRoute] Failed to load conversation:', error)
           return { conversation: null, messages: [], notFound: true }
         })
@@ -26,13 +27,16 @@ export async function ChatRoute({ conversationId }: ChatRouteProps) {
       ? conversationDetail.conversation?.id ?? null
       : null
   const conversationNotFound = Boolean(conversationId && conversationDetail?.notFound)
+  const initialFolderScope = conversationDetail?.conversation?.folder_scope ?? null
 
   return (
     <ChatView
       initialLogoUrl={logoSetting.url}
       initialConversationId={resolvedConversationId}
       initialMessages={initialMessages}
+      initialFolderScope={initialFolderScope}
       conversationNotFound={conversationNotFound}
+      focusMessageId={focusMessageId}
     />
   )
 }
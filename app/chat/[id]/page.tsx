@@ -1,5 +1,12 @@
 import { ChatRoute } from '../ChatRoute'
 
-export default function ChatPageWithId({ params }: { params: { id: string } }) {
-  return <ChatRoute conversationId={params.id} />
+export default function ChatPageWithId({
+  params,
+  searchParams,
+}: {
+  params: { id: string }
+  searchParams: { message?: string }
+}) {
+  // ?message=<id>: apertura dai risultati della ricerca nelle conversazioni
+  return <ChatRoute conversationId={params.id} focusMessageId={searchParams.message ?? null} />
 }
@@ -2,7 +2,9 @@ import type { Metadata } from 'next'
 import './globals.css'
 import { NavigationBar } from '@/components/NavigationBar'
 import { ToastProvider } from '@/components/ui/Toast'
+import { UserRoleProvider } from '@/components/auth/UserRoleProvider'
 import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { getUserRole } from '@/lib/auth/user-role'
 
 export const metadata: Metadata = {
   title: 'RAG Chatbot - Collectibus',
@@ -25,12 +27,16 @@ export default async function RootLayout({
     console.error('[layout] Failed to load Supabase user session:', error)
   }
 
+  const role = user ? await getUserRole(supabase, user) : null
+
   return (
     <html lang="it">
       <body className="bg-white text-gray-900 antialiased">
         <ToastProvider>
-          <NavigationBar userEmail={user?.email ?? null} />
-          {children}
+          <UserRoleProvider role={role}>
+            <NavigationBar userEmail={user?.email ?? null} role={role} />
+            {children}
+          </UserRoleProvider>
         </ToastProvider>
       </body>
     </html>
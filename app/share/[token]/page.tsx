@@ -0,0 +1,24 @@
+import { notFound } from 'next/navigation'
+import { SharedConversationView } from '@/components/chat/SharedConversationView'
+import { getSharedConversation } from '@/lib/services/conversation-share-service'
+import { getCurrentDocumentAccess } from '@/lib/auth/authorization'
+
+// Revoche e scadenze devono valere subito: niente cache della pagina
+export const dynamic = 'force-dynamic'
+
+export default async function SharedConversationPage({ params }: { params: { token: string } }) {
+  const shared = await getSharedConversation(params.token, await getCurrentDocumentAccess())
+
+  if (!shared) {
+    notFound()
+  }
+
+  return (
+    <SharedConversationView
+      title={shared.conversation.title}
+      folderScope={shared.conversation.folder_scope ?? null}
+      messages={shared.messages}
+      expiresAt={shared.expiresAt}
+    />
+  )
+}
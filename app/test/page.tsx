@@ -1,5 +1,6 @@
 'use client'
 
+import Link from 'next/link'
 import { useState } from 'react'
 
 interface TestResult {
@@ -97,6 +98,19 @@ export default function TestPage() {
               </button>
             </div>
           </div>
+
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h2 className="text-xl font-semibold mb-2">Prompt Playground</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Esegui una domanda con una label o versione Langfuse di un system prompt
+            </p>
+            <Link
+              href="/test/prompts"
+              className="inline-block bg-gray-900 text-white px-4 py-2 rounded hover:bg-gray-800"
+            >
+              Apri playground
+            </Link>
+          </div>
         </div>
       </div>
     </div>
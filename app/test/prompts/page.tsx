@@ -0,0 +1,207 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { MessageBubble } from '@/components/chat/MessageBubble'
+import { getModelLabel } from '@/lib/llm/models'
+import type { PromptExperiment } from '@/lib/observability/prompt-experiments'
+import type { PromptPlaygroundResult } from '@/lib/services/prompt-playground-service'
+import type { Message } from '@/types/chat'
+
+type TargetMode = 'label' | 'version'
+
+function formatTarget(target: { label?: string; version?: number }): string {
+  return target.version !== undefined ? `v${target.version}` : `label ${target.label}`
+}
+
+export default function PromptPlaygroundPage() {
+  const [prompts, setPrompts] = useState<string[]>([])
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([])
+  const [promptName, setPromptName] = useState('')
+  const [targetMode, setTargetMode] = useState<TargetMode>('label')
+  const [label, setLabel] = useState('production')
+  const [version, setVersion] = useState('')
+  const [folder, setFolder] = useState('')
+  const [question, setQuestion] = useState('')
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<PromptPlaygroundResult | null>(null)
+
+  useEffect(() => {
+    fetch('/api/diagnostics/prompt-playground')
+      .then((res) => res.json())
+      .then((data) => {
+        setPrompts(data.prompts || [])
+        setExperiments(data.experiments || [])
+        setPromptName((current) => current || data.prompts?.[0] || '')
+      })
+      .catch((err) => console.error('Failed to load prompts:', err))
+  }, [])
+
+  const run = async () => {
+    setRunning(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      const res = await fetch('/api/diagnostics/prompt-playground', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          question,
+          promptName,
+          ...(targetMode === 'version' ? { version: Number(version) } : { label }),
+          folder: folder.trim() || null,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || `Errore ${res.status}`)
+      }
+      setResult(data as PromptPlaygroundResult)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore sconosciuto')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const canRun = Boolean(question.trim() && promptName) &&
+    (targetMode === 'label' ? Boolean(label.trim()) : Number(version) > 0)
+
+  const answer: Message | null = result
+    ? { role: 'assistant', content: result.answer, sources: result.sources, model: result.model }
+    : null
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <Link href="/test" className="text-sm text-gray-500 hover:text-gray-700">← Test</Link>
+          <h1 className="text-3xl font-bold mt-2">Prompt Playground</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Esegue la domanda con il recupero reale della knowledge base e la versione scelta del prompt.
+            Niente viene salvato (messaggi, cache, trace).
+          </p>
+        </div>
+
+        {experiments.length > 0 && (
+          <div className="bg-white p-4 rounded-lg shadow">
+            <h2 className="text-sm font-semibold text-gray-700 mb-2">Esperimenti attivi</h2>
+            <ul className="text-sm text-gray-600 space-y-1">
+              {experiments.map((experiment) => (
+                <li key={experiment.prompt}>
+                  <span className="font-mono">{experiment.prompt}</span>: control {formatTarget(experiment.control)},
+                  candidate {formatTarget(experiment.candidate)} ({Math.round(experiment.candidateTraffic * 100)}% del traffico)
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white p-6 rounded-lg shadow space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="text-sm text-gray-700">
+              Prompt
+              <select
+                value={promptName}
+                onChange={(e) => setPromptName(e.target.value)}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 font-mono text-sm"
+              >
+                {prompts.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+            <div className="text-sm text-gray-700">
+              <div className="flex gap-3">
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={targetMode === 'label'} onChange={() => setTargetMode('label')} />
+                  Label
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={targetMode === 'version'} onChange={() => setTargetMode('version')} />
+                  Versione
+                </label>
+              </div>
+              {targetMode === 'label' ? (
+                <input
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="production"
+                  className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                />
+              ) : (
+                <input
+                  type="number"
+                  min={1}
+                  value={version}
+                  onChange={(e) => setVersion(e.target.value)}
+                  placeholder="12"
+                  className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                />
+              )}
+            </div>
+            <label className="text-sm text-gray-700">
+              Cartella (opzionale)
+              <input
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                placeholder="Tutte le cartelle"
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+              />
+            </label>
+          </div>
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Domanda"
+            rows={3}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2"
+          />
+          <button
+            onClick={run}
+            disabled={!canRun || running}
+            className="bg-gray-900 text-white px-6 py-2 rounded-lg hover:bg-gray-800 disabled:opacity-50"
+          >
+            {running ? 'Esecuzione...' : 'Esegui'}
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {result && answer && (
+          <>
+            {!result.prompt.overridden && (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-lg p-3">
+                La domanda ha usato il prompt <span className="font-mono">{result.prompt.name}</span>:
+                la versione scelta di <span className="font-mono">{result.requestedPrompt}</span> non è stata applicata.
+              </div>
+            )}
+            <div className="text-sm text-gray-600 flex flex-wrap gap-x-6 gap-y-1">
+              <span>Prompt: <span className="font-mono">{result.prompt.name}</span></span>
+              <span>
+                Versione: {result.prompt.version != null ? `v${result.prompt.version}` : 'registry locale'}
+              </span>
+              <span>Modello: {getModelLabel(result.model)}</span>
+              <span>Intent: {result.retrieval.intent}</span>
+              <span>Chunk rilevanti: {result.retrieval.relevantCount}/{result.retrieval.resultsCount}</span>
+              <span>Durata: {(result.durationMs / 1000).toFixed(1)} s</span>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="bg-white p-4 rounded-lg shadow min-w-0">
+                <h2 className="text-sm font-semibold text-gray-700 mb-2">Prompt compilato</h2>
+                <pre className="text-xs whitespace-pre-wrap break-words max-h-[70vh] overflow-y-auto bg-gray-50 p-3 rounded">
+                  {result.compiledPrompt}
+                </pre>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow min-w-0">
+                <h2 className="text-sm font-semibold text-gray-700 mb-2">Risposta</h2>
+                <MessageBubble message={answer} readOnly />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,15 @@
 import { NavigationBarClient } from '@/components/NavigationBarClient'
+import type { UserRole } from '@/lib/auth/roles'
 
 interface NavigationBarProps {
   userEmail: string | null
+  role?: UserRole | null
 }
 
 /**
  * Thin server component wrapper that keeps the navigation shell tree serializable.
  */
-export function NavigationBar({ userEmail }: NavigationBarProps) {
-  return <NavigationBarClient userEmail={userEmail} />
+export function NavigationBar({ userEmail, role = null }: NavigationBarProps) {
+  return <NavigationBarClient userEmail={userEmail} role={role} />
 }
 
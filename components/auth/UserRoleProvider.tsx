@@ -0,0 +1,30 @@
+'use client'
+
+import { createContext, useContext, ReactNode } from 'react'
+import { hasPermission, type Permission, type UserRole } from '@/lib/auth/roles'
+
+interface UserRoleContextType {
+  role: UserRole | null
+  can: (permission: Permission) => boolean
+}
+
+const UserRoleContext = createContext<UserRoleContextType>({
+  role: null,
+  can: () => false,
+})
+
+/**
+ * Espone ai componenti client il ruolo risolto dal layout server
+ * Serve solo a nascondere le azioni non consentite: i permessi sono verificati dalle API
+ */
+export function UserRoleProvider({ role, children }: { role: UserRole | null; children: ReactNode }) {
+  return (
+    <UserRoleContext.Provider value={{ role, can: (permission) => hasPermission(role, permission) }}>
+      {children}
+    </UserRoleContext.Provider>
+  )
+}
+
+export function useUserRole() {
+  return useContext(UserRoleContext)
+}
@@ -17,6 +17,10 @@ interface ChatInputProps {
   statusMessage?: string | null
   webSearchEnabled?: boolean
   onWebSearchToggle?: (enabled: boolean) => void
+  includeHistory?: boolean
+  onIncludeHistoryToggle?: (enabled: boolean) => void
+  folderScope?: string | null
+  onFolderScopeChange?: (folder: string | null) => void
   credits?: CreditsData | null
   creditsLoading?: boolean
 }
@@ -30,6 +34,10 @@ export function ChatInput({
   statusMessage: _statusMessage,
   webSearchEnabled = false,
   onWebSearchToggle,
+  includeHistory = false,
+  onIncludeHistoryToggle,
+  folderScope = null,
+  onFolderScopeChange,
   credits,
   creditsLoading = false,
 }: ChatInputProps) {
@@ -43,6 +51,10 @@ export function ChatInput({
       placeholder="Scrivi un messaggio..."
       webSearchEnabled={webSearchEnabled}
       onWebSearchToggle={onWebSearchToggle}
+      includeHistory={includeHistory}
+      onIncludeHistoryToggle={onIncludeHistoryToggle}
+      folderScope={folderScope}
+      onFolderScopeChange={onFolderScopeChange}
       credits={credits}
       creditsLoading={creditsLoading}
     />
@@ -1,10 +1,11 @@
 'use client'
 
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { ConversationSidebar } from '@/components/chat/ConversationSidebar'
 import { SourceDetailPanel } from '@/components/chat/Citation'
 import { MessageBubble } from '@/components/chat/MessageBubble'
+import { RegenerationComparison } from '@/components/chat/RegenerationComparison'
 import { ChatInput } from '@/components/chat/ChatInput'
 import { MessageSkeleton } from '@/components/ui/Skeleton'
 import { TextLoop } from '@/components/ui/TextLoop'
@@ -12,20 +13,25 @@ import { useToast } from '@/components/ui/Toast'
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts'
 import { useChat } from '@/hooks/useChat'
 import { useCredits } from '@/hooks/useCredits'
+import { useMessageRegeneration } from '@/hooks/useMessageRegeneration'
 import type { Message, SourceDetail } from '@/types/chat'
 
 interface ChatViewProps {
   readonly initialLogoUrl: string | null
   readonly initialConversationId?: string | null
   readonly initialMessages?: Message[]
+  readonly initialFolderScope?: string | null
   readonly conversationNotFound?: boolean
+  readonly focusMessageId?: string | null // Messaggio da mostrare (risultati della ricerca)
 }
 
 export function ChatView({
   initialLogoUrl,
   initialConversationId = null,
   initialMessages = [],
+  initialFolderScope = null,
   conversationNotFound = false,
+  focusMessageId = null,
 }: ChatViewProps) {
   const router = useRouter()
   const { showToast } = useToast()
@@ -34,7 +40,16 @@ export function ChatView({
   const [isSourcesPanelOpen, setIsSourcesPanelOpen] = useState(false)
   const [selectedSourcesForPanel, setSelectedSourcesForPanel] = useState<SourceDetail[]>([])
   const [conversationId, setConversationId] = useState<string | null>(initialConversationId)
+  const [folderScope, setFolderScope] = useState<string | null>(initialFolderScope)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   const { credits, loading: creditsLoading, refetch: refetchCredits } = useCredits()
+  const {
+    regeneration,
+    startRegeneration,
+    acceptRegeneration,
+    discardRegeneration,
+    isAccepting,
+  } = useMessageRegeneration()
 
   const {
     messages,
@@ -47,21 +62,52 @@ export function ChatView({
     handleSend: handleSendOriginal,
     webSearchEnabled,
     setWebSearchEnabled,
+    includeHistory,
+    setIncludeHistory,
   } = useChat({
     conversationId,
     onConversationCreated: (id) => setConversationId(id),
     initialMessages,
     onMessageComplete: refetchCredits,
+    onWarning: (message) => showToast(message, 'warning'),
+    folderScope,
   })
 
+  const handleFolderScopeChange = useCallback(
+    async (folder: string | null) => {
+      const previousScope = folderScope
+      setFolderScope(folder)
+
+      // Nuova conversazione: lo scope viene salvato alla creazione
+      if (!conversationId) return
+
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ folderScope: folder }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`Failed to update folder scope: ${response.status}`)
+        }
+      } catch (error) {
+        console.error('Failed to update folder scope:', error)
+        setFolderScope(previousScope)
+        showToast("Errore durante l'aggiornamento della cartella. Riprova.", 'error')
+      }
+    },
+    [conversationId, folderScope, showToast]
+  )
+
   const handleSend = useCallback(
-    async (skipCache: boolean = false, messageOverride?: string) => {
+    async (skipCache: boolean = false, messageOverride?: string, editMessageIndex?: number) => {
       if (conversationNotFound && !conversationId) {
         showToast('Conversazione non disponibile.', 'error')
         return
       }
       try {
-        await handleSendOriginal(skipCache, messageOverride)
+        await handleSendOriginal(skipCache, messageOverride, editMessageIndex)
       } catch (error) {
         const errorMessage =
           error instanceof Error
@@ -93,7 +139,13 @@ export function ChatView({
       const userMessage = messages[userMessageIndex]
       if (!userMessage) return
 
-      // Prima elimina i messaggi dal database (user + assistant fallito)
+      // Rigenera come nuovo ramo del messaggio utente: lo scambio precedente resta consultabile
+      if (conversationId && userMessage.id) {
+        await handleSend(true, userMessage.content, userMessageIndex)
+        return
+      }
+
+      // Messaggio utente non salvato: elimina i messaggi dal database (user + assistant fallito)
       if (conversationId) {
         try {
           await fetch('/api/messages/delete-last', {
@@ -115,6 +167,71 @@ export function ChatView({
     [conversationId, handleSend, messages, setMessages, showToast]
   )
 
+  const handleEdit = useCallback(
+    async (messageIndex: number, content: string) => {
+      await handleSend(false, content, messageIndex)
+    },
+    [handleSend]
+  )
+
+  const handleSwitchBranch = useCallback(
+    async (messageId: string) => {
+      if (!conversationId) return
+
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}/branch`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ messageId }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`Failed to switch branch: ${response.status}`)
+        }
+
+        const data = await response.json()
+        setMessages(data.messages ?? [])
+        // Mantiene in vista il messaggio del ramo scelto (dopo lo scroll automatico in fondo)
+        requestAnimationFrame(() => {
+          document.getElementById(`message-${messageId}`)?.scrollIntoView({ block: 'nearest' })
+        })
+      } catch (error) {
+        console.error('Failed to switch branch:', error)
+        showToast('Errore durante il cambio di versione. Riprova.', 'error')
+      }
+    },
+    [conversationId, setMessages, showToast]
+  )
+
+  const handleRegenerate = useCallback(
+    async (messageId: string, model: string) => {
+      try {
+        await startRegeneration(messageId, model)
+        refetchCredits()
+      } catch (error) {
+        console.error('Failed to regenerate message:', error)
+        discardRegeneration()
+        showToast(error instanceof Error ? error.message : 'Errore durante la rigenerazione. Riprova.', 'error')
+      }
+    },
+    [discardRegeneration, refetchCredits, showToast, startRegeneration]
+  )
+
+  const handleUseRegenerated = useCallback(async () => {
+    try {
+      const updated = await acceptRegeneration()
+      if (!updated) return
+
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === updated.id ? { ...updated, siblingIds: msg.siblingIds } : msg))
+      )
+      showToast('Risposta sostituita', 'success')
+    } catch (error) {
+      console.error('Failed to accept regeneration:', error)
+      showToast('Errore durante il salvataggio della risposta. Riprova.', 'error')
+    }
+  }, [acceptRegeneration, setMessages, showToast])
+
   const keyboardShortcuts = useMemo(
     () => [
       {
@@ -141,6 +258,24 @@ export function ChatView({
 
   useKeyboardShortcuts(keyboardShortcuts)
 
+  // Messaggio aperto dai risultati della ricerca: scroll (dopo quello automatico in fondo) ed evidenziazione temporanea
+  useEffect(() => {
+    if (!focusMessageId) {
+      return
+    }
+
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+    setHighlightedMessageId(focusMessageId)
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2500)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      clearTimeout(timeout)
+    }
+  }, [focusMessageId])
+
   const showEmptyState = !conversationNotFound && messages.length === 0
 
   return (
@@ -205,12 +340,33 @@ export function ChatView({
                       if (msg.role === 'assistant' && !msg.content) {
                         return null
                       }
+                      if (regeneration && msg.id === regeneration.messageId) {
+                        return (
+                          <RegenerationComparison
+                            key={msg.id}
+                            original={msg}
+                            regeneration={regeneration}
+                            onOpenSources={openSourcesPanel}
+                            onKeepOriginal={discardRegeneration}
+                            onUseRegenerated={() => void handleUseRegenerated()}
+                            isAccepting={isAccepting}
+                          />
+                        )
+                      }
                       return (
                         <MessageBubble
                           key={msg.id || `msg-${idx}`}
                           message={msg}
                           onOpenSources={openSourcesPanel}
                           onRetry={msg.role === 'assistant' ? () => handleRetry(idx) : undefined}
+                          onEdit={msg.role === 'user' && !loading ? (content) => void handleEdit(idx, content) : undefined}
+                          onSwitchBranch={!loading ? handleSwitchBranch : undefined}
+                          onRegenerate={
+                            msg.role === 'assistant' && msg.id && !loading && !regeneration
+                              ? (model) => void handleRegenerate(msg.id as string, model)
+                              : undefined
+                          }
+                          highlighted={Boolean(msg.id) && msg.id === highlightedMessageId}
                         />
                       )
                     })
@@ -280,6 +436,10 @@ export function ChatView({
           statusMessage={statusMessage}
           webSearchEnabled={webSearchEnabled}
           onWebSearchToggle={setWebSearchEnabled}
+          includeHistory={includeHistory}
+          onIncludeHistoryToggle={setIncludeHistory}
+          folderScope={folderScope}
+          onFolderScopeChange={handleFolderScopeChange}
           credits={credits}
           creditsLoading={creditsLoading}
         />
@@ -150,6 +150,12 @@ export function Citation({ index, sources, onOpenSources }: CitationProps) {
                   ) : (
                     <>
                       <div className="font-medium text-gray-900">{source.filename}</div>
+                      {source.location && (
+                        <div className="text-gray-500 text-xs mt-0.5">{source.location}</div>
+                      )}
+                      {source.versionLabel && (
+                        <div className="text-amber-700 text-xs mt-0.5">{source.versionLabel}</div>
+                      )}
                       {source.similarity !== undefined && (
                         <div className="text-gray-500 text-xs mt-0.5">
                           Similarità: {(source.similarity * 100).toFixed(1)}%
@@ -323,6 +329,12 @@ export function CitationHybrid({ kbIndices, webIndices, kbSources, webSources, o
                 {kbCitationSources.map((source, idx) => (
                   <div key={`kb-${idx}`} className="mb-1.5">
                     <div className="font-medium text-gray-900">{source.filename}</div>
+                    {source.location && (
+                      <div className="text-gray-500 text-xs mt-0.5">{source.location}</div>
+                    )}
+                    {source.versionLabel && (
+                      <div className="text-amber-700 text-xs mt-0.5">{source.versionLabel}</div>
+                    )}
                     {source.similarity !== undefined && (
                       <div className="text-gray-500 text-xs mt-0.5">
                         Similarità: {(source.similarity * 100).toFixed(1)}%
@@ -523,6 +535,12 @@ export function CitationMultiple({ indices, sources, onOpenSources }: CitationMu
                   ) : (
                     <>
                       <div className="font-medium text-gray-900">{source.filename}</div>
+                      {source.location && (
+                        <div className="text-gray-500 text-xs mt-0.5">{source.location}</div>
+                      )}
+                      {source.versionLabel && (
+                        <div className="text-amber-700 text-xs mt-0.5">{source.versionLabel}</div>
+                      )}
                       {source.similarity !== undefined && (
                         <div className="text-gray-500 text-xs mt-0.5">
                           Similarità: {(source.similarity * 100).toFixed(1)}%
@@ -574,6 +592,12 @@ export function SourcesPanel({ sources }: SourcesPanelProps) {
       {sources.map((source, idx) => (
         <div key={idx} className="mb-1 last:mb-0">
           <div className="font-medium">{source.filename}</div>
+          {source.location && (
+            <div className="text-gray-600 text-xs">{source.location}</div>
+          )}
+          {source.versionLabel && (
+            <div className="text-amber-700 text-xs">{source.versionLabel}</div>
+          )}
           {source.similarity !== undefined && (
             <div className="text-gray-600 text-xs">
               Similarità: {(source.similarity * 100).toFixed(1)}%
@@ -585,9 +609,38 @@ export function SourcesPanel({ sources }: SourcesPanelProps) {
   )
 }
 
+// Rendering compatto per i chunk tabellari nel pannello fonti
+const sourceTableComponents: Components = {
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full border-collapse border border-gray-300 bg-white">
+        {children}
+      </table>
+    </div>
+  ),
+  thead: ({ children }) => (
+    <thead className="bg-gray-100">{children}</thead>
+  ),
+  th: ({ children }) => (
+    <th className="border border-gray-300 px-2 py-1 text-left font-semibold">
+      {children}
+    </th>
+  ),
+  td: ({ children }) => (
+    <td className="border border-gray-300 px-2 py-1 align-top">
+      {children}
+    </td>
+  ),
+  h1: ({ children }) => <div className="font-semibold text-gray-700 mb-2">{children}</div>,
+  h2: ({ children }) => <div className="font-semibold text-gray-700 mb-2">{children}</div>,
+  h3: ({ children }) => <div className="font-semibold text-gray-700 mb-2">{children}</div>,
+  p: ({ children }) => <p className="mb-2">{children}</p>,
+}
+
 /**
  * Componente per visualizzare il pannello dettagliato delle fonti
  * Ogni fonte mostra direttamente il chunk estratto dal vector store
+ * (i chunk tabellari sono renderizzati come tabelle)
  */
 export function SourceDetailPanel({ isOpen, sources, onClose }: SourceDetailPanelProps) {
   // All hooks must be called before any conditional returns
@@ -618,6 +671,13 @@ export function SourceDetailPanel({ isOpen, sources, onClose }: SourceDetailPane
     setDocumentError(null)
     try {
       const response = await fetch(`/api/documents/${documentId}`)
+      // L'anteprima dipende dai permessi di chi legge (anche nelle conversazioni condivise)
+      if (response.status === 401) {
+        throw new Error('Accedi per aprire il documento')
+      }
+      if (response.status === 404) {
+        throw new Error('Documento non disponibile con i tuoi permessi')
+      }
       if (!response.ok) {
         throw new Error('Failed to fetch document')
       }
@@ -731,6 +791,12 @@ export function SourceDetailPanel({ isOpen, sources, onClose }: SourceDetailPane
                         }`}>
                           {isWebSource ? 'Web' : 'KB'} #{source.index}
                         </span>
+                        {!isWebSource && source.location && (
+                          <span>{source.location}</span>
+                        )}
+                        {!isWebSource && source.versionLabel && (
+                          <span className="text-amber-700">{source.versionLabel}</span>
+                        )}
                         {!isWebSource && source.similarity !== undefined && (
                           <span>Similarità: {(source.similarity * 100).toFixed(1)}%</span>
                         )}
@@ -803,7 +869,13 @@ export function SourceDetailPanel({ isOpen, sources, onClose }: SourceDetailPane
                             Testo Estratto dal Vector Store:
                           </h4>
                           <div className="bg-gray-50 border border-gray-200 rounded p-3 text-xs text-gray-800 leading-relaxed max-h-64 overflow-y-auto">
-                            {source.content || <span className="text-gray-400 italic">Contenuto non disponibile</span>}
+                            {source.contentType === 'table' && source.content ? (
+                              <ReactMarkdown remarkPlugins={[remarkGfm]} components={sourceTableComponents}>
+                                {source.content}
+                              </ReactMarkdown>
+                            ) : (
+                              source.content || <span className="text-gray-400 italic">Contenuto non disponibile</span>
+                            )}
                           </div>
                         </div>
 
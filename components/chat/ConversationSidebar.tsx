@@ -1,19 +1,28 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useRef, useEffect } from 'react'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useConversation } from '@/hooks/useConversation'
+import { useConversationSearch } from '@/hooks/useConversationSearch'
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
 import { useToast } from '@/components/ui/Toast'
 import { ConversationSkeleton } from '@/components/ui/Skeleton'
-import type { ConversationListItem } from '@/types/chat'
+import { ShareConversationDialog } from '@/components/chat/ShareConversationDialog'
+import type { ConversationListItem, ConversationSearchMode, ConversationSearchResult } from '@/types/chat'
 
 interface ConversationSidebarProps {
   isOpen?: boolean
   onClose?: () => void
 }
 
+// Formati offerti da GET /api/conversations/[id]/export
+const EXPORT_OPTIONS = [
+  { format: 'markdown', label: 'Esporta Markdown' },
+  { format: 'pdf', label: 'Esporta PDF' },
+  { format: 'docx', label: 'Esporta Word' },
+] as const
+
 interface GroupedConversations {
   today: ConversationListItem[]
   thisWeek: ConversationListItem[]
@@ -27,6 +36,21 @@ export function ConversationSidebar({ isOpen = true, onClose }: ConversationSide
   const { conversations, loading, deleteConversation, createNewConversation } = useConversation()
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null)
   const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchMode, setSearchMode] = useState<ConversationSearchMode>('text')
+  const { results: searchResults, loading: searching, isActive: isSearchActive } = useConversationSearch(
+    searchQuery,
+    searchMode
+  )
+
+  // Conversazioni il cui titolo contiene la ricerca
+  const titleMatches = useMemo(() => {
+    const needle = searchQuery.trim().toLowerCase()
+    if (!needle) {
+      return []
+    }
+    return conversations.filter((conv) => (conv.title || '').toLowerCase().includes(needle))
+  }, [conversations, searchQuery])
   
   // Stato per i gruppi collassabili (default: tutti aperti)
   const [collapsedGroups, setCollapsedGroups] = useState<Record<string, boolean>>({
@@ -150,10 +174,40 @@ export function ConversationSidebar({ isOpen = true, onClose }: ConversationSide
               </svg>
             </button>
           </div>
+          <div className="mt-2 flex items-center gap-1.5">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Cerca nelle conversazioni"
+              className="flex-1 min-w-0 px-2.5 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:border-gray-400"
+              aria-label="Cerca nelle conversazioni"
+            />
+            <button
+              onClick={() => setSearchMode(searchMode === 'text' ? 'semantic' : 'text')}
+              className={`px-2 py-1.5 text-xs rounded-lg border transition-colors ${
+                searchMode === 'semantic'
+                  ? 'border-gray-900 bg-gray-900 text-white'
+                  : 'border-gray-200 text-gray-500 hover:text-gray-900'
+              }`}
+              title="Ricerca semantica: trova risposte simili anche senza le stesse parole"
+              aria-pressed={searchMode === 'semantic'}
+            >
+              Semantica
+            </button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-y-auto p-2">
-          {loading ? (
+          {isSearchActive ? (
+            <SearchResults
+              titleMatches={titleMatches}
+              results={searchResults}
+              loading={searching}
+              pathname={pathname}
+              onLinkClick={handleLinkClick}
+            />
+          ) : loading ? (
             <ConversationSkeleton />
           ) : conversations.length === 0 ? (
             <div className="text-center text-gray-400 mt-4 text-sm">
@@ -224,6 +278,91 @@ export function ConversationSidebar({ isOpen = true, onClose }: ConversationSide
   )
 }
 
+// Risultati della ricerca: titoli e messaggi con estratto evidenziato
+function SearchResults({
+  titleMatches,
+  results,
+  loading,
+  pathname,
+  onLinkClick,
+}: {
+  titleMatches: ConversationListItem[]
+  results: ConversationSearchResult[]
+  loading: boolean
+  pathname: string
+  onLinkClick: () => void
+}) {
+  if (loading && results.length === 0 && titleMatches.length === 0) {
+    return <ConversationSkeleton />
+  }
+
+  if (!loading && results.length === 0 && titleMatches.length === 0) {
+    return (
+      <div className="text-center text-gray-400 mt-4 text-sm">
+        Nessun risultato
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {titleMatches.length > 0 && (
+        <div className="space-y-1">
+          <div className="px-2 py-1.5 text-xs font-medium text-gray-500 uppercase tracking-wide">Titoli</div>
+          {titleMatches.map((conv) => (
+            <Link
+              key={conv.id}
+              href={`/chat/${conv.id}`}
+              onClick={onLinkClick}
+              className={`block p-2 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium text-gray-900 truncate ${
+                pathname === `/chat/${conv.id}` ? 'bg-gray-50' : ''
+              }`}
+            >
+              {conv.title || 'Senza titolo'}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="space-y-1" role="list" aria-label="Messaggi trovati">
+          <div className="px-2 py-1.5 text-xs font-medium text-gray-500 uppercase tracking-wide">Messaggi</div>
+          {results.map((result) => (
+            <Link
+              key={result.messageId}
+              href={`/chat/${result.conversationId}?message=${result.messageId}`}
+              onClick={onLinkClick}
+              className="block p-2 rounded-lg hover:bg-gray-50 transition-colors"
+              role="listitem"
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                <span className="truncate font-medium text-gray-700">
+                  {result.conversationTitle || 'Senza titolo'}
+                </span>
+                <span className="flex-shrink-0">
+                  {new Date(result.createdAt).toLocaleDateString('it-IT')}
+                </span>
+              </div>
+              <p className="mt-0.5 text-xs text-gray-600 line-clamp-3">
+                <span className="text-gray-400">{result.role === 'user' ? 'Tu: ' : 'Assistente: '}</span>
+                {result.snippet.map((segment, idx) =>
+                  segment.highlight ? (
+                    <mark key={idx} className="bg-yellow-100 text-gray-900 rounded-sm">
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={idx}>{segment.text}</span>
+                  )
+                )}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Componente per il gruppo collassabile
 function CollapsibleGroup({
   title,
@@ -305,9 +444,29 @@ function ConversationItem({
   onLinkClick: () => void
   onDeleteClick: (id: string) => void
 }) {
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isShareOpen, setIsShareOpen] = useState(false)
+  const exportMenuRef = useRef<HTMLDivElement>(null)
+
+  // Chiude il menu di esportazione al click esterno
+  useEffect(() => {
+    if (!isExportOpen) return
+
+    function handleClickOutside(event: MouseEvent) {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setIsExportOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isExportOpen])
+
   return (
     <div
-      className={`group flex items-center justify-between p-2 rounded-lg hover:bg-gray-50 transition-colors ${
+      className={`group relative flex items-center justify-between p-2 rounded-lg hover:bg-gray-50 transition-colors ${
         pathname === `/chat/${conv.id}` ? 'bg-gray-50' : ''
       }`}
       role="listitem"
@@ -325,12 +484,71 @@ function ConversationItem({
           {new Date(conv.updated_at).toLocaleDateString('it-IT')}
         </div>
       </Link>
+      <div className="relative" ref={exportMenuRef}>
+        <button
+          onClick={(e) => {
+            e.preventDefault()
+            setIsExportOpen(!isExportOpen)
+          }}
+          className={`${isExportOpen ? 'opacity-100' : 'opacity-0'} group-hover:opacity-100 text-gray-300 hover:text-gray-500 ml-2 p-1 rounded hover:bg-gray-100 transition-colors`}
+          title="Condividi o esporta conversazione"
+          aria-label={`Condividi o esporta conversazione: ${conv.title || 'Senza titolo'}`}
+          aria-haspopup="menu"
+          aria-expanded={isExportOpen}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+            />
+          </svg>
+        </button>
+        {isExportOpen && (
+          <div
+            className="absolute right-0 mt-1 w-40 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50"
+            role="menu"
+          >
+            <button
+              role="menuitem"
+              className="block w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+              onClick={() => {
+                setIsExportOpen(false)
+                setIsShareOpen(true)
+              }}
+            >
+              Condividi link
+            </button>
+            <hr className="my-1 border-gray-200" />
+            {EXPORT_OPTIONS.map((option) => (
+              <a
+                key={option.format}
+                href={`/api/conversations/${conv.id}/export?format=${option.format}`}
+                download
+                role="menuitem"
+                className="block px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                onClick={() => setIsExportOpen(false)}
+              >
+                {option.label}
+              </a>
+            ))}
+          </div>
+        )}
+        {isShareOpen && (
+          <ShareConversationDialog
+            conversationId={conv.id}
+            conversationTitle={conv.title}
+            onClose={() => setIsShareOpen(false)}
+          />
+        )}
+      </div>
       <button
         onClick={(e) => {
           e.preventDefault()
           onDeleteClick(conv.id)
         }}
-        className="opacity-0 group-hover:opacity-100 text-gray-300 hover:text-gray-500 ml-2 p-1 rounded hover:bg-gray-100 transition-colors"
+        className="opacity-0 group-hover:opacity-100 text-gray-300 hover:text-gray-500 ml-1 p-1 rounded hover:bg-gray-100 transition-colors"
         title="Elimina conversazione"
         aria-label={`Elimina conversazione: ${conv.title || 'Senza titolo'}`}
       >
@@ -1,24 +1,94 @@
 'use client'
 
-import React, { useMemo, useCallback } from 'react'
+import React, { useMemo, useCallback, useEffect, useRef, useState } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import rehypeRaw from 'rehype-raw'
-import { CopyIcon, RefreshCcwIcon } from 'lucide-react'
+import { ArrowLeftRightIcon, ChevronLeftIcon, ChevronRightIcon, CopyIcon, PencilIcon, RefreshCcwIcon, ThumbsDownIcon, ThumbsUpIcon } from 'lucide-react'
 import { MessageWithCitations } from '@/components/chat/Citation'
 import { markdownComponents } from '@/components/chat/MarkdownComponents'
 import { Action, Actions } from '@/components/ui/actions'
 import { useToast } from '@/components/ui/Toast'
-import type { Message, SourceDetail } from '@/types/chat'
+import { FEEDBACK_REASONS } from '@/lib/utils/feedback-reasons'
+import { REGENERATION_MODELS, normalizeModelId } from '@/lib/llm/models'
+import type { FeedbackReason, FeedbackRating, Message, MessageFeedback, SourceDetail } from '@/types/chat'
 
 interface MessageBubbleProps {
   message: Message
   onOpenSources?: (sources: SourceDetail[]) => void
   onRetry?: () => void
+  readOnly?: boolean // Conversazione condivisa: niente feedback
+  highlighted?: boolean // Messaggio aperto dai risultati della ricerca
+  onEdit?: (content: string) => void // Messaggi utente: rigenera da qui come nuovo ramo
+  onSwitchBranch?: (messageId: string) => void // Passa a un ramo alternativo del messaggio
+  onRegenerate?: (model: string) => void // Rigenera la risposta con un altro modello
 }
 
-export const MessageBubble = React.memo(function MessageBubble({ message, onOpenSources, onRetry }: MessageBubbleProps) {
+export const MessageBubble = React.memo(function MessageBubble({
+  message,
+  onOpenSources,
+  onRetry,
+  readOnly = false,
+  highlighted = false,
+  onEdit,
+  onSwitchBranch,
+  onRegenerate,
+}: MessageBubbleProps) {
   const { showToast } = useToast()
+  const [isRegenerateMenuOpen, setIsRegenerateMenuOpen] = useState(false)
+  const regenerateMenuRef = useRef<HTMLDivElement>(null)
+
+  // Chiude il menu dei modelli al click esterno
+  useEffect(() => {
+    if (!isRegenerateMenuOpen) return
+
+    function handleClickOutside(event: MouseEvent) {
+      if (regenerateMenuRef.current && !regenerateMenuRef.current.contains(event.target as Node)) {
+        setIsRegenerateMenuOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isRegenerateMenuOpen])
+
+  const regenerationModels = useMemo(() => {
+    const currentModel = message.model ? normalizeModelId(message.model) : null
+    return REGENERATION_MODELS.filter((option) => option.id !== currentModel)
+  }, [message.model])
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+
+  const branchIndex = message.id && message.siblingIds ? message.siblingIds.indexOf(message.id) : -1
+  const branchCount = message.siblingIds?.length ?? 0
+  const showBranchSwitcher = Boolean(onSwitchBranch) && branchIndex !== -1 && branchCount > 1
+  const previousBranchId = branchIndex > 0 ? message.siblingIds?.[branchIndex - 1] : undefined
+  const nextBranchId = branchIndex !== -1 ? message.siblingIds?.[branchIndex + 1] : undefined
+
+  const handleStartEdit = useCallback(() => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }, [message.content])
+
+  const handleSubmitEdit = useCallback(() => {
+    const content = draft.trim()
+    if (!content || !onEdit) {
+      return
+    }
+    setIsEditing(false)
+    onEdit(content)
+  }, [draft, onEdit])
+
+  const handleEditKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSubmitEdit()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }, [handleSubmitEdit])
   
   const handleOpenSources = useCallback(() => {
     if (message.sources && onOpenSources) {
@@ -36,15 +106,62 @@ export const MessageBubble = React.memo(function MessageBubble({ message, onOpen
     }
   }, [message.content, showToast])
 
+  const [feedback, setFeedback] = useState<MessageFeedback | null>(message.feedback ?? null)
+  const [showReasons, setShowReasons] = useState(false)
+  const [isSendingFeedback, setIsSendingFeedback] = useState(false)
+
+  const sendFeedback = useCallback(async (rating: FeedbackRating | null, reason: FeedbackReason | null = null) => {
+    if (!message.id) {
+      return
+    }
+
+    setIsSendingFeedback(true)
+    try {
+      const res = await fetch(`/api/messages/${message.id}/feedback`, {
+        method: rating ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: rating ? JSON.stringify({ rating, reason }) : undefined,
+      })
+      if (!res.ok) {
+        throw new Error(`Feedback request failed: ${res.status}`)
+      }
+      setFeedback(rating ? { rating, reason } : null)
+      setShowReasons(false)
+      if (rating) {
+        showToast('Grazie per il feedback', 'success')
+      }
+    } catch (error) {
+      console.error('Failed to send feedback:', error)
+      showToast('Errore durante l\'invio del feedback', 'error')
+    } finally {
+      setIsSendingFeedback(false)
+    }
+  }, [message.id, showToast])
+
+  const handleThumbsUp = useCallback(() => {
+    setShowReasons(false)
+    // Un secondo click sul pollice attivo rimuove il feedback
+    void sendFeedback(feedback?.rating === 'up' ? null : 'up')
+  }, [feedback?.rating, sendFeedback])
+
+  const handleThumbsDown = useCallback(() => {
+    if (feedback?.rating === 'down') {
+      void sendFeedback(null)
+      return
+    }
+    setShowReasons((prev) => !prev)
+  }, [feedback?.rating, sendFeedback])
+
   const hasSources = useMemo(() => {
     return message.role === 'assistant' && message.sources && message.sources.length > 0
   }, [message.role, message.sources])
   
   return (
     <div
-      className={`flex flex-col gap-2 ${
+      id={message.id ? `message-${message.id}` : undefined}
+      className={`flex flex-col gap-2 rounded-xl transition-colors duration-700 ${
         message.role === 'user' ? 'items-end' : 'items-start'
-      }`}
+      } ${highlighted ? 'bg-yellow-50' : ''}`}
     >
       <div
         className={`flex gap-3 ${
@@ -96,6 +213,35 @@ export const MessageBubble = React.memo(function MessageBubble({ message, onOpen
                 {message.content}
               </ReactMarkdown>
             </div>
+          ) : isEditing ? (
+            <div className="flex flex-col gap-2 min-w-[16rem]">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                className="w-full resize-none rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-gray-400"
+                aria-label="Modifica messaggio"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1 text-xs text-gray-700 rounded-lg hover:bg-gray-100"
+                >
+                  Annulla
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSubmitEdit}
+                  disabled={!draft.trim() || draft.trim() === message.content}
+                  className="px-3 py-1 text-xs font-medium text-white bg-gray-900 rounded-lg hover:bg-gray-800 disabled:opacity-50"
+                >
+                  Invia
+                </button>
+              </div>
+            </div>
           ) : (
             <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
           )}
@@ -109,6 +255,40 @@ export const MessageBubble = React.memo(function MessageBubble({ message, onOpen
           </div>
         )}
       </div>
+      {message.role === 'user' && !isEditing && (showBranchSwitcher || (onEdit && message.id)) && (
+        <div className="flex justify-end mr-10">
+          <Actions>
+            {showBranchSwitcher && (
+              <>
+                <Action
+                  label="Versione precedente"
+                  onClick={() => previousBranchId && onSwitchBranch?.(previousBranchId)}
+                  disabled={!previousBranchId}
+                  className="disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <ChevronLeftIcon className="size-4" />
+                </Action>
+                <span className="text-xs text-gray-500 tabular-nums" aria-label="Versione del messaggio">
+                  {branchIndex + 1}/{branchCount}
+                </span>
+                <Action
+                  label="Versione successiva"
+                  onClick={() => nextBranchId && onSwitchBranch?.(nextBranchId)}
+                  disabled={!nextBranchId}
+                  className="disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <ChevronRightIcon className="size-4" />
+                </Action>
+              </>
+            )}
+            {onEdit && message.id && (
+              <Action label="Modifica" onClick={handleStartEdit}>
+                <PencilIcon className="size-4" />
+              </Action>
+            )}
+          </Actions>
+        </div>
+      )}
       {message.role === 'assistant' && message.content && (
         <div className="flex gap-4 justify-start ml-10">
           <Actions className="mt-1">
@@ -120,6 +300,63 @@ export const MessageBubble = React.memo(function MessageBubble({ message, onOpen
             <Action label="Copy" onClick={handleCopy}>
               <CopyIcon className="size-4" />
             </Action>
+            {onRegenerate && message.id && !readOnly && (
+              <div className="relative" ref={regenerateMenuRef}>
+                <Action
+                  label="Rigenera con un altro modello"
+                  onClick={() => setIsRegenerateMenuOpen((prev) => !prev)}
+                  aria-haspopup="menu"
+                  aria-expanded={isRegenerateMenuOpen}
+                >
+                  <ArrowLeftRightIcon className="size-4" />
+                </Action>
+                {isRegenerateMenuOpen && (
+                  <div
+                    className="absolute left-0 bottom-full mb-1 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50"
+                    role="menu"
+                  >
+                    <div className="px-3 py-1 text-xs text-gray-500">Rigenera con…</div>
+                    {regenerationModels.map((option) => (
+                      <button
+                        key={option.id}
+                        type="button"
+                        role="menuitem"
+                        className="block w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                        onClick={() => {
+                          setIsRegenerateMenuOpen(false)
+                          onRegenerate(option.id)
+                        }}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {message.id && !readOnly && (
+              <>
+                <Action
+                  label="Risposta utile"
+                  onClick={handleThumbsUp}
+                  disabled={isSendingFeedback}
+                  aria-pressed={feedback?.rating === 'up'}
+                  className={feedback?.rating === 'up' ? 'text-gray-900' : undefined}
+                >
+                  <ThumbsUpIcon className="size-4" fill={feedback?.rating === 'up' ? 'currentColor' : 'none'} />
+                </Action>
+                <Action
+                  label="Risposta non utile"
+                  onClick={handleThumbsDown}
+                  disabled={isSendingFeedback}
+                  aria-pressed={feedback?.rating === 'down'}
+                  aria-expanded={showReasons}
+                  className={feedback?.rating === 'down' ? 'text-gray-900' : undefined}
+                >
+                  <ThumbsDownIcon className="size-4" fill={feedback?.rating === 'down' ? 'currentColor' : 'none'} />
+                </Action>
+              </>
+            )}
           </Actions>
           {message.model && (
             <span className="text-xs text-gray-400 mt-1.5">
@@ -128,6 +365,30 @@ export const MessageBubble = React.memo(function MessageBubble({ message, onOpen
           )}
         </div>
       )}
+      {message.role === 'assistant' && showReasons && (
+        <div className="flex flex-wrap items-center gap-2 ml-10" role="group" aria-label="Motivo del feedback negativo">
+          <span className="text-xs text-gray-500">Cosa non va?</span>
+          {FEEDBACK_REASONS.map((reason) => (
+            <button
+              key={reason.value}
+              type="button"
+              onClick={() => void sendFeedback('down', reason.value)}
+              disabled={isSendingFeedback}
+              className="rounded-full border border-gray-200 px-2.5 py-1 text-xs text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              {reason.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => void sendFeedback('down')}
+            disabled={isSendingFeedback}
+            className="px-1 py-1 text-xs text-gray-500 hover:text-gray-900 disabled:opacity-50"
+          >
+            Invia senza motivo
+          </button>
+        </div>
+      )}
     </div>
   )
 })
@@ -3,9 +3,12 @@
 import React from 'react'
 import * as TooltipPrimitive from '@radix-ui/react-tooltip'
 import * as DialogPrimitive from '@radix-ui/react-dialog'
-import { ArrowUp, Square, X, Globe } from 'lucide-react'
+import { ArrowUp, Square, X, Globe, FileText, Folder, Check, History } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { cn } from '@/lib/utils'
+import { findActiveDocumentTag, formatDocumentTag } from '@/lib/utils/document-tag-parser'
+import { useDocumentSuggestions, type DocumentSuggestion } from '@/hooks/useDocumentSuggestions'
+import { useFolders } from '@/hooks/useFolders'
 
 // Textarea Component
 interface TextareaProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement> {
@@ -274,6 +277,7 @@ PromptInput.displayName = 'PromptInput'
 interface PromptInputTextareaProps {
   disableAutosize?: boolean
   placeholder?: string
+  inputRef?: React.MutableRefObject<HTMLTextAreaElement | null>
 }
 
 const PromptInputTextarea: React.FC<PromptInputTextareaProps & React.ComponentProps<typeof Textarea>> = ({
@@ -281,10 +285,12 @@ const PromptInputTextarea: React.FC<PromptInputTextareaProps & React.ComponentPr
   onKeyDown,
   disableAutosize = false,
   placeholder,
+  inputRef,
   ...props
 }) => {
   const { value, setValue, maxHeight, onSubmit, disabled } = usePromptInput()
-  const textareaRef = React.useRef<HTMLTextAreaElement>(null)
+  const localRef = React.useRef<HTMLTextAreaElement>(null)
+  const textareaRef = inputRef ?? localRef
 
   React.useEffect(() => {
     if (disableAutosize || !textareaRef.current) return
@@ -293,14 +299,18 @@ const PromptInputTextarea: React.FC<PromptInputTextareaProps & React.ComponentPr
       typeof maxHeight === 'number'
         ? `${Math.min(textareaRef.current.scrollHeight, maxHeight)}px`
         : `min(${textareaRef.current.scrollHeight}px, ${maxHeight})`
-  }, [value, maxHeight, disableAutosize])
+  }, [value, maxHeight, disableAutosize, textareaRef])
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Il gestore esterno (es. autocomplete @documento) può intercettare il tasto
+    onKeyDown?.(e)
+    if (e.defaultPrevented) {
+      return
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       onSubmit?.()
     }
-    onKeyDown?.(e)
   }
 
   return (
@@ -353,6 +363,163 @@ const PromptInputAction: React.FC<PromptInputActionProps> = ({
   )
 }
 
+// DocumentMentionPopover Component
+interface DocumentMentionPopoverProps {
+  suggestions: DocumentSuggestion[]
+  loading: boolean
+  highlightedIndex: number
+  onSelect: (suggestion: DocumentSuggestion) => void
+  onHighlight: (index: number) => void
+}
+
+const DocumentMentionPopover: React.FC<DocumentMentionPopoverProps> = ({
+  suggestions,
+  loading,
+  highlightedIndex,
+  onSelect,
+  onHighlight,
+}) => (
+  <motion.div
+    initial={{ opacity: 0, y: 4 }}
+    animate={{ opacity: 1, y: 0 }}
+    exit={{ opacity: 0, y: 4 }}
+    transition={{ duration: 0.15 }}
+    className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-xl border border-gray-200 bg-white shadow-lg overflow-hidden"
+    role="listbox"
+    aria-label="Suggerimenti documenti"
+  >
+    <div className="px-3 py-1.5 text-xs text-gray-500 border-b border-gray-100">
+      Limita la ricerca a un documento
+    </div>
+    {suggestions.length === 0 ? (
+      <div className="px-3 py-2 text-sm text-gray-500">
+        {loading ? 'Ricerca documenti...' : 'Nessun documento trovato'}
+      </div>
+    ) : (
+      <ul className="max-h-60 overflow-y-auto py-1">
+        {suggestions.map((suggestion, index) => (
+          <li key={suggestion.id}>
+            <button
+              type="button"
+              role="option"
+              aria-selected={index === highlightedIndex}
+              onMouseDown={(e) => {
+                // Evita la perdita del focus sulla textarea
+                e.preventDefault()
+                onSelect(suggestion)
+              }}
+              onMouseEnter={() => onHighlight(index)}
+              className={cn(
+                'w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors',
+                index === highlightedIndex ? 'bg-gray-100 text-gray-900' : 'text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              <FileText className="h-4 w-4 flex-shrink-0 text-gray-400" />
+              <span className="truncate">{suggestion.filename}</span>
+              {suggestion.folder && (
+                <span className="ml-auto flex-shrink-0 text-xs text-gray-400">{suggestion.folder}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </motion.div>
+)
+
+// FolderScopeMenu Component
+interface FolderScopeMenuProps {
+  value: string | null
+  onChange: (folder: string | null) => void
+  disabled?: boolean
+}
+
+const FolderScopeMenu: React.FC<FolderScopeMenuProps> = ({ value, onChange, disabled = false }) => {
+  const { folders, loading } = useFolders()
+  const [isOpen, setIsOpen] = React.useState(false)
+  const menuRef = React.useRef<HTMLDivElement>(null)
+
+  // Chiudi il menu al click esterno
+  React.useEffect(() => {
+    if (!isOpen) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  const handleSelect = (folder: string | null) => {
+    setIsOpen(false)
+    if (folder !== value) {
+      onChange(folder)
+    }
+  }
+
+  const options: Array<{ name: string | null; label: string }> = [
+    { name: null, label: 'Tutta la knowledge base' },
+    ...folders.map((folder) => ({ name: folder.name, label: `${folder.name} (${folder.count})` })),
+  ]
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={cn(
+          'rounded-lg transition-all flex items-center gap-1 px-2 py-1 h-7',
+          value ? 'bg-amber-50 text-amber-700' : 'bg-transparent text-gray-400 hover:text-gray-600'
+        )}
+        disabled={disabled}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        title={value ? `Ricerca limitata alla cartella "${value}"` : 'Limita la ricerca a una cartella'}
+      >
+        <Folder className="w-4 h-4 flex-shrink-0" />
+        {value && <span className="text-xs max-w-[10rem] truncate">{value}</span>}
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 4 }}
+            transition={{ duration: 0.15 }}
+            className="absolute bottom-full left-0 mb-2 z-20 w-64 rounded-xl border border-gray-200 bg-white shadow-lg overflow-hidden"
+            role="listbox"
+            aria-label="Cartella della conversazione"
+          >
+            <div className="px-3 py-1.5 text-xs text-gray-500 border-b border-gray-100">
+              Limita la conversazione a una cartella
+            </div>
+            <ul className="max-h-60 overflow-y-auto py-1">
+              {options.map((option) => (
+                <li key={option.name ?? '__all__'}>
+                  <button
+                    type="button"
+                    role="option"
+                    aria-selected={option.name === value}
+                    onClick={() => handleSelect(option.name)}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    <span className="truncate">{option.label}</span>
+                    {option.name === value && <Check className="ml-auto h-4 w-4 flex-shrink-0 text-gray-500" />}
+                  </button>
+                </li>
+              ))}
+              {loading && folders.length === 0 && (
+                <li className="px-3 py-1.5 text-sm text-gray-500">Caricamento cartelle...</li>
+              )}
+            </ul>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
 // Main PromptInputBox Component
 interface PromptInputBoxProps {
   input: string
@@ -364,6 +531,10 @@ interface PromptInputBoxProps {
   className?: string
   webSearchEnabled?: boolean
   onWebSearchToggle?: (enabled: boolean) => void
+  includeHistory?: boolean
+  onIncludeHistoryToggle?: (enabled: boolean) => void
+  folderScope?: string | null
+  onFolderScopeChange?: (folder: string | null) => void
   credits?: { totalCredits: number; totalUsage: number; remaining: number } | null
   creditsLoading?: boolean
 }
@@ -380,6 +551,10 @@ export const PromptInputBox = React.forwardRef<HTMLDivElement, PromptInputBoxPro
       className,
       webSearchEnabled = false,
       onWebSearchToggle,
+      includeHistory = false,
+      onIncludeHistoryToggle,
+      folderScope = null,
+      onFolderScopeChange,
       credits,
       creditsLoading = false,
     },
@@ -391,6 +566,68 @@ export const PromptInputBox = React.forwardRef<HTMLDivElement, PromptInputBoxPro
     const [showSearch, setShowSearch] = React.useState(webSearchEnabled)
     const promptBoxRef = React.useRef<HTMLDivElement | null>(null)
     const [containerEl, setContainerEl] = React.useState<HTMLDivElement | null>(null)
+    const textareaRef = React.useRef<HTMLTextAreaElement | null>(null)
+    const [caret, setCaret] = React.useState(0)
+    const [highlightedIndex, setHighlightedIndex] = React.useState(0)
+    const [dismissedTagStart, setDismissedTagStart] = React.useState<number | null>(null)
+
+    // Autocomplete tag @documento
+    const activeTag = React.useMemo(() => findActiveDocumentTag(input, caret), [input, caret])
+    const isMentionOpen = activeTag !== null && activeTag.startIndex !== dismissedTagStart
+    const { suggestions, loading: suggestionsLoading } = useDocumentSuggestions(
+      isMentionOpen ? activeTag.query : null
+    )
+
+    React.useEffect(() => {
+      setHighlightedIndex(0)
+    }, [activeTag?.query])
+
+    React.useEffect(() => {
+      // Riapri l'autocomplete quando l'utente inizia un nuovo tag
+      if (!activeTag) {
+        setDismissedTagStart(null)
+      }
+    }, [activeTag])
+
+    const syncCaret = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+      setCaret(e.currentTarget.selectionStart ?? e.currentTarget.value.length)
+    }
+
+    const handleSelectSuggestion = (suggestion: DocumentSuggestion) => {
+      if (!activeTag) return
+      const tagText = `${formatDocumentTag(suggestion.filename)} `
+      const nextValue = input.slice(0, activeTag.startIndex) + tagText + input.slice(activeTag.endIndex)
+      const nextCaret = activeTag.startIndex + tagText.length
+      setInput(nextValue)
+      setCaret(nextCaret)
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus()
+        textareaRef.current?.setSelectionRange(nextCaret, nextCaret)
+      })
+    }
+
+    const handleMentionKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (!isMentionOpen || !activeTag) return
+
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setDismissedTagStart(activeTag.startIndex)
+        return
+      }
+
+      if (suggestions.length === 0) return
+
+      if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        setHighlightedIndex((prev) => (prev + 1) % suggestions.length)
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        setHighlightedIndex((prev) => (prev - 1 + suggestions.length) % suggestions.length)
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        handleSelectSuggestion(suggestions[Math.min(highlightedIndex, suggestions.length - 1)])
+      }
+    }
 
     const assignRef = React.useCallback(
       (node: HTMLDivElement | null) => {
@@ -525,7 +762,7 @@ export const PromptInputBox = React.forwardRef<HTMLDivElement, PromptInputBoxPro
               isLoading={isLoading}
               onSubmit={handleSubmit}
               className={cn(
-              'w-full bg-white border-gray-200 shadow-sm transition-all duration-200 ease-in-out',
+              'relative w-full bg-white border-gray-200 shadow-sm transition-all duration-200 ease-in-out',
                 className
               )}
               disabled={isLoading || disabled}
@@ -534,6 +771,17 @@ export const PromptInputBox = React.forwardRef<HTMLDivElement, PromptInputBoxPro
               onDragLeave={handleDragLeave}
               onDrop={handleDrop}
             >
+              <AnimatePresence>
+                {isMentionOpen && (
+                  <DocumentMentionPopover
+                    suggestions={suggestions}
+                    loading={suggestionsLoading}
+                    highlightedIndex={highlightedIndex}
+                    onSelect={handleSelectSuggestion}
+                    onHighlight={setHighlightedIndex}
+                  />
+                )}
+              </AnimatePresence>
               {files.length > 0 && (
                 <div className="flex flex-wrap gap-2 p-0 pb-1 transition-all duration-300">
                   {files.map((file, index) => (
@@ -567,6 +815,11 @@ export const PromptInputBox = React.forwardRef<HTMLDivElement, PromptInputBoxPro
               <PromptInputTextarea
                 placeholder={showSearch ? 'Cerca sul web...' : placeholder}
                 className="text-base"
+                inputRef={textareaRef}
+                onKeyDown={handleMentionKeyDown}
+                onSelect={syncCaret}
+                aria-autocomplete="list"
+                aria-expanded={isMentionOpen}
               />
 
               <PromptInputActions className="flex items-center justify-between gap-2 p-0 pt-2">
@@ -611,6 +864,27 @@ export const PromptInputBox = React.forwardRef<HTMLDivElement, PromptInputBoxPro
                       </AnimatePresence>
                     </button>
                   </div>
+                  {onIncludeHistoryToggle && (
+                    <button
+                      type="button"
+                      onClick={() => onIncludeHistoryToggle(!includeHistory)}
+                      className={cn(
+                        'rounded-lg transition-all flex items-center gap-1 px-2 py-1 h-7',
+                        includeHistory
+                          ? 'bg-amber-50 text-amber-700'
+                          : 'bg-transparent text-gray-400 hover:text-gray-600'
+                      )}
+                      disabled={disabled}
+                      aria-pressed={includeHistory}
+                      title="Includi le versioni precedenti dei documenti"
+                    >
+                      <History className="w-4 h-4" />
+                      {includeHistory && <span className="text-xs whitespace-nowrap">Storico</span>}
+                    </button>
+                  )}
+                  {onFolderScopeChange && (
+                    <FolderScopeMenu value={folderScope} onChange={onFolderScopeChange} disabled={disabled} />
+                  )}
                 </div>
 
                 <PromptInputAction
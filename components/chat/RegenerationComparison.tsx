@@ -0,0 +1,79 @@
+'use client'
+
+import { MessageBubble } from '@/components/chat/MessageBubble'
+import { getModelLabel } from '@/lib/llm/models'
+import type { MessageRegeneration } from '@/hooks/useMessageRegeneration'
+import type { Message, SourceDetail } from '@/types/chat'
+
+interface RegenerationComparisonProps {
+  original: Message
+  regeneration: MessageRegeneration
+  onOpenSources?: (sources: SourceDetail[]) => void
+  onKeepOriginal: () => void
+  onUseRegenerated: () => void
+  isAccepting?: boolean
+}
+
+/**
+ * Risposta originale e risposta rigenerata con un altro modello, affiancate:
+ * l'utente sceglie quale resta nella conversazione
+ */
+export function RegenerationComparison({
+  original,
+  regeneration,
+  onOpenSources,
+  onKeepOriginal,
+  onUseRegenerated,
+  isAccepting = false,
+}: RegenerationComparisonProps) {
+  const candidate: Message = {
+    role: 'assistant',
+    content: regeneration.content,
+    sources: regeneration.sources.length > 0 ? regeneration.sources : undefined,
+    model: regeneration.model,
+  }
+  const isStreaming = regeneration.status === 'streaming'
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-3" role="group" aria-label="Confronto tra risposte">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="flex flex-col gap-2 min-w-0">
+          <div className="text-xs font-medium text-gray-500 px-1">
+            Originale · {getModelLabel(original.model)}
+          </div>
+          <MessageBubble message={original} onOpenSources={onOpenSources} readOnly />
+        </div>
+        <div className="flex flex-col gap-2 min-w-0">
+          <div className="text-xs font-medium text-gray-500 px-1">
+            Nuova · {getModelLabel(regeneration.model)}
+          </div>
+          {regeneration.status === 'error' ? (
+            <p className="text-sm text-red-600 px-1">Rigenerazione non riuscita. Riprova.</p>
+          ) : candidate.content ? (
+            <MessageBubble message={candidate} onOpenSources={onOpenSources} readOnly />
+          ) : (
+            <p className="text-sm text-gray-500 px-1">{regeneration.statusMessage || 'Generazione in corso...'}</p>
+          )}
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          type="button"
+          onClick={onKeepOriginal}
+          disabled={isAccepting}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          Mantieni originale
+        </button>
+        <button
+          type="button"
+          onClick={onUseRegenerated}
+          disabled={isStreaming || isAccepting || !regeneration.regenerationId}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-gray-900 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {isAccepting ? 'Salvataggio...' : 'Usa nuova risposta'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useToast } from '@/components/ui/Toast'
+import type { ConversationShare } from '@/types/chat'
+
+interface ShareConversationDialogProps {
+  conversationId: string
+  conversationTitle: string | null
+  onClose: () => void
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Nessuna scadenza' },
+  { value: '1', label: '1 giorno' },
+  { value: '7', label: '7 giorni' },
+  { value: '30', label: '30 giorni' },
+] as const
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`
+}
+
+function isLinkActive(share: ConversationShare): boolean {
+  return !share.revoked_at && (!share.expires_at || new Date(share.expires_at).getTime() > Date.now())
+}
+
+function shareStatus(share: ConversationShare): string {
+  if (share.revoked_at) {
+    return 'Revocato'
+  }
+  if (!isLinkActive(share)) {
+    return 'Scaduto'
+  }
+  return share.expires_at
+    ? `Valido fino al ${new Date(share.expires_at).toLocaleDateString('it-IT')}`
+    : 'Senza scadenza'
+}
+
+/**
+ * Dialog per creare, copiare e revocare i link in sola lettura di una conversazione
+ */
+export function ShareConversationDialog({ conversationId, conversationTitle, onClose }: ShareConversationDialogProps) {
+  const { showToast } = useToast()
+  const [shares, setShares] = useState<ConversationShare[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expiry, setExpiry] = useState<string>('7')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadShares = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/shares`)
+      if (!res.ok) {
+        throw new Error(`Shares request failed: ${res.status}`)
+      }
+      const data = await res.json()
+      setShares(data.shares ?? [])
+    } catch (error) {
+      console.error('[ShareConversationDialog] Failed to load shares:', error)
+      showToast('Errore nel caricamento dei link', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }, [conversationId, showToast])
+
+  useEffect(() => {
+    void loadShares()
+  }, [loadShares])
+
+  const copyLink = useCallback(async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token))
+      showToast('Link copiato negli appunti', 'success')
+    } catch (error) {
+      console.error('Failed to copy:', error)
+      showToast('Errore durante la copia', 'error')
+    }
+  }, [showToast])
+
+  const handleCreate = useCallback(async () => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInDays: expiry ? Number(expiry) : null }),
+      })
+      if (!res.ok) {
+        throw new Error(`Share creation failed: ${res.status}`)
+      }
+      const data = await res.json()
+      setShares((prev) => [data.share, ...prev])
+      await copyLink(data.share.token)
+    } catch (error) {
+      console.error('[ShareConversationDialog] Failed to create share:', error)
+      showToast('Errore nella creazione del link', 'error')
+    } finally {
+      setIsSaving(false)
+    }
+  }, [conversationId, expiry, copyLink, showToast])
+
+  const handleRevoke = useCallback(async (shareId: string) => {
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/shares/${shareId}`, { method: 'DELETE' })
+      if (!res.ok) {
+        throw new Error(`Share revocation failed: ${res.status}`)
+      }
+      setShares((prev) =>
+        prev.map((s) => (s.id === shareId ? { ...s, revoked_at: new Date().toISOString() } : s))
+      )
+      showToast('Link revocato', 'success')
+    } catch (error) {
+      console.error('[ShareConversationDialog] Failed to revoke share:', error)
+      showToast('Errore nella revoca del link', 'error')
+    }
+  }, [conversationId, showToast])
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-dialog-title"
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="share-dialog-title" className="text-lg font-semibold text-gray-900 mb-1">
+          Condividi conversazione
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Chi ha il link vede &quot;{conversationTitle || 'Senza titolo'}&quot; in sola lettura. I documenti citati
+          si aprono solo con i permessi di chi legge.
+        </p>
+
+        <div className="flex items-center gap-2 mb-5">
+          <select
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white"
+            aria-label="Scadenza del link"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void handleCreate()}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Creazione...' : 'Crea link'}
+          </button>
+        </div>
+
+        <div className="max-h-60 overflow-y-auto space-y-2">
+          {loading ? (
+            <p className="text-sm text-gray-500">Caricamento...</p>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-500">Nessun link creato</p>
+          ) : (
+            shares.map((share) => {
+              const isActive = isLinkActive(share)
+              return (
+                <div key={share.id} className="flex items-center justify-between gap-2 p-2 border border-gray-100 rounded-lg">
+                  <div className="min-w-0">
+                    <div className={`text-xs font-mono truncate ${isActive ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                      /share/{share.token}
+                    </div>
+                    <div className="text-xs text-gray-500">{shareStatus(share)}</div>
+                  </div>
+                  {isActive && (
+                    <div className="flex gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => void copyLink(share.token)}
+                        className="px-2 py-1 text-xs text-gray-700 rounded hover:bg-gray-100"
+                      >
+                        Copia
+                      </button>
+                      <button
+                        onClick={() => void handleRevoke(share.id)}
+                        className="px-2 py-1 text-xs text-red-600 rounded hover:bg-red-50"
+                      >
+                        Revoca
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        <div className="flex justify-end mt-5">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Chiudi
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
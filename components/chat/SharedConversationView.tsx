@@ -0,0 +1,64 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { SourceDetailPanel } from '@/components/chat/Citation'
+import { MessageBubble } from '@/components/chat/MessageBubble'
+import type { Message, SourceDetail } from '@/types/chat'
+
+interface SharedConversationViewProps {
+  readonly title: string | null
+  readonly folderScope: string | null
+  readonly messages: Message[]
+  readonly expiresAt: string | null
+}
+
+/**
+ * Vista pubblica in sola lettura di una conversazione condivisa
+ * Le fonti restano consultabili; l'apertura dei documenti dipende dai permessi di chi legge
+ */
+export function SharedConversationView({ title, folderScope, messages, expiresAt }: SharedConversationViewProps) {
+  const [isSourcesPanelOpen, setIsSourcesPanelOpen] = useState(false)
+  const [selectedSourcesForPanel, setSelectedSourcesForPanel] = useState<SourceDetail[]>([])
+
+  const openSourcesPanel = useCallback((sources: SourceDetail[]) => {
+    setSelectedSourcesForPanel(sources)
+    setIsSourcesPanelOpen(true)
+  }, [])
+
+  return (
+    <div className="flex h-[calc(100vh-4rem)] bg-white relative">
+      <div className="flex-1 flex overflow-hidden relative">
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-w-3xl mx-auto px-4 py-6">
+            <header className="mb-6 pb-4 border-b border-gray-100">
+              <h1 className="text-xl font-medium text-gray-900">{title || 'Senza titolo'}</h1>
+              <p className="text-xs text-gray-500 mt-1">
+                Conversazione condivisa in sola lettura
+                {folderScope && <> · cartella {folderScope}</>}
+                {expiresAt && <> · link valido fino al {new Date(expiresAt).toLocaleDateString('it-IT')}</>}
+              </p>
+            </header>
+            <div className="space-y-4">
+              {messages
+                .filter((msg) => msg.content.length > 0)
+                .map((msg, idx) => (
+                  <MessageBubble
+                    key={msg.id || `msg-${idx}`}
+                    message={msg}
+                    onOpenSources={openSourcesPanel}
+                    readOnly
+                  />
+                ))}
+            </div>
+          </div>
+        </div>
+
+        <SourceDetailPanel
+          isOpen={isSourcesPanelOpen}
+          sources={selectedSourcesForPanel}
+          onClose={() => setIsSourcesPanelOpen(false)}
+        />
+      </div>
+    </div>
+  )
+}
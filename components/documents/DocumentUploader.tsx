@@ -2,6 +2,12 @@
 
 import { useState, useCallback } from 'react'
 import JSZip from 'jszip'
+import {
+  getMimeTypeFromFilename,
+  resolveMimeType,
+  SUPPORTED_EXTENSIONS,
+  SUPPORTED_FORMATS_LABEL,
+} from '@/lib/processing/supported-formats'
 import { FolderSelector } from './FolderSelector'
 import { VersionDialog } from './VersionDialog'
 import { createClient } from '@/lib/supabase/client'
@@ -14,8 +20,23 @@ interface UploadStatus {
   chunksCount?: number
   stageMessage?: string
   retryCount?: number
+  jobId?: string
 }
 
+interface IngestionJobStatus {
+  id: string
+  document_id: string
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  progress: number
+  message: string | null
+  last_error: string | null
+}
+
+const JOB_POLL_INTERVAL_MS = 1500
+const JOB_POLL_MAX_CONSECUTIVE_ERRORS = 10
+// Oltre i retry lato server (3 tentativi, lock stale ripreso dopo 10 minuti)
+const JOB_POLL_MAX_WAIT_MS = 45 * 60 * 1000
+
 interface DuplicateInfo {
   duplicate: true
   existingDocument: {
@@ -56,32 +77,10 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
   }
 
   /**
-   * Verifica se un file è supportato (PDF, DOCX, TXT)
+   * Verifica se un file è supportato (PDF, DOCX, TXT, XLSX, PPTX, HTML, Markdown, EML)
    */
   const isSupportedFile = (file: File): boolean => {
-    const allowedTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain',
-    ]
-    return allowedTypes.includes(file.type)
-  }
-
-  /**
-   * Determina il MIME type di un file basandosi sull'estensione
-   */
-  const getMimeTypeFromExtension = (filename: string): string => {
-    const ext = filename.toLowerCase().split('.').pop()
-    switch (ext) {
-      case 'pdf':
-        return 'application/pdf'
-      case 'docx':
-        return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-      case 'txt':
-        return 'text/plain'
-      default:
-        return 'application/octet-stream'
-    }
+    return resolveMimeType(file.name, file.type) !== null
   }
 
   /**
@@ -102,13 +101,9 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
 
         // Estrai solo file supportati
         const filename = relativePath.split('/').pop() || relativePath
-        const mimeType = getMimeTypeFromExtension(filename)
+        const mimeType = getMimeTypeFromFilename(filename)
 
-        if (
-          mimeType === 'application/pdf' ||
-          mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-          mimeType === 'text/plain'
-        ) {
+        if (mimeType) {
           // Gestisci file con nomi duplicati: se il nome è già stato visto,
           // usa il percorso relativo come parte del nome
           let finalFilename = filename
@@ -163,7 +158,7 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
               ...prev,
               [file.name]: {
                 status: 'error',
-                error: 'Nessun file supportato trovato nel ZIP (PDF, DOCX, TXT)',
+                error: `Nessun file supportato trovato nel ZIP (${SUPPORTED_FORMATS_LABEL})`,
               },
             }))
             continue
@@ -261,6 +256,71 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
    */
   const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
+  /**
+   * Polling dello stato del job di ingestion fino a completamento o fallimento
+   * Il processing continua lato server anche se la pagina viene chiusa
+   */
+  const waitForIngestionJob = async (file: File, jobId: string): Promise<void> => {
+    const deadline = Date.now() + JOB_POLL_MAX_WAIT_MS
+    let consecutiveErrors = 0
+
+    while (Date.now() < deadline) {
+      await sleep(JOB_POLL_INTERVAL_MS)
+
+      let res: Response | null = null
+      try {
+        res = await fetch(`/api/ingestion/jobs/${jobId}`)
+      } catch (error) {
+        console.warn(`Failed to poll ingestion job ${jobId}:`, error)
+      }
+
+      if (res?.status === 404) {
+        throw new Error('Ingestion job not found')
+      }
+      if (!res?.ok) {
+        // Errore temporaneo di polling: riprova al prossimo giro, fino al limite di errori consecutivi
+        consecutiveErrors++
+        console.warn(`Failed to poll ingestion job ${jobId}: ${res?.status ?? 'network error'} (${consecutiveErrors}/${JOB_POLL_MAX_CONSECUTIVE_ERRORS})`)
+        if (consecutiveErrors >= JOB_POLL_MAX_CONSECUTIVE_ERRORS) {
+          throw new Error('Unable to check processing status, check the document list later')
+        }
+        continue
+      }
+      consecutiveErrors = 0
+
+      const { job } = (await res.json()) as { job: IngestionJobStatus }
+
+      if (job.status === 'failed') {
+        throw new Error(job.last_error || 'Processing failed')
+      }
+
+      setUploadStatuses((prev) => {
+        const currentProgress = prev[file.name]?.progress || 0
+        return {
+          ...prev,
+          [file.name]: {
+            ...prev[file.name],
+            status: job.status === 'completed' ? 'completed' : 'processing',
+            // Mantieni il progresso più alto (un retry riparte dallo stage fallito)
+            progress: job.status === 'completed' ? 100 : Math.max(currentProgress, job.progress),
+            stageMessage: job.message || undefined,
+            documentId: job.document_id,
+            jobId,
+          },
+        }
+      })
+
+      if (job.status === 'completed') {
+        if (onUploadComplete) {
+          onUploadComplete(job.document_id, file.name)
+        }
+        return
+      }
+    }
+
+    throw new Error('Processing is taking too long, check the document list later')
+  }
+
   const uploadFileWithRetry = async (
     file: File,
     maxRetries: number = 3,
@@ -272,6 +332,7 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
 
     while (retryCount <= maxRetries) {
       let storagePath: string | undefined
+      let jobEnqueued = false
 
       try {
         setUploadStatuses((prev) => ({
@@ -289,11 +350,13 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
         const timestamp = Date.now()
         const sanitizedFileName = sanitizeFileName(file.name)
         storagePath = `temp-uploads/${timestamp}-${sanitizedFileName}`
+        // Il browser non riconosce sempre .md/.eml: usa il type derivato dall'estensione
+        const fileType = resolveMimeType(file.name, file.type) || file.type
         
         const { error: uploadError } = await supabase.storage
           .from('documents')
           .upload(storagePath, file, {
-            contentType: file.type,
+            contentType: fileType,
             upsert: false,
           })
 
@@ -313,8 +376,8 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
           },
         }))
 
-        // Step 3: Call API to process the file
-        const res = await fetch('/api/upload/process?stream=true', {
+        // Step 3: Registra il documento e mettilo in coda per il processing
+        const res = await fetch('/api/upload/process', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -322,115 +385,45 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
           body: JSON.stringify({
             storagePath,
             filename: file.name,
-            fileType: file.type,
+            fileType,
             fileSize: file.size,
             folder,
             action,
           }),
         })
 
+        const data = await res.json().catch(() => ({ error: 'Unknown error' }))
+
         if (!res.ok) {
-          const errorData = await res.json().catch(() => ({ error: 'Unknown error' }))
-          throw new Error(errorData.error || `Upload failed for ${file.name}`)
+          throw new Error(data.error || `Upload failed for ${file.name}`)
         }
 
-        // Leggi Server-Sent Events
-        const reader = res.body?.getReader()
-        const decoder = new TextDecoder()
-
-        if (!reader) {
-          throw new Error('Response body is not readable')
+        // Handle duplicate detection
+        if (data.duplicate) {
+          setDuplicateInfo({ file, info: data as DuplicateInfo })
+          setPendingFile(file)
+          return // Exit, wait for user decision
         }
 
-        let finalDocumentId: string | undefined
-
-        while (true) {
-          const { done, value } = await reader.read()
-
-          if (done) break
-
-          const chunk = decoder.decode(value)
-          const lines = chunk.split('\n')
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const jsonString = line.slice(6)
-                
-                // Skip empty lines
-                if (!jsonString.trim()) {
-                  continue
-                }
-                
-                const data = JSON.parse(jsonString)
-
-                // Handle duplicate detection
-                if (data.stage === 'duplicate') {
-                  const duplicateInfo = JSON.parse(data.message) as DuplicateInfo
-                  setDuplicateInfo({ file, info: duplicateInfo })
-                  setPendingFile(file)
-                  return // Exit, wait for user decision
-                }
-
-                if (data.stage === 'error') {
-                  throw new Error(data.message || 'Processing failed')
-                }
-
-                setUploadStatuses((prev) => {
-                  const currentStatus = prev[file.name]
-                  const currentProgress = currentStatus?.progress || 0
-                  const newProgress = data.progress || 0
-                  // Se completato, imposta sempre 100%, altrimenti mantieni il progresso più alto
-                  const finalProgress = data.stage === 'completed' ? 100 : Math.max(currentProgress, newProgress)
-                  
-                  return {
-                    ...prev,
-                    [file.name]: {
-                      status: data.stage === 'completed' ? 'completed' : data.stage === 'uploading' ? 'uploading' : 'processing',
-                      progress: finalProgress,
-                      stageMessage: data.message,
-                      documentId: data.documentId,
-                      chunksCount: data.chunksCount,
-                      retryCount,
-                    },
-                  }
-                })
-
-                // Salva documentId per callback
-                if (data.documentId) {
-                  finalDocumentId = data.documentId
-                }
-
-                // Se completato, esci dal loop
-                if (data.stage === 'completed') {
-                  // Chiama callback se fornito
-                  if (onUploadComplete && finalDocumentId) {
-                    onUploadComplete(finalDocumentId, file.name)
-                  }
-                  return
-                }
-              } catch (parseError) {
-                const jsonString = line.slice(6)
-                console.warn('Failed to parse SSE data:', {
-                  error: parseError instanceof Error ? parseError.message : 'Unknown parse error',
-                  line: line.substring(0, 100) + (line.length > 100 ? '...' : ''),
-                  jsonLength: jsonString.length,
-                  file: file.name,
-                  firstChars: jsonString.substring(0, 50),
-                  lastChars: jsonString.length > 50 ? jsonString.substring(jsonString.length - 50) : ''
-                })
-                
-                // Se l'errore è un JSON malformato per contenuto troppo grande,
-                // non interrompere lo streaming
-                if (parseError instanceof SyntaxError && parseError.message.includes('unterminated string')) {
-                  continue
-                }
-              }
-            }
-          }
-        }
+        // Da qui il processing avviene in background: il file temporaneo è già stato spostato
+        // e un nuovo upload creerebbe un duplicato
+        storagePath = undefined
+        jobEnqueued = true
 
-        // Se arriviamo qui, l'upload è completato con successo
+        setUploadStatuses((prev) => ({
+          ...prev,
+          [file.name]: {
+            ...prev[file.name],
+            status: 'processing',
+            progress: 0,
+            stageMessage: 'In coda per il processing...',
+            documentId: data.documentId,
+            jobId: data.jobId,
+            retryCount,
+          },
+        }))
+
+        await waitForIngestionJob(file, data.jobId)
         return
       } catch (error) {
         console.error(`Error uploading ${file.name} (attempt ${retryCount + 1}):`, error)
@@ -447,7 +440,8 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
 
         // Se abbiamo ancora tentativi disponibili e l'errore è retryable
-        if (retryCount < maxRetries && isRetryableError(errorMessage)) {
+        // (i job già in coda hanno i propri retry lato server)
+        if (!jobEnqueued && retryCount < maxRetries && isRetryableError(errorMessage)) {
           retryCount++
           const delay = baseDelay * Math.pow(2, retryCount - 1)
           
@@ -472,6 +466,7 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
             status: 'error',
             error: errorMessage,
             retryCount,
+            jobId: prev[file.name]?.jobId,
           },
         }))
         throw error
@@ -544,10 +539,49 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
     setFolder(null)
   }
 
+  /**
+   * Ri-accoda un job fallito: riparte dall'ultimo stage completato senza ricaricare il file
+   */
+  const retryIngestionJob = async (file: File, jobId: string) => {
+    setUploadStatuses((prev) => ({
+      ...prev,
+      [file.name]: {
+        ...prev[file.name],
+        status: 'processing',
+        error: undefined,
+        stageMessage: 'In coda per un nuovo tentativo...',
+      },
+    }))
+
+    try {
+      const res = await fetch(`/api/ingestion/jobs/${jobId}/retry`, { method: 'POST' })
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.details || errorData.error || 'Retry failed')
+      }
+      await waitForIngestionJob(file, jobId)
+    } catch (error) {
+      setUploadStatuses((prev) => ({
+        ...prev,
+        [file.name]: {
+          ...prev[file.name],
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      }))
+    }
+  }
+
   const handleRetry = async (fileName: string) => {
     const file = files.find((f) => f.name === fileName)
     if (!file) return
 
+    const jobId = uploadStatuses[fileName]?.jobId
+    if (jobId) {
+      await retryIngestionJob(file, jobId)
+      return
+    }
+
     setUploadStatuses((prev) => ({
       ...prev,
       [fileName]: {
@@ -677,12 +711,12 @@ export function DocumentUploader({ onUploadComplete }: DocumentUploaderProps) {
           Trascina file qui o clicca per selezionare
         </p>
         <p className="text-sm text-gray-500 mb-4">
-          Formati supportati: PDF, DOCX, TXT, ZIP (max 50MB)
+          Formati supportati: {SUPPORTED_FORMATS_LABEL}, ZIP (max 50MB)
         </p>
         <input
           type="file"
           multiple
-          accept=".pdf,.docx,.txt,.zip"
+          accept={[...SUPPORTED_EXTENSIONS, 'zip'].map((ext) => `.${ext}`).join(',')}
           onChange={handleFileInput}
           className="hidden"
           id="file-input"
@@ -5,6 +5,8 @@ import type { Document } from '@/lib/supabase/database.types'
 import { DeleteConfirmDialog } from './DeleteConfirmDialog'
 import { BatchActionsToolbar } from './BatchActionsToolbar'
 import { DocumentPreview } from './DocumentPreview'
+import { VersionDiffDialog } from './VersionDiffDialog'
+import { useUserRole } from '@/components/auth/UserRoleProvider'
 
 interface DocumentsTableProps {
   refreshTrigger?: number
@@ -30,7 +32,10 @@ export function DocumentsTable({ refreshTrigger, selectedFolder, searchQuery = '
   }>({ isOpen: false, document: null })
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
   const [previewDocument, setPreviewDocument] = useState<Document | null>(null)
+  const [diffDocument, setDiffDocument] = useState<Document | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
+  const { can } = useUserRole()
+  const canWrite = can('documents:write')
 
   useEffect(() => {
     fetchDocuments()
@@ -369,12 +374,14 @@ export function DocumentsTable({ refreshTrigger, selectedFolder, searchQuery = '
     <div className="h-full flex flex-col overflow-hidden min-h-0">
       {/* Batch Actions Toolbar */}
       <div className="flex-shrink-0 mb-3">
-        <BatchActionsToolbar
-          selectedCount={selectedDocuments.size}
-          onDelete={handleBatchDelete}
-          onMove={handleBatchMove}
-          onClearSelection={() => setSelectedDocuments(new Set())}
-        />
+        {canWrite && (
+          <BatchActionsToolbar
+            selectedCount={selectedDocuments.size}
+            onDelete={handleBatchDelete}
+            onMove={handleBatchMove}
+            onClearSelection={() => setSelectedDocuments(new Set())}
+          />
+        )}
       </div>
 
       {/* Results count */}
@@ -411,12 +418,14 @@ export function DocumentsTable({ refreshTrigger, selectedFolder, searchQuery = '
             <thead className="bg-gray-50">
               <tr>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider w-10">
-                  <input
-                    type="checkbox"
-                    checked={paginatedDocuments.length > 0 && paginatedDocuments.every((doc) => selectedDocuments.has(doc.id))}
-                    onChange={handleSelectAll}
-                    className="rounded border-gray-300 text-gray-900 focus:ring-gray-900"
-                  />
+                  {canWrite && (
+                    <input
+                      type="checkbox"
+                      checked={paginatedDocuments.length > 0 && paginatedDocuments.every((doc) => selectedDocuments.has(doc.id))}
+                      onChange={handleSelectAll}
+                      className="rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+                    />
+                  )}
                 </th>
                 <th
                   onClick={() => handleSort('filename')}
@@ -476,13 +485,15 @@ export function DocumentsTable({ refreshTrigger, selectedFolder, searchQuery = '
                     className="hover:bg-gray-50 transition-colors"
                   >
                     <td className="px-2 py-3 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
-                      <input
-                        type="checkbox"
-                        checked={selectedDocuments.has(doc.id)}
-                        onChange={() => handleSelectDocument(doc.id)}
-                        className="rounded border-gray-300 text-gray-900 focus:ring-gray-900"
-                        onClick={(e) => e.stopPropagation()}
-                      />
+                      {canWrite && (
+                        <input
+                          type="checkbox"
+                          checked={selectedDocuments.has(doc.id)}
+                          onChange={() => handleSelectDocument(doc.id)}
+                          className="rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                      )}
                     </td>
                     <td className="px-3 py-3 cursor-pointer" onClick={() => toggleRowExpansion(doc.id)}>
                       <div className="flex items-center gap-2 min-w-0">
@@ -539,19 +550,35 @@ export function DocumentsTable({ refreshTrigger, selectedFolder, searchQuery = '
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                           </svg>
                         </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleDelete(doc)
-                          }}
-                          className="text-red-600 hover:text-red-900 transition-colors p-1.5 rounded hover:bg-red-50"
-                          title="Elimina documento"
-                          disabled={selectedDocuments.size > 0}
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
+                        {doc.version && doc.version > 1 && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setDiffDocument(doc)
+                            }}
+                            className="text-gray-600 hover:text-gray-900 transition-colors p-1.5 rounded hover:bg-gray-100"
+                            title="Confronta con la versione precedente"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                            </svg>
+                          </button>
+                        )}
+                        {canWrite && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleDelete(doc)
+                            }}
+                            className="text-red-600 hover:text-red-900 transition-colors p-1.5 rounded hover:bg-red-50"
+                            title="Elimina documento"
+                            disabled={selectedDocuments.size > 0}
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -701,6 +728,15 @@ export function DocumentsTable({ refreshTrigger, selectedFolder, searchQuery = '
         />
       )}
 
+      {/* Version Diff */}
+      {diffDocument && (
+        <VersionDiffDialog
+          document={diffDocument}
+          isOpen={true}
+          onClose={() => setDiffDocument(null)}
+        />
+      )}
+
       {/* Delete confirmation dialog */}
       <DeleteConfirmDialog
         isOpen={deleteDialog.isOpen}
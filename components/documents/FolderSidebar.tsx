@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useUserRole } from '@/components/auth/UserRoleProvider'
 
 interface Folder {
   name: string
@@ -31,6 +32,8 @@ export function FolderSidebar({
     x: number
     y: number
   } | null>(null)
+  const { can } = useUserRole()
+  const canWrite = can('documents:write')
 
   useEffect(() => {
     fetchFolders()
@@ -135,15 +138,17 @@ export function FolderSidebar({
         <div className="p-4 border-b border-gray-200 bg-white">
           <div className="flex items-center justify-between">
             <h3 className="text-sm font-semibold text-gray-900">Cartelle</h3>
-            <button
-              onClick={() => setShowNewFolderInput(true)}
-              className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded"
-              title="Crea nuova cartella"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-            </button>
+            {canWrite && (
+              <button
+                onClick={() => setShowNewFolderInput(true)}
+                className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded"
+                title="Crea nuova cartella"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+              </button>
+            )}
           </div>
         </div>
 
@@ -189,21 +194,25 @@ export function FolderSidebar({
         {/* Folders list */}
         <div className="flex-1 overflow-y-auto">
           <div className="space-y-1">
-            {/* Upload Section */}
-            <div
-              className={`px-4 py-2 cursor-pointer flex items-center gap-2 hover:bg-gray-100 ${
-                currentView === 'upload' ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
-              }`}
-              onClick={onUploadSelect}
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-              </svg>
-              <span className="text-sm font-medium">Carica</span>
-            </div>
+            {/* Upload Section (solo per chi può modificare i documenti) */}
+            {canWrite && (
+              <>
+                <div
+                  className={`px-4 py-2 cursor-pointer flex items-center gap-2 hover:bg-gray-100 ${
+                    currentView === 'upload' ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+                  }`}
+                  onClick={onUploadSelect}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                  </svg>
+                  <span className="text-sm font-medium">Carica</span>
+                </div>
 
-            {/* Separator */}
-            <div className="mx-4 my-2 border-t border-gray-200"></div>
+                {/* Separator */}
+                <div className="mx-4 my-2 border-t border-gray-200"></div>
+              </>
+            )}
 
             {/* All Documents */}
             <div
@@ -226,7 +235,7 @@ export function FolderSidebar({
                   currentView === 'documents' && selectedFolder === folder.name ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
                 }`}
                 onClick={() => onFolderSelect(folder.name)}
-                onContextMenu={(e) => handleRightClick(e, folder.name)}
+                onContextMenu={canWrite ? (e) => handleRightClick(e, folder.name) : undefined}
               >
                 <div className="flex items-center gap-2 min-w-0">
                   <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { Document } from '@/lib/supabase/database.types'
+import type { DiffLine, SectionChangeType, SectionDiff, VersionDiff } from '@/lib/processing/version-diff'
+
+interface VersionDiffDialogProps {
+  document: Document
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface VersionInfo {
+  id: string
+  version: number
+  created_at: string
+}
+
+interface DiffResponse {
+  base: VersionInfo
+  target: VersionInfo
+  versions: VersionInfo[]
+  diff: VersionDiff
+}
+
+interface SideBySideRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+const CHANGE_LABELS: Record<SectionChangeType, { label: string; className: string }> = {
+  added: { label: 'Aggiunto', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Rimosso', className: 'bg-red-100 text-red-700' },
+  modified: { label: 'Modificato', className: 'bg-amber-100 text-amber-700' },
+  unchanged: { label: 'Invariato', className: 'bg-gray-100 text-gray-600' },
+}
+
+const STRATEGY_LABELS: Record<VersionDiff['strategy'], string> = {
+  articles: 'articoli',
+  chapters: 'capitoli',
+  sections: 'sezioni',
+  text: 'paragrafi',
+}
+
+/**
+ * Affianca le righe rimosse e aggiunte consecutive, così ogni modifica
+ * appare sulla stessa riga nelle due colonne
+ */
+function toSideBySideRows(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line)
+    } else if (line.type === 'added') {
+      added.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+function DiffCell({ line }: { line?: DiffLine }) {
+  const className = !line
+    ? 'bg-gray-50'
+    : line.type === 'removed'
+      ? 'bg-red-50 text-red-900'
+      : line.type === 'added'
+        ? 'bg-green-50 text-green-900'
+        : 'text-gray-700'
+
+  return (
+    <td className={`w-1/2 px-3 py-0.5 align-top whitespace-pre-wrap break-words ${className}`}>
+      {line?.text || ' '}
+    </td>
+  )
+}
+
+function SectionDiffCard({ section }: { section: SectionDiff }) {
+  const [expanded, setExpanded] = useState(section.change !== 'unchanged')
+  const change = CHANGE_LABELS[section.change]
+  const rows = section.change === 'unchanged'
+    ? (section.newContent ?? '').split('\n').map((text) => ({ left: { type: 'equal' as const, text }, right: { type: 'equal' as const, text } }))
+    : toSideBySideRows(section.lines)
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-2 bg-gray-50 hover:bg-gray-100 text-left"
+      >
+        <span className="text-sm font-medium text-gray-900 truncate">{section.title}</span>
+        <span className={`ml-3 px-2 py-0.5 rounded text-xs font-medium ${change.className}`}>{change.label}</span>
+      </button>
+      {expanded && (
+        <table className="w-full table-fixed text-xs font-mono border-t border-gray-200">
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-b border-gray-100 last:border-b-0">
+                <DiffCell line={row.left} />
+                <DiffCell line={row.right} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export function VersionDiffDialog({ document, isOpen, onClose }: VersionDiffDialogProps) {
+  const [data, setData] = useState<DiffResponse | null>(null)
+  const [versions, setVersions] = useState<VersionInfo[]>([])
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  useEffect(() => {
+    if (isOpen && document.id) {
+      fetchDiff()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, document.id, baseId])
+
+  const fetchDiff = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const url = baseId
+        ? `/api/documents/${document.id}/diff?base=${encodeURIComponent(baseId)}`
+        : `/api/documents/${document.id}/diff`
+      const response = await fetch(url)
+      const result = await response.json()
+      if (result.versions) {
+        setVersions(result.versions)
+      }
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to compare versions')
+      }
+      setData(result)
+    } catch (err) {
+      console.error('Error comparing versions:', err)
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      setData(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('it-IT', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  if (!isOpen) return null
+
+  const sections = data?.diff.sections.filter((s) => showUnchanged || s.change !== 'unchanged') ?? []
+  const baseOptions = versions.filter((v) => v.id !== document.id)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1 truncate">
+              Confronto versioni: {document.filename}
+            </h2>
+            <div className="flex items-center gap-3 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                <span>Confronta</span>
+                <select
+                  value={baseId ?? data?.base.id ?? ''}
+                  onChange={(e) => setBaseId(e.target.value)}
+                  disabled={loading || baseOptions.length === 0}
+                  className="rounded border border-gray-300 px-2 py-1 text-sm"
+                >
+                  {baseOptions.map((v) => (
+                    <option key={v.id} value={v.id}>
+                      v{v.version} ({formatDate(v.created_at)})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span>con</span>
+              <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded">v{document.version || 1}</span>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="ml-4 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              <span className="ml-3 text-sm text-gray-600">Confronto in corso...</span>
+            </div>
+          ) : error ? (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          ) : data ? (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="text-gray-600">Allineamento per {STRATEGY_LABELS[data.diff.strategy]}:</span>
+                  {(['modified', 'added', 'removed', 'unchanged'] as SectionChangeType[]).map((change) => (
+                    <span key={change} className={`px-2 py-0.5 rounded font-medium ${CHANGE_LABELS[change].className}`}>
+                      {CHANGE_LABELS[change].label}: {data.diff.stats[change]}
+                    </span>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Mostra invariati
+                </label>
+              </div>
+
+              <div className="grid grid-cols-2 text-xs font-medium text-gray-500 mb-2">
+                <span className="px-3">v{data.base.version}</span>
+                <span className="px-3">v{data.target.version}</span>
+              </div>
+
+              {sections.length === 0 ? (
+                <p className="text-sm text-gray-600">Nessuna differenza tra le due versioni.</p>
+              ) : (
+                <div className="space-y-3">
+                  {sections.map((section) => (
+                    <SectionDiffCard key={`${section.change}-${section.key}`} section={section} />
+                  ))}
+                </div>
+              )}
+            </>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,8 @@ interface UseChatOptions {
   webSearchEnabled?: boolean
   initialMessages?: Message[]
   onMessageComplete?: () => void
+  onWarning?: (message: string) => void
+  folderScope?: string | null
 }
 
 interface UseChatReturn {
@@ -17,10 +19,12 @@ interface UseChatReturn {
   input: string
   setInput: (value: string) => void
   messagesEndRef: React.RefObject<HTMLDivElement>
-  handleSend: (skipCache?: boolean, messageOverride?: string) => Promise<void>
+  handleSend: (skipCache?: boolean, messageOverride?: string, editMessageIndex?: number) => Promise<void>
   scrollToBottom: () => void
   webSearchEnabled: boolean
   setWebSearchEnabled: (enabled: boolean) => void
+  includeHistory: boolean
+  setIncludeHistory: (enabled: boolean) => void
 }
 
 interface ChatState {
@@ -30,6 +34,7 @@ interface ChatState {
   statusMessage: string | null
   conversationId: string | null
   webSearchEnabled: boolean
+  includeHistory: boolean // Include le versioni superate dei documenti nella ricerca
 }
 
 type ChatAction =
@@ -37,11 +42,13 @@ type ChatAction =
   | { type: 'SET_MESSAGES'; value: Message[] }
   | { type: 'PUSH_MESSAGE'; value: Message }
   | { type: 'UPDATE_LAST_MESSAGE'; value: Message }
+  | { type: 'UPDATE_MESSAGE_AT'; index: number; value: Partial<Message> }
   | { type: 'POP_MESSAGE' }
   | { type: 'SET_LOADING'; value: boolean }
   | { type: 'SET_STATUS'; value: string | null }
   | { type: 'SET_CONVERSATION_ID'; value: string | null }
   | { type: 'SET_WEB_SEARCH_ENABLED'; value: boolean }
+  | { type: 'SET_INCLUDE_HISTORY'; value: boolean }
 
 function chatReducer(state: ChatState, action: ChatAction): ChatState {
   switch (action.type) {
@@ -59,6 +66,15 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       nextMessages[nextMessages.length - 1] = action.value
       return { ...state, messages: nextMessages }
     }
+    case 'UPDATE_MESSAGE_AT': {
+      const target = state.messages[action.index]
+      if (!target) {
+        return state
+      }
+      const nextMessages = [...state.messages]
+      nextMessages[action.index] = { ...target, ...action.value }
+      return { ...state, messages: nextMessages }
+    }
     case 'POP_MESSAGE':
       return { ...state, messages: state.messages.slice(0, -1) }
     case 'SET_LOADING':
@@ -69,6 +85,8 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       return { ...state, conversationId: action.value }
     case 'SET_WEB_SEARCH_ENABLED':
       return { ...state, webSearchEnabled: action.value }
+    case 'SET_INCLUDE_HISTORY':
+      return { ...state, includeHistory: action.value }
     default:
       return state
   }
@@ -84,6 +102,8 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     webSearchEnabled: initialWebSearchEnabled = false,
     initialMessages = [],
     onMessageComplete,
+    onWarning,
+    folderScope = null,
   } = options
 
   const initialStateRef = useRef<ChatState>({
@@ -93,17 +113,28 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     statusMessage: null,
     conversationId: controlledConversationId ?? null,
     webSearchEnabled: initialWebSearchEnabled,
+    includeHistory: false,
   })
 
   const [state, dispatch] = useReducer(chatReducer, initialStateRef.current)
   const stateRef = useRef(state)
   const onConversationCreatedRef = useRef(onConversationCreated)
   const onMessageCompleteRef = useRef(onMessageComplete)
+  const onWarningRef = useRef(onWarning)
+  const folderScopeRef = useRef(folderScope)
 
   useEffect(() => {
     stateRef.current = state
   }, [state])
 
+  useEffect(() => {
+    onWarningRef.current = onWarning
+  }, [onWarning])
+
+  useEffect(() => {
+    folderScopeRef.current = folderScope
+  }, [folderScope])
+
   useEffect(() => {
     onConversationCreatedRef.current = onConversationCreated
   }, [onConversationCreated])
@@ -158,7 +189,15 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     dispatch({ type: 'SET_WEB_SEARCH_ENABLED', value: enabled })
   }, [])
 
-  const handleSend = useCallback(async (skipCache = false, messageOverride?: string) => {
+  const setIncludeHistory = useCallback((enabled: boolean) => {
+    dispatch({ type: 'SET_INCLUDE_HISTORY', value: enabled })
+  }, [])
+
+  /**
+   * Invia un messaggio. Con editMessageIndex il messaggio sostituisce (come nuovo ramo)
+   * il messaggio utente in quella posizione: i messaggi successivi restano nel ramo precedente.
+   */
+  const handleSend = useCallback(async (skipCache = false, messageOverride?: string, editMessageIndex?: number) => {
     const currentState = stateRef.current
     const messageContent = (messageOverride ?? currentState.input).trim()
 
@@ -166,11 +205,22 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
       return
     }
 
+    const editedMessage = editMessageIndex !== undefined ? currentState.messages[editMessageIndex] : undefined
+    if (editMessageIndex !== undefined && (editedMessage?.role !== 'user' || !editedMessage.id)) {
+      return
+    }
+
     const userMessage: Message = {
       role: 'user',
       content: messageContent,
+      ...(editedMessage?.id ? { siblingIds: editedMessage.siblingIds ?? [editedMessage.id] } : {}),
     }
+    const userMessageIndex = editMessageIndex ?? currentState.messages.length
+    let userMessageSaved = false
 
+    if (editMessageIndex !== undefined) {
+      dispatch({ type: 'SET_MESSAGES', value: currentState.messages.slice(0, editMessageIndex) })
+    }
     dispatch({ type: 'PUSH_MESSAGE', value: userMessage })
     if (!messageOverride) {
       dispatch({ type: 'SET_INPUT', value: '' })
@@ -186,7 +236,10 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         const createResponse = await fetch('/api/conversations', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ title: messageContent.substring(0, 50) }),
+          body: JSON.stringify({
+            title: messageContent.substring(0, 50),
+            folderScope: folderScopeRef.current,
+          }),
         })
 
         if (!createResponse.ok) {
@@ -210,7 +263,9 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
         message: messageContent,
         conversationId,
         webSearchEnabled: stateRef.current.webSearchEnabled,
+        includeHistory: stateRef.current.includeHistory,
         skipCache,
+        editMessageId: editedMessage?.id ?? null,
       }
 
       const response = await fetch('/api/chat', {
@@ -279,6 +334,20 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
               case 'status':
                 dispatch({ type: 'SET_STATUS', value: data.message || null })
                 break
+              case 'user_message':
+                // ID del messaggio utente salvato: abilita modifica e selettore dei rami
+                if (data.messageId) {
+                  userMessageSaved = true
+                  dispatch({
+                    type: 'UPDATE_MESSAGE_AT',
+                    index: userMessageIndex,
+                    value: {
+                      id: data.messageId,
+                      ...(userMessage.siblingIds ? { siblingIds: [...userMessage.siblingIds, data.messageId] } : {}),
+                    },
+                  })
+                }
+                break
               case 'text':
                 dispatch({ type: 'SET_STATUS', value: null })
                 updateAssistantMessage({
@@ -314,6 +383,11 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
                 if (data.model) {
                   updateData.model = data.model
                 }
+
+                // ID del messaggio salvato: abilita il feedback senza ricaricare la conversazione
+                if (data.messageId) {
+                  updateData.id = data.messageId
+                }
                 
                 if (Object.keys(updateData).length > 0) {
                   updateAssistantMessage(updateData)
@@ -328,6 +402,12 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
                 onMessageCompleteRef.current?.()
                 break
               }
+              case 'warning':
+                // Avviso non bloccante (es. tag @documento non trovati)
+                if (data.message) {
+                  onWarningRef.current?.(data.message)
+                }
+                break
               case 'error':
                 dispatch({ type: 'SET_STATUS', value: null })
                 dispatch({ type: 'SET_LOADING', value: false })
@@ -360,7 +440,10 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
             const data = JSON.parse(jsonString)
             // Gestisci l'ultimo messaggio (solitamente 'done' con sources)
             if (data.type === 'done' && data.sources) {
-              updateAssistantMessage({ sources: data.sources as Source[] })
+              updateAssistantMessage({
+                sources: data.sources as Source[],
+                ...(data.messageId ? { id: data.messageId as string } : {}),
+              })
               dispatch({ type: 'SET_LOADING', value: false })
             }
           }
@@ -371,7 +454,12 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     } catch (error) {
       console.error('Chat error:', error)
       dispatch({ type: 'SET_LOADING', value: false })
-      dispatch({ type: 'POP_MESSAGE' })
+      if (editedMessage && !userMessageSaved) {
+        // Modifica non salvata: torna al ramo precedente
+        dispatch({ type: 'SET_MESSAGES', value: currentState.messages })
+      } else {
+        dispatch({ type: 'POP_MESSAGE' })
+      }
       throw error
     }
   }, [])
@@ -388,6 +476,8 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     scrollToBottom,
     webSearchEnabled: state.webSearchEnabled,
     setWebSearchEnabled,
+    includeHistory: state.includeHistory,
+    setIncludeHistory,
   }
 }
 
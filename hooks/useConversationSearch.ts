@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import type { ConversationSearchMode, ConversationSearchResult } from '@/types/chat'
+
+const SEARCH_DEBOUNCE_MS = 300
+const MIN_QUERY_LENGTH = 2
+
+/**
+ * Cerca nei messaggi delle conversazioni dell'utente (full-text o semantica).
+ * Le query più corte di due caratteri disattivano la ricerca.
+ */
+export function useConversationSearch(query: string, mode: ConversationSearchMode) {
+  const [results, setResults] = useState<ConversationSearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const trimmed = query.trim()
+  const isActive = trimmed.length >= MIN_QUERY_LENGTH
+
+  useEffect(() => {
+    if (!isActive) {
+      setResults([])
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setLoading(true)
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: trimmed, mode })
+        const response = await fetch(`/api/conversations/search?${params.toString()}`, {
+          signal: controller.signal,
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to search conversations')
+        }
+
+        const data = await response.json()
+        setResults(data.results || [])
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          return
+        }
+        console.error('Error searching conversations:', err)
+        setResults([])
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [trimmed, mode, isActive])
+
+  return { results, loading, isActive }
+}
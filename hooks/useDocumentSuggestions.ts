@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react'
+
+export interface DocumentSuggestion {
+  id: string
+  filename: string
+  folder: string | null
+}
+
+const SUGGEST_DEBOUNCE_MS = 150
+
+/**
+ * Recupera i suggerimenti di documenti per l'autocomplete dei tag @documento.
+ * La query `null` disattiva la ricerca (popover chiuso).
+ */
+export function useDocumentSuggestions(query: string | null) {
+  const [suggestions, setSuggestions] = useState<DocumentSuggestion[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (query === null) {
+      setSuggestions([])
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/documents/suggest?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch document suggestions')
+        }
+
+        const data = await response.json()
+        setSuggestions(data.documents || [])
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          return
+        }
+        console.error('Error fetching document suggestions:', err)
+        setSuggestions([])
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }, SUGGEST_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [query])
+
+  return { suggestions, loading }
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+
+export interface FolderSummary {
+  name: string
+  count: number
+}
+
+/**
+ * Recupera l'elenco delle cartelle della knowledge base (con conteggio documenti)
+ */
+export function useFolders() {
+  const [folders, setFolders] = useState<FolderSummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const fetchFolders = async () => {
+      try {
+        const response = await fetch('/api/documents/folders', { signal: controller.signal })
+        if (!response.ok) {
+          throw new Error('Failed to fetch folders')
+        }
+        const data = await response.json()
+        setFolders(data.folders || [])
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          return
+        }
+        console.error('Error fetching folders:', err)
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }
+
+    fetchFolders()
+
+    return () => controller.abort()
+  }, [])
+
+  return { folders, loading }
+}
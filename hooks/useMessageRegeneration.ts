@@ -0,0 +1,172 @@
+import { useCallback, useRef, useState } from 'react'
+import type { Message, Source } from '@/types/chat'
+
+export interface MessageRegeneration {
+  messageId: string
+  model: string
+  content: string
+  sources: Source[]
+  regenerationId: string | null // Disponibile a generazione completata
+  status: 'streaming' | 'ready' | 'error'
+  statusMessage: string | null
+}
+
+interface UseMessageRegenerationReturn {
+  regeneration: MessageRegeneration | null
+  startRegeneration: (messageId: string, model: string) => Promise<void>
+  acceptRegeneration: () => Promise<Message | null>
+  discardRegeneration: () => void
+  isAccepting: boolean
+}
+
+/**
+ * Gestisce "rigenera con…": stream della risposta con un altro modello e scelta
+ * della risposta da tenere nella conversazione.
+ */
+export function useMessageRegeneration(): UseMessageRegenerationReturn {
+  const [regeneration, setRegeneration] = useState<MessageRegeneration | null>(null)
+  const [isAccepting, setIsAccepting] = useState(false)
+  const regenerationRef = useRef<MessageRegeneration | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const update = useCallback((partial: Partial<MessageRegeneration>) => {
+    if (!regenerationRef.current) {
+      return
+    }
+    regenerationRef.current = { ...regenerationRef.current, ...partial }
+    setRegeneration(regenerationRef.current)
+  }, [])
+
+  const discardRegeneration = useCallback(() => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    regenerationRef.current = null
+    setRegeneration(null)
+  }, [])
+
+  const startRegeneration = useCallback(async (messageId: string, model: string) => {
+    abortRef.current?.abort()
+    const abortController = new AbortController()
+    abortRef.current = abortController
+
+    regenerationRef.current = {
+      messageId,
+      model,
+      content: '',
+      sources: [],
+      regenerationId: null,
+      status: 'streaming',
+      statusMessage: null,
+    }
+    setRegeneration(regenerationRef.current)
+
+    try {
+      const response = await fetch(`/api/messages/${messageId}/regenerations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model }),
+        signal: abortController.signal,
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Failed to regenerate: ${response.status}`)
+      }
+      if (!response.body) {
+        throw new Error('No response body')
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ') || !line.slice(6).trim()) {
+            continue
+          }
+
+          const data = JSON.parse(line.slice(6))
+          const current = regenerationRef.current
+          if (!current || current.messageId !== messageId) {
+            return
+          }
+
+          switch (data.type) {
+            case 'status':
+              update({ statusMessage: data.message || null })
+              break
+            case 'text':
+              update({ content: `${current.content}${data.content}`, statusMessage: null })
+              break
+            case 'text_complete':
+              update({ content: data.content })
+              break
+            case 'sources_chunk':
+              update({ sources: [...current.sources, ...((data.sources ?? []) as Source[])] })
+              break
+            case 'done':
+              update({
+                sources: [...current.sources, ...((data.sources ?? []) as Source[])],
+                model: data.model || current.model,
+                regenerationId: data.messageId ?? null,
+                status: 'ready',
+                statusMessage: null,
+              })
+              break
+            case 'error':
+              throw new Error(data.error || 'Stream error')
+            default:
+              break
+          }
+        }
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        return
+      }
+      console.error('Regeneration error:', error)
+      update({ status: 'error', statusMessage: null })
+      throw error
+    }
+  }, [update])
+
+  const acceptRegeneration = useCallback(async (): Promise<Message | null> => {
+    const current = regenerationRef.current
+    if (!current?.regenerationId) {
+      return null
+    }
+
+    setIsAccepting(true)
+    try {
+      const response = await fetch(
+        `/api/messages/${current.messageId}/regenerations/${current.regenerationId}/accept`,
+        { method: 'POST' }
+      )
+      if (!response.ok) {
+        throw new Error(`Failed to accept regeneration: ${response.status}`)
+      }
+      const data = await response.json()
+      regenerationRef.current = null
+      setRegeneration(null)
+      return data.message as Message
+    } finally {
+      setIsAccepting(false)
+    }
+  }, [])
+
+  return {
+    regeneration,
+    startRegeneration,
+    acceptRegeneration,
+    discardRegeneration,
+    isAccepting,
+  }
+}
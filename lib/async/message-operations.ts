@@ -8,8 +8,11 @@
 import { 
   saveUserMessage as syncSaveUserMessage,
   saveAssistantMessage as syncSaveAssistantMessage,
-  getConversationHistory
+  getConversationHistory,
+  type AssistantMessageMetadata,
+  type UserMessageOptions
 } from '@/app/api/chat/services/message-service'
+import type { GenerationContextSnapshot } from '@/lib/services/regeneration-service'
 
 /**
  * Async wrapper for saving user message (fire-and-forget)
@@ -19,19 +22,24 @@ import {
  * 
  * @param conversationId Conversation ID
  * @param message User message content
+ * @param options Pre-generated message ID and parent message in the branch
+ * @returns Promise of the saved message ID (null if the save failed), never rejects.
+ *   Pass it to saveAssistantMessageAsync so the answer is inserted after its parent.
  */
 export function saveUserMessageAsync(
   conversationId: string,
-  message: string
-): void {
+  message: string,
+  options?: UserMessageOptions
+): Promise<string | null> {
   // Fire-and-forget: Start the promise but don't await it
   // Catch any errors to prevent unhandled promise rejections
-  syncSaveUserMessage(conversationId, message).catch((error) => {
+  return syncSaveUserMessage(conversationId, message, options).catch((error) => {
     console.error('[async-message] Fire-and-forget user message save failed:', {
       conversationId,
       error: error.message || error,
       stack: error.stack,
     })
+    return null
   })
 }
 
@@ -44,21 +52,26 @@ export function saveUserMessageAsync(
  * @param conversationId Conversation ID
  * @param content Assistant response content
  * @param metadata Message metadata (chunks, sources, model, etc.)
+ * @param messageId Optional pre-generated message ID (already sent to the client)
+ * @param parentMessage Pending save of the user message this response answers (from saveUserMessageAsync):
+ *   parent_id references messages(id), so the insert waits for the parent row
+ * @param generationContext LLM input and citable sources, replayed by "regenerate with…"
  */
 export function saveAssistantMessageAsync(
   conversationId: string,
   content: string,
-  metadata: {
-    chunks_used?: Array<{ id: string; similarity: number }>
-    sources?: unknown[]
-    query_enhanced?: boolean
-    original_query?: string
-    enhanced_query?: string
-    model?: string
-  }
+  metadata: AssistantMessageMetadata,
+  messageId?: string,
+  parentMessage: Promise<string | null> = Promise.resolve(null),
+  generationContext?: GenerationContextSnapshot
 ): void {
   // Fire-and-forget: Start the promise but don't await it
-  syncSaveAssistantMessage(conversationId, content, metadata).catch((error) => {
+  parentMessage.then((parentId) => {
+    if (parentId === null) {
+      console.warn('[async-message] User message not saved, saving assistant message without parent:', { conversationId })
+    }
+    return syncSaveAssistantMessage(conversationId, content, metadata, messageId, parentId, generationContext)
+  }).catch((error) => {
     console.error('[async-message] Fire-and-forget assistant message save failed:', {
       conversationId,
       contentLength: content.length,
@@ -0,0 +1,95 @@
+/**
+ * Autorizzazione lato server
+ *
+ * Risolve il ruolo dell'utente autenticato e verifica i permessi nei route handler
+ * (il middleware applica le stesse regole, i route handler le ripetono come difesa in profondità)
+ */
+
+import { NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { ANONYMOUS_DOCUMENT_ACCESS, type DocumentAccess } from '@/lib/supabase/folder-permissions'
+import { hasPermission, type Permission, type UserRole } from './roles'
+import { getUserRole } from './user-role'
+
+export interface AuthorizedUser {
+  user: User
+  role: UserRole
+}
+
+/**
+ * Utente autenticato con il suo ruolo, o null se non c'è una sessione
+ */
+export async function getCurrentUser(): Promise<AuthorizedUser | null> {
+  const supabase = await createServerSupabaseClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    return null
+  }
+
+  return { user, role: await getUserRole(supabase, user) }
+}
+
+/**
+ * Accesso ai documenti per l'utente: ACL delle cartelle, salvo ruoli che possono leggere tutto
+ */
+export function getDocumentAccess(current: AuthorizedUser | null): DocumentAccess {
+  if (!current) {
+    return ANONYMOUS_DOCUMENT_ACCESS
+  }
+  return {
+    userId: current.user.id,
+    unrestricted: hasPermission(current.role, 'folders:read-restricted'),
+  }
+}
+
+/**
+ * Accesso ai documenti dell'utente della richiesta corrente
+ */
+export async function getCurrentDocumentAccess(): Promise<DocumentAccess> {
+  return getDocumentAccess(await getCurrentUser())
+}
+
+/**
+ * Accesso ai documenti per le letture che espongono file e contenuti (anteprime, download):
+ * richiede una sessione, così un link condiviso non apre i documenti a chi non ha un account
+ *
+ * @returns l'accesso dell'utente, oppure la risposta 401 da restituire al client
+ */
+export async function requireDocumentAccess(): Promise<DocumentAccess | NextResponse> {
+  const current = await getCurrentUser()
+
+  if (!current) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return getDocumentAccess(current)
+}
+
+/**
+ * Verifica che l'utente autenticato abbia il permesso richiesto
+ *
+ * @returns l'utente con il ruolo, oppure la risposta 401/403 da restituire al client
+ */
+export async function requirePermission(permission: Permission): Promise<AuthorizedUser | NextResponse> {
+  const current = await getCurrentUser()
+
+  if (!current) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!hasPermission(current.role, permission)) {
+    console.warn('[authorization] Permission denied:', {
+      userId: current.user.id,
+      role: current.role,
+      permission,
+    })
+    return NextResponse.json(
+      { error: 'Forbidden', details: `Your role does not allow this action (${permission})` },
+      { status: 403 }
+    )
+  }
+
+  return current
+}
@@ -0,0 +1,23 @@
+/**
+ * Autenticazione delle invocazioni del cron (worker di ingestion, pulizia delle cache)
+ *
+ * Vercel Cron invia automaticamente `Authorization: Bearer ${CRON_SECRET}`.
+ * Senza CRON_SECRET le richieste sono rifiutate, salvo in sviluppo (NODE_ENV=development).
+ */
+
+/**
+ * Verifica il secret del cron nell'header Authorization
+ */
+export function isCronRequestAuthorized(req: Request): boolean {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'development') {
+      return true
+    }
+    console.error('[cron] CRON_SECRET not set, rejecting request')
+    return false
+  }
+
+  return req.headers.get('authorization') === `Bearer ${secret}`
+}
@@ -0,0 +1,123 @@
+/**
+ * Ruoli utente e permessi
+ *
+ * Modulo senza dipendenze server: usato da middleware (edge), route handler e componenti client
+ */
+
+export type UserRole = 'admin' | 'editor' | 'reader'
+
+export type Permission =
+  | 'documents:write' // Upload, eliminazione, spostamento e versioni dei documenti
+  | 'settings:manage' // Impostazioni applicazione (logo)
+  | 'diagnostics:access' // /api/diagnostics, /api/test e pagina /test
+  | 'feedback:review' // Revisione dei feedback sulle risposte
+  | 'users:manage' // Assegnazione dei ruoli, gruppi e permessi delle cartelle
+  | 'folders:read-restricted' // Lettura delle cartelle riservate senza appartenere ai gruppi ammessi
+  | 'cache:manage' // Svuotamento e gestione delle cache delle risposte
+
+export const USER_ROLES: readonly UserRole[] = ['admin', 'editor', 'reader']
+
+export const DEFAULT_ROLE: UserRole = 'reader'
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Amministratore',
+  editor: 'Editor',
+  reader: 'Lettore',
+}
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: [
+    'documents:write',
+    'settings:manage',
+    'diagnostics:access',
+    'feedback:review',
+    'users:manage',
+    'folders:read-restricted',
+    'cache:manage',
+  ],
+  editor: ['documents:write'],
+  reader: [],
+}
+
+interface RouteRule {
+  readonly prefix: string
+  readonly permission: Permission
+  readonly methods?: readonly string[] // Assente = tutti i metodi
+}
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'] as const
+
+/**
+ * Regole di accesso per percorso, valutate dal middleware
+ * Le route del cron (worker di ingestion, pulizia delle cache, embedding dei messaggi) non sono incluse:
+ * le protegge CRON_SECRET (isCronRequestAuthorized in lib/auth/cron.ts, rifiuta le richieste se manca)
+ */
+const ROUTE_RULES: readonly RouteRule[] = [
+  { prefix: '/api/documents', permission: 'documents:write', methods: WRITE_METHODS },
+  { prefix: '/api/upload', permission: 'documents:write' },
+  { prefix: '/api/ingestion/jobs', permission: 'documents:write', methods: WRITE_METHODS },
+  { prefix: '/api/settings', permission: 'settings:manage', methods: WRITE_METHODS },
+  { prefix: '/settings', permission: 'settings:manage' },
+  { prefix: '/api/diagnostics', permission: 'diagnostics:access' },
+  { prefix: '/api/test', permission: 'diagnostics:access' },
+  { prefix: '/test', permission: 'diagnostics:access' },
+  { prefix: '/api/feedback', permission: 'feedback:review' },
+  { prefix: '/admin/feedback', permission: 'feedback:review' },
+  { prefix: '/api/admin/users', permission: 'users:manage' },
+  { prefix: '/admin/users', permission: 'users:manage' },
+  { prefix: '/api/admin/groups', permission: 'users:manage' },
+  { prefix: '/api/admin/folder-permissions', permission: 'users:manage' },
+  { prefix: '/admin/groups', permission: 'users:manage' },
+  { prefix: '/api/admin/cache', permission: 'cache:manage' },
+  { prefix: '/admin/cache', permission: 'cache:manage' },
+]
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false
+}
+
+/**
+ * Verifica se l'email è tra gli amministratori iniziali (lista ADMIN_EMAILS, separata da virgole)
+ * Serve ad assegnare i primi ruoli prima che esista un amministratore nel database
+ */
+export function isBootstrapAdminEmail(email: string | null | undefined): boolean {
+  if (!email) {
+    return false
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((e) => e.trim().toLowerCase())
+    .filter((e) => e.length > 0)
+
+  return adminEmails.includes(email.toLowerCase())
+}
+
+/**
+ * Ruolo effettivo: amministratori iniziali, poi ruolo del profilo, poi ruolo di default
+ */
+export function resolveUserRole(profileRole: unknown, email: string | null | undefined): UserRole {
+  if (isBootstrapAdminEmail(email)) {
+    return 'admin'
+  }
+  return isUserRole(profileRole) ? profileRole : DEFAULT_ROLE
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`)
+}
+
+/**
+ * Permesso richiesto per una richiesta, o null se il percorso è accessibile a tutti gli utenti autenticati
+ */
+export function getRequiredPermission(pathname: string, method: string): Permission | null {
+  const rule = ROUTE_RULES.find((r) =>
+    matchesPrefix(pathname, r.prefix) &&
+    (!r.methods || r.methods.includes(method.toUpperCase()))
+  )
+  return rule?.permission ?? null
+}
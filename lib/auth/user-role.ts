@@ -0,0 +1,30 @@
+/**
+ * Lettura del ruolo dal profilo utente
+ *
+ * Modulo senza dipendenze server (niente service role né next/headers): usato dal middleware (edge)
+ * con il client di sessione della richiesta e da lib/auth/authorization.ts nei route handler
+ */
+
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { resolveUserRole, type UserRole } from './roles'
+
+/**
+ * Legge il ruolo dal profilo dell'utente
+ * Le policy RLS permettono a ogni utente di leggere il proprio profilo, quindi basta il client di sessione
+ */
+export async function getUserRole(
+  supabase: SupabaseClient,
+  user: Pick<User, 'id' | 'email'>
+): Promise<UserRole> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle<{ role: string }>()
+
+  if (error) {
+    console.error('[user-role] Role lookup failed:', error)
+  }
+
+  return resolveUserRole(data?.role, user.email)
+}
@@ -90,6 +90,13 @@ const EXPANSION_STRATEGIES = new Map<QueryIntent, ExpansionStrategy>([
     expansionMethod: 'add_terms',
   }],
   
+  // Version changes: i passaggi vengono dal diff tra versioni, l'espansione serve solo da fallback
+  ['version_changes', {
+    intent: 'version_changes',
+    expansionTerms: ['modifiche', 'versione', 'aggiornamento', 'revisione', 'nuova versione', 'changes', 'version', 'revision', 'amendment'],
+    expansionMethod: 'add_terms',
+  }],
+  
   // Meta: Don't expand (query about database)
   ['meta', {
     intent: 'meta',
@@ -224,21 +231,14 @@ async function expandWithLLM(
       console.log('[intent-based-expansion] Using conversation context:', contextPreview)
     }
 
-    // Fetch prompt from Langfuse with fallback
-    const prompt = await compilePrompt(
-      PROMPTS.QUERY_EXPANSION,
-      {
-        query,
-        intent,
-        intentContext: intentContext ? `Context: ${intentContext}` : '',
-        baseTermsSection,
-        conversationContext: conversationSection,
-      },
-      {
-        // Fallback to hard-coded prompt if Langfuse fails
-        fallback: buildFallbackExpansionPrompt(query, intent, intentContext, baseTerms, conversationSection),
-      }
-    )
+    // Fetch prompt from Langfuse (local registry if unavailable)
+    const prompt = await compilePrompt(PROMPTS.QUERY_EXPANSION, {
+      query,
+      intent,
+      intentContext: intentContext ? `Context: ${intentContext}` : '',
+      baseTermsSection,
+      conversationContext: conversationSection,
+    })
 
     const response = await openrouter.chat.completions.create({
       model: EXPANSION_MODEL,
@@ -352,6 +352,7 @@ function getIntentContext(intent: QueryIntent): string | null {
     timeline: 'This is a timeline query - expand with terms related to deadlines and dates',
     causes_effects: 'This is a causes/effects query - expand with terms related to consequences and impacts',
     exploratory: 'This is an exploratory query - expand with terms related to document themes and topics',
+    version_changes: 'This is a query about changes between versions of a document - expand with terms related to amendments and revisions',
     general: 'This is a general query - expand with synonyms and related terms',
   }
 
@@ -365,43 +366,3 @@ export function registerExpansionStrategy(strategy: ExpansionStrategy): void {
   EXPANSION_STRATEGIES.set(strategy.intent, strategy)
   console.log('[intent-based-expansion] Registered strategy for intent:', strategy.intent)
 }
-
-/**
- * Builds fallback expansion prompt (used when Langfuse is unavailable)
- */
-function buildFallbackExpansionPrompt(
-  query: string,
-  intent: QueryIntent,
-  intentContext: string | null,
-  baseTerms: string[],
-  conversationContext?: string
-): string {
-  return `You are a semantic query expander for a consulting knowledge base.
-
-${conversationContext ? `${conversationContext}` : ''}Original query: "${query}"
-Intent: ${intent}
-${intentContext ? `Context: ${intentContext}` : ''}
-
-Expand this query by adding:
-1. Related terms and synonyms in both Italian and English
-2. Common acronym expansions (e.g., GDPR → General Data Protection Regulation)
-3. Relevant domain context for ${intent} queries
-4. Alternative phrasings
-${baseTerms.length > 0 ? `5. Include these intent-specific terms: ${baseTerms.join(', ')}` : ''}
-${conversationContext ? '6. Use the conversation context to preserve references to specific documents/folders mentioned earlier' : ''}
-
-Rules:
-- Keep expansion concise (max 30-40 words total)
-- Focus on terms that would appear in relevant documents
-- Do NOT add questions or complete sentences
-- Do NOT change the original intent
-- Combine original query + expansions naturally
-${conversationContext ? '- If the conversation mentions specific documents/folders, include those names in the expansion' : ''}
-
-Example:
-Original: "GDPR"
-Expanded: "GDPR General Data Protection Regulation protezione dati personali privacy regolamento europeo privacy by design data subject rights"
-
-Now expand the query. Respond with ONLY the expanded query text, nothing else.`
-}
-
@@ -103,45 +103,6 @@ function extractKeywords(query: string, maxKeywords: number = 8): string[] {
     .slice(0, maxKeywords)
 }
 
-function buildFallbackPrompt(
-  query: string,
-  folders: string[],
-  totalFolderCount: number,
-  truncatedLabel: string,
-  keywordsLine: string
-): string {
-  const folderLines = folders
-    .map((name, index) => `${index + 1}. ${name}`)
-    .join('\n')
-  const truncatedNote = `Elenco troncato: ${truncatedLabel}`
-
-  return `Sei un assistente che deve dedurre la cartella più pertinente in cui cercare documenti in un database aziendale.
-
-Query utente (in italiano): "${query}"
-
-Elenco cartelle disponibili (seleziona la più pertinente):
-${folderLines || '- Nessuna cartella disponibile'}
-${totalFolderCount > folders.length ? `\nSono mostrate ${folders.length} cartelle su ${totalFolderCount}.` : ''}
-
-${keywordsLine}
-${truncatedNote}
-
-Regole fondamentali:
-1. Devi scegliere esclusivamente tra le cartelle fornite. Non inventare nuovi nomi. Se nessuna cartella è adatta, imposta "folder": null.
-2. Confronta le parole chiave della query con le parole presenti nelle cartelle (considera singolare/plurale, sinonimi o traduzioni evidenti). Preferisci la cartella che contiene la maggioranza delle parole chiave rilevanti.
-3. Evita di selezionare cartelle con sovrapposizione minima o semantica diversa rispetto alla query.
-4. La motivazione deve spiegare in 1-2 frasi perché la cartella scelta è pertinente (o perché nessuna lo è).
-
-Output:
-- Rispondi esclusivamente con un oggetto JSON contenente "folder", "confidence" (0-1) e "reasoning".
-- Il campo "folder" deve riportare il nome esatto della cartella scelta (mai inventato).
-
-Esempio di risposta valida:
-{"folder": "Codice di condotta fornitori", "confidence": 0.88, "reasoning": "La query menziona codici di condotta fornitori, corrispondenti a questa cartella"}
-
-Rispondi ora con il JSON richiesto.`
-}
-
 function sanitizeFolders(folders: readonly string[]): string[] {
   const seen = new Set<string>()
   const sanitized: string[] = []
@@ -216,15 +177,6 @@ export async function inferMetaQueryFolder(
         query_keywords: keywordList,
         max_folders: maxFolders,
         truncated_label: truncatedLabel,
-      },
-      {
-        fallback: buildFallbackPrompt(
-          query,
-          limitedFolders,
-          sanitizedFolders.length,
-          truncatedLabel,
-          `Parole chiave estratte dalla query: ${keywordList}`
-        ),
       }
     )
 
@@ -363,5 +315,3 @@ export async function inferMetaQueryFolder(
     }
   }
 }
-
-
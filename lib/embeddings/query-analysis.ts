@@ -12,6 +12,7 @@ import { PROMPTS, compilePrompt } from '@/lib/observability/prompt-manager'
  * - Comparative queries and extract terms
  * - Meta queries (database queries)
  * - Article references
+ * - Questions about changes between versions of the same document
  * 
  * This replaces multiple separate LLM calls from:
  * - comparative-query-detection.ts
@@ -46,6 +47,7 @@ export type QueryIntent =
   | 'exploratory' // NEW: Document discovery queries about topics/themes
   | 'timeline'
   | 'causes_effects'
+  | 'version_changes' // Cosa è cambiato tra versioni dello stesso documento
   | 'general'
 
 /**
@@ -67,6 +69,9 @@ export interface QueryAnalysisResult {
   // Article reference
   articleNumber?: number
   
+  // Version changes: nome del documento di cui confrontare le versioni (se indicato)
+  versionDocument?: string
+  
   // Temporal query indicators
   hasTemporal: boolean
   temporalTerms?: string[]
@@ -137,6 +142,25 @@ function detectWebSearchCommand(query: string): { hasWebSearchRequest: boolean;
   }
 }
 
+/**
+ * Detects questions about changes between document versions (fast, no LLM needed)
+ * Used as a hint for the LLM and as fallback when the LLM is unavailable
+ */
+export function detectVersionChangeQuery(query: string): boolean {
+  const versionChangePatterns = [
+    /\b(?:cosa|che cosa|cos'?)\s*(?:è|e'|é)?\s*cambiat[oai]\b/i,
+    /\b(?:cosa|che cosa)\s+cambia\b/i,
+    /\b(?:modifiche|novità|cambiamenti|differenze).*\b(?:nuova|ultima|precedente|vecchia)\s+versione\b/i,
+    /\b(?:nuova|ultima|precedente|vecchia)\s+versione\b.*\b(?:modifiche|novità|cambiamenti|differenze|cambiat[oai]|modificat[oai])\b/i,
+    /\b(?:differenze|confronto)\s+tra\s+(?:le\s+)?versioni\b/i,
+    /\b(?:rispetto alla|dalla)\s+(?:versione\s+precedente|vecchia\s+versione)\b/i,
+    /\bwhat(?:'s| has| is)?\s+changed\b/i,
+    /\b(?:changes|differences)\s+(?:in|between)\s+(?:the\s+)?(?:new|latest|previous)?\s*versions?\b/i,
+  ]
+
+  return versionChangePatterns.some((pattern) => pattern.test(query))
+}
+
 /**
  * Detects article reference using regex (fast, no LLM needed)
  * This is used as a fallback and to confirm LLM detection
@@ -199,12 +223,13 @@ export async function analyzeQuery(query: string): Promise<QueryAnalysisResult>
 
     // Step 2: Fast regex checks (before LLM call)
     const articleNumberRegex = detectArticleReferenceRegex(query)
+    const versionChangeRegex = detectVersionChangeQuery(query)
     const temporalDetection = detectTemporalTerms(query)
     const webSearchDetection = detectWebSearchCommand(query)
 
     // Step 3: Use LLM to analyze everything at once
     console.log('[query-analysis] Cache miss, using LLM for unified analysis...')
-    const result = await analyzeWithLLM(query, articleNumberRegex, temporalDetection, webSearchDetection)
+    const result = await analyzeWithLLM(query, articleNumberRegex, versionChangeRegex, temporalDetection, webSearchDetection)
 
     // Step 4: Result will be cached together with enhancement in query-enhancement.ts
     // No need to cache here separately anymore
@@ -215,6 +240,7 @@ export async function analyzeQuery(query: string): Promise<QueryAnalysisResult>
       isComparative: result.isComparative,
       isMeta: result.isMeta,
       articleNumber: result.articleNumber,
+      versionDocument: result.versionDocument,
     })
 
     return result
@@ -230,6 +256,7 @@ export async function analyzeQuery(query: string): Promise<QueryAnalysisResult>
  * 
  * @param query - Query to analyze
  * @param articleNumberRegex - Article number detected by regex (if any)
+ * @param versionChangeRegex - Whether regex detected a version changes question
  * @param temporalDetection - Temporal terms detected by regex
  * @param webSearchDetection - Web search commands detected by regex
  * @returns Complete analysis result
@@ -237,26 +264,24 @@ export async function analyzeQuery(query: string): Promise<QueryAnalysisResult>
 async function analyzeWithLLM(
   query: string,
   articleNumberRegex: number | null,
+  versionChangeRegex: boolean,
   temporalDetection: { hasTemporal: boolean; temporalTerms: string[] },
   webSearchDetection: { hasWebSearchRequest: boolean; webSearchCommand?: string }
 ): Promise<QueryAnalysisResult> {
   try {
-    // Fetch prompt from Langfuse with fallback
+    // Fetch prompt from Langfuse (local registry if unavailable)
     const articleNumberHint = articleNumberRegex
       ? `NOTA: Regex ha rilevato articolo ${articleNumberRegex} - conferma o correggi se necessario.`
       : ''
+    const versionChangeHint = versionChangeRegex
+      ? 'NOTA: Regex ha rilevato una domanda sulle modifiche tra versioni di un documento - conferma o correggi se necessario.'
+      : ''
 
-    const prompt = await compilePrompt(
-      PROMPTS.QUERY_ANALYSIS,
-      {
-        query,
-        articleNumberHint,
-      },
-      {
-        // Fallback to hard-coded prompt if Langfuse fails
-        fallback: buildFallbackAnalysisPrompt(query, articleNumberRegex),
-      }
-    )
+    const prompt = await compilePrompt(PROMPTS.QUERY_ANALYSIS, {
+      query,
+      articleNumberHint,
+      versionChangeHint,
+    })
 
     const response = await openrouter.chat.completions.create({
       model: ANALYSIS_MODEL,
@@ -292,7 +317,7 @@ async function analyzeWithLLM(
     
     if (!content) {
       console.warn('[query-analysis] Empty LLM response')
-      return getDefaultResult(query, articleNumberRegex)
+      return getDefaultResult(query, articleNumberRegex, versionChangeRegex)
     }
 
     // Parse JSON response - use robust extraction method
@@ -305,6 +330,7 @@ async function analyzeWithLLM(
       is_meta?: boolean
       meta_type?: string | null
       article_number?: number | null
+      version_document?: string | null
       confidence?: number
     }
 
@@ -331,14 +357,14 @@ async function analyzeWithLLM(
           console.error('[query-analysis] Failed to parse extracted JSON:', extractError)
           console.error('[query-analysis] Raw response:', content)
           console.error('[query-analysis] Extracted JSON:', jsonCandidate)
-          return getDefaultResult(query, articleNumberRegex)
+          return getDefaultResult(query, articleNumberRegex, versionChangeRegex)
         }
       } else {
         console.error('[query-analysis] Could not find JSON braces in content')
         console.error('[query-analysis] First brace index:', firstBrace)
         console.error('[query-analysis] Last brace index:', lastBrace)
         console.error('[query-analysis] Raw response:', content)
-        return getDefaultResult(query, articleNumberRegex)
+        return getDefaultResult(query, articleNumberRegex, versionChangeRegex)
       }
     }
 
@@ -353,6 +379,7 @@ async function analyzeWithLLM(
       'exploratory', // NEW: Document discovery intent
       'timeline',
       'causes_effects',
+      'version_changes',
       'general',
     ]
     const intent = parsed.intent && validIntents.includes(parsed.intent as QueryIntent)
@@ -380,6 +407,10 @@ async function analyzeWithLLM(
       ? (parsed.article_number >= 1 && parsed.article_number <= 999 ? parsed.article_number : null)
       : articleNumberRegex
 
+    const versionDocument = intent === 'version_changes' && typeof parsed.version_document === 'string' && parsed.version_document.trim()
+      ? parsed.version_document.trim()
+      : undefined
+
     const confidence = parsed.confidence !== undefined && parsed.confidence >= 0 && parsed.confidence <= 1
       ? parsed.confidence
       : undefined
@@ -392,6 +423,7 @@ async function analyzeWithLLM(
       isMeta,
       metaType,
       articleNumber: articleNumber || undefined,
+      versionDocument,
       hasTemporal: temporalDetection.hasTemporal,
       temporalTerms: temporalDetection.temporalTerms,
       hasWebSearchRequest: webSearchDetection.hasWebSearchRequest,
@@ -403,20 +435,24 @@ async function analyzeWithLLM(
     return result
   } catch (error) {
     console.error('[query-analysis] LLM analysis failed:', error)
-    return getDefaultResult(query, articleNumberRegex)
+    return getDefaultResult(query, articleNumberRegex, versionChangeRegex)
   }
 }
 
 /**
  * Returns default analysis result (fallback)
  */
-function getDefaultResult(query: string, articleNumber?: number | null): QueryAnalysisResult {
+function getDefaultResult(
+  query: string,
+  articleNumber?: number | null,
+  isVersionChange: boolean = detectVersionChangeQuery(query)
+): QueryAnalysisResult {
   // Apply regex detections even in fallback
   const temporalDetection = detectTemporalTerms(query)
   const webSearchDetection = detectWebSearchCommand(query)
   
   return {
-    intent: 'general',
+    intent: isVersionChange ? 'version_changes' : 'general',
     isComparative: false,
     isMeta: false,
     hasTemporal: temporalDetection.hasTemporal,
@@ -427,65 +463,3 @@ function getDefaultResult(query: string, articleNumber?: number | null): QueryAn
     articleNumber: articleNumber || undefined,
   }
 }
-
-/**
- * Builds fallback analysis prompt (used when Langfuse is unavailable)
- */
-function buildFallbackAnalysisPrompt(query: string, articleNumberRegex: number | null): string {
-  return `Analizza questa query e determina tutte le sue caratteristiche in una sola volta.
-
-Query: "${query}"
-
-Devi rilevare:
-
-1. INTENT SEMANTICO (uno solo):
-   - "comparison": Confronto tra 2+ entità (es: "confronta GDPR e ESPR", "differenze tra X e Y")
-   - "definition": SOLO definizione formale/concept breve (es: "cos'è il GDPR", "definizione di sostenibilità", "che cosa significa X")
-     IMPORTANTE: "spiegami X", "descrivimi X", "raccontami di X" NON sono "definition" ma "general"
-   - "requirements": Requisiti/obblighi (es: "requisiti GDPR", "cosa serve per compliance")
-   - "procedure": Procedure/processi (es: "come implementare GDPR", "processo per compliance")
-   - "article_lookup": Ricerca articolo specifico (es: "articolo 28 GDPR", "art. 5")
-   - "meta": Query sul database stesso (es: "quanti documenti ci sono", "che norme ci sono")
-   - "exploratory": Document discovery su topic/tema (es: "documenti che parlano di sostenibilità", "cosa abbiamo su privacy", "argomenti relativi a ESG")
-     IMPORTANTE: Si cerca QUALI documenti trattano un argomento, NON i dettagli dell'argomento
-   - "timeline": Scadenze/timeline (es: "quando scade GDPR", "scadenze compliance")
-   - "causes_effects": Cause/effetti (es: "perché serve GDPR", "conseguenze non compliance")
-   - "general": Spiegazione generale/descrizione completa (es: "spiegami X", "descrivimi X", "raccontami di X", "parlami di X")
-
-2. QUERY COMPARATIVA:
-   - Se intent è "comparison", estrai i termini da confrontare (min 2, max 5)
-   - Tipo: "differences" (differenze), "similarities" (somiglianze), "general_comparison" (confronto generale)
-
-3. QUERY META:
-   - Se intent è "meta", determina il tipo: "stats" (statistiche), "list" (liste), "folders" (cartelle), "structure" (struttura)
-
-4. RIFERIMENTO ARTICOLO:
-   - Se la query menziona un articolo specifico, estrai il numero (1-999)
-   - ${articleNumberRegex ? `NOTA: Regex ha rilevato articolo ${articleNumberRegex} - conferma o correggi se necessario.` : ''}
-
-IMPORTANTE:
-- L'intent deve essere UNO SOLO (il più rilevante)
-- Se la query è comparativa, intent DEVE essere "comparison"
-- Se la query è meta, intent DEVE essere "meta"
-- Se la query menziona un articolo specifico, intent DEVE essere "article_lookup" (a meno che non sia anche comparativa o meta)
-- DISTINGUI tra "exploratory" e "general":
-  * "exploratory": Ricerca QUALI documenti parlano di un topic ("documenti su X", "cosa abbiamo su Y", "temi relativi a Z")
-  * "general": Richiesta di spiegazione/informazioni su un topic ("spiegami X", "cos'è Y", "informazioni su Z")
-- DISTINGUI tra "definition" e "general":
-  * "definition": SOLO per richieste di definizione breve/formale ("cos'è", "definizione di", "che cosa significa")
-  * "general": per richieste di spiegazione/descrizione completa ("spiegami", "descrivimi", "raccontami", "parlami di")
-- Estrai SOLO i termini principali per confronti (es: "GDPR", "ESPR", non "confronto", "differenza")
-
-Rispondi SOLO in JSON valido, senza altro testo:
-{
-  "intent": "comparison" | "definition" | "requirements" | "procedure" | "article_lookup" | "meta" | "exploratory" | "timeline" | "causes_effects" | "general",
-  "is_comparative": true/false,
-  "comparative_terms": ["term1", "term2", ...] o null,
-  "comparison_type": "differences" | "similarities" | "general_comparison" | null,
-  "is_meta": true/false,
-  "meta_type": "stats" | "list" | "folders" | "structure" | null,
-  "article_number": numero o null,
-  "confidence": 0.0-1.0
-}`
-}
-
@@ -0,0 +1,240 @@
+/**
+ * Answer Quality Judge
+ *
+ * Valutazione offline delle risposte generate con un LLM giudice:
+ * - faithfulness: ogni frase citata è supportata dal contenuto dei chunk che cita?
+ * - citation coverage: quota di frasi sostanziali con almeno una citazione
+ * - completeness: la risposta copre la domanda (e i punti attesi, se forniti)?
+ *
+ * Usato da scripts/eval-answers.ts; i punteggi vengono poi inviati a Langfuse come trace score
+ */
+
+import OpenAI from 'openai'
+import { PROMPTS, compilePrompt } from '@/lib/observability/prompt-manager'
+import { createGeneration, endGeneration } from '@/lib/observability/langfuse'
+import type { LangfuseSpanClient, LangfuseTraceClient } from 'langfuse'
+import {
+  citationCoverage,
+  extractCitedClaims,
+  faithfulnessScore,
+  type CitedClaim,
+  type ClaimVerdict,
+} from './citation-claims'
+
+const openrouter = new OpenAI({
+  apiKey: process.env.OPENROUTER_API_KEY,
+  baseURL: 'https://openrouter.ai/api/v1',
+})
+
+const JUDGE_MODEL = 'google/gemini-2.5-flash'
+// Caratteri di ogni chunk citato mostrati al giudice
+const SOURCE_CONTENT_LENGTH = 2500
+
+export interface JudgedSource {
+  index: number
+  filename: string
+  // Contenuto completo del chunk (non l'anteprima troncata della Source)
+  content: string
+}
+
+export interface JudgedClaim extends CitedClaim {
+  verdict: ClaimVerdict | null // null = frase senza citazioni
+  reason?: string
+}
+
+export interface AnswerQualityResult {
+  // null se la risposta non contiene frasi citate
+  faithfulness: number | null
+  citationCoverage: number
+  completeness: number
+  missingPoints: string[]
+  claims: JudgedClaim[]
+}
+
+export interface AnswerQualityInput {
+  question: string
+  answer: string
+  sources: JudgedSource[]
+  // Punti che una risposta completa deve contenere (opzionale)
+  expectedPoints?: string[]
+}
+
+interface JudgeOptions {
+  parent?: LangfuseTraceClient | LangfuseSpanClient | null
+}
+
+function parseJson<T>(content: string): T {
+  try {
+    return JSON.parse(content) as T
+  } catch {
+    const firstBrace = content.indexOf('{')
+    const lastBrace = content.lastIndexOf('}')
+    if (firstBrace === -1 || lastBrace <= firstBrace) {
+      throw new Error('Judge response is not JSON')
+    }
+    return JSON.parse(content.slice(firstBrace, lastBrace + 1)) as T
+  }
+}
+
+async function callJudge(
+  name: string,
+  prompt: string,
+  options: JudgeOptions
+): Promise<string> {
+  const generation = options.parent
+    ? createGeneration(options.parent, name, `openrouter/${JUDGE_MODEL}`, prompt)
+    : null
+
+  try {
+    const response = await openrouter.chat.completions.create({
+      model: JUDGE_MODEL,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0,
+      max_tokens: 2000,
+      response_format: { type: 'json_object' },
+    })
+
+    const content = response.choices[0]?.message?.content?.trim() || ''
+    endGeneration(generation, content, response.usage ? {
+      promptTokens: response.usage.prompt_tokens,
+      completionTokens: response.usage.completion_tokens,
+      totalTokens: response.usage.total_tokens,
+    } : undefined)
+
+    if (!content) {
+      throw new Error('Empty judge response')
+    }
+    return content
+  } catch (error) {
+    endGeneration(generation, undefined, undefined, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      failed: true,
+    })
+    throw error
+  }
+}
+
+async function judgeFaithfulness(
+  claims: CitedClaim[],
+  sources: JudgedSource[],
+  options: JudgeOptions
+): Promise<Map<number, { verdict: ClaimVerdict; reason?: string }>> {
+  const verdicts = new Map<number, { verdict: ClaimVerdict; reason?: string }>()
+  const sourceByIndex = new Map(sources.map((source) => [source.index, source]))
+
+  // Claim che citano solo indici inesistenti: non supportati senza chiamare il giudice
+  const toJudge: Array<{ position: number; claim: CitedClaim }> = []
+  claims.forEach((claim, position) => {
+    if (claim.citedIndices.length === 0) {
+      return
+    }
+    if (!claim.citedIndices.some((index) => sourceByIndex.has(index))) {
+      verdicts.set(position, { verdict: 'unsupported', reason: 'Citazione a fonte inesistente' })
+      return
+    }
+    toJudge.push({ position, claim })
+  })
+
+  if (toJudge.length === 0) {
+    return verdicts
+  }
+
+  const citedIndices = Array.from(new Set(toJudge.flatMap(({ claim }) => claim.citedIndices)))
+    .filter((index) => sourceByIndex.has(index))
+    .sort((a, b) => a - b)
+  const sourcesText = citedIndices
+    .map((index) => {
+      const source = sourceByIndex.get(index)!
+      return `[cit:${index}] (${source.filename})\n${source.content.slice(0, SOURCE_CONTENT_LENGTH)}`
+    })
+    .join('\n\n---\n\n')
+  const claimsText = toJudge
+    .map(({ claim }, i) => `${i + 1}. "${claim.text}" — cita: ${claim.citedIndices.map((n) => `[cit:${n}]`).join(', ')}`)
+    .join('\n')
+
+  const prompt = await compilePrompt(
+    PROMPTS.ANSWER_FAITHFULNESS_JUDGE,
+    { claims: claimsText, sources: sourcesText }
+  )
+
+  const content = await callJudge('faithfulness-judge', prompt, options)
+  const parsed = parseJson<{ claims?: Array<{ index?: unknown; verdict?: unknown; reason?: unknown }> }>(content)
+
+  for (const item of parsed.claims || []) {
+    const entry = toJudge[Number(item.index) - 1]
+    const verdict = item.verdict as ClaimVerdict
+    if (entry && (verdict === 'supported' || verdict === 'partial' || verdict === 'unsupported')) {
+      verdicts.set(entry.position, {
+        verdict,
+        reason: typeof item.reason === 'string' ? item.reason : undefined,
+      })
+    }
+  }
+
+  // Claim omessi dal giudice: conservativamente non supportati
+  for (const { position } of toJudge) {
+    if (!verdicts.has(position)) {
+      verdicts.set(position, { verdict: 'unsupported', reason: 'Nessun verdetto dal giudice' })
+    }
+  }
+
+  return verdicts
+}
+
+async function judgeCompleteness(
+  input: AnswerQualityInput,
+  options: JudgeOptions
+): Promise<{ score: number; missing: string[] }> {
+  const answer = input.answer.replace(/\[(?:cit|web)[\s:]+[\d,\s]+\]/g, '').trim()
+  const expectedPoints = (input.expectedPoints || []).map((point) => `- ${point}`).join('\n')
+
+  const prompt = await compilePrompt(
+    PROMPTS.ANSWER_COMPLETENESS_JUDGE,
+    { question: input.question, answer, expected_points: expectedPoints }
+  )
+
+  const content = await callJudge('completeness-judge', prompt, options)
+  const parsed = parseJson<{ score?: unknown; missing?: unknown }>(content)
+  const score = Number(parsed.score)
+
+  return {
+    score: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0,
+    missing: Array.isArray(parsed.missing) ? parsed.missing.filter((m): m is string => typeof m === 'string') : [],
+  }
+}
+
+/**
+ * Valuta una risposta generata rispetto alle fonti che cita
+ *
+ * @param input - Domanda, risposta processata e contenuto completo delle fonti citate
+ * @param options - Trace/span Langfuse padre per le chiamate del giudice
+ * @returns Punteggi 0-1 e verdetto per ogni frase
+ * @throws Error se il giudice non risponde o restituisce JSON non valido
+ */
+export async function judgeAnswerQuality(
+  input: AnswerQualityInput,
+  options: JudgeOptions = {}
+): Promise<AnswerQualityResult> {
+  const claims = extractCitedClaims(input.answer)
+
+  const [verdicts, completeness] = await Promise.all([
+    judgeFaithfulness(claims, input.sources, options),
+    judgeCompleteness(input, options),
+  ])
+
+  const judgedClaims: JudgedClaim[] = claims.map((claim, position) => ({
+    ...claim,
+    verdict: verdicts.get(position)?.verdict ?? null,
+    reason: verdicts.get(position)?.reason,
+  }))
+
+  return {
+    faithfulness: faithfulnessScore(
+      judgedClaims.map((claim) => claim.verdict).filter((v): v is ClaimVerdict => v !== null)
+    ),
+    citationCoverage: citationCoverage(claims),
+    completeness: completeness.score,
+    missingPoints: completeness.missing,
+    claims: judgedClaims,
+  }
+}
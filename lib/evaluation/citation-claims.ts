@@ -0,0 +1,118 @@
+/**
+ * Citation Claims
+ *
+ * Scompone una risposta in frasi ("claim") e associa a ciascuna le citazioni
+ * [cit:N] che la supportano. Base per il calcolo di faithfulness e copertura
+ * delle citazioni nella valutazione offline delle risposte
+ */
+
+export interface CitedClaim {
+  // Testo della frase senza marker di citazione e formattazione markdown
+  text: string
+  citedIndices: number[]
+}
+
+export type ClaimVerdict = 'supported' | 'partial' | 'unsupported'
+
+const CITATION = /\[cit[\s:]+(\d+(?:\s*,\s*\d+)*)\]/g
+const LEADING_CITATIONS = /^(?:\s*\[cit[\s:]+\d+(?:\s*,\s*\d+)*\])+/
+// Frasi più corte (dopo la pulizia) sono considerate non sostanziali: titoli, congiunzioni, "Ecco i dettagli:"
+const MIN_CLAIM_LENGTH = 25
+
+const VERDICT_SCORES: Record<ClaimVerdict, number> = {
+  supported: 1,
+  partial: 0.5,
+  unsupported: 0,
+}
+
+function parseIndices(text: string): number[] {
+  const indices = new Set<number>()
+  for (const match of text.matchAll(CITATION)) {
+    match[1]
+      .replace(/\s+/g, '')
+      .split(',')
+      .map((n) => parseInt(n, 10))
+      .filter((n) => !isNaN(n) && n > 0)
+      .forEach((n) => indices.add(n))
+  }
+  return Array.from(indices).sort((a, b) => a - b)
+}
+
+function cleanClaimText(text: string): string {
+  return text
+    .replace(CITATION, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,;:!?])/g, '$1')
+    .trim()
+}
+
+/**
+ * Estrae le frasi sostanziali della risposta con le rispettive citazioni
+ *
+ * Una citazione subito dopo il punto ("Testo. [cit:1]") viene attribuita alla
+ * frase precedente. Heading, righe di tabella e frammenti brevi vengono ignorati
+ *
+ * @param answer - Risposta processata (citazioni nel formato [cit:N])
+ * @returns Claim in ordine di apparizione
+ */
+export function extractCitedClaims(answer: string): CitedClaim[] {
+  const claims: CitedClaim[] = []
+
+  for (const line of answer.split('\n')) {
+    const trimmed = line.trim()
+    if (trimmed.length === 0 || /^#{1,6}\s/.test(trimmed) || trimmed.startsWith('|')) {
+      continue
+    }
+
+    // Spezza dopo .!? solo se segue maiuscola o citazione: "art. 28" e "1.200" restano interi
+    const parts = trimmed.split(/(?<=[.!?])\s+(?=[A-ZÀ-Ý"«(*[])/)
+    const sentences: string[] = []
+    for (const part of parts) {
+      const leading = part.match(LEADING_CITATIONS)
+      if (leading && sentences.length > 0) {
+        sentences[sentences.length - 1] += ` ${leading[0].trim()}`
+        const rest = part.slice(leading[0].length).trim()
+        if (rest.length > 0) {
+          sentences.push(rest)
+        }
+      } else {
+        sentences.push(part)
+      }
+    }
+
+    for (const sentence of sentences) {
+      const text = cleanClaimText(sentence)
+      if (text.length >= MIN_CLAIM_LENGTH) {
+        claims.push({ text, citedIndices: parseIndices(sentence) })
+      }
+    }
+  }
+
+  return claims
+}
+
+/**
+ * Quota di claim sostanziali che riportano almeno una citazione
+ *
+ * @returns Valore tra 0 e 1 (1 se la risposta non ha claim)
+ */
+export function citationCoverage(claims: CitedClaim[]): number {
+  if (claims.length === 0) {
+    return 1
+  }
+  return claims.filter((claim) => claim.citedIndices.length > 0).length / claims.length
+}
+
+/**
+ * Media dei verdetti sui claim citati (supported = 1, partial = 0.5, unsupported = 0)
+ *
+ * @returns Valore tra 0 e 1, o null se nessun claim è stato valutato
+ */
+export function faithfulnessScore(verdicts: ClaimVerdict[]): number | null {
+  if (verdicts.length === 0) {
+    return null
+  }
+  return verdicts.reduce((sum, verdict) => sum + VERDICT_SCORES[verdict], 0) / verdicts.length
+}
@@ -0,0 +1,53 @@
+/**
+ * Evaluation Environment
+ *
+ * Configura l'env per i runner di valutazione offline (scripts/eval-*.ts):
+ * il client Supabase admin viene puntato a un'istanza locale e le cache
+ * LLM vengono disabilitate per run riproducibili
+ */
+
+const DEFAULT_SUPABASE_URL = 'http://127.0.0.1:54321'
+
+export interface EvalEnvironmentOptions {
+  // Usa la cache di analisi/enhancement invece di ricalcolare
+  useCache: boolean
+  // Permette un'istanza Supabase non locale
+  allowRemote: boolean
+}
+
+function isLocalUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url)
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === 'host.docker.internal'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Punta il client admin all'istanza di valutazione (EVAL_SUPABASE_URL / EVAL_SUPABASE_SERVICE_ROLE_KEY)
+ *
+ * Va chiamato prima di importare i moduli della pipeline: il client admin legge l'env al primo uso
+ *
+ * @returns URL Supabase usato
+ * @throws Error se l'URL non è locale e allowRemote è false
+ */
+export function configureEvalEnvironment(options: EvalEnvironmentOptions): string {
+  const supabaseUrl = process.env.EVAL_SUPABASE_URL || DEFAULT_SUPABASE_URL
+
+  if (!isLocalUrl(supabaseUrl) && !options.allowRemote) {
+    throw new Error(`Refusing to evaluate against non-local Supabase (${supabaseUrl}). Use --allow-remote to override.`)
+  }
+
+  process.env.NEXT_PUBLIC_SUPABASE_URL = supabaseUrl
+  if (process.env.EVAL_SUPABASE_SERVICE_ROLE_KEY) {
+    process.env.SUPABASE_SERVICE_ROLE_KEY = process.env.EVAL_SUPABASE_SERVICE_ROLE_KEY
+  }
+
+  if (!options.useCache) {
+    process.env.DISABLE_QUERY_ANALYSIS_CACHE = 'true'
+    process.env.DISABLE_ENHANCEMENT_CACHE = 'true'
+  }
+
+  return supabaseUrl
+}
@@ -0,0 +1,93 @@
+/**
+ * Golden Question Sets
+ *
+ * Parsing e validazione dei file JSONL usati dalla valutazione del retrieval.
+ * Una riga per domanda:
+ * {"id": "ferie-01", "question": "Come si richiedono le ferie?", "expectedDocumentIds": ["<uuid>"], "expectedArticles": [28], "intent": "procedure"}
+ *
+ * Lo stesso file è usato dalla valutazione delle risposte, che legge anche "expectedPoints"
+ */
+
+export interface GoldenQuestion {
+  id: string
+  question: string
+  expectedDocumentIds: string[]
+  // Numeri di articolo attesi nei chunk recuperati (opzionale)
+  expectedArticles?: number[]
+  // Intent atteso: se assente il report raggruppa per intent rilevato da analyzeQuery
+  intent?: string
+  // Punti che una risposta completa deve coprire (valutazione delle risposte, opzionale)
+  expectedPoints?: string[]
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.length > 0)
+}
+
+/**
+ * Legge un golden set in formato JSONL
+ *
+ * Righe vuote e righe che iniziano con // vengono ignorate
+ *
+ * @param content - Contenuto del file JSONL
+ * @returns Domande validate
+ * @throws Error con numero di riga se una domanda non è valida o un id è duplicato
+ */
+export function parseGoldenSet(content: string): GoldenQuestion[] {
+  const questions: GoldenQuestion[] = []
+  const seenIds = new Set<string>()
+
+  content.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    if (line.length === 0 || line.startsWith('//')) {
+      return
+    }
+
+    const lineNumber = index + 1
+    let parsed: Record<string, unknown>
+    try {
+      parsed = JSON.parse(line)
+    } catch {
+      throw new Error(`Line ${lineNumber}: invalid JSON`)
+    }
+
+    const { id, question, expectedDocumentIds, expectedArticles, intent, expectedPoints } = parsed
+
+    if (typeof id !== 'string' || id.length === 0) {
+      throw new Error(`Line ${lineNumber}: "id" must be a non-empty string`)
+    }
+    if (seenIds.has(id)) {
+      throw new Error(`Line ${lineNumber}: duplicate id "${id}"`)
+    }
+    if (typeof question !== 'string' || question.trim().length === 0) {
+      throw new Error(`Line ${lineNumber}: "question" must be a non-empty string`)
+    }
+    if (!isStringArray(expectedDocumentIds) || expectedDocumentIds.length === 0) {
+      throw new Error(`Line ${lineNumber}: "expectedDocumentIds" must be a non-empty array of strings`)
+    }
+    if (
+      expectedArticles !== undefined &&
+      (!Array.isArray(expectedArticles) || !expectedArticles.every((n) => Number.isInteger(n)))
+    ) {
+      throw new Error(`Line ${lineNumber}: "expectedArticles" must be an array of integers`)
+    }
+    if (intent !== undefined && typeof intent !== 'string') {
+      throw new Error(`Line ${lineNumber}: "intent" must be a string`)
+    }
+    if (expectedPoints !== undefined && !isStringArray(expectedPoints)) {
+      throw new Error(`Line ${lineNumber}: "expectedPoints" must be an array of strings`)
+    }
+
+    seenIds.add(id)
+    questions.push({
+      id,
+      question: question.trim(),
+      expectedDocumentIds,
+      expectedArticles: expectedArticles as number[] | undefined,
+      intent: intent as string | undefined,
+      expectedPoints,
+    })
+  })
+
+  return questions
+}
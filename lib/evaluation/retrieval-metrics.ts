@@ -0,0 +1,187 @@
+/**
+ * Retrieval Metrics
+ *
+ * Metriche di ranking a livello documento per la valutazione del retrieval:
+ * - recall@k: quota di documenti attesi presenti nei primi k
+ * - MRR: reciproco della posizione del primo documento atteso
+ * - nDCG@k: guadagno cumulativo scontato normalizzato (rilevanza binaria)
+ *
+ * Tutte le funzioni sono pure: il runner (scripts/eval-retrieval.ts) si occupa
+ * di eseguire la pipeline e passa qui i documenti recuperati in ordine
+ */
+
+export interface QuestionMetrics {
+  recall: Record<number, number>
+  ndcg: Record<number, number>
+  reciprocalRank: number
+  // null se la domanda non ha articoli attesi
+  articleHit: Record<number, number> | null
+}
+
+export interface AggregateMetrics {
+  questions: number
+  recall: Record<number, number>
+  ndcg: Record<number, number>
+  mrr: number
+  // Media solo sulle domande con articoli attesi
+  articleHit: Record<number, number> | null
+}
+
+// Arrotondamento fisso per report confrontabili tra run
+const PRECISION = 4
+
+export function round(value: number): number {
+  return Number(value.toFixed(PRECISION))
+}
+
+/**
+ * Riduce una lista di chunk ordinati alla lista dei documenti, mantenendo la prima occorrenza
+ */
+export function rankDocuments(documentIds: string[]): string[] {
+  return Array.from(new Set(documentIds))
+}
+
+export function recallAtK(ranked: string[], expected: string[], k: number): number {
+  if (expected.length === 0) {
+    return 0
+  }
+  const topK = new Set(ranked.slice(0, k))
+  return expected.filter((id) => topK.has(id)).length / expected.length
+}
+
+export function reciprocalRank(ranked: string[], expected: string[]): number {
+  const expectedSet = new Set(expected)
+  const position = ranked.findIndex((id) => expectedSet.has(id))
+  return position === -1 ? 0 : 1 / (position + 1)
+}
+
+export function ndcgAtK(ranked: string[], expected: string[], k: number): number {
+  const expectedSet = new Set(expected)
+  const dcg = ranked
+    .slice(0, k)
+    .reduce((sum, id, i) => sum + (expectedSet.has(id) ? 1 / Math.log2(i + 2) : 0), 0)
+
+  const idealHits = Math.min(expectedSet.size, k)
+  let idcg = 0
+  for (let i = 0; i < idealHits; i++) {
+    idcg += 1 / Math.log2(i + 2)
+  }
+
+  return idcg === 0 ? 0 : dcg / idcg
+}
+
+/**
+ * Calcola le metriche di una singola domanda
+ *
+ * @param ranked - Document ID recuperati, già deduplicati e in ordine
+ * @param expected - Document ID attesi
+ * @param ks - Cutoff da calcolare (es. [1, 5, 10])
+ * @param articleHits - Per ogni posizione chunk, se il chunk appartiene a un articolo atteso (opzionale)
+ */
+export function computeQuestionMetrics(
+  ranked: string[],
+  expected: string[],
+  ks: number[],
+  articleHits?: boolean[]
+): QuestionMetrics {
+  const recall: Record<number, number> = {}
+  const ndcg: Record<number, number> = {}
+  const articleHit: Record<number, number> | null = articleHits ? {} : null
+
+  for (const k of ks) {
+    recall[k] = round(recallAtK(ranked, expected, k))
+    ndcg[k] = round(ndcgAtK(ranked, expected, k))
+    if (articleHit && articleHits) {
+      articleHit[k] = articleHits.slice(0, k).some(Boolean) ? 1 : 0
+    }
+  }
+
+  return {
+    recall,
+    ndcg,
+    reciprocalRank: round(reciprocalRank(ranked, expected)),
+    articleHit,
+  }
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : round(values.reduce((sum, v) => sum + v, 0) / values.length)
+}
+
+/**
+ * Media delle metriche su un insieme di domande
+ */
+export function aggregateMetrics(metrics: QuestionMetrics[], ks: number[]): AggregateMetrics {
+  const withArticles = metrics.filter((m) => m.articleHit !== null)
+  const recall: Record<number, number> = {}
+  const ndcg: Record<number, number> = {}
+  const articleHit: Record<number, number> | null = withArticles.length > 0 ? {} : null
+
+  for (const k of ks) {
+    recall[k] = average(metrics.map((m) => m.recall[k]))
+    ndcg[k] = average(metrics.map((m) => m.ndcg[k]))
+    if (articleHit) {
+      articleHit[k] = average(withArticles.map((m) => m.articleHit![k]))
+    }
+  }
+
+  return {
+    questions: metrics.length,
+    recall,
+    ndcg,
+    mrr: average(metrics.map((m) => m.reciprocalRank)),
+    articleHit,
+  }
+}
+
+export interface MetricDelta {
+  group: string
+  metric: string
+  previous: number
+  current: number
+  delta: number
+}
+
+function flattenAggregate(aggregate: AggregateMetrics): Record<string, number> {
+  const flat: Record<string, number> = { mrr: aggregate.mrr }
+  for (const [k, value] of Object.entries(aggregate.recall)) flat[`recall@${k}`] = value
+  for (const [k, value] of Object.entries(aggregate.ndcg)) flat[`ndcg@${k}`] = value
+  if (aggregate.articleHit) {
+    for (const [k, value] of Object.entries(aggregate.articleHit)) flat[`articleHit@${k}`] = value
+  }
+  return flat
+}
+
+/**
+ * Confronta due insiemi di metriche aggregate (per gruppo) e restituisce le differenze
+ *
+ * Vengono confrontati solo gruppi e metriche presenti in entrambi i report
+ */
+export function compareAggregates(
+  previous: Record<string, AggregateMetrics>,
+  current: Record<string, AggregateMetrics>
+): MetricDelta[] {
+  const deltas: MetricDelta[] = []
+
+  for (const group of Object.keys(current).sort()) {
+    if (!previous[group]) {
+      continue
+    }
+    const before = flattenAggregate(previous[group])
+    const after = flattenAggregate(current[group])
+    for (const metric of Object.keys(after)) {
+      if (before[metric] === undefined) {
+        continue
+      }
+      deltas.push({
+        group,
+        metric,
+        previous: before[metric],
+        current: after[metric],
+        delta: round(after[metric] - before[metric]),
+      })
+    }
+  }
+
+  return deltas
+}
@@ -0,0 +1,391 @@
+/**
+ * Conversation Transcript
+ *
+ * Trasforma una conversazione in un documento esportabile: i marker [cit:N] e [web:N]
+ * diventano note a piè di pagina numerate per l'intera conversazione (la stessa fonte
+ * citata in più messaggi ha una sola nota). Usato dagli export Markdown, PDF e DOCX
+ */
+
+import type { Message, SourceDetail } from '@/types/chat'
+
+const EXCERPT_MAX_LENGTH = 300
+
+// Gruppi di citazioni: [cit:1], [cit:1,2], [web:3], [cit:1, web:2], [web:1, web:2]
+const CITATION_GROUP_PATTERN = /\[((?:cit|web)[\s:]+\d+(?:\s*,\s*(?:(?:cit|web)[\s:]+)?\d+)*)\]/g
+
+export interface TranscriptFootnote {
+  number: number
+  kind: 'kb' | 'web'
+  label: string // Nome file (KB) o titolo della pagina (web)
+  folder?: string | null
+  location?: string
+  versionLabel?: string
+  excerpt?: string
+  url?: string
+  restricted?: boolean // Documento in una cartella riservata non più accessibile all'utente
+}
+
+/** Testo semplice o riferimento a una nota */
+export type InlineSegment = string | { footnote: number }
+
+export interface TranscriptBlock {
+  style: 'heading' | 'paragraph' | 'bullet'
+  segments: InlineSegment[]
+}
+
+export interface TranscriptMessage {
+  role: 'user' | 'assistant'
+  markdown: string // Contenuto originale con i marker sostituiti da [^N]
+  blocks: TranscriptBlock[] // Contenuto senza formattazione markdown, per PDF e DOCX
+}
+
+export interface ConversationTranscript {
+  title: string
+  folderScope: string | null
+  exportedAt: string
+  messages: TranscriptMessage[]
+  footnotes: TranscriptFootnote[]
+}
+
+/**
+ * Cartella dei documenti citati, risolta dal chiamante
+ * - folder: cartella del documento (null = senza cartella)
+ * - restricted: il documento non è più leggibile dall'utente (ACL delle cartelle)
+ */
+export interface CitedDocumentInfo {
+  folder: string | null
+  restricted: boolean
+}
+
+interface TranscriptOptions {
+  title: string | null
+  folderScope?: string | null
+  documents?: ReadonlyMap<string, CitedDocumentInfo>
+  exportedAt?: Date
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function excerptOf(content: string | undefined): string | undefined {
+  if (!content) {
+    return undefined
+  }
+  const collapsed = collapseWhitespace(content)
+  return collapsed.length > EXCERPT_MAX_LENGTH ? `${collapsed.substring(0, EXCERPT_MAX_LENGTH)}...` : collapsed
+}
+
+/**
+ * Indici citati in un gruppo: i numeri senza prefisso ereditano il tipo precedente
+ */
+export function parseCitationGroup(group: string): Array<{ kind: 'kb' | 'web'; index: number }> {
+  const citations: Array<{ kind: 'kb' | 'web'; index: number }> = []
+  let kind: 'kb' | 'web' = 'kb'
+
+  for (const token of group.split(',')) {
+    const match = token.trim().match(/^(?:(cit|web)[\s:]+)?(\d+)$/)
+    if (!match) {
+      continue
+    }
+    if (match[1]) {
+      kind = match[1] === 'web' ? 'web' : 'kb'
+    }
+    citations.push({ kind, index: parseInt(match[2], 10) })
+  }
+
+  return citations
+}
+
+/**
+ * Registro delle note: assegna i numeri nell'ordine di prima citazione
+ */
+function createFootnoteRegistry(documents: ReadonlyMap<string, CitedDocumentInfo>) {
+  const footnotes: TranscriptFootnote[] = []
+  const numbersByKey = new Map<string, number>()
+
+  const register = (source: SourceDetail, kind: 'kb' | 'web'): number => {
+    const key = kind === 'web'
+      ? `web:${source.url || source.title || source.filename}`
+      : `kb:${source.documentId || source.filename}:${source.location || ''}:${collapseWhitespace(source.content || '').substring(0, 80)}`
+
+    const existing = numbersByKey.get(key)
+    if (existing) {
+      return existing
+    }
+
+    const number = footnotes.length + 1
+    numbersByKey.set(key, number)
+
+    if (kind === 'web') {
+      footnotes.push({
+        number,
+        kind,
+        label: source.title || source.filename || source.url || 'Fonte web',
+        url: source.url,
+        excerpt: excerptOf(source.content),
+      })
+    } else {
+      const document = source.documentId ? documents.get(source.documentId) : undefined
+      const restricted = document?.restricted ?? false
+      footnotes.push({
+        number,
+        kind,
+        label: source.filename,
+        folder: restricted ? undefined : document?.folder ?? null,
+        location: source.location,
+        versionLabel: source.versionLabel,
+        // Il contenuto di una cartella non più accessibile non finisce nell'export
+        excerpt: restricted ? undefined : excerptOf(source.content),
+        restricted,
+      })
+    }
+
+    return number
+  }
+
+  return { footnotes, register }
+}
+
+/**
+ * Sostituisce i gruppi di citazioni con riferimenti alle note
+ * Le citazioni senza fonte corrispondente vengono rimosse
+ */
+function resolveCitations(
+  text: string,
+  sources: ReadonlyArray<SourceDetail>,
+  register: (source: SourceDetail, kind: 'kb' | 'web') => number
+): InlineSegment[] {
+  const segments: InlineSegment[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(CITATION_GROUP_PATTERN)) {
+    const start = match.index ?? 0
+    if (start > lastIndex) {
+      segments.push(text.substring(lastIndex, start))
+    }
+    lastIndex = start + match[0].length
+
+    const numbers = new Set<number>()
+    parseCitationGroup(match[1]).forEach(({ kind, index }) => {
+      const source = sources.find((s) => s.index === index && (kind === 'web' ? s.type === 'web' : s.type !== 'web'))
+      if (source) {
+        numbers.add(register(source, kind))
+      }
+    })
+    Array.from(numbers).sort((a, b) => a - b).forEach((footnote) => segments.push({ footnote }))
+  }
+
+  if (lastIndex < text.length) {
+    segments.push(text.substring(lastIndex))
+  }
+
+  return segments
+}
+
+/**
+ * Rimuove la formattazione inline del markdown (grassetto, corsivo, codice, link)
+ */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^*\w])[*_]([^*_\n]+)[*_](?=[^*\w]|$)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+}
+
+function mergeTextSegments(segments: InlineSegment[]): InlineSegment[] {
+  return segments.reduce<InlineSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1]
+    if (typeof segment === 'string' && typeof last === 'string') {
+      merged[merged.length - 1] = last + segment
+    } else if (segment !== '') {
+      merged.push(segment)
+    }
+    return merged
+  }, [])
+}
+
+/**
+ * Converte il markdown di un messaggio in blocchi di testo semplice
+ * (titoli, paragrafi, elenchi; le tabelle diventano righe con celle separate da " | ")
+ */
+function toBlocks(
+  content: string,
+  sources: ReadonlyArray<SourceDetail>,
+  register: (source: SourceDetail, kind: 'kb' | 'web') => number
+): TranscriptBlock[] {
+  const blocks: TranscriptBlock[] = []
+  let paragraph: string[] = []
+
+  const push = (style: TranscriptBlock['style'], text: string) => {
+    // Il markdown inline va rimosso prima: un grassetto può contenere una citazione
+    const segments = mergeTextSegments(resolveCitations(stripInlineMarkdown(text), sources, register))
+    if (segments.some((s) => typeof s !== 'string' || s.trim().length > 0)) {
+      blocks.push({ style, segments })
+    }
+  }
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      push('paragraph', paragraph.join(' '))
+      paragraph = []
+    }
+  }
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+
+    if (line.length === 0 || /^```/.test(line) || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flushParagraph()
+      continue
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/)
+    if (heading) {
+      flushParagraph()
+      push('heading', heading[1])
+      continue
+    }
+
+    const bullet = line.match(/^(?:[-*+]|(\d+)[.)])\s+(.*)$/)
+    if (bullet) {
+      flushParagraph()
+      push('bullet', bullet[1] ? `${bullet[1]}. ${bullet[2]}` : bullet[2])
+      continue
+    }
+
+    if (line.startsWith('|')) {
+      flushParagraph()
+      if (/^\|[\s:|-]+\|?$/.test(line)) {
+        continue // Riga separatrice dell'intestazione
+      }
+      push('paragraph', line.replace(/^\||\|$/g, '').split('|').map((cell) => cell.trim()).join(' | '))
+      continue
+    }
+
+    paragraph.push(line.replace(/^>\s?/, ''))
+  }
+  flushParagraph()
+
+  return blocks
+}
+
+/**
+ * Costruisce la trascrizione esportabile di una conversazione
+ */
+export function buildConversationTranscript(
+  messages: ReadonlyArray<Message>,
+  options: TranscriptOptions
+): ConversationTranscript {
+  const { footnotes, register } = createFootnoteRegistry(options.documents ?? new Map())
+
+  const transcriptMessages = messages
+    .filter((message) => message.content.trim().length > 0)
+    .map<TranscriptMessage>((message) => {
+      const sources: SourceDetail[] = message.sources ?? []
+      const markdown = resolveCitations(message.content, sources, register)
+        .map((segment) => (typeof segment === 'string' ? segment : `[^${segment.footnote}]`))
+        .join('')
+      return {
+        role: message.role,
+        markdown,
+        blocks: toBlocks(message.content, sources, register),
+      }
+    })
+
+  return {
+    title: options.title?.trim() || 'Conversazione senza titolo',
+    folderScope: options.folderScope ?? null,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+    messages: transcriptMessages,
+    footnotes,
+  }
+}
+
+export function roleLabel(role: TranscriptMessage['role']): string {
+  return role === 'user' ? 'Utente' : 'Assistente'
+}
+
+/**
+ * Descrizione di una nota in testo semplice (usata da Markdown, PDF e DOCX)
+ */
+export function describeFootnote(footnote: TranscriptFootnote): string {
+  if (footnote.kind === 'web') {
+    const parts = [footnote.label]
+    if (footnote.url && footnote.url !== footnote.label) {
+      parts.push(footnote.url)
+    }
+    if (footnote.excerpt) {
+      parts.push(`"${footnote.excerpt}"`)
+    }
+    return parts.join(' - ')
+  }
+
+  if (footnote.restricted) {
+    return `${footnote.label} (documento in una cartella riservata, estratto non incluso)`
+  }
+
+  const parts = [footnote.label]
+  parts.push(footnote.folder ? `cartella ${footnote.folder}` : 'senza cartella')
+  if (footnote.location) {
+    parts.push(footnote.location)
+  }
+  if (footnote.versionLabel) {
+    parts.push(footnote.versionLabel)
+  }
+  const description = parts.join(', ')
+  return footnote.excerpt ? `${description} - "${footnote.excerpt}"` : description
+}
+
+function formatExportDate(iso: string): string {
+  return new Date(iso).toLocaleString('it-IT', { dateStyle: 'long', timeStyle: 'short' })
+}
+
+/**
+ * Intestazione comune: data di esportazione e cartella della conversazione
+ */
+export function describeTranscript(transcript: ConversationTranscript): string {
+  const parts = [`Esportata il ${formatExportDate(transcript.exportedAt)}`]
+  if (transcript.folderScope) {
+    parts.push(`cartella ${transcript.folderScope}`)
+  }
+  return parts.join(' - ')
+}
+
+/**
+ * Trascrizione in Markdown con note a piè di pagina GFM ([^N])
+ */
+export function renderTranscriptMarkdown(transcript: ConversationTranscript): string {
+  const lines: string[] = [`# ${transcript.title}`, '', `_${describeTranscript(transcript)}_`, '']
+
+  transcript.messages.forEach((message) => {
+    lines.push(`## ${roleLabel(message.role)}`, '', message.markdown.trim(), '')
+  })
+
+  if (transcript.footnotes.length > 0) {
+    lines.push('---', '')
+    transcript.footnotes.forEach((footnote) => {
+      lines.push(`[^${footnote.number}]: ${describeFootnote(footnote)}`)
+    })
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Nome file per il download (senza caratteri non sicuri)
+ */
+export function transcriptFilename(title: string, extension: string): string {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60)
+  return `${slug || 'conversazione'}.${extension}`
+}
@@ -0,0 +1,138 @@
+/**
+ * DOCX Writer
+ *
+ * Genera un documento Word (Office Open XML) con jszip: le citazioni diventano
+ * note a piè di pagina native di Word (word/footnotes.xml)
+ */
+
+import {
+  describeFootnote,
+  describeTranscript,
+  roleLabel,
+  type ConversationTranscript,
+  type InlineSegment,
+} from './conversation-transcript'
+
+const WORD_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>
+</Types>`
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes" Target="footnotes.xml"/>
+</Relationships>`
+
+interface RunStyle {
+  bold?: boolean
+  size?: number // Punti
+  color?: string // Esadecimale senza #
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Caratteri di controllo non ammessi in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function runProperties(style: RunStyle): string {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${Math.round(style.size * 2)}"/>` : '',
+  ].join('')
+  return props ? `<w:rPr>${props}</w:rPr>` : ''
+}
+
+function textRun(text: string, style: RunStyle = {}): string {
+  return `<w:r>${runProperties(style)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`
+}
+
+function footnoteReferenceRun(footnote: number): string {
+  return `<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteReference w:id="${footnote}"/></w:r>`
+}
+
+function paragraph(runs: string, options: { spacingBefore?: number; indent?: number } = {}): string {
+  const props = [
+    options.spacingBefore !== undefined ? `<w:spacing w:before="${options.spacingBefore * 20}" w:after="80"/>` : '',
+    options.indent ? `<w:ind w:left="${options.indent * 20}" w:hanging="180"/>` : '',
+  ].join('')
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`
+}
+
+function segmentRuns(segments: InlineSegment[], style: RunStyle = {}): string {
+  return segments
+    .map((segment) => (typeof segment === 'string' ? textRun(segment, style) : footnoteReferenceRun(segment.footnote)))
+    .join('')
+}
+
+function buildDocumentXml(transcript: ConversationTranscript): string {
+  const body: string[] = [
+    paragraph(textRun(transcript.title, { bold: true, size: 18 })),
+    paragraph(textRun(describeTranscript(transcript), { size: 9, color: '666666' })),
+  ]
+
+  transcript.messages.forEach((message) => {
+    body.push(paragraph(textRun(roleLabel(message.role), { bold: true, size: 12 }), { spacingBefore: 14 }))
+    message.blocks.forEach((block) => {
+      if (block.style === 'heading') {
+        body.push(paragraph(segmentRuns(block.segments, { bold: true }), { spacingBefore: 6 }))
+      } else if (block.style === 'bullet') {
+        body.push(paragraph(textRun('• ') + segmentRuns(block.segments), { indent: 18 }))
+      } else {
+        body.push(paragraph(segmentRuns(block.segments)))
+      }
+    })
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${WORD_NAMESPACE}><w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`
+}
+
+function buildFootnotesXml(transcript: ConversationTranscript): string {
+  // Le note -1 e 0 sono i separatori richiesti da Word
+  const separators =
+    '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>' +
+    '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>'
+
+  const notes = transcript.footnotes.map((footnote) =>
+    `<w:footnote w:id="${footnote.number}"><w:p>` +
+    `<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteRef/></w:r>` +
+    textRun(` ${describeFootnote(footnote)}`, { size: 9 }) +
+    '</w:p></w:footnote>'
+  )
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:footnotes ${WORD_NAMESPACE}>${separators}${notes.join('')}</w:footnotes>`
+}
+
+/**
+ * Genera il file DOCX della trascrizione
+ */
+export async function renderTranscriptDocx(transcript: ConversationTranscript): Promise<Buffer> {
+  const JSZip = (await import('jszip')).default
+  const zip = new JSZip()
+
+  zip.file('[Content_Types].xml', CONTENT_TYPES)
+  zip.file('_rels/.rels', ROOT_RELS)
+  zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS)
+  zip.file('word/document.xml', buildDocumentXml(transcript))
+  zip.file('word/footnotes.xml', buildFootnotesXml(transcript))
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
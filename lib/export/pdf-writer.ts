@@ -0,0 +1,236 @@
+/**
+ * PDF Writer
+ *
+ * Genera un PDF di solo testo (A4, Helvetica) senza dipendenze esterne:
+ * sufficiente per le trascrizioni delle conversazioni. Le lettere accentate sono
+ * supportate; i caratteri fuori da WinAnsiEncoding (es. emoji) diventano "?"
+ */
+
+import {
+  describeFootnote,
+  describeTranscript,
+  roleLabel,
+  type ConversationTranscript,
+  type InlineSegment,
+} from './conversation-transcript'
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+interface TextStyle {
+  size: number
+  bold?: boolean
+  indent?: number
+  spaceBefore?: number
+  color?: 'text' | 'muted'
+}
+
+interface PdfLine {
+  text: string
+  style: TextStyle
+}
+
+const STYLES = {
+  title: { size: 18, bold: true, spaceBefore: 0 },
+  meta: { size: 9, color: 'muted', spaceBefore: 4 },
+  role: { size: 11, bold: true, spaceBefore: 16 },
+  heading: { size: 11, bold: true, spaceBefore: 8 },
+  paragraph: { size: 10, spaceBefore: 6 },
+  bullet: { size: 10, indent: 14, spaceBefore: 3 },
+  notesHeading: { size: 12, bold: true, spaceBefore: 20 },
+  footnote: { size: 8.5, spaceBefore: 4, color: 'muted' },
+} satisfies Record<string, TextStyle>
+
+// Caratteri WinAnsi fuori da Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+}
+
+/**
+ * Larghezza approssimata di un carattere Helvetica, in unità di font size
+ */
+function charWidth(char: string, bold: boolean): number {
+  let width = 0.556
+  if (/[ijl.,:;'|!]/.test(char)) width = 0.278
+  else if (/[ftrI\-() [\]]/.test(char)) width = 0.333
+  else if (/[mwMW@]/.test(char)) width = 0.833
+  else if (/[A-Z]/.test(char)) width = 0.667
+  else if (/[a-z0-9]/.test(char)) width = 0.556
+  return bold ? width * 1.05 : width
+}
+
+function textWidth(text: string, style: TextStyle): number {
+  let width = 0
+  for (const char of text) {
+    width += charWidth(char, style.bold ?? false)
+  }
+  return width * style.size
+}
+
+/**
+ * Spezza il testo in righe che stanno nella larghezza disponibile
+ */
+function wrapText(text: string, style: TextStyle, maxWidth: number = CONTENT_WIDTH): string[] {
+  const available = maxWidth - (style.indent ?? 0)
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of text.split(/\s+/).filter((w) => w.length > 0)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (textWidth(candidate, style) <= available) {
+      current = candidate
+      continue
+    }
+    if (current) {
+      lines.push(current)
+    }
+    // Parole più lunghe della riga (es. URL): spezzate a caratteri
+    current = ''
+    for (const char of word) {
+      if (textWidth(current + char, style) > available && current) {
+        lines.push(current)
+        current = ''
+      }
+      current += char
+    }
+  }
+
+  if (current) {
+    lines.push(current)
+  }
+  return lines
+}
+
+function encodePdfString(text: string): string {
+  let encoded = ''
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0x3f
+    let byte: number
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      byte = WIN_ANSI_EXTRAS[char]
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      byte = code
+    } else {
+      byte = 0x3f // "?"
+    }
+    const c = String.fromCharCode(byte)
+    encoded += c === '(' || c === ')' || c === '\\' ? `\\${c}` : c
+  }
+  return encoded
+}
+
+function segmentsToText(segments: InlineSegment[]): string {
+  return segments.map((s) => (typeof s === 'string' ? s : `[${s.footnote}]`)).join('')
+}
+
+function layoutTranscript(transcript: ConversationTranscript): PdfLine[] {
+  const lines: PdfLine[] = []
+  const add = (text: string, style: TextStyle, prefix: string = '') => {
+    wrapText(text, style).forEach((line, idx) => {
+      lines.push({
+        text: idx === 0 ? `${prefix}${line}` : line,
+        style: idx === 0 ? style : { ...style, spaceBefore: 0 },
+      })
+    })
+  }
+
+  add(transcript.title, STYLES.title)
+  add(describeTranscript(transcript), STYLES.meta)
+
+  transcript.messages.forEach((message) => {
+    add(roleLabel(message.role), STYLES.role)
+    message.blocks.forEach((block) => {
+      const text = segmentsToText(block.segments)
+      if (block.style === 'bullet') {
+        add(text, STYLES.bullet, '• ')
+      } else {
+        add(text, block.style === 'heading' ? STYLES.heading : STYLES.paragraph)
+      }
+    })
+  })
+
+  if (transcript.footnotes.length > 0) {
+    add('Note', STYLES.notesHeading)
+    transcript.footnotes.forEach((footnote) => {
+      add(`[${footnote.number}] ${describeFootnote(footnote)}`, STYLES.footnote)
+    })
+  }
+
+  return lines
+}
+
+/**
+ * Distribuisce le righe sulle pagine e produce i content stream
+ */
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[] = []
+  let commands: string[] = []
+  let y = PAGE_HEIGHT - MARGIN
+
+  const flushPage = () => {
+    pages.push(commands.join('\n'))
+    commands = []
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  lines.forEach((line) => {
+    const lineHeight = line.style.size * 1.35
+    const advance = (commands.length > 0 ? line.style.spaceBefore ?? 0 : 0) + lineHeight
+    if (y - advance < MARGIN && commands.length > 0) {
+      flushPage()
+    }
+    y -= commands.length > 0 ? advance : lineHeight
+
+    const font = line.style.bold ? '/F2' : '/F1'
+    const gray = line.style.color === 'muted' ? '0.4 g' : '0 g'
+    const x = MARGIN + (line.style.indent ?? 0)
+    commands.push(`BT ${gray} ${font} ${line.style.size} Tf ${x} ${y.toFixed(2)} Td (${encodePdfString(line.text)}) Tj ET`)
+  })
+
+  if (commands.length > 0 || pages.length === 0) {
+    flushPage()
+  }
+  return pages
+}
+
+/**
+ * Genera il PDF della trascrizione
+ */
+export function renderTranscriptPdf(transcript: ConversationTranscript): Buffer {
+  const pageStreams = paginate(layoutTranscript(transcript))
+
+  // Oggetti: 1 catalog, 2 pages, 3-4 font, poi per ogni pagina (page, content)
+  const objects: string[] = []
+  const pageIds = pageStreams.map((_, idx) => 5 + idx * 2)
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+  pageStreams.forEach((stream, idx) => {
+    const pageId = pageIds[idx]
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+  })
+
+  let output = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1')
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1')
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(output, 'latin1')
+}
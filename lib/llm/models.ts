@@ -26,3 +26,44 @@ export function normalizeModelId(model?: string | null): string {
   return `openrouter/${trimmed}`
 }
 
+
+export interface SelectableModel {
+  id: string
+  label: string
+}
+
+/**
+ * OpenRouter models offered by "regenerate with…". Only these identifiers are accepted
+ * by the regeneration API, so arbitrary (and possibly expensive) models cannot be requested.
+ */
+export const REGENERATION_MODELS: ReadonlyArray<SelectableModel> = [
+  { id: DEFAULT_FLASH_MODEL, label: 'Gemini 2.5 Flash' },
+  { id: DEFAULT_PRO_MODEL, label: 'Gemini 2.5 Pro' },
+  { id: 'openrouter/openai/gpt-4.1', label: 'GPT-4.1' },
+  { id: 'openrouter/anthropic/claude-sonnet-4', label: 'Claude Sonnet 4' },
+]
+
+/**
+ * Checks whether a model can be used to regenerate an answer.
+ *
+ * @param model - Model identifier, with or without the OpenRouter prefix.
+ * @returns True when the normalized identifier is in REGENERATION_MODELS.
+ */
+export function isRegenerationModel(model: unknown): model is string {
+  return (
+    typeof model === 'string' &&
+    model.trim().length > 0 &&
+    REGENERATION_MODELS.some((option) => option.id === normalizeModelId(model))
+  )
+}
+
+/**
+ * Human readable label for a model identifier (falls back to the identifier without prefix).
+ */
+export function getModelLabel(model?: string | null): string {
+  if (!model) {
+    return 'Modello sconosciuto'
+  }
+  const normalized = normalizeModelId(model)
+  return REGENERATION_MODELS.find((option) => option.id === normalized)?.label ?? normalized.replace(/^openrouter\//, '')
+}
@@ -6,12 +6,13 @@
  * 
  * NOW USES LANGFUSE PROMPT MANAGEMENT:
  * - Prompts are fetched from Langfuse with versioning
- * - Fallback to hard-coded prompts if Langfuse is unavailable
+ * - Fallback to the local prompt registry (prompts/) if Langfuse is unavailable
  * - Dynamic sections are compiled as variables
  */
 
-import { DEFAULT_FLASH_MODEL, DEFAULT_PRO_MODEL } from '@/lib/llm/models'
 import { PROMPTS, compilePromptWithConfig } from '@/lib/observability/prompt-manager'
+import { compileLocalPrompt } from '@/lib/observability/prompt-registry'
+import type { PromptTarget, PromptVariantAssignment } from '@/lib/observability/prompt-experiments'
 
 export interface SystemPromptOptions {
   /** Se ci sono documenti rilevanti nella knowledge base */
@@ -34,11 +35,37 @@ export interface SystemPromptOptions {
   avgSimilarity?: number
   /** Se è una meta query (chiede info sul database) */
   isMetaQuery?: boolean
+  /** Versioni confrontate per le domande "cosa è cambiato" */
+  versionComparison?: VersionComparisonInfo
+  /** Chiave stabile per gli esperimenti sui prompt (conversazione, utente o trace) */
+  promptAssignmentKey?: string
+  /** Label o versione forzata per un prompt (playground): ha la precedenza sugli esperimenti */
+  promptOverride?: SystemPromptOverride
+}
+
+export interface SystemPromptOverride {
+  name: string
+  target: PromptTarget
+}
+
+export interface VersionComparisonInfo {
+  filename: string
+  baseVersion: number
+  targetVersion: number
 }
 
 export interface SystemPromptResult {
   text: string
   config: Record<string, unknown> | null
+  /** Prompt usato, con versione Langfuse e variante dell'esperimento */
+  prompt: SystemPromptUsage
+}
+
+export interface SystemPromptUsage {
+  name: string
+  version: number | null // null = registry locale (prompts/)
+  variant: PromptVariantAssignment | null // Variante dell'esperimento assegnata
+  overridden: boolean // true = label/versione forzata da promptOverride
 }
 
 /**
@@ -46,6 +73,7 @@ export interface SystemPromptResult {
  * 
  * Gestisce tutti i casi d'uso:
  * - Query comparative con documenti
+ * - Modifiche tra versioni di un documento
  * - Query normali con documenti
  * - Query con articolo specifico
  * - Nessun documento + web search abilitato
@@ -55,144 +83,134 @@ export interface SystemPromptResult {
  * @returns System prompt formattato
  */
 export async function buildSystemPrompt(options: SystemPromptOptions): Promise<SystemPromptResult> {
+  const name = selectSystemPromptName(options)
+  const variables = buildPromptVariables(options)
+  const override = options.promptOverride?.name === name ? options.promptOverride.target : undefined
+
+  try {
+    // Label/versione forzata (playground) oppure variante dell'esperimento assegnata alla richiesta
+    const compiled = await compilePromptWithConfig(name, variables, {
+      ...(override ?? { assignmentKey: options.promptAssignmentKey }),
+    })
+
+    return {
+      text: compiled.text,
+      config: compiled.config,
+      prompt: {
+        name,
+        version: compiled.version,
+        variant: compiled.variant,
+        overridden: Boolean(override),
+      },
+    }
+  } catch (error) {
+    console.error('[system-prompt] Error building prompt from Langfuse:', error)
+
+    // Ultimate fallback: registry locale
+    return buildLocalPrompt(name, variables)
+  }
+}
+
+/**
+ * Synchronous version for backward compatibility
+ * NOTE: This uses the local prompt registry since Langfuse fetching is async
+ * 
+ * @deprecated Use async buildSystemPrompt instead
+ */
+export function buildSystemPromptSync(options: SystemPromptOptions): string {
+  console.warn('[system-prompt] Using sync version - Langfuse prompts will not be used')
+  return buildLocalPrompt(selectSystemPromptName(options), buildPromptVariables(options)).text
+}
+
+/**
+ * Sceglie il system prompt in base ai parametri (meta, confronto, versioni, contesto, web)
+ */
+function selectSystemPromptName(options: SystemPromptOptions): string {
   const {
     hasContext,
     context,
-    documentCount = 0,
-    uniqueDocumentNames = [],
     comparativeTerms,
-    articleNumber,
     webSearchEnabled = false,
     sourcesInsufficient = false,
-    avgSimilarity = 0,
     isMetaQuery = false,
+    versionComparison,
   } = options
 
-  // Build dynamic sections that are injected into prompts
-  const webSearchInstruction = buildWebSearchInstruction(
-    webSearchEnabled,
-    sourcesInsufficient,
-    avgSimilarity
-  )
-  const metaQuerySection = buildMetaQuerySection()
-  const citationsSection = buildCitationsSection(documentCount)
-  const articleContext = articleNumber
-    ? `\n\nL'utente ha chiesto informazioni sull'ARTICOLO ${articleNumber}. Il contesto seguente contiene questo articolo specifico. Rispondi con il contenuto dell'articolo ${articleNumber}.`
-    : ''
-
-  // Variables for prompt compilation
-  const variables = {
-    context: context || '',
-    documentCount,
-    webSearchInstruction,
-    metaQuerySection,
-    citationsSection,
-    articleContext,
-    comparativeTerms: comparativeTerms?.join(' e ') || '',
-    uniqueDocuments: uniqueDocumentNames.join(', ') || 'vari documenti',
-    avgSimilarity: avgSimilarity.toFixed(2),
+  // Case 0: Meta query
+  if (isMetaQuery) {
+    return PROMPTS.SYSTEM_META_QUERY
   }
 
-  try {
-    // Case 0: Meta query
-    if (isMetaQuery) {
-      const fallbackText = buildFallbackMetaPrompt(metaQuerySection)
-      const fallbackConfig = { model: DEFAULT_FLASH_MODEL }
-      const compiled = await compilePromptWithConfig(PROMPTS.SYSTEM_META_QUERY, variables, {
-        fallback: fallbackText,
-        fallbackConfig,
-      })
-      return {
-        text: compiled.text,
-        config: compiled.config ?? fallbackConfig,
-      }
+  // Case 1: Has context
+  if (hasContext && context) {
+    // Case 1a: Comparative query
+    if (comparativeTerms && comparativeTerms.length > 0) {
+      return PROMPTS.SYSTEM_RAG_COMPARATIVE
     }
 
-    // Case 1: Has context
-    if (hasContext && context) {
-      // Case 1a: Comparative query
-      if (comparativeTerms && comparativeTerms.length > 0) {
-        const fallbackText = buildFallbackComparativePrompt(
-          comparativeTerms,
-          uniqueDocumentNames,
-          context,
-          metaQuerySection,
-          webSearchInstruction,
-          citationsSection
-        )
-        const fallbackConfig = { model: DEFAULT_PRO_MODEL }
-        const compiled = await compilePromptWithConfig(PROMPTS.SYSTEM_RAG_COMPARATIVE, variables, {
-          fallback: fallbackText,
-          fallbackConfig,
-        })
-        return {
-          text: compiled.text,
-          config: compiled.config ?? fallbackConfig,
-        }
-      }
-
-      // Case 1b: Normal query with context
-      const fallbackText = buildFallbackWithContextPrompt(
-        context,
-        articleContext,
-        metaQuerySection,
-        webSearchInstruction,
-        citationsSection
-      )
-      const fallbackConfig = { model: DEFAULT_FLASH_MODEL }
-      const compiled = await compilePromptWithConfig(PROMPTS.SYSTEM_RAG_WITH_CONTEXT, variables, {
-        fallback: fallbackText,
-        fallbackConfig,
-      })
-      return {
-        text: compiled.text,
-        config: compiled.config ?? fallbackConfig,
-      }
+    // Case 1b: Changes between versions of the same document
+    if (versionComparison) {
+      return PROMPTS.SYSTEM_RAG_VERSION_CHANGES
     }
 
-    // Case 2: No context
-    if (webSearchEnabled && sourcesInsufficient) {
-      // Case 2a: No context + web search enabled
-      const fallbackText = buildFallbackNoContextWebPrompt(metaQuerySection)
-      const fallbackConfig = { model: DEFAULT_FLASH_MODEL }
-      const compiled = await compilePromptWithConfig(PROMPTS.SYSTEM_RAG_NO_CONTEXT_WEB, variables, {
-        fallback: fallbackText,
-        fallbackConfig,
-      })
-      return {
-        text: compiled.text,
-        config: compiled.config ?? fallbackConfig,
-      }
-    }
+    // Case 1c: Normal query with context
+    return PROMPTS.SYSTEM_RAG_WITH_CONTEXT
+  }
 
-    // Case 2b: No context + no web search
-    const fallbackText = buildFallbackNoContextPrompt(metaQuerySection)
-    const fallbackConfig = { model: DEFAULT_FLASH_MODEL }
-    const compiled = await compilePromptWithConfig(PROMPTS.SYSTEM_RAG_NO_CONTEXT, variables, {
-      fallback: fallbackText,
-      fallbackConfig,
-    })
-    return {
-      text: compiled.text,
-      config: compiled.config ?? fallbackConfig,
-    }
-  } catch (error) {
-    console.error('[system-prompt] Error building prompt from Langfuse:', error)
-    
-    // Ultimate fallback: use hard-coded prompts
-    return buildFallbackPrompt(options)
+  // Case 2a: No context + web search enabled
+  if (webSearchEnabled && sourcesInsufficient) {
+    return PROMPTS.SYSTEM_RAG_NO_CONTEXT_WEB
   }
+
+  // Case 2b: No context + no web search
+  return PROMPTS.SYSTEM_RAG_NO_CONTEXT
 }
 
 /**
- * Synchronous version for backward compatibility
- * NOTE: This will use fallback prompts since Langfuse fetching is async
- * 
- * @deprecated Use async buildSystemPrompt instead
+ * Variabili comuni a tutti i system prompt (sezioni dinamiche e dati della query)
  */
-export function buildSystemPromptSync(options: SystemPromptOptions): string {
-  console.warn('[system-prompt] Using sync version - Langfuse prompts will not be used')
-  return buildFallbackPrompt(options).text
+function buildPromptVariables(options: SystemPromptOptions): Record<string, string | number> {
+  const {
+    context,
+    documentCount = 0,
+    uniqueDocumentNames = [],
+    comparativeTerms,
+    articleNumber,
+    webSearchEnabled = false,
+    sourcesInsufficient = false,
+    avgSimilarity = 0,
+    versionComparison,
+  } = options
+
+  return {
+    context: context || '',
+    documentCount,
+    webSearchInstruction: buildWebSearchInstruction(webSearchEnabled, sourcesInsufficient, avgSimilarity),
+    metaQuerySection: buildMetaQuerySection(),
+    citationsSection: buildCitationsSection(documentCount),
+    articleContext: articleNumber
+      ? `\n\nL'utente ha chiesto informazioni sull'ARTICOLO ${articleNumber}. Il contesto seguente contiene questo articolo specifico. Rispondi con il contenuto dell'articolo ${articleNumber}.`
+      : '',
+    comparativeTerms: comparativeTerms?.join(' e ') || '',
+    uniqueDocuments: uniqueDocumentNames.join(', ') || 'vari documenti',
+    avgSimilarity: avgSimilarity.toFixed(2),
+    versionDocument: versionComparison?.filename || '',
+    baseVersion: versionComparison?.baseVersion ?? '',
+    targetVersion: versionComparison?.targetVersion ?? '',
+  }
+}
+
+function buildLocalPrompt(name: string, variables: Record<string, string | number>): SystemPromptResult {
+  const local = compileLocalPrompt(name, variables)
+  if (!local) {
+    throw new Error(`System prompt missing from local registry: ${name}`)
+  }
+
+  return {
+    text: local.text,
+    config: local.config,
+    prompt: { name, version: null, variant: null, overridden: false },
+  }
 }
 
 // ============================================================================
@@ -269,192 +287,3 @@ IMPORTANTE:
 - Se citi informazioni, usa SEMPRE il numero corretto del documento dal contesto
 - VERIFICA SEMPRE che il nome del file corrisponda al contenuto che stai citando`
 }
-
-// ============================================================================
-// Fallback Prompt Builders (used when Langfuse is unavailable)
-// ============================================================================
-
-function buildFallbackPrompt(options: SystemPromptOptions): SystemPromptResult {
-  const {
-    hasContext,
-    context,
-    documentCount = 0,
-    uniqueDocumentNames = [],
-    comparativeTerms,
-    articleNumber,
-    webSearchEnabled = false,
-    sourcesInsufficient = false,
-    avgSimilarity = 0,
-    isMetaQuery = false,
-  } = options
-
-  const webSearchInstruction = buildWebSearchInstruction(
-    webSearchEnabled,
-    sourcesInsufficient,
-    avgSimilarity
-  )
-  const metaQuerySection = buildMetaQuerySection()
-  const citationsSection = buildCitationsSection(documentCount)
-
-  if (isMetaQuery) {
-    return {
-      text: buildFallbackMetaPrompt(metaQuerySection),
-      config: { model: DEFAULT_FLASH_MODEL },
-    }
-  }
-
-  if (hasContext && context) {
-    if (comparativeTerms && comparativeTerms.length > 0) {
-      return {
-        text: buildFallbackComparativePrompt(
-          comparativeTerms,
-          uniqueDocumentNames,
-          context,
-          metaQuerySection,
-          webSearchInstruction,
-          citationsSection
-        ),
-        config: { model: DEFAULT_PRO_MODEL },
-      }
-    }
-
-    const articleContext = articleNumber
-      ? `\n\nL'utente ha chiesto informazioni sull'ARTICOLO ${articleNumber}. Il contesto seguente contiene questo articolo specifico. Rispondi con il contenuto dell'articolo ${articleNumber}.`
-      : ''
-
-    return {
-      text: buildFallbackWithContextPrompt(
-        context,
-        articleContext,
-        metaQuerySection,
-        webSearchInstruction,
-        citationsSection
-      ),
-      config: { model: DEFAULT_FLASH_MODEL },
-    }
-  }
-
-  if (webSearchEnabled && sourcesInsufficient) {
-    return {
-      text: buildFallbackNoContextWebPrompt(metaQuerySection),
-      config: { model: DEFAULT_FLASH_MODEL },
-    }
-  }
-
-  return {
-    text: buildFallbackNoContextPrompt(metaQuerySection),
-    config: { model: DEFAULT_FLASH_MODEL },
-  }
-}
-
-function buildFallbackMetaPrompt(metaQuerySection: string): string {
-  return `Sei un assistente per un team di consulenza. L'utente ha fatto una query META sul database (chiede informazioni sul database stesso, non sul contenuto dei documenti).
-
-${metaQuerySection}
-
-ISTRUZIONI IMPORTANTI:
-- DEVI usare il tool meta_query per ottenere i documenti dal database
-- Il tool meta_query ti restituirà una lista di documenti con indici numerati
-- Quando restituisci la risposta, DEVI includere TUTTI i documenti rilevanti, non solo alcuni
-- Per ogni documento nella lista, includi SEMPRE [cit:N] dove N è l'indice del documento (1, 2, 3, ecc.)
-- NON filtrare o selezionare solo alcuni documenti - elenca TUTTI quelli rilevanti per la query
-- Se la query chiede "che standard GRI ci sono", elenca TUTTI gli standard GRI presenti nel database
-- Se la query chiede "che codici fornitori ci sono", elenca TUTTI i codici fornitori presenti nel database
-- Formatta la risposta in modo chiaro e leggibile con una lista puntata
-
-Esempio formato corretto:
-* Documento 1.pdf [cit:1]
-* Documento 2.pdf [cit:2]
-* Documento 3.pdf [cit:3]
-...
-
-Usa il tool meta_query ora per ottenere i documenti dal database.`
-}
-
-function buildFallbackComparativePrompt(
-  comparativeTerms: string[],
-  uniqueDocumentNames: string[],
-  context: string,
-  metaQuerySection: string,
-  webSearchInstruction: string,
-  citationsSection: string
-): string {
-  const uniqueDocuments =
-    uniqueDocumentNames.length > 0 ? uniqueDocumentNames.join(', ') : 'vari documenti'
-
-  return `Sei un assistente per un team di consulenza. L'utente ha chiesto un confronto tra: ${comparativeTerms.join(' e ')}. 
-
-Ho trovato informazioni nei seguenti documenti: ${uniqueDocuments}.
-
-Usa il seguente contesto dai documenti per rispondere.${metaQuerySection}${webSearchInstruction}${citationsSection}
-
-IMPORTANTE: 
-- Confronta esplicitamente i concetti trovati in entrambe le normative
-- Cita SOLO informazioni presenti nel contesto fornito
-- Se trovi concetti simili in documenti diversi, menzionalo esplicitamente
-- Riconosci che termini correlati possono riferirsi alla stessa cosa (es: CSRD e Corporate Sustainability Reporting Directive sono la stessa cosa)
-- Usa le informazioni dal contesto anche se i termini non corrispondono esattamente
-
-Contesto dai documenti:
-${context}`
-}
-
-function buildFallbackWithContextPrompt(
-  context: string,
-  articleContext: string,
-  metaQuerySection: string,
-  webSearchInstruction: string,
-  citationsSection: string
-): string {
-  return `Sei un assistente per un team di consulenza. Usa il seguente contesto dai documenti della knowledge base per rispondere.${articleContext}${metaQuerySection}${webSearchInstruction}${citationsSection}
-
-ISTRUZIONI IMPORTANTI:
-- DEVI usare il contesto fornito per rispondere alla domanda dell'utente
-- Cerca informazioni correlate anche se i termini nella query non corrispondono esattamente a quelli nel contesto
-- Riconosci che termini correlati possono riferirsi alla stessa cosa (es: CSRD e Corporate Sustainability Reporting Directive sono la stessa cosa; ESRS sono parte della CSRD)
-- Se il contesto contiene informazioni rilevanti anche con termini diversi, USA QUELLE INFORMAZIONI
-- NON dire che non hai informazioni se il contesto contiene informazioni rilevanti, anche con terminologia diversa
-- Se il contesto parla di ESRS e l'utente chiede della CSRD, spiega che ESRS sono parte della CSRD e usa le informazioni dal contesto
-- Se il contesto parla di una normativa e l'utente usa un nome diverso ma si riferisce alla stessa cosa, usa le informazioni dal contesto
-
-Contesto dai documenti:
-${context}`
-}
-
-function buildFallbackNoContextWebPrompt(metaQuerySection: string): string {
-  return `Sei un assistente per un team di consulenza. Non ci sono documenti rilevanti nella knowledge base per questa domanda.
-
-${metaQuerySection}
-
-IMPORTANTE - RICERCA WEB:
-- Le fonti nella knowledge base non sono sufficienti per rispondere completamente a questa domanda
-- DEVI usare il tool web_search per cercare informazioni aggiornate sul web
-- Dopo aver ottenuto i risultati della ricerca web, integra le informazioni nella tua risposta
-- Cita le fonti web SEMPRE con il formato [web:N] dove N è l'indice numerico del risultato (1, 2, 3, ecc.)
-- Esempi corretti: [web:1], [web:2], [web:1,2,3]
-- NON usare altri formati come [web_search_...], [web_...] o altri identificatori
-- NON usare citazioni [cit:N] perché non ci sono documenti rilevanti nella knowledge base
-- Usa [web:N] per citare le fonti web trovate
-
-Rispondi in modo completo combinando le tue conoscenze generali con le informazioni trovate sul web.`
-}
-
-function buildFallbackNoContextPrompt(metaQuerySection: string): string {
-  return `Sei un assistente per un team di consulenza. 
-
-${metaQuerySection}
-
-IMPORTANTE - SITUAZIONE ATTUALE:
-- Non ci sono documenti rilevanti nella knowledge base per questa domanda
-- La ricerca web non è abilitata
-
-ISTRUZIONI:
-- Se la query è meta (chiede info sul database), usa il tool meta_query
-- Se la query è sul contenuto dei documenti, NON rispondere usando conoscenze generali o informazioni non verificate
-- NON inventare informazioni o fare supposizioni
-- DEVI informare l'utente che non ci sono informazioni sufficienti nella knowledge base per rispondere a questa domanda
-- Suggerisci all'utente di abilitare la ricerca web se vuole informazioni aggiornate dal web
-- Sii onesto e trasparente: se non hai informazioni rilevanti, dillo chiaramente
-
-Rispondi in modo breve e diretto, informando l'utente che non ci sono informazioni sufficienti nella knowledge base.`
-}
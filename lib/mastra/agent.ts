@@ -2,12 +2,14 @@ import { Agent } from '@mastra/core/agent'
 import { DEFAULT_FLASH_MODEL, DEFAULT_PRO_MODEL, normalizeModelId } from '@/lib/llm/models'
 import { inferMetaQueryFolder } from '@/lib/embeddings/meta-folder-inference'
 import type { SearchResult } from '@/lib/supabase/database.types'
+import { ANONYMOUS_DOCUMENT_ACCESS, getDeniedFolders, isFolderReadable, type DocumentAccess } from '@/lib/supabase/folder-permissions'
 
 /**
  * Mastra Agent configuration per RAG
  * Versione 0.23.3
  * 
  * REFACTORED: Removed AsyncLocalStorage in favor of explicit return values from tools
+ * I risultati dei tools sono isolati per request tramite ToolExecutionContext
  */
 
 // Validazione OpenRouter API key
@@ -73,71 +75,83 @@ export interface MetaQueryToolResult {
   message?: string
 }
 
+export interface WebSearchResultItem {
+  index: number
+  title: string
+  url: string
+  content: string
+}
+
+export interface MetaQueryDocument {
+  id: string
+  filename: string
+  index: number
+  folder?: string | null
+  chunkCount?: number
+  chunkPreviews?: Array<{ chunkIndex: number; content: string }>
+  contentPreview?: string
+  summary?: string | null
+}
+
 /**
- * Module-level cache for tool results
- * Replaces AsyncLocalStorage with a simpler approach
- * Since JavaScript is single-threaded and agent calls are sequential,
- * this is safe for accumulating tool results during a single agent execution
+ * Retrieval scope applicato ai tools
+ * - folder: cartella a cui è ristretta la conversazione (null = tutto il corpus)
+ * - access: utente della request, per l'ACL delle cartelle (default: solo cartelle aperte)
  */
-interface ToolResultsCache {
-  webSearchResults: Array<{ index: number; title: string; url: string; content: string }>
-  metaQueryDocuments: Array<{
-    id: string
-    filename: string
-    index: number
-    folder?: string | null
-    chunkCount?: number
-    chunkPreviews?: Array<{ chunkIndex: number; content: string }>
-    contentPreview?: string
-    summary?: string | null
-  }>
-  metaQueryChunks: SearchResult[]
+export interface ToolScope {
+  folder: string | null
+  access: DocumentAccess
 }
 
-const toolResultsCache: ToolResultsCache = {
-  webSearchResults: [],
-  metaQueryDocuments: [],
-  metaQueryChunks: [],
+/**
+ * Contesto di esecuzione dei tools, uno per request
+ * I tools scrivono qui i propri risultati (web results, documenti meta) invece che
+ * in uno stato a livello modulo: request concorrenti sulla stessa istanza Node
+ * non possono leggere i risultati l'una dell'altra.
+ */
+export interface ToolExecutionContext {
+  readonly scope: ToolScope
+  webSearchResults: WebSearchResultItem[]
+  metaQueryDocuments: MetaQueryDocument[]
+  metaQueryChunks: SearchResult[]
 }
 
 /**
- * Clear all cached tool results
- * Call this before starting a new agent execution
+ * Crea un nuovo contesto di esecuzione dei tools per una request
+ *
+ * @param scope - Scope di retrieval per i tools (es. cartella della conversazione)
  */
-export function clearToolResults(): void {
-  toolResultsCache.webSearchResults = []
-  toolResultsCache.metaQueryDocuments = []
-  toolResultsCache.metaQueryChunks = []
+export function createToolExecutionContext(scope: Partial<ToolScope> = {}): ToolExecutionContext {
+  return {
+    scope: {
+      folder: scope.folder ?? null,
+      access: scope.access ?? ANONYMOUS_DOCUMENT_ACCESS,
+    },
+    webSearchResults: [],
+    metaQueryDocuments: [],
+    metaQueryChunks: [],
+  }
 }
 
 /**
- * Get cached web search results
+ * Get web search results collected in the given context
  */
-export function getWebSearchResults(): Array<{ index: number; title: string; url: string; content: string }> {
-  return [...toolResultsCache.webSearchResults]
+export function getWebSearchResults(context: ToolExecutionContext): WebSearchResultItem[] {
+  return [...context.webSearchResults]
 }
 
 /**
- * Get cached meta query documents
+ * Get meta query documents collected in the given context
  */
-export function getMetaQueryDocuments(): Array<{
-  id: string
-  filename: string
-  index: number
-  folder?: string | null
-  chunkCount?: number
-  chunkPreviews?: Array<{ chunkIndex: number; content: string }>
-  contentPreview?: string
-  summary?: string | null
-}> {
-  return [...toolResultsCache.metaQueryDocuments]
+export function getMetaQueryDocuments(context: ToolExecutionContext): MetaQueryDocument[] {
+  return [...context.metaQueryDocuments]
 }
 
 /**
- * Get cached meta query chunks
+ * Get meta query chunks collected in the given context
  */
-export function getMetaQueryChunks(): SearchResult[] {
-  return [...toolResultsCache.metaQueryChunks]
+export function getMetaQueryChunks(context: ToolExecutionContext): SearchResult[] {
+  return [...context.metaQueryChunks]
 }
 
 // REMOVED: vectorSearchTool and semanticCacheTool
@@ -146,7 +160,7 @@ export function getMetaQueryChunks(): SearchResult[] {
 // - Semantic cache is done in unified-query-cache.ts (used by query-analysis and query-enhancement)
 
 // Tool per ricerca web con Tavily
-async function webSearchTool({ query }: { query: string }) {
+async function webSearchTool(context: ToolExecutionContext, { query }: { query: string }) {
   if (!query || query.trim().length === 0) {
     throw new Error('Query cannot be empty')
   }
@@ -170,10 +184,10 @@ async function webSearchTool({ query }: { query: string }) {
       content: result.content || '',
     }))
     
-    // Salva i risultati nel cache a livello modulo
-    toolResultsCache.webSearchResults = formattedResults
+    // Salva i risultati nel contesto della request
+    context.webSearchResults = formattedResults
     
-    console.log('[mastra/agent] Web search results saved to cache:', {
+    console.log('[mastra/agent] Web search results saved to context:', {
       resultsCount: formattedResults.length,
       sampleIndex: formattedResults[0]?.index,
     })
@@ -255,7 +269,7 @@ function isThematicMetaQuery(query: string): boolean {
   return hasDomainTerms
 }
 
-async function metaQueryTool({ query }: { query: string }) {
+async function metaQueryTool(context: ToolExecutionContext, { query }: { query: string }) {
   console.log('[mastra/agent] metaQueryTool called with query:', query.substring(0, 100))
   
   if (!query || query.trim().length === 0) {
@@ -325,7 +339,7 @@ async function metaQueryTool({ query }: { query: string }) {
 
     if (metaType === 'stats' || queryLower.includes('quanti') || queryLower.includes('statistiche') || queryLower.includes('statistics')) {
       // Statistics query
-      const stats = await getDatabaseStats()
+      const stats = await getDatabaseStats(context.scope.access)
       toolOutput = {
         isMeta: true,
         metaType: 'stats',
@@ -334,13 +348,17 @@ async function metaQueryTool({ query }: { query: string }) {
     } else if ((metaType === 'folders' || queryLower.includes('cartelle') || queryLower.includes('folder')) && !toolOutput) {
       // Folders info query (list of folders, folder statistics)
       // Note: If user wants DOCUMENTS in folder, metaType is already changed to 'list' above
-      const folders = await listFoldersMeta()
+      const allFolders = await listFoldersMeta(context.scope.access)
+      // Conversazione con scope cartella: mostra solo la cartella dello scope
+      const folders = context.scope.folder
+        ? allFolders.filter((meta) => meta.name === context.scope.folder)
+        : allFolders
       
       // Check if asking about specific folder
       const folderMatch = query.match(/(?:cartella|folder)\s+["']?([^"']+)["']?/i)
       if (folderMatch) {
         const folderName = folderMatch[1]
-        const folderStats = await getFolderStats(folderName)
+        const folderStats = await getFolderStats(folderName, context.scope.access)
         toolOutput = {
           isMeta: true,
           metaType: 'folders',
@@ -362,7 +380,7 @@ async function metaQueryTool({ query }: { query: string }) {
     
     if ((metaType === 'structure' || queryLower.includes('tipo') || queryLower.includes('type') || queryLower.includes('formato') || queryLower.includes('format')) && !toolOutput) {
       // Document types query
-      const types = await getDocumentTypesMeta()
+      const types = await getDocumentTypesMeta(context.scope.access)
       toolOutput = {
         isMeta: true,
         metaType: 'structure',
@@ -389,12 +407,18 @@ async function metaQueryTool({ query }: { query: string }) {
         // Generate embedding for the query
         const queryEmbedding = await generateEmbedding(query)
         
-        // Perform vector search to find relevant chunks
+        // Perform vector search to find relevant chunks (restricted to the folder scope, if any)
         const searchResults = await hybridSearch(
           queryEmbedding,
           query,
+          50, // Get more results to extract unique documents
           0.30, // Lower threshold to get more results for listing
-          50 // Get more results to extract unique documents
+          0.7,
+          undefined,
+          undefined,
+          context.scope.folder || undefined,
+          false,
+          context.scope.access
         )
         
         console.log('[mastra/agent] Vector search found chunks:', searchResults.length)
@@ -417,8 +441,10 @@ async function metaQueryTool({ query }: { query: string }) {
           }
         } else {
           // Fetch metadata for these documents (include summary for preview)
+          // hybrid_search ha già applicato l'ACL: il filtro sulle cartelle negate è una seconda barriera
           const { supabaseAdmin } = await import('@/lib/supabase/admin')
-          const { data: documentsData, error: docsError } = await supabaseAdmin
+          const deniedFolders = await getDeniedFolders(context.scope.access)
+          const { data: allDocumentsData, error: docsError } = await supabaseAdmin
             .from('documents')
             .select('id, filename, file_type, folder, file_size, processing_status, chunks_count, summary, created_at, updated_at')
             .in('id', uniqueDocIds)
@@ -427,10 +453,11 @@ async function metaQueryTool({ query }: { query: string }) {
             console.error('[mastra/agent] Failed to fetch document metadata:', docsError)
             throw new Error(`Failed to fetch documents: ${docsError.message}`)
           }
+          const documentsData = (allDocumentsData || []).filter((doc) => isFolderReadable(doc.folder, deniedFolders))
           
           // Get chunks for these documents (for content preview fallback)
           const chunksPerDocument = 5
-          const documentChunks = await getChunksByDocumentIds(uniqueDocIds, chunksPerDocument)
+          const documentChunks = await getChunksByDocumentIds(uniqueDocIds, chunksPerDocument, context.scope.access)
           
           // Organize chunks by document
           const chunksByDocument = new Map<string, SearchResult[]>()
@@ -474,9 +501,9 @@ async function metaQueryTool({ query }: { query: string }) {
             }
           })
           
-          // Save to cache for citations
-          toolResultsCache.metaQueryDocuments = documentsDetailed
-          toolResultsCache.metaQueryChunks = documentChunks
+          // Save to request context for citations
+          context.metaQueryDocuments = documentsDetailed
+          context.metaQueryChunks = documentChunks
           
           console.log('[mastra/agent] Thematic meta query completed:', {
             documentsFound: documentsDetailed.length,
@@ -537,7 +564,7 @@ async function metaQueryTool({ query }: { query: string }) {
 
         // If we found a folder query, use fuzzy matching to find the best match
         if (folderQuery) {
-          const matchedFolder = await findBestMatchingFolder(folderQuery, 0.6)
+          const matchedFolder = await findBestMatchingFolder(folderQuery, 0.6, context.scope.access)
           if (matchedFolder) {
             folder = matchedFolder
             console.log('[mastra/agent] Using matched folder:', folder)
@@ -556,8 +583,15 @@ async function metaQueryTool({ query }: { query: string }) {
           console.log('[mastra/agent] Folder candidate too short, triggering LLM inference', { folder })
         }
 
+        // Conversazione con scope cartella: la cartella è fissata, niente inferenza
+        if (context.scope.folder) {
+          folder = context.scope.folder
+          folderNeedsInference = false
+          console.log('[mastra/agent] Using conversation folder scope:', folder)
+        }
+
         if (folderNeedsInference) {
-          const folderMetaList = await listFoldersMeta()
+          const folderMetaList = await listFoldersMeta(context.scope.access)
           const folderNames = folderMetaList.map((meta) => meta.name)
           console.log('[mastra/agent] Running LLM folder inference', {
             querySnippet: query.slice(0, 80),
@@ -600,6 +634,7 @@ async function metaQueryTool({ query }: { query: string }) {
           folder,
           file_type: fileType,
           limit,
+          access: context.scope.access,
         })
         
         // IMPORTANT: Recupera i chunks dei documenti trovati
@@ -607,7 +642,7 @@ async function metaQueryTool({ query }: { query: string }) {
         const { getChunksByDocumentIds } = await import('@/lib/supabase/vector-operations')
         const documentIds = documents.map(doc => doc.id)
         const chunksPerDocument = 5 // Primi 5 chunks per documento per avere overview
-        const documentChunks = await getChunksByDocumentIds(documentIds, chunksPerDocument)
+        const documentChunks = await getChunksByDocumentIds(documentIds, chunksPerDocument, context.scope.access)
         
         console.log('[mastra/agent] Retrieved chunks for meta query documents:', {
           documentsCount: documents.length,
@@ -656,11 +691,11 @@ async function metaQueryTool({ query }: { query: string }) {
           }
         })
         
-        // Salva i documenti E i chunks nel cache
-        toolResultsCache.metaQueryDocuments = documentsDetailed
-        toolResultsCache.metaQueryChunks = documentChunks
+        // Salva i documenti E i chunks nel contesto della request
+        context.metaQueryDocuments = documentsDetailed
+        context.metaQueryChunks = documentChunks
         
-        console.log('[mastra/agent] Meta query documents saved to cache:', {
+        console.log('[mastra/agent] Meta query documents saved to context:', {
           documentsCount: documentsDetailed.length,
           chunksCount: documentChunks.length,
         })
@@ -681,7 +716,7 @@ async function metaQueryTool({ query }: { query: string }) {
       }
     } else {
       // Default: return general stats
-      const stats = await getDatabaseStats()
+      const stats = await getDatabaseStats(context.scope.access)
       toolOutput = {
         isMeta: true,
         metaType: 'stats',
@@ -719,57 +754,65 @@ async function metaQueryTool({ query }: { query: string }) {
 // tramite la funzione buildSystemPrompt() da lib/llm/system-prompt.ts.
 // Questo prompt statico serve solo come fallback generico e non viene utilizzato nella pratica.
 
-// Tools configuration (shared between agents)
+// Tools configuration
 // REMOVED: vector_search and semantic_cache (deprecated, see comment above)
-const agentTools = {
-  web_search: {
-    id: 'web_search',
-    name: 'web_search',
-    description: 'Cerca informazioni sul web quando i documenti nella knowledge base non sono sufficienti per rispondere completamente alla domanda. Usa questo tool solo quando le fonti disponibili non coprono completamente la query dell\'utente. IMPORTANTE: Quando citi i risultati della ricerca web nella tua risposta, usa SEMPRE il formato [web:N] dove N è l\'indice numerico del risultato (1, 2, 3, ecc.). Esempio: [web:1] per il primo risultato, [web:2] per il secondo, [web:1,2,3] per più risultati. NON usare altri formati o identificatori.',
-    parameters: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Query di ricerca web',
+/**
+ * Crea i tools dell'agent legati a un contesto di esecuzione
+ * Ogni request ha i propri tools: i risultati finiscono nel contesto passato
+ *
+ * @param context - Contesto della request in cui i tools salvano i risultati
+ */
+export function createAgentTools(context: ToolExecutionContext) {
+  return {
+    web_search: {
+      id: 'web_search',
+      name: 'web_search',
+      description: 'Cerca informazioni sul web quando i documenti nella knowledge base non sono sufficienti per rispondere completamente alla domanda. Usa questo tool solo quando le fonti disponibili non coprono completamente la query dell\'utente. IMPORTANTE: Quando citi i risultati della ricerca web nella tua risposta, usa SEMPRE il formato [web:N] dove N è l\'indice numerico del risultato (1, 2, 3, ecc.). Esempio: [web:1] per il primo risultato, [web:2] per il secondo, [web:1,2,3] per più risultati. NON usare altri formati o identificatori.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Query di ricerca web',
+          },
         },
+        required: ['query'],
       },
-      required: ['query'],
+      execute: (args: { query: string }) => webSearchTool(context, args),
     },
-    execute: webSearchTool,
-  },
-  meta_query: {
-    id: 'meta_query',
-    name: 'meta_query',
-    description: 'Ottieni informazioni sul database stesso (statistiche, liste documenti, cartelle, tipi di file) invece che sul contenuto dei documenti. USA QUESTO TOOL per query come: "quanti documenti ci sono", "elenca i documenti", "documenti nella cartella X", "che norme ci sono salvate", "quali cartelle esistono", "quali tipi di file ci sono". IMPORTANTE: Questo tool PUÒ elencare documenti specifici in una cartella.',
-    parameters: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Query meta sul database (es. "quanti documenti ci sono", "elenca documenti nella cartella GRI", "che norme ci sono", "quali cartelle esistono")',
+    meta_query: {
+      id: 'meta_query',
+      name: 'meta_query',
+      description: 'Ottieni informazioni sul database stesso (statistiche, liste documenti, cartelle, tipi di file) invece che sul contenuto dei documenti. USA QUESTO TOOL per query come: "quanti documenti ci sono", "elenca i documenti", "documenti nella cartella X", "che norme ci sono salvate", "quali cartelle esistono", "quali tipi di file ci sono". IMPORTANTE: Questo tool PUÒ elencare documenti specifici in una cartella.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Query meta sul database (es. "quanti documenti ci sono", "elenca documenti nella cartella GRI", "che norme ci sono", "quali cartelle esistono")',
+          },
         },
+        required: ['query'],
       },
-      required: ['query'],
+      execute: (args: { query: string }) => metaQueryTool(context, args),
     },
-    execute: metaQueryTool,
-  },
+  }
 }
 
 const BASE_AGENT_INSTRUCTIONS =
   'Sei un assistente AI per un team di consulenza. Rispondi alle domande in modo accurato e professionale.'
 
-const dynamicAgentCache = new Map<string, Agent>()
-
 /**
  * Restituisce i tools filtrati in base alle preferenze utente
+ * @param context - Contesto della request a cui legare i tools
  * @param webSearchEnabled - Se false, rimuove il tool web_search
  */
-export function getFilteredTools(webSearchEnabled: boolean) {
+export function getFilteredTools(context: ToolExecutionContext, webSearchEnabled: boolean) {
+  const agentTools = createAgentTools(context)
   if (webSearchEnabled) {
     return agentTools
   }
-  // Rimuovi solo web_search, mantieni semantic_cache e meta_query
+  // Rimuovi solo web_search, mantieni meta_query
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const { web_search, ...toolsWithoutWebSearch } = agentTools
   return toolsWithoutWebSearch
@@ -778,12 +821,15 @@ export function getFilteredTools(webSearchEnabled: boolean) {
 /**
  * Agent con Gemini 2.5 Flash - per query normali
  * Più veloce ed economico, adatto per la maggior parte delle query
+ *
+ * NOTA: i tools di questa istanza condivisa usano un contesto non leggibile dall'esterno.
+ * Per recuperare i risultati dei tools usa getRagAgentForModel con un ToolExecutionContext.
  */
 export const ragAgentFlash = new Agent({
   name: 'rag-consulting-agent-flash',
   instructions: BASE_AGENT_INSTRUCTIONS,
   model: DEFAULT_FLASH_MODEL,
-  tools: agentTools,
+  tools: createAgentTools(createToolExecutionContext()),
 })
 
 /**
@@ -795,7 +841,7 @@ export const ragAgentPro = new Agent({
   name: 'rag-consulting-agent-pro',
   instructions: BASE_AGENT_INSTRUCTIONS,
   model: DEFAULT_PRO_MODEL,
-  tools: agentTools,
+  tools: createAgentTools(createToolExecutionContext()),
 })
 
 /**
@@ -808,80 +854,47 @@ export const ragAgent = ragAgentFlash
 export const reactRagAgent = ragAgentFlash
 
 /**
- * Restituisce l'agent Mastra corretto in base al modello richiesto.
- * Implementa una cache per evitare di creare istanze duplicate.
+ * Restituisce un agent Mastra per il modello richiesto, con i tools legati al contesto della request.
+ * L'istanza non viene messa in cache: i tools scrivono nel contesto passato, quindi ogni
+ * request deve avere il proprio agent.
  *
  * @param model - Modello richiesto dalla configurazione del prompt
  * @param webSearchEnabled - Se false, rimuove il tool web_search dall'agent
+ * @param toolContext - Contesto in cui i tools salvano i risultati (default: nuovo contesto)
  * @returns Istanza di Agent configurata per il modello richiesto
  */
-export function getRagAgentForModel(model?: string | null, webSearchEnabled = true): Agent {
+export function getRagAgentForModel(
+  model?: string | null,
+  webSearchEnabled = true,
+  toolContext: ToolExecutionContext = createToolExecutionContext()
+): Agent {
   const normalizedModel = normalizeModelId(model)
-  const filteredTools = getFilteredTools(webSearchEnabled)
-  const cacheKey = `${normalizedModel}-ws${webSearchEnabled}`
+  const filteredTools = getFilteredTools(toolContext, webSearchEnabled)
+
+  const agentNameSuffix =
+    normalizedModel === DEFAULT_FLASH_MODEL
+      ? 'flash'
+      : normalizedModel === DEFAULT_PRO_MODEL
+        ? 'pro'
+        : normalizedModel
+            .replace(/^openrouter\//, '')
+            .replace(/[^a-zA-Z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .toLowerCase() || 'custom'
 
   console.log('[mastra/agent] getRagAgentForModel called:', {
     requestedModel: model,
     normalizedModel,
     webSearchEnabled,
-    ragAgentFlashModel: ragAgentFlash.model,
-    ragAgentProModel: ragAgentPro.model,
-    willMatch: normalizedModel === ragAgentFlash.model,
     filteredToolsCount: Object.keys(filteredTools).length,
     hasMetaQueryTool: 'meta_query' in filteredTools,
+    folderScope: toolContext.scope.folder,
   })
 
-  // Gli agent predefiniti usano sempre tutti i tools, quindi controlla webSearchEnabled
-  if (normalizedModel === ragAgentFlash.model) {
-    if (!webSearchEnabled) {
-      // Crea un agent temporaneo senza web_search
-      console.log('[mastra/agent] Using Flash agent WITHOUT web_search')
-      return new Agent({
-        name: 'rag-consulting-agent-flash-no-web',
-        instructions: BASE_AGENT_INSTRUCTIONS,
-        model: normalizedModel,
-        tools: filteredTools,
-      })
-    }
-    console.log('[mastra/agent] Using ragAgentFlash (all tools)')
-    return ragAgentFlash
-  }
-
-  if (normalizedModel === ragAgentPro.model) {
-    if (!webSearchEnabled) {
-      // Crea un agent temporaneo senza web_search
-      console.log('[mastra/agent] Using Pro agent WITHOUT web_search')
-      return new Agent({
-        name: 'rag-consulting-agent-pro-no-web',
-        instructions: BASE_AGENT_INSTRUCTIONS,
-        model: normalizedModel,
-        tools: filteredTools,
-      })
-    }
-    console.log('[mastra/agent] Using ragAgentPro (all tools)')
-    return ragAgentPro
-  }
-
-  console.log('[mastra/agent] Using DYNAMIC agent with filtered tools')
-  const cached = dynamicAgentCache.get(cacheKey)
-  if (cached) {
-    return cached
-  }
-
-  const agentNameSuffix = normalizedModel
-    .replace(/^openrouter\//, '')
-    .replace(/[^a-zA-Z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-    .toLowerCase() || 'custom'
-
-  const agent = new Agent({
-    name: `rag-consulting-agent-${agentNameSuffix}`,
+  return new Agent({
+    name: `rag-consulting-agent-${agentNameSuffix}${webSearchEnabled ? '' : '-no-web'}`,
     instructions: BASE_AGENT_INSTRUCTIONS,
     model: normalizedModel,
     tools: filteredTools,
   })
-
-  dynamicAgentCache.set(cacheKey, agent)
-
-  return agent
 }
@@ -444,6 +444,72 @@ export function updateTrace(
   }
 }
 
+/**
+ * Aggiunge uno score numerico a un trace (es. metriche di valutazione offline)
+ *
+ * @param trace - Trace object da valutare
+ * @param name - Nome dello score (es. "faithfulness")
+ * @param value - Valore dello score (0-1)
+ * @param comment - Commento opzionale visibile in Langfuse
+ */
+export function scoreTrace(
+  trace: LangfuseTraceClient | null,
+  name: string,
+  value: number,
+  comment?: string
+): void {
+  if (!trace) {
+    return
+  }
+
+  try {
+    trace.score({
+      name,
+      value,
+      comment,
+    })
+  } catch (error) {
+    console.error('[langfuse] Failed to score trace:', error)
+  }
+}
+
+/**
+ * Aggiunge uno score a un trace già concluso, identificato dal suo ID
+ *
+ * Usato per i feedback utente, che arrivano in una richiesta successiva
+ * quando il trace object della chat non è più disponibile
+ *
+ * @param traceId - ID del trace (salvato in messages.metadata.trace_id)
+ * @param name - Nome dello score (es. "user-feedback")
+ * @param value - Valore dello score (0-1)
+ * @param comment - Commento opzionale visibile in Langfuse
+ * @param scoreId - ID stabile dello score: un nuovo invio con lo stesso ID aggiorna quello esistente
+ */
+export function scoreTraceById(
+  traceId: string,
+  name: string,
+  value: number,
+  comment?: string,
+  scoreId?: string
+): void {
+  const client = getLangfuseClient()
+  if (!client) {
+    return
+  }
+
+  try {
+    client.score({
+      id: scoreId,
+      traceId,
+      name,
+      value,
+      comment,
+    })
+  } catch (error) {
+    console.error('[langfuse] Failed to score trace by id:', error)
+  }
+}
+
 // Note: Le vecchie funzioni basate su traceId stringa sono state rimosse
 // Usa invece le nuove funzioni che accettano trace/span objects:
 // - createSpan() per creare span figli
@@ -0,0 +1,153 @@
+/**
+ * Prompt Experiments
+ *
+ * Traffic splitting tra due label o versioni Langfuse dello stesso prompt.
+ * Gli esperimenti sono configurati con la variabile d'ambiente PROMPT_EXPERIMENTS (JSON):
+ *
+ *   [{ "prompt": "system-rag-with-context",
+ *      "control": { "label": "production" },
+ *      "candidate": { "label": "candidate" },
+ *      "candidateTraffic": 0.2 }]
+ *
+ * L'assegnazione è deterministica sulla chiave (es. conversationId): la stessa
+ * conversazione riceve sempre la stessa variante.
+ */
+
+import { createHash } from 'crypto'
+
+/**
+ * Label o versione di un prompt su Langfuse (la versione ha la precedenza)
+ */
+export interface PromptTarget {
+  label?: string
+  version?: number
+}
+
+export interface PromptExperiment {
+  prompt: string
+  control: PromptTarget
+  candidate: PromptTarget
+  candidateTraffic: number // Quota di traffico (0-1) assegnata al candidate
+}
+
+export type PromptVariantName = 'control' | 'candidate'
+
+export interface PromptVariantAssignment {
+  prompt: string
+  variant: PromptVariantName
+  target: PromptTarget
+}
+
+let cachedExperiments: { raw: string | undefined; experiments: PromptExperiment[] } | null = null
+
+function parseTarget(value: unknown): PromptTarget | null {
+  if (typeof value !== 'object' || value === null) {
+    return null
+  }
+  const { label, version } = value as { label?: unknown; version?: unknown }
+  if (typeof version === 'number' && Number.isInteger(version) && version > 0) {
+    return { version }
+  }
+  if (typeof label === 'string' && label.trim()) {
+    return { label: label.trim() }
+  }
+  return null
+}
+
+/**
+ * Legge la configurazione degli esperimenti
+ * Le voci non valide vengono scartate con un warning; un prompt può avere un solo esperimento
+ */
+export function parsePromptExperiments(raw: string | undefined): PromptExperiment[] {
+  if (!raw?.trim()) {
+    return []
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch (error) {
+    console.error('[prompt-experiments] Invalid PROMPT_EXPERIMENTS JSON:', error)
+    return []
+  }
+
+  if (!Array.isArray(parsed)) {
+    console.error('[prompt-experiments] PROMPT_EXPERIMENTS must be an array')
+    return []
+  }
+
+  const experiments: PromptExperiment[] = []
+  for (const entry of parsed) {
+    const prompt = typeof entry?.prompt === 'string' ? entry.prompt.trim() : ''
+    const control = parseTarget(entry?.control)
+    const candidate = parseTarget(entry?.candidate)
+    const candidateTraffic = entry?.candidateTraffic
+
+    if (
+      !prompt ||
+      !control ||
+      !candidate ||
+      typeof candidateTraffic !== 'number' ||
+      candidateTraffic < 0 ||
+      candidateTraffic > 1
+    ) {
+      console.warn('[prompt-experiments] Skipping invalid experiment:', entry)
+      continue
+    }
+    if (experiments.some((experiment) => experiment.prompt === prompt)) {
+      console.warn(`[prompt-experiments] Duplicate experiment for prompt ${prompt}, keeping the first one`)
+      continue
+    }
+
+    experiments.push({ prompt, control, candidate, candidateTraffic })
+  }
+
+  return experiments
+}
+
+/**
+ * Esperimenti attivi (da PROMPT_EXPERIMENTS, riletti solo se la variabile cambia)
+ */
+export function getPromptExperiments(): PromptExperiment[] {
+  const raw = process.env.PROMPT_EXPERIMENTS
+  if (!cachedExperiments || cachedExperiments.raw !== raw) {
+    cachedExperiments = { raw, experiments: parsePromptExperiments(raw) }
+  }
+  return cachedExperiments.experiments
+}
+
+/**
+ * Bucket deterministico in [0, 1) per prompt e chiave di assegnazione
+ */
+function getAssignmentBucket(promptName: string, assignmentKey: string): number {
+  const hash = createHash('sha256').update(`${promptName}:${assignmentKey}`).digest()
+  return hash.readUInt32BE(0) / 0x100000000
+}
+
+/**
+ * Assegna la variante di un prompt con un esperimento attivo
+ *
+ * @param promptName - Nome del prompt su Langfuse
+ * @param assignmentKey - Chiave stabile della richiesta (conversazione, utente o trace)
+ * @param experiments - Esperimenti da considerare (default: PROMPT_EXPERIMENTS)
+ * @returns null se il prompt non ha un esperimento attivo
+ */
+export function assignPromptVariant(
+  promptName: string,
+  assignmentKey: string,
+  experiments: PromptExperiment[] = getPromptExperiments()
+): PromptVariantAssignment | null {
+  const experiment = experiments.find((entry) => entry.prompt === promptName)
+  if (!experiment) {
+    return null
+  }
+
+  const variant: PromptVariantName =
+    getAssignmentBucket(promptName, assignmentKey) < experiment.candidateTraffic ? 'candidate' : 'control'
+
+  return {
+    prompt: promptName,
+    variant,
+    target: variant === 'candidate' ? experiment.candidate : experiment.control,
+  }
+}
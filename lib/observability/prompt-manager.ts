@@ -3,9 +3,13 @@
  * 
  * Manages prompt retrieval from Langfuse with caching and fallback support.
  * Replaces hard-coded prompts with versioned, managed prompts.
+ * When Langfuse is unavailable (or PROMPT_SOURCE=local) prompts are compiled
+ * from the local registry in prompts/ (see prompt-registry.ts).
  */
 
 import { getLangfuseClient } from './langfuse-client'
+import { assignPromptVariant, type PromptVariantAssignment } from './prompt-experiments'
+import { compileLocalPrompt, isLocalPromptSource } from './prompt-registry'
 import type { TextPromptClient, ChatPromptClient } from '@langfuse/client'
 
 // Type for prompt (can be either text or chat)
@@ -18,6 +22,7 @@ export const PROMPTS = {
   // System prompts for RAG
   SYSTEM_RAG_WITH_CONTEXT: 'system-rag-with-context',
   SYSTEM_RAG_COMPARATIVE: 'system-rag-comparative',
+  SYSTEM_RAG_VERSION_CHANGES: 'system-rag-version-changes',
   SYSTEM_RAG_NO_CONTEXT_WEB: 'system-rag-no-context-web',
   SYSTEM_RAG_NO_CONTEXT: 'system-rag-no-context',
   SYSTEM_META_QUERY: 'system-meta-query',
@@ -33,11 +38,18 @@ export const PROMPTS = {
   
   // Keyword extraction for BM25
   KEYWORD_EXTRACTOR: 'keyword_extractor',
+
+  // Reranking of hybrid search candidates
+  RERANK: 'rerank',
+
+  // Offline answer evaluation (LLM judge)
+  ANSWER_FAITHFULNESS_JUDGE: 'answer-faithfulness-judge',
+  ANSWER_COMPLETENESS_JUDGE: 'answer-completeness-judge',
 } as const
 
 /**
  * Prompt cache (in-memory, per-process)
- * Maps: promptName -> { prompt, fetchedAt }
+ * Maps: promptName@label|version -> { prompt, fetchedAt }
  */
 const promptCache = new Map<string, { prompt: PromptClientType; fetchedAt: number }>()
 
@@ -54,12 +66,17 @@ export interface PromptOptions {
   label?: string
   /** Version to fetch (overrides label) */
   version?: number
-  /** Fallback prompt text if fetch fails */
+  /** Fallback prompt text if fetch fails and the prompt is not in the local registry */
   fallback?: string
   /** Fallback configuration when Langfuse prompt/config is unavailable */
   fallbackConfig?: Record<string, unknown>
   /** Skip cache (force fetch from Langfuse) */
   skipCache?: boolean
+  /**
+   * Stable key for prompt experiments (e.g. conversationId).
+   * Ignored when label or version are set explicitly.
+   */
+  assignmentKey?: string
 }
 
 /**
@@ -68,6 +85,14 @@ export interface PromptOptions {
 export interface CompiledPromptResult<TConfig extends Record<string, unknown> = Record<string, unknown>> {
   text: string
   config: TConfig | null
+  /** Langfuse version that was compiled (null when the local registry or fallback text was used) */
+  version: number | null
+  /** Experiment variant assigned to this request (null without experiment or when Langfuse was not used) */
+  variant: PromptVariantAssignment | null
+}
+
+function getPromptCacheKey(promptName: string, label: string, version?: number): string {
+  return version !== undefined ? `${promptName}@v${version}` : `${promptName}@${label}`
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -90,13 +115,18 @@ export async function getPrompt(
   options: PromptOptions = {}
 ): Promise<PromptClientType | null> {
   const { label = 'production', version, skipCache = false } = options
+  const cacheKey = getPromptCacheKey(promptName, label, version)
+
+  if (isLocalPromptSource()) {
+    return null
+  }
 
   try {
     // Check cache first (unless skipCache is true or cache is disabled)
     if (!skipCache && !CACHE_DISABLED) {
-      const cached = promptCache.get(promptName)
+      const cached = promptCache.get(cacheKey)
       if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
-        console.log(`[prompt-manager] Cache hit for prompt: ${promptName}`)
+        console.log(`[prompt-manager] Cache hit for prompt: ${cacheKey}`)
         return cached.prompt
       }
     }
@@ -128,7 +158,7 @@ export async function getPrompt(
 
     // Update cache (unless cache is disabled)
     if (!CACHE_DISABLED) {
-      promptCache.set(promptName, {
+      promptCache.set(cacheKey, {
         prompt,
         fetchedAt: Date.now(),
       })
@@ -190,18 +220,28 @@ export async function compilePromptWithConfig(
   variables: Record<string, string | number | boolean>,
   options: PromptOptions = {}
 ): Promise<CompiledPromptResult> {
-  const { fallback } = options
+  // Offline mode: local registry only, no network calls (and no experiments)
+  if (isLocalPromptSource()) {
+    const local = compileWithoutLangfuse(promptName, variables, options)
+    if (!local) {
+      throw new Error(`Prompt not found in local registry and no fallback provided: ${promptName}`)
+    }
+    return local
+  }
+
+  // Experiment assignment only applies when the caller did not pin a label or version
+  const variant = options.assignmentKey && options.label === undefined && options.version === undefined
+    ? assignPromptVariant(promptName, options.assignmentKey)
+    : null
+  const fetchOptions: PromptOptions = variant ? { ...options, ...variant.target } : options
 
   try {
-    const prompt = await getPrompt(promptName, options)
+    const prompt = await getPrompt(promptName, fetchOptions)
 
     if (!prompt) {
-      if (fallback) {
-        console.warn(`[prompt-manager] Using fallback for prompt: ${promptName}`)
-        return {
-          text: fallback,
-          config: options.fallbackConfig ? { ...options.fallbackConfig } : null,
-        }
+      const local = compileWithoutLangfuse(promptName, variables, options)
+      if (local) {
+        return local
       }
       throw new Error(`Prompt not found and no fallback provided: ${promptName}`)
     }
@@ -222,6 +262,8 @@ export async function compilePromptWithConfig(
       return {
         text: compiled,
         config,
+        version: prompt.version,
+        variant,
       }
     } else if (Array.isArray(compiled)) {
       // Chat prompt - convert to text (or return as-is depending on usage)
@@ -229,28 +271,65 @@ export async function compilePromptWithConfig(
       return {
         text: compiled.map((msg: { content: string }) => msg.content).join('\n'),
         config,
+        version: prompt.version,
+        variant,
       }
     }
 
     return {
       text: String(compiled),
       config,
+      version: prompt.version,
+      variant,
     }
   } catch (error) {
     console.error(`[prompt-manager] Error compiling prompt: ${promptName}`, error)
 
-    if (fallback) {
-      console.warn(`[prompt-manager] Using fallback for prompt: ${promptName}`)
-      return {
-        text: fallback,
-        config: options.fallbackConfig ? { ...options.fallbackConfig } : null,
-      }
+    const local = compileWithoutLangfuse(promptName, variables, options)
+    if (local) {
+      return local
     }
 
     throw error
   }
 }
 
+/**
+ * Compiles a prompt from the local registry, or uses the caller's fallback text
+ * for prompts that are not in the registry.
+ * No experiment variant is reported: the assigned Langfuse version was not used.
+ *
+ * @returns null if neither is available
+ */
+function compileWithoutLangfuse(
+  promptName: string,
+  variables: Record<string, string | number | boolean>,
+  options: PromptOptions
+): CompiledPromptResult | null {
+  const local = compileLocalPrompt(promptName, variables)
+  if (local) {
+    console.warn(`[prompt-manager] Using local registry for prompt: ${promptName}`)
+    return {
+      text: local.text,
+      config: Object.keys(local.config).length > 0 ? local.config : options.fallbackConfig ?? null,
+      version: null,
+      variant: null,
+    }
+  }
+
+  if (options.fallback) {
+    console.warn(`[prompt-manager] Using fallback for prompt: ${promptName}`)
+    return {
+      text: options.fallback,
+      config: options.fallbackConfig ? { ...options.fallbackConfig } : null,
+      version: null,
+      variant: null,
+    }
+  }
+
+  return null
+}
+
 /**
  * Clears the prompt cache
  * 
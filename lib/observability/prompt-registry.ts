@@ -0,0 +1,165 @@
+/**
+ * Local Prompt Registry
+ *
+ * Copia sotto version control di ogni prompt in PROMPTS: testo, variabili e config in
+ * prompts/<nome>.json. Sostituisce i testi di fallback sparsi nel codice:
+ * - Langfuse non raggiungibile o prompt mancante: si compila il prompt del registry
+ * - PROMPT_SOURCE=local: solo registry, nessuna chiamata di rete (test e sviluppo locale)
+ *
+ * Il registry si allinea a Langfuse con scripts/setup-langfuse-prompts.ts (diff, push, pull).
+ */
+
+import answerCompletenessJudge from '@/prompts/answer-completeness-judge.json'
+import answerFaithfulnessJudge from '@/prompts/answer-faithfulness-judge.json'
+import keywordExtractor from '@/prompts/keyword_extractor.json'
+import metaFolderInference from '@/prompts/meta-folder-inference.json'
+import queryAnalysis from '@/prompts/query-analysis.json'
+import queryExpansion from '@/prompts/query-expansion.json'
+import rerank from '@/prompts/rerank.json'
+import systemMetaQuery from '@/prompts/system-meta-query.json'
+import systemRagComparative from '@/prompts/system-rag-comparative.json'
+import systemRagNoContext from '@/prompts/system-rag-no-context.json'
+import systemRagNoContextWeb from '@/prompts/system-rag-no-context-web.json'
+import systemRagVersionChanges from '@/prompts/system-rag-version-changes.json'
+import systemRagWithContext from '@/prompts/system-rag-with-context.json'
+
+export interface LocalPrompt {
+  name: string
+  type: 'text'
+  labels: string[] // Label assegnate alla versione creata su Langfuse con push
+  config: Record<string, unknown>
+  variables: string[] // Segnaposto {{variabile}} usati dal testo
+  prompt: string[] // Testo del prompt, una riga per elemento (diff leggibili nelle review)
+}
+
+export type PromptVariables = Record<string, string | number | boolean>
+
+const LOCAL_PROMPTS = [
+  answerCompletenessJudge,
+  answerFaithfulnessJudge,
+  keywordExtractor,
+  metaFolderInference,
+  queryAnalysis,
+  queryExpansion,
+  rerank,
+  systemMetaQuery,
+  systemRagComparative,
+  systemRagNoContext,
+  systemRagNoContextWeb,
+  systemRagVersionChanges,
+  systemRagWithContext,
+] as LocalPrompt[]
+
+const registry = new Map(LOCAL_PROMPTS.map((prompt) => [prompt.name, prompt]))
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+/**
+ * true se i prompt vanno letti solo dal registry locale (PROMPT_SOURCE=local)
+ */
+export function isLocalPromptSource(): boolean {
+  return process.env.PROMPT_SOURCE === 'local'
+}
+
+export function listLocalPrompts(): LocalPrompt[] {
+  return [...LOCAL_PROMPTS]
+}
+
+export function getLocalPrompt(name: string): LocalPrompt | null {
+  return registry.get(name) ?? null
+}
+
+export function getLocalPromptText(prompt: LocalPrompt): string {
+  return prompt.prompt.join('\n')
+}
+
+/**
+ * Variabili {{nome}} di un template, nell'ordine in cui compaiono (senza duplicati)
+ */
+export function extractPromptVariables(text: string): string[] {
+  const variables: string[] = []
+  for (const match of Array.from(text.matchAll(VARIABLE_PATTERN))) {
+    if (!variables.includes(match[1])) {
+      variables.push(match[1])
+    }
+  }
+  return variables
+}
+
+/**
+ * Compila un template con la stessa sintassi dei prompt Langfuse ({{variabile}}, senza escape)
+ * Le variabili non fornite diventano stringa vuota, come in Langfuse
+ */
+export function compilePromptTemplate(text: string, variables: PromptVariables): string {
+  return text.replace(VARIABLE_PATTERN, (_match, name: string) =>
+    name in variables ? String(variables[name]) : ''
+  )
+}
+
+/**
+ * Compila un prompt del registry
+ *
+ * @returns null se il prompt non è nel registry
+ */
+export function compileLocalPrompt(
+  name: string,
+  variables: PromptVariables
+): { text: string; config: Record<string, unknown> } | null {
+  const prompt = getLocalPrompt(name)
+  if (!prompt) {
+    return null
+  }
+
+  return {
+    text: compilePromptTemplate(getLocalPromptText(prompt), variables),
+    config: { ...prompt.config },
+  }
+}
+
+/**
+ * Voce del registry da testo e config (usata dal pull da Langfuse)
+ */
+export function toLocalPrompt(
+  name: string,
+  text: string,
+  config: Record<string, unknown>,
+  labels: string[]
+): LocalPrompt {
+  return {
+    name,
+    type: 'text',
+    labels,
+    config,
+    variables: extractPromptVariables(text),
+    prompt: text.split('\n'),
+  }
+}
+
+/**
+ * Contenuto del file prompts/<nome>.json
+ */
+export function serializeLocalPrompt(prompt: LocalPrompt): string {
+  return `${JSON.stringify(prompt, null, 2)}\n`
+}
+
+/**
+ * Problemi di una voce del registry (vuoto = valida)
+ */
+export function validateLocalPrompt(prompt: LocalPrompt): string[] {
+  const issues: string[] = []
+  const used = extractPromptVariables(getLocalPromptText(prompt))
+
+  if (prompt.type !== 'text') {
+    issues.push(`unsupported type "${prompt.type}"`)
+  }
+  const undeclared = used.filter((name) => !prompt.variables.includes(name))
+  if (undeclared.length > 0) {
+    issues.push(`undeclared variables: ${undeclared.join(', ')}`)
+  }
+  const unused = prompt.variables.filter((name) => !used.includes(name))
+  if (unused.length > 0) {
+    issues.push(`declared but unused variables: ${unused.join(', ')}`)
+  }
+
+  return issues
+}
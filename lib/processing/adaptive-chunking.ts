@@ -12,6 +12,7 @@
 
 import { sentenceAwareChunking, type SentenceChunk, type SentenceChunkOptions } from './sentence-aware-chunking'
 import type { DocumentStructure, ArticlePattern, SectionPattern } from './structure-detector'
+import { splitTableBlocks } from './table-chunking'
 
 export interface AdaptiveChunk extends SentenceChunk {
   metadata: SentenceChunk['metadata'] & {
@@ -99,6 +100,7 @@ export async function adaptiveChunking(
 /**
  * Chunka preservando articoli interi quando possibile
  * Se articolo è troppo grande, chunk per comma/paragrafo
+ * Gli articoli con tabelle passano dal chunking table-aware (tabelle come chunk atomici)
  */
 async function chunkByArticles(
   text: string,
@@ -123,8 +125,10 @@ async function chunkByArticles(
 
     const articleTokens = await countTokens(articleText)
 
-    // Se articolo è piccolo, chunk intero
-    if (articleTokens <= maxTokens) {
+    const hasTable = splitTableBlocks(articleText).some((block) => block.type === 'table')
+
+    // Se articolo è piccolo e senza tabelle, chunk intero
+    if (articleTokens <= maxTokens && !hasTable) {
       // Conta frasi approssimativamente
       const sentenceCount = (articleText.match(/[.!?]+\s+/g) || []).length || 1
       
@@ -143,9 +147,12 @@ async function chunkByArticles(
         },
       })
     } else {
-      // Se articolo è grande, chunk per comma/paragrafo usando sentence-aware
+      // Se articolo è grande o contiene tabelle, chunk per comma/paragrafo usando sentence-aware
+      // (il formato plain separa le tabelle markdown in chunk di tipo 'table')
       console.log(
-        `[adaptive-chunking] Article ${article.number} is too large (${articleTokens} tokens), chunking by paragraphs`
+        hasTable
+          ? `[adaptive-chunking] Article ${article.number} contains tables, chunking tables separately`
+          : `[adaptive-chunking] Article ${article.number} is too large (${articleTokens} tokens), chunking by paragraphs`
       )
 
       const articleChunks = await sentenceAwareChunking(articleText, {
@@ -166,7 +173,7 @@ async function chunkByArticles(
             charStart: article.start + chunk.metadata.charStart,
             charEnd: article.start + chunk.metadata.charEnd,
             articleNumber: article.number,
-            articleType: 'partial',
+            articleType: articleChunks.length === 1 ? 'complete' : 'partial',
           },
         })
       }
@@ -247,7 +254,8 @@ function detectContentType(
 ): 'paragraph' | 'heading' | 'list' | 'table' | 'mixed' {
   const hasHeader = /^#{1,6}\s+/m.test(text)
   const hasList = /^[\-\*\+]\s+/m.test(text) || /^\d+\.\s+/m.test(text)
-  const hasTable = /\|.*\|/m.test(text)
+  // Tabella markdown solo con riga separatore (| --- |), non per pipe isolate nel testo
+  const hasTable = /\|\s*:?-+:?\s*\|/.test(text)
 
   const indicators = [hasHeader, hasList, hasTable].filter(Boolean).length
 
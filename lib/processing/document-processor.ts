@@ -3,6 +3,10 @@
  * Usa import dinamici per compatibilità con Next.js
  */
 
+import { MIME_TYPES } from './supported-formats'
+import type { MarkdownExtraction } from './markdown-utils'
+import type { SourceType } from './source-locations'
+
 export interface Chunk {
   content: string
   chunkIndex: number
@@ -91,12 +95,63 @@ export async function extractTextFromTXT(file: File): Promise<string> {
   return await file.text()
 }
 
+interface StructuredExtractor {
+  sourceType: SourceType
+  processingMethod: string
+  extract: (file: File) => Promise<MarkdownExtraction>
+}
+
+/**
+ * Extractor per i formati che vengono convertiti in markdown (XLSX, PPTX, HTML, Markdown, EML)
+ */
+function getStructuredExtractor(fileType: string): StructuredExtractor | null {
+  switch (fileType) {
+    case MIME_TYPES.xlsx:
+      return {
+        sourceType: 'spreadsheet',
+        processingMethod: 'native-xlsx',
+        extract: async (file) => (await import('./office-extractors')).extractTextFromXLSX(file),
+      }
+    case MIME_TYPES.pptx:
+      return {
+        sourceType: 'presentation',
+        processingMethod: 'native-pptx',
+        extract: async (file) => (await import('./office-extractors')).extractTextFromPPTX(file),
+      }
+    case MIME_TYPES.html:
+      return {
+        sourceType: 'html',
+        processingMethod: 'native-html',
+        extract: async (file) => (await import('./html-extractor')).extractTextFromHTML(file),
+      }
+    case MIME_TYPES.markdown:
+      return {
+        sourceType: 'markdown',
+        processingMethod: 'native-markdown',
+        extract: async (file) => ({ text: await file.text(), metadata: {} }),
+      }
+    case MIME_TYPES.eml:
+      return {
+        sourceType: 'email',
+        processingMethod: 'native-eml',
+        extract: async (file) => (await import('./email-extractor')).extractTextFromEML(file),
+      }
+    default:
+      return null
+  }
+}
+
 /**
- * Estrae testo da file (supporta PDF, DOCX, TXT)
+ * Estrae testo da file (supporta PDF, DOCX, TXT, XLSX, PPTX, HTML, Markdown, EML)
  */
 export async function extractText(file: File): Promise<string> {
   const fileType = file.type.toLowerCase()
 
+  const structuredExtractor = getStructuredExtractor(fileType)
+  if (structuredExtractor) {
+    return (await structuredExtractor.extract(file)).text
+  }
+
   if (fileType === 'application/pdf') {
     return extractTextFromPDF(file)
   } else if (
@@ -129,6 +184,22 @@ export interface ExtractedContent {
  * @returns ExtractedContent con testo, formato e metadata
  */
 export async function extractTextUnified(file: File): Promise<ExtractedContent> {
+  // Formati strutturati: conversione diretta in markdown, nessuna analisi OCR
+  const structuredExtractor = getStructuredExtractor(file.type.toLowerCase())
+  if (structuredExtractor) {
+    console.log(`[document-processor] Processing ${file.name} with ${structuredExtractor.processingMethod}`)
+    const result = await structuredExtractor.extract(file)
+    return {
+      text: result.text,
+      format: 'markdown',
+      processingMethod: structuredExtractor.processingMethod,
+      metadata: {
+        ...result.metadata,
+        sourceType: structuredExtractor.sourceType,
+      },
+    }
+  }
+
   // Import dinamici per evitare problemi di circular dependencies
   const { analyzeDocument } = await import('./document-analyzer')
   const { processWithMistralOCR } = await import('./mistral-ocr')
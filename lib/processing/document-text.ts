@@ -0,0 +1,81 @@
+/**
+ * Document Text
+ *
+ * Testo estratto di ogni documento, salvato nello storage accanto al file originale
+ * Serve per confrontare le versioni senza ripetere l'estrazione (OCR incluso):
+ * i documenti caricati prima di questa funzionalità vengono estratti al primo utilizzo
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import type { Document } from '@/lib/supabase/database.types'
+import { extractTextUnified, type ExtractedContent } from './document-processor'
+
+const STORAGE_BUCKET = 'documents'
+const TEXT_PREFIX = 'extracted-text'
+
+export interface DocumentText {
+  text: string
+  format: 'markdown' | 'plain'
+}
+
+/**
+ * Path dello storage con il testo estratto di un documento
+ */
+export function documentTextPath(documentId: string): string {
+  return `${TEXT_PREFIX}/${documentId}.json`
+}
+
+/**
+ * Salva il testo estratto di un documento
+ */
+export async function saveDocumentText(documentId: string, extracted: ExtractedContent | DocumentText): Promise<void> {
+  const value: DocumentText = { text: extracted.text, format: extracted.format }
+  const { error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .upload(documentTextPath(documentId), new Blob([JSON.stringify(value)], { type: 'application/json' }), {
+      contentType: 'application/json',
+      upsert: true,
+    })
+
+  if (error) {
+    throw new Error(`Failed to save document text: ${error.message}`)
+  }
+}
+
+/**
+ * Recupera il testo estratto di un documento
+ * Se non è stato salvato in ingestion, estrae il testo dal file originale e lo salva
+ */
+export async function getDocumentText(document: Document): Promise<DocumentText> {
+  const { data: stored } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .download(documentTextPath(document.id))
+
+  if (stored) {
+    return JSON.parse(await stored.text()) as DocumentText
+  }
+
+  console.log('[document-text] Stored text not found, extracting from original file:', {
+    documentId: document.id,
+    filename: document.filename,
+  })
+
+  const { data: fileData, error: downloadError } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .download(document.storage_path)
+
+  if (downloadError || !fileData) {
+    throw new Error(`Failed to download file from storage: ${downloadError?.message}`)
+  }
+
+  const extracted = await extractTextUnified(new File([fileData], document.filename, { type: document.file_type }))
+
+  try {
+    await saveDocumentText(document.id, extracted)
+  } catch (saveError) {
+    // Il testo è comunque disponibile per questa richiesta
+    console.warn('[document-text] Failed to store extracted text:', saveError)
+  }
+
+  return { text: extracted.text, format: extracted.format }
+}
@@ -0,0 +1,213 @@
+/**
+ * Email extractor (EML / RFC 822)
+ *
+ * Converte un'email esportata in markdown: oggetto come titolo, mittente,
+ * destinatari e data, corpo del messaggio (text/plain o HTML convertito)
+ * ed elenco degli allegati
+ */
+
+import { htmlToMarkdown } from './html-extractor'
+import type { MarkdownExtraction } from './markdown-utils'
+
+interface MimePart {
+  headers: Map<string, string>
+  body: string
+}
+
+/**
+ * Decodifica bytes con il charset dichiarato (fallback utf-8)
+ */
+function decodeBytes(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function latin1ToBytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff)
+}
+
+function decodeQuotedPrintable(text: string): Uint8Array {
+  const unfolded = text.replace(/=\r?\n/g, '')
+  const bytes: number[] = []
+  for (let i = 0; i < unfolded.length; i++) {
+    const hex = unfolded.slice(i + 1, i + 3)
+    if (unfolded[i] === '=' && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else {
+      bytes.push(unfolded.charCodeAt(i) & 0xff)
+    }
+  }
+  return Uint8Array.from(bytes)
+}
+
+/**
+ * Decodifica encoded-words RFC 2047 negli header (=?utf-8?B?...?=)
+ */
+function decodeHeaderValue(value: string): string {
+  // Header 8-bit non codificati (RFC 6532) arrivano come latin1: li riporta a utf-8
+  return decodeBytes(latin1ToBytes(value), 'utf-8')
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, encoded: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Uint8Array.from(Buffer.from(encoded, 'base64'))
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '))
+      return decodeBytes(bytes, charset)
+    })
+}
+
+function getHeaderParam(headerValue: string | undefined, param: string): string | undefined {
+  if (!headerValue) {
+    return undefined
+  }
+  const match = headerValue.match(new RegExp(`${param}\\*?=(?:"([^"]*)"|([^;\\s]*))`, 'i'))
+  const value = match?.[1] ?? match?.[2]
+  // RFC 2231: charset''valore-percent-encoded
+  const extended = value?.match(/^[^']*'[^']*'(.*)$/)
+  return extended ? decodeURIComponent(extended[1]) : value
+}
+
+/**
+ * Separa header e body di un messaggio (o di una parte MIME)
+ *
+ * Il testo è trattato come latin1 (1 char = 1 byte) fino alla decodifica del charset
+ */
+function parsePart(raw: string): MimePart {
+  const separator = raw.search(/\r?\n\r?\n/)
+  const headerBlock = separator === -1 ? raw : raw.slice(0, separator)
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '')
+
+  const headers = new Map<string, string>()
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, ' ')
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase()
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(colon + 1).trim())
+      }
+    }
+  }
+
+  return { headers, body }
+}
+
+function decodePartBody(part: MimePart): string {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase()
+  const charset = getHeaderParam(part.headers.get('content-type'), 'charset')
+
+  let bytes: Uint8Array
+  if (encoding === 'base64') {
+    bytes = Uint8Array.from(Buffer.from(part.body.replace(/\s+/g, ''), 'base64'))
+  } else if (encoding === 'quoted-printable') {
+    bytes = decodeQuotedPrintable(part.body)
+  } else {
+    bytes = latin1ToBytes(part.body)
+  }
+  return decodeBytes(bytes, charset)
+}
+
+interface EmailContent {
+  plain: string[]
+  html: string[]
+  attachments: string[]
+}
+
+/**
+ * Visita ricorsivamente le parti MIME raccogliendo corpi e allegati
+ */
+function collectParts(part: MimePart, content: EmailContent): void {
+  const contentType = (part.headers.get('content-type') || 'text/plain').toLowerCase()
+  const disposition = part.headers.get('content-disposition')
+  const filename = getHeaderParam(disposition, 'filename') || getHeaderParam(part.headers.get('content-type'), 'name')
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = getHeaderParam(part.headers.get('content-type'), 'boundary')
+    if (!boundary) {
+      return
+    }
+    const delimiter = `--${boundary}`
+    const sections = part.body.split(delimiter).slice(1)
+    for (const section of sections) {
+      if (section.startsWith('--')) {
+        break // Boundary di chiusura
+      }
+      collectParts(parsePart(section.replace(/^\r?\n/, '')), content)
+    }
+    return
+  }
+
+  if (contentType.startsWith('message/rfc822')) {
+    collectParts(parsePart(part.body), content)
+    return
+  }
+
+  if (filename || disposition?.toLowerCase().startsWith('attachment')) {
+    content.attachments.push(decodeHeaderValue(filename || 'allegato senza nome'))
+    return
+  }
+
+  if (contentType.startsWith('text/html')) {
+    content.html.push(decodePartBody(part))
+  } else if (contentType.startsWith('text/')) {
+    content.plain.push(decodePartBody(part))
+  }
+}
+
+/**
+ * Estrae un'email EML come markdown
+ *
+ * Preferisce la parte text/plain; se assente converte la parte HTML
+ *
+ * @param file - File EML
+ * @returns Markdown e metadata (mittente, data, allegati)
+ */
+export async function extractTextFromEML(file: File): Promise<MarkdownExtraction> {
+  // latin1 preserva i byte originali: il charset reale è noto solo per parte
+  const raw = Buffer.from(await file.arrayBuffer()).toString('latin1')
+  const message = parsePart(raw)
+
+  const content: EmailContent = { plain: [], html: [], attachments: [] }
+  collectParts(message, content)
+
+  const header = (name: string) => {
+    const value = message.headers.get(name)
+    return value ? decodeHeaderValue(value) : ''
+  }
+
+  const subject = header('subject') || file.name
+  const from = header('from')
+  const to = header('to')
+  const cc = header('cc')
+  const date = header('date')
+
+  const body = content.plain.length > 0
+    ? content.plain.join('\n\n').replace(/\r\n/g, '\n').trim()
+    : content.html.map(htmlToMarkdown).join('\n\n')
+
+  const lines = [`# ${subject}`, '']
+  if (from) lines.push(`**Da:** ${from}  `)
+  if (to) lines.push(`**A:** ${to}  `)
+  if (cc) lines.push(`**Cc:** ${cc}  `)
+  if (date) lines.push(`**Data:** ${date}`)
+  lines.push('', body)
+
+  if (content.attachments.length > 0) {
+    lines.push('', '## Allegati', '', ...content.attachments.map((name) => `- ${name}`))
+  }
+
+  console.log(`[email-extractor] EML ${file.name}: ${content.attachments.length} attachments`)
+
+  return {
+    text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    metadata: {
+      emailSubject: subject,
+      emailFrom: from || null,
+      emailDate: date || null,
+      attachments: content.attachments,
+    },
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * HTML extractor
+ *
+ * Converte pagine web salvate in markdown: headings, paragrafi, liste,
+ * link, enfasi, blocchi di codice e tabelle. Script, stili e navigazione
+ * vengono scartati
+ */
+
+import { decodeEntities, renderMarkdownTable, type MarkdownExtraction } from './markdown-utils'
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+}
+
+function convertTable(tableHtml: string): string {
+  const rows = Array.from(tableHtml.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi), (rowMatch) =>
+    Array.from(rowMatch[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi), (cellMatch) =>
+      stripTags(cellMatch[1])
+    )
+  ).filter((row) => row.some((cell) => cell !== ''))
+
+  if (rows.length === 0) {
+    return ''
+  }
+
+  const [header, ...body] = rows
+  return `\n\n${renderMarkdownTable(header, body)}\n\n`
+}
+
+/**
+ * Converte HTML in markdown
+ *
+ * @param html - Sorgente HTML (documento completo o frammento)
+ * @returns Markdown normalizzato
+ */
+export function htmlToMarkdown(html: string): string {
+  let content = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(nav|footer|form)\b[\s\S]*?<\/\1>/gi, '')
+
+  // Blocchi preformattati: preserva il contenuto così com'è
+  const codeBlocks: string[] = []
+  content = content.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => {
+    const text = decodeEntities(code.replace(/<[^>]+>/g, ''))
+    codeBlocks.push(`\n\n\`\`\`\n${text.replace(/\n+$/, '')}\n\`\`\`\n\n`)
+    return `\uE000${codeBlocks.length - 1}\uE000`
+  })
+
+  content = content
+    .replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => convertTable(table))
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripTags(text)}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/li>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|header|aside|ul|ol|blockquote|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, '\n\n')
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, text: string) => {
+      const inner = stripTags(text)
+      return inner ? ` **${inner}** ` : ''
+    })
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, text: string) => {
+      const inner = stripTags(text)
+      return inner ? ` _${inner}_ ` : ''
+    })
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, code: string) => `\`${stripTags(code)}\``)
+    .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) => {
+      const label = stripTags(text)
+      if (!label) {
+        return ''
+      }
+      return href && !href.startsWith('#') && !href.startsWith('javascript:')
+        ? `[${label}](${decodeEntities(href)})`
+        : label
+    })
+    .replace(/<[^>]+>/g, '')
+
+  content = decodeEntities(content)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').replace(/ ([.,;:!?])/g, '$1').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => codeBlocks[Number(index)])
+    .replace(/\n{3,}/g, '\n\n')
+
+  return content.trim()
+}
+
+/**
+ * Estrae una pagina HTML come markdown
+ *
+ * Il <title> della pagina diventa l'heading principale se il body non ne ha uno
+ *
+ * @param file - File HTML
+ * @returns Markdown e metadata (titolo pagina)
+ */
+export async function extractTextFromHTML(file: File): Promise<MarkdownExtraction> {
+  const html = await file.text()
+
+  const title = stripTags(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '')
+  const body = html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? html
+  let markdown = htmlToMarkdown(body)
+
+  if (title && !/^# /m.test(markdown)) {
+    markdown = `# ${title}\n\n${markdown}`
+  }
+
+  return {
+    text: markdown,
+    metadata: {
+      pageTitle: title || null,
+    },
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Ingestion Worker
+ *
+ * Processa in background i job della coda ingestion_jobs, uno stage alla volta:
+ * extract → structure → chunk → embed → summarize
+ *
+ * Gli output intermedi (testo estratto, struttura, chunks) sono salvati come artifact
+ * JSON nello storage, così un job fallito riparte dall'ultimo stage completato
+ * invece che dall'inizio.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { getDocument, getDocumentVersions } from '@/lib/supabase/document-operations'
+import { invalidateCacheForDocuments } from '@/lib/supabase/semantic-cache'
+import { insertDocumentChunks } from '@/lib/supabase/vector-operations'
+import { generateEmbeddings } from '@/lib/embeddings/openai'
+import {
+  claimNextIngestionJob,
+  getNextStage,
+  markIngestionJobCompleted,
+  markIngestionJobFailed,
+  markIngestionStageCompleted,
+  updateIngestionJobProgress,
+} from '@/lib/supabase/ingestion-jobs'
+import type { Document, IngestionJob, IngestionStage } from '@/lib/supabase/database.types'
+import { extractTextUnified, type ExtractedContent } from './document-processor'
+import { detectDocumentStructure, type DocumentStructure } from './structure-detector'
+import { adaptiveChunking, type AdaptiveChunk } from './adaptive-chunking'
+import { annotateSourceLocations, type SourceType } from './source-locations'
+import { preprocessChunkContent } from './chunk-preprocessing'
+import { generateAndSaveSummary } from './summary-generation'
+import { saveDocumentText } from './document-text'
+
+const STORAGE_BUCKET = 'documents'
+const ARTIFACTS_PREFIX = 'ingestion-artifacts'
+const EMBEDDING_BATCH_SIZE = 100
+const DEFAULT_TIME_BUDGET_MS = 240_000 // Lascia margine rispetto al maxDuration (300s) della route
+
+/**
+ * Range di progresso (0-100) per ogni stage
+ */
+const STAGE_PROGRESS: Record<IngestionStage, { start: number; end: number; label: string }> = {
+  extract: { start: 0, end: 30, label: 'Estrazione testo' },
+  structure: { start: 30, end: 40, label: 'Rilevamento struttura' },
+  chunk: { start: 40, end: 50, label: 'Chunking' },
+  embed: { start: 50, end: 90, label: 'Generazione embeddings' },
+  summarize: { start: 90, end: 100, label: 'Generazione riassunto' },
+}
+
+interface StageContext {
+  job: IngestionJob
+  document: Document
+  reportProgress: (fraction: number, message?: string) => Promise<void>
+}
+
+export interface IngestionWorkerOptions {
+  workerId?: string
+  timeBudgetMs?: number
+  maxJobs?: number
+}
+
+export interface IngestionWorkerResult {
+  processed: number
+  completed: number
+  retried: number
+  failed: number
+}
+
+function artifactPath(jobId: string, stage: IngestionStage): string {
+  return `${ARTIFACTS_PREFIX}/${jobId}/${stage}.json`
+}
+
+async function saveArtifact(jobId: string, stage: IngestionStage, value: unknown): Promise<void> {
+  const { error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .upload(artifactPath(jobId, stage), new Blob([JSON.stringify(value)], { type: 'application/json' }), {
+      contentType: 'application/json',
+      upsert: true,
+    })
+
+  if (error) {
+    throw new Error(`Failed to save ${stage} artifact: ${error.message}`)
+  }
+}
+
+async function loadArtifact<T>(jobId: string, stage: IngestionStage): Promise<T> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .download(artifactPath(jobId, stage))
+
+  if (error || !data) {
+    throw new Error(`Missing ${stage} artifact: ${error?.message || 'not found'}`)
+  }
+
+  return JSON.parse(await data.text()) as T
+}
+
+async function deleteArtifacts(jobId: string): Promise<void> {
+  const paths = (['extract', 'structure', 'chunk'] as IngestionStage[]).map((stage) => artifactPath(jobId, stage))
+  const { error } = await supabaseAdmin.storage.from(STORAGE_BUCKET).remove(paths)
+  if (error) {
+    console.warn('[ingestion-worker] Failed to delete artifacts:', { jobId, error: error.message })
+  }
+}
+
+// Stage 1: download del file ed estrazione testo (OCR o nativa)
+async function runExtractStage({ job, document, reportProgress }: StageContext): Promise<void> {
+  await reportProgress(0, 'Download del file dallo storage...')
+
+  const { data: fileData, error: downloadError } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .download(document.storage_path)
+
+  if (downloadError || !fileData) {
+    throw new Error(`Failed to download file from storage: ${downloadError?.message}`)
+  }
+
+  const file = new File([fileData], document.filename, { type: document.file_type })
+
+  await reportProgress(0.2, 'Estrazione testo dal documento...')
+  const extracted = await extractTextUnified(file)
+
+  console.log(`[ingestion-worker] Processing method: ${extracted.processingMethod}, format: ${extracted.format}`)
+
+  if (!extracted.text || extracted.text.trim().length === 0) {
+    throw new Error('No text extracted from document')
+  }
+
+  await saveArtifact(job.id, 'extract', extracted)
+  // Testo permanente (gli artifact vengono eliminati a fine job): serve al confronto tra versioni
+  await saveDocumentText(document.id, extracted)
+}
+
+// Stage 2: rilevamento struttura (articoli, sezioni, capitoli)
+async function runStructureStage({ job }: StageContext): Promise<void> {
+  const extracted = await loadArtifact<ExtractedContent>(job.id, 'extract')
+  const structure = detectDocumentStructure(extracted.text, extracted.format)
+
+  console.log(`[ingestion-worker] Detected structure: ${structure.type}, confidence: ${structure.confidence.toFixed(2)}`)
+
+  await saveArtifact(job.id, 'structure', structure)
+}
+
+// Stage 3: chunking adattivo
+async function runChunkStage({ job }: StageContext): Promise<void> {
+  const extracted = await loadArtifact<ExtractedContent>(job.id, 'extract')
+  const structure = await loadArtifact<DocumentStructure>(job.id, 'structure')
+
+  const rawChunks = await adaptiveChunking(extracted.text, structure, {
+    targetTokens: 350,
+    maxTokens: 450,
+    minTokens: 200,
+    preserveStructure: true,
+    format: extracted.format,
+  })
+
+  // Fogli di calcolo e presentazioni: posizione (foglio/righe, slide) per le citazioni
+  const chunks = annotateSourceLocations(rawChunks, extracted.metadata.sourceType as SourceType | undefined)
+
+  if (chunks.length === 0) {
+    throw new Error('No chunks created from document')
+  }
+
+  console.log(`[ingestion-worker] Created ${chunks.length} chunks`)
+
+  await saveArtifact(job.id, 'chunk', chunks)
+}
+
+// Stage 4: embeddings, keywords e inserimento chunks
+async function runEmbedStage({ job, document, reportProgress }: StageContext): Promise<void> {
+  const extracted = await loadArtifact<ExtractedContent>(job.id, 'extract')
+  const chunks = await loadArtifact<AdaptiveChunk[]>(job.id, 'chunk')
+
+  const chunkTexts = chunks.map((c) => c.content)
+  const totalBatches = Math.ceil(chunkTexts.length / EMBEDDING_BATCH_SIZE)
+  const embeddings: number[][] = []
+
+  for (let i = 0; i < chunkTexts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batchIndex = Math.floor(i / EMBEDDING_BATCH_SIZE) + 1
+    await reportProgress(
+      (batchIndex - 1) / totalBatches * 0.7,
+      `Generazione embeddings (${batchIndex}/${totalBatches} batch)...`
+    )
+    const batchEmbeddings = await generateEmbeddings(chunkTexts.slice(i, i + EMBEDDING_BATCH_SIZE))
+    embeddings.push(...batchEmbeddings)
+  }
+
+  await reportProgress(0.7, 'Estrazione keywords...')
+  const { extractKeywordsBatch } = await import('./keyword-extraction')
+  const keywordResults = await extractKeywordsBatch(
+    chunks.map((chunk) => ({
+      content: chunk.content,
+      context: {
+        documentTitle: document.filename,
+        articleNumber: chunk.metadata.articleNumber,
+        sectionTitle: chunk.metadata.sectionTitle,
+      },
+    })),
+    5
+  )
+
+  const chunksWithEmbeddings = chunks.map((chunk, index) => ({
+    document_id: document.id,
+    content: preprocessChunkContent(chunk.content),
+    embedding: embeddings[index],
+    chunk_index: chunk.chunkIndex,
+    keywords: keywordResults[index]?.keywords || [],
+    metadata: {
+      ...chunk.metadata,
+      documentFilename: document.filename,
+      processingMethod: extracted.processingMethod,
+      sourceFormat: extracted.format,
+      keywordModel: keywordResults[index]?.model || 'none',
+      ...extracted.metadata,
+    },
+  }))
+
+  await reportProgress(0.9, 'Inserimento chunks nel database...')
+
+  // Idempotenza: un tentativo precedente potrebbe aver inserito chunks parziali
+  const { error: cleanupError } = await supabaseAdmin
+    .from('document_chunks')
+    .delete()
+    .eq('document_id', document.id)
+
+  if (cleanupError) {
+    throw new Error(`Failed to clean up previous chunks: ${cleanupError.message}`)
+  }
+
+  await insertDocumentChunks(chunksWithEmbeddings)
+
+  await supabaseAdmin
+    .from('documents')
+    .update({ chunks_count: chunksWithEmbeddings.length })
+    .eq('id', document.id)
+}
+
+// Stage 5: riassunto del documento (non bloccante) e completamento
+async function runSummarizeStage({ document }: StageContext): Promise<void> {
+  try {
+    await generateAndSaveSummary(document.id)
+    console.log(`[ingestion-worker] Successfully generated summary for document ${document.id}`)
+  } catch (summaryError) {
+    // Il documento è utilizzabile anche senza riassunto
+    console.error('[ingestion-worker] Summary generation failed:', {
+      documentId: document.id,
+      error: summaryError instanceof Error ? summaryError.message : 'Unknown error',
+    })
+  }
+}
+
+const STAGE_RUNNERS: Record<IngestionStage, (context: StageContext) => Promise<void>> = {
+  extract: runExtractStage,
+  structure: runStructureStage,
+  chunk: runChunkStage,
+  embed: runEmbedStage,
+  summarize: runSummarizeStage,
+}
+
+/**
+ * Esegue un job claimato, ripartendo dal primo stage non completato
+ * Lancia un errore se uno stage fallisce (la gestione retry è in runIngestionWorker)
+ */
+export async function processIngestionJob(job: IngestionJob): Promise<void> {
+  const document = await getDocument(job.document_id)
+  if (!document) {
+    throw new Error(`Document not found: ${job.document_id}`)
+  }
+
+  await supabaseAdmin
+    .from('documents')
+    .update({ processing_status: 'processing', error_message: null })
+    .eq('id', document.id)
+
+  let completedStages = job.completed_stages || []
+  let stage = getNextStage(completedStages)
+
+  if (stage && completedStages.length > 0) {
+    console.log(`[ingestion-worker] Resuming job ${job.id} from stage ${stage}`, { completedStages })
+  }
+
+  while (stage) {
+    const { start, end, label } = STAGE_PROGRESS[stage]
+    const currentStage = stage
+
+    const reportProgress = (fraction: number, message?: string) =>
+      updateIngestionJobProgress(job.id, currentStage, start + (end - start) * fraction, message || `${label}...`)
+
+    await reportProgress(0)
+    await STAGE_RUNNERS[stage]({ job, document, reportProgress })
+
+    completedStages = await markIngestionStageCompleted(job.id, completedStages, stage)
+    stage = getNextStage(completedStages)
+  }
+
+  const { data: updatedDocument } = await supabaseAdmin
+    .from('documents')
+    .update({ processing_status: 'completed', error_message: null })
+    .eq('id', document.id)
+    .select('chunks_count')
+    .single()
+
+  // Chunk nuovi (ri-elaborazione) o nuova versione che supera le precedenti:
+  // le risposte in cache costruite sulla catena di versioni non sono più valide
+  const versions = await getDocumentVersions(document.id).catch((error) => {
+    console.error('[ingestion-worker] Version lookup for cache invalidation failed:', error)
+    return [document]
+  })
+  await invalidateCacheForDocuments(
+    Array.from(new Set([document.id, ...versions.map((version) => version.id)])),
+    'document processed'
+  )
+
+  await markIngestionJobCompleted(
+    job.id,
+    `Documento processato (${updatedDocument?.chunks_count ?? 0} chunks)`
+  )
+  await deleteArtifacts(job.id)
+}
+
+/**
+ * Processa i job in coda finché ce ne sono o fino all'esaurimento del time budget
+ *
+ * @param options - workerId, time budget (ms) e numero massimo di job
+ * @returns Conteggi dei job processati
+ */
+export async function runIngestionWorker(options: IngestionWorkerOptions = {}): Promise<IngestionWorkerResult> {
+  const {
+    workerId = `worker-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+    maxJobs = 10,
+  } = options
+
+  const startedAt = Date.now()
+  const result: IngestionWorkerResult = { processed: 0, completed: 0, retried: 0, failed: 0 }
+
+  while (result.processed < maxJobs && Date.now() - startedAt < timeBudgetMs) {
+    const job = await claimNextIngestionJob(workerId)
+    if (!job) {
+      break
+    }
+
+    result.processed++
+    console.log('[ingestion-worker] Claimed job:', {
+      jobId: job.id,
+      documentId: job.document_id,
+      attempt: job.attempts,
+      completedStages: job.completed_stages,
+    })
+
+    try {
+      await processIngestionJob(job)
+      result.completed++
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown processing error'
+      console.error('[ingestion-worker] Job failed:', { jobId: job.id, error: errorMessage })
+
+      const willRetry = await markIngestionJobFailed(job, errorMessage)
+      if (willRetry) {
+        result.retried++
+      } else {
+        result.failed++
+        await supabaseAdmin
+          .from('documents')
+          .update({ processing_status: 'error', error_message: errorMessage })
+          .eq('id', job.document_id)
+      }
+    }
+  }
+
+  console.log('[ingestion-worker] Run completed:', { workerId, ...result, elapsedMs: Date.now() - startedAt })
+
+  return result
+}
+
+/**
+ * Avvia il worker in una invocazione separata (fire-and-forget)
+ * L'invocazione continua anche se il client chiude la pagina; il cron recupera
+ * comunque i job rimasti in coda.
+ *
+ * @param origin - Origin dell'app (es. https://example.com)
+ */
+export async function triggerIngestionWorker(origin: string): Promise<void> {
+  const headers: Record<string, string> = {}
+  if (process.env.CRON_SECRET) {
+    headers.Authorization = `Bearer ${process.env.CRON_SECRET}`
+  }
+
+  try {
+    await fetch(`${origin}/api/ingestion/worker`, {
+      method: 'POST',
+      headers,
+      // Basta che la richiesta parta: non aspettiamo la fine del processing
+      signal: AbortSignal.timeout(1500),
+    })
+  } catch (error) {
+    if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return
+    }
+    console.warn('[ingestion-worker] Failed to trigger worker:', error)
+  }
+}
@@ -17,35 +17,6 @@ export interface KeywordExtractionResult {
   model: string
 }
 
-// Fallback system prompt (usato se Langfuse non è disponibile)
-const FALLBACK_SYSTEM_PROMPT = `Sei un esperto di analisi testuale e estrazione di keywords per sistemi di ricerca full-text.
-
-Il tuo compito è estrarre 8-15 keywords ottimali da un testo per migliorare la ricercabilità tramite BM25.
-
-PRIORITÀ KEYWORDS:
-1. Acronimi e sigle (es. CCNL, TFR, CIG, INPS)
-2. Termini tecnici specifici del dominio
-3. Numeri e riferimenti normativi (es. "articolo 28", "comma 3")
-4. Concetti chiave e entità (es. "ferie", "malattia", "licenziamento")
-5. Varianti lessicali importanti (es. "lavoratore" → "dipendente", "prestatore")
-
-REGOLE:
-- Ritorna SOLO le keywords, una per riga
-- NON includere parole comuni (articoli, preposizioni, congiunzioni)
-- NON includere verbi generici (essere, avere, fare, dire)
-- Preferisci SOSTANTIVI e TERMINI TECNICI
-- Mantieni acronimi in MAIUSCOLO
-- Normalizza al singolare (es. "lavoratori" → "lavoratore")
-- Includi numeri significativi (es. "28" per "articolo 28")
-
-Esempio di output corretto:
-CCNL
-retribuzione
-maggiorazione
-festivo
-straordinario
-art.36`
-
 /**
  * Estrae keywords da un chunk di testo usando LLM
  * 
@@ -74,21 +45,12 @@ export async function extractKeywordsLLM(
         .join('\n')
     : ''
 
-  // Fetch system prompt from Langfuse (con fallback)
-  let systemPrompt: string
-  try {
-    systemPrompt = await compilePrompt(
-      PROMPTS.KEYWORD_EXTRACTOR,
-      {}, // No variables needed for system prompt
-      { 
-        fallback: FALLBACK_SYSTEM_PROMPT,
-        label: 'production',
-      }
-    )
-  } catch (error) {
-    console.warn('[keyword-extraction] Failed to fetch Langfuse prompt, using fallback:', error)
-    systemPrompt = FALLBACK_SYSTEM_PROMPT
-  }
+  // Fetch system prompt from Langfuse (registry locale se non disponibile)
+  const systemPrompt = await compilePrompt(
+    PROMPTS.KEYWORD_EXTRACTOR,
+    {}, // No variables needed for system prompt
+    { label: 'production' }
+  )
 
   const userPrompt = `${contextStr ? contextStr + '\n\n' : ''}TESTO DA ANALIZZARE:
 ${content.slice(0, 2000)}${content.length > 2000 ? '...' : ''}
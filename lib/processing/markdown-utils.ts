@@ -0,0 +1,85 @@
+/**
+ * Markdown utilities
+ *
+ * Helper condivisi dagli extractor che convertono formati strutturati
+ * (XLSX, PPTX, HTML, EML) in markdown per structure detector e chunking
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  laquo: '«',
+  raquo: '»',
+  euro: '€',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  agrave: 'à',
+  egrave: 'è',
+  eacute: 'é',
+  igrave: 'ì',
+  ograve: 'ò',
+  ugrave: 'ù',
+  Agrave: 'À',
+  Egrave: 'È',
+  Eacute: 'É',
+}
+
+/**
+ * Decodifica entità XML/HTML (named e numeriche)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : match
+    }
+    return NAMED_ENTITIES[entity] ?? match
+  })
+}
+
+/**
+ * Rende una cella sicura per una tabella markdown (una riga, pipe escaped)
+ */
+export function escapeTableCell(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()
+}
+
+/**
+ * Costruisce una tabella markdown
+ *
+ * @param header - Intestazioni di colonna
+ * @param rows - Righe (vengono allineate al numero di colonne dell'header)
+ */
+export function renderMarkdownTable(header: string[], rows: string[][]): string {
+  const columns = Math.max(header.length, ...rows.map((row) => row.length))
+  const pad = (cells: string[]) =>
+    Array.from({ length: columns }, (_, i) => escapeTableCell(cells[i] ?? ''))
+
+  const lines = [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array.from({ length: columns }, () => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${pad(row).join(' | ')} |`),
+  ]
+  return lines.join('\n')
+}
+
+/**
+ * Risultato di un extractor che produce markdown
+ */
+export interface MarkdownExtraction {
+  text: string
+  metadata: Record<string, unknown>
+}
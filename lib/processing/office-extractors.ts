@@ -0,0 +1,456 @@
+/**
+ * Office extractors (XLSX, PPTX)
+ *
+ * Convertono fogli di calcolo e presentazioni in markdown leggendo direttamente
+ * l'Open XML con jszip (import dinamico):
+ * - XLSX: una sezione "## Sheet N: nome" per foglio, righe in tabella con il
+ *   numero di riga originale nella prima colonna (#14)
+ * - PPTX: una sezione "## Slide N: titolo" per slide, con testo, tabelle e note
+ *
+ * I marker di foglio/riga/slide vengono poi riletti da source-locations
+ * per salvare la posizione nei metadata dei chunks
+ */
+
+import { decodeEntities, renderMarkdownTable, type MarkdownExtraction } from './markdown-utils'
+
+type ZipArchive = import('jszip')
+
+interface Relationship {
+  target: string
+  type: string
+}
+
+async function loadZip(file: File): Promise<ZipArchive> {
+  const JSZip = (await import('jszip')).default
+  const arrayBuffer = await file.arrayBuffer()
+  return JSZip.loadAsync(arrayBuffer)
+}
+
+async function readZipText(zip: ZipArchive, path: string): Promise<string | null> {
+  const entry = zip.file(path)
+  return entry ? entry.async('string') : null
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`))
+  return match ? decodeEntities(match[1]) : null
+}
+
+/**
+ * Risolve il target di una relationship rispetto alla cartella della part
+ */
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1)
+  }
+
+  const parts = baseDir.split('/').filter(Boolean)
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      parts.pop()
+    } else if (segment !== '.' && segment !== '') {
+      parts.push(segment)
+    }
+  }
+  return parts.join('/')
+}
+
+async function readRelationships(zip: ZipArchive, partPath: string): Promise<Map<string, Relationship>> {
+  const dir = partPath.includes('/') ? partPath.slice(0, partPath.lastIndexOf('/')) : ''
+  const filename = partPath.slice(partPath.lastIndexOf('/') + 1)
+  const relsXml = await readZipText(zip, `${dir ? `${dir}/` : ''}_rels/${filename}.rels`)
+
+  const relationships = new Map<string, Relationship>()
+  if (!relsXml) {
+    return relationships
+  }
+
+  for (const match of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = getAttribute(match[0], 'Id')
+    const target = getAttribute(match[0], 'Target')
+    if (id && target && getAttribute(match[0], 'TargetMode') !== 'External') {
+      relationships.set(id, {
+        target: resolvePartPath(dir, target),
+        type: getAttribute(match[0], 'Type') || '',
+      })
+    }
+  }
+  return relationships
+}
+
+/**
+ * Concatena il testo dei run (<t> / <a:t>) di un frammento XML
+ */
+function collectText(xml: string, tag: string): string {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')
+  return Array.from(xml.matchAll(pattern), (m) => decodeEntities(m[1])).join('')
+}
+
+// ==================== XLSX ====================
+
+// Formati numerici built-in di Excel che rappresentano date/orari
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+/**
+ * Indici di stile (cellXfs) che formattano la cella come data
+ */
+function parseDateStyles(stylesXml: string | null): Set<number> {
+  const dateStyles = new Set<number>()
+  if (!stylesXml) {
+    return dateStyles
+  }
+
+  const customDateFormats = new Set<number>()
+  for (const match of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = Number(getAttribute(match[0], 'numFmtId'))
+    const code = (getAttribute(match[0], 'formatCode') || '')
+      .replace(/"[^"]*"/g, '')
+      .replace(/\[[^\]]*\]/g, '')
+      .replace(/\\./g, '')
+    if (/[dmy]/i.test(code)) {
+      customDateFormats.add(id)
+    }
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)
+  if (!cellXfs) {
+    return dateStyles
+  }
+
+  let index = 0
+  for (const match of cellXfs[1].matchAll(/<xf\b[^>]*>/g)) {
+    const numFmtId = Number(getAttribute(match[0], 'numFmtId') || 0)
+    if (BUILTIN_DATE_FORMATS.has(numFmtId) || customDateFormats.has(numFmtId)) {
+      dateStyles.add(index)
+    }
+    index++
+  }
+  return dateStyles
+}
+
+/**
+ * Converte un seriale Excel (sistema 1900) in data ISO
+ */
+function excelSerialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000))
+  if (Number.isNaN(date.getTime())) {
+    return String(serial)
+  }
+  const iso = date.toISOString()
+  return serial % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+}
+
+function parseSharedStrings(xml: string | null): string[] {
+  if (!xml) {
+    return []
+  }
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), (m) =>
+    // rPh = guide fonetiche (giapponese), non fanno parte del testo
+    collectText(m[1].replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't')
+  )
+}
+
+/**
+ * Indice di colonna (0-based) dal riferimento di cella ("B14" → 1)
+ */
+function columnIndexFromRef(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || ''
+  let index = 0
+  for (const char of letters) {
+    index = index * 26 + (char.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+function formatNumber(value: string): string {
+  const num = Number(value)
+  // Rimuove il rumore floating point (0.30000000000000004 → 0.3)
+  return Number.isFinite(num) ? String(parseFloat(num.toPrecision(15))) : value
+}
+
+function readCellValue(
+  attributes: string,
+  body: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>
+): string {
+  const type = getAttribute(attributes, 't')
+  const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(rawValue)] ?? ''
+    case 'inlineStr':
+      return collectText(body, 't')
+    case 'b':
+      return rawValue === '1' ? 'TRUE' : 'FALSE'
+    case 'str':
+    case 'e':
+      return rawValue ? decodeEntities(rawValue) : ''
+    default: {
+      if (rawValue === undefined) {
+        return ''
+      }
+      const style = Number(getAttribute(attributes, 's') || -1)
+      return dateStyles.has(style) ? excelSerialToDate(Number(rawValue)) : formatNumber(rawValue)
+    }
+  }
+}
+
+interface SheetRow {
+  rowNumber: number
+  cells: string[]
+}
+
+function parseSheetRows(sheetXml: string, sharedStrings: string[], dateStyles: Set<number>): SheetRow[] {
+  const rows: SheetRow[] = []
+  let fallbackRowNumber = 0
+
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(getAttribute(rowMatch[1], 'r')) || fallbackRowNumber + 1
+    fallbackRowNumber = rowNumber
+
+    const cells: string[] = []
+    let fallbackColumn = 0
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = getAttribute(cellMatch[1], 'r')
+      const column = ref ? columnIndexFromRef(ref) : fallbackColumn
+      fallbackColumn = column + 1
+      cells[column] = readCellValue(cellMatch[1], cellMatch[2] || '', sharedStrings, dateStyles).trim()
+    }
+
+    const normalized = Array.from(cells, (cell) => cell ?? '')
+    if (normalized.some((cell) => cell !== '')) {
+      rows.push({ rowNumber, cells: normalized })
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Estrae un foglio di calcolo XLSX come markdown
+ *
+ * La prima riga non vuota di ogni foglio è usata come intestazione; la colonna "#"
+ * riporta il numero di riga del foglio originale (per citazioni "Sheet 2, row 14")
+ *
+ * @param file - File XLSX
+ * @returns Markdown e metadata (numero fogli e righe)
+ */
+export async function extractTextFromXLSX(file: File): Promise<MarkdownExtraction> {
+  const zip = await loadZip(file)
+
+  const workbookXml = await readZipText(zip, 'xl/workbook.xml')
+  if (!workbookXml) {
+    throw new Error('Invalid XLSX file: missing xl/workbook.xml')
+  }
+
+  const relationships = await readRelationships(zip, 'xl/workbook.xml')
+  const sharedStrings = parseSharedStrings(await readZipText(zip, 'xl/sharedStrings.xml'))
+  const dateStyles = parseDateStyles(await readZipText(zip, 'xl/styles.xml'))
+
+  const sections: string[] = []
+  const sheets: Array<{ index: number; name: string; rows: number }> = []
+  let sheetIndex = 0
+
+  for (const sheetMatch of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+    sheetIndex++
+    const name = getAttribute(sheetMatch[0], 'name') || `Sheet${sheetIndex}`
+    const relId = getAttribute(sheetMatch[0], 'r:id')
+    const relationship = relId ? relationships.get(relId) : undefined
+    const sheetXml = relationship ? await readZipText(zip, relationship.target) : null
+
+    if (!sheetXml) {
+      // Chartsheet o part mancante: nessun dato tabellare
+      continue
+    }
+
+    const rows = parseSheetRows(sheetXml, sharedStrings, dateStyles)
+    if (rows.length === 0) {
+      continue
+    }
+
+    const [headerRow, ...dataRows] = rows
+    const columns = Math.max(...rows.map((row) => row.cells.length))
+    const header = Array.from({ length: columns }, (_, i) =>
+      headerRow.cells[i] || String.fromCharCode(65 + (i % 26))
+    )
+
+    const table = renderMarkdownTable(
+      ['#', ...header],
+      dataRows.map((row) => [`#${row.rowNumber}`, ...row.cells])
+    )
+
+    sections.push(`## Sheet ${sheetIndex}: ${name}\n\n${table}`)
+    sheets.push({ index: sheetIndex, name, rows: dataRows.length })
+  }
+
+  console.log(`[office-extractors] XLSX ${file.name}: ${sheets.length} sheets with data`)
+
+  return {
+    text: sections.join('\n\n'),
+    metadata: {
+      sheetCount: sheets.length,
+      rowCount: sheets.reduce((sum, sheet) => sum + sheet.rows, 0),
+    },
+  }
+}
+
+// ==================== PPTX ====================
+
+/**
+ * Paragrafi (<a:p>) di un frammento DrawingML, con livello di indentazione
+ */
+function extractParagraphs(xml: string): Array<{ text: string; level: number }> {
+  const paragraphs: Array<{ text: string; level: number }> = []
+
+  for (const match of xml.matchAll(/<a:p>([\s\S]*?)<\/a:p>|<a:p\s[^>]*>([\s\S]*?)<\/a:p>/g)) {
+    const body = (match[1] ?? match[2] ?? '').replace(/<a:br\s*\/>/g, '<a:t> </a:t>')
+    const text = collectText(body, 'a:t').replace(/\s+/g, ' ').trim()
+    if (text) {
+      const level = Number(body.match(/<a:pPr\b[^>]*\slvl="(\d+)"/)?.[1] || 0)
+      paragraphs.push({ text, level })
+    }
+  }
+  return paragraphs
+}
+
+function renderDrawingTable(tableXml: string): string | null {
+  const rows = Array.from(tableXml.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g), (rowMatch) =>
+    Array.from(rowMatch[0].matchAll(/<a:tc\b[\s\S]*?<\/a:tc>/g), (cellMatch) =>
+      extractParagraphs(cellMatch[0]).map((p) => p.text).join(' ')
+    )
+  ).filter((row) => row.some((cell) => cell !== ''))
+
+  if (rows.length === 0) {
+    return null
+  }
+
+  const [header, ...body] = rows
+  return renderMarkdownTable(header, body)
+}
+
+function getPlaceholderType(shapeXml: string): string | null {
+  const placeholder = shapeXml.match(/<p:ph\b[^>]*>/)
+  if (!placeholder) {
+    return null
+  }
+  return getAttribute(placeholder[0], 'type') || 'body'
+}
+
+interface SlideContent {
+  title: string
+  blocks: string[]
+}
+
+function parseSlide(slideXml: string): SlideContent {
+  let title = ''
+  const blocks: string[] = []
+
+  for (const match of slideXml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>|<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>/g)) {
+    const shapeXml = match[0]
+
+    if (shapeXml.startsWith('<p:graphicFrame')) {
+      const table = shapeXml.match(/<a:tbl\b[\s\S]*?<\/a:tbl>/)
+      const rendered = table ? renderDrawingTable(table[0]) : null
+      if (rendered) {
+        blocks.push(rendered)
+      }
+      continue
+    }
+
+    const placeholderType = getPlaceholderType(shapeXml)
+    // Numero slide, data e footer non sono contenuto
+    if (placeholderType === 'sldNum' || placeholderType === 'dt' || placeholderType === 'ftr') {
+      continue
+    }
+
+    const paragraphs = extractParagraphs(shapeXml)
+    if (paragraphs.length === 0) {
+      continue
+    }
+
+    if (!title && (placeholderType === 'title' || placeholderType === 'ctrTitle')) {
+      title = paragraphs.map((p) => p.text).join(' ')
+      continue
+    }
+
+    blocks.push(paragraphs.map((p) => `${'  '.repeat(p.level)}- ${p.text}`).join('\n'))
+  }
+
+  return { title, blocks }
+}
+
+/**
+ * Testo delle note del relatore (solo il placeholder body)
+ */
+function parseNotes(notesXml: string): string {
+  const notes: string[] = []
+  for (const match of notesXml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)) {
+    if (getPlaceholderType(match[0]) === 'body') {
+      notes.push(...extractParagraphs(match[0]).map((p) => p.text))
+    }
+  }
+  return notes.join(' ')
+}
+
+/**
+ * Estrae una presentazione PPTX come markdown
+ *
+ * Le slide seguono l'ordine della presentazione (non quello dei file nello ZIP);
+ * ogni slide diventa una sezione "## Slide N: titolo" con testo, tabelle e note
+ *
+ * @param file - File PPTX
+ * @returns Markdown e metadata (numero slide)
+ */
+export async function extractTextFromPPTX(file: File): Promise<MarkdownExtraction> {
+  const zip = await loadZip(file)
+
+  const presentationXml = await readZipText(zip, 'ppt/presentation.xml')
+  if (!presentationXml) {
+    throw new Error('Invalid PPTX file: missing ppt/presentation.xml')
+  }
+
+  const relationships = await readRelationships(zip, 'ppt/presentation.xml')
+  const slideIds = presentationXml.match(/<p:sldIdLst>([\s\S]*?)<\/p:sldIdLst>/)?.[1] || ''
+
+  const sections: string[] = []
+  let slideNumber = 0
+  let slidesWithNotes = 0
+
+  for (const slideMatch of slideIds.matchAll(/<p:sldId\b[^>]*>/g)) {
+    slideNumber++
+    const relId = getAttribute(slideMatch[0], 'r:id')
+    const slidePath = relId ? relationships.get(relId)?.target : undefined
+    const slideXml = slidePath ? await readZipText(zip, slidePath) : null
+
+    if (!slidePath || !slideXml) {
+      continue
+    }
+
+    const { title, blocks } = parseSlide(slideXml)
+
+    const slideRels = await readRelationships(zip, slidePath)
+    const notesRel = Array.from(slideRels.values()).find((rel) => rel.type.endsWith('/notesSlide'))
+    const notesXml = notesRel ? await readZipText(zip, notesRel.target) : null
+    const notes = notesXml ? parseNotes(notesXml) : ''
+
+    if (notes) {
+      blocks.push(`**Note:** ${notes}`)
+      slidesWithNotes++
+    }
+
+    const heading = title ? `## Slide ${slideNumber}: ${title}` : `## Slide ${slideNumber}`
+    sections.push([heading, ...blocks].join('\n\n'))
+  }
+
+  console.log(`[office-extractors] PPTX ${file.name}: ${slideNumber} slides`)
+
+  return {
+    text: sections.join('\n\n'),
+    metadata: {
+      slideCount: slideNumber,
+      slidesWithNotes,
+    },
+  }
+}
@@ -5,6 +5,7 @@
  * - Non spezza mai le frasi a metà
  * - Raggruppa frasi semanticamente vicine
  * - Usa overlap contestuale (ultima frase del chunk precedente)
+ * - Mantiene intere le tabelle markdown (spezzate per righe se troppo grandi)
  * - Produce chunks più coerenti per embeddings migliori
  * 
  * Benefici vs fixed-size chunking:
@@ -13,6 +14,8 @@
  * - 0 costi aggiuntivi (no embedding per frase)
  */
 
+import { splitTableBlocks, splitTableByRows } from './table-chunking'
+
 // Import tiktoken dinamicamente per evitare problemi WASM
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let encoding_for_model: any = null
@@ -132,7 +135,69 @@ export async function sentenceAwareChunking(
   }
 
   // Altrimenti chunking plain text
-  return chunkPlainTextBySentences(text, targetTokens, maxTokens, minTokens)
+  return chunkTextWithTables(text, targetTokens, maxTokens, minTokens)
+}
+
+/**
+ * Chunka testo trattando le tabelle markdown come unità atomiche
+ * Il testo fuori dalle tabelle segue il normale chunking per frasi
+ */
+async function chunkTextWithTables(
+  text: string,
+  targetTokens: number,
+  maxTokens: number,
+  minTokens: number
+): Promise<SentenceChunk[]> {
+  const blocks = splitTableBlocks(text)
+
+  if (!blocks.some((block) => block.type === 'table')) {
+    return chunkPlainTextBySentences(text, targetTokens, maxTokens, minTokens)
+  }
+
+  const chunks: SentenceChunk[] = []
+
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      const textChunks = await chunkPlainTextBySentences(block.content, targetTokens, maxTokens, minTokens)
+      for (const chunk of textChunks) {
+        chunks.push({
+          ...chunk,
+          metadata: {
+            ...chunk.metadata,
+            charStart: block.start + chunk.metadata.charStart,
+            charEnd: block.start + chunk.metadata.charEnd,
+          },
+        })
+      }
+      continue
+    }
+
+    // Tabelle grandi: gruppi di righe con intestazione ripetuta
+    const groups = await splitTableByRows(block.content, maxTokens, block.caption, countTokens)
+    if (groups.length > 1) {
+      console.log(`[sentence-chunking] Table split into ${groups.length} row groups`)
+    }
+
+    for (const group of groups) {
+      chunks.push({
+        content: group,
+        chunkIndex: 0,
+        metadata: {
+          tokenCount: await countTokens(group),
+          // Per le tabelle conta le righe dati (escluse intestazione e separatore)
+          sentenceCount: group.split('\n').filter((line) => line.includes('|')).length - 2,
+          charStart: block.start,
+          charEnd: block.end,
+          contentType: 'table',
+          hasOverlap: false,
+        },
+      })
+    }
+  }
+
+  console.log(`[sentence-chunking] Created ${chunks.length} chunks (with tables)`)
+
+  return chunks.map((chunk, index) => ({ ...chunk, chunkIndex: index }))
 }
 
 /**
@@ -322,8 +387,8 @@ async function chunkMarkdownBySentences(
   let chunkIndex = 0
 
   for (const section of sections) {
-    // Chunka ogni sezione usando sentence-aware
-    const sectionChunks = await chunkPlainTextBySentences(
+    // Chunka ogni sezione usando sentence-aware (tabelle come unità atomiche)
+    const sectionChunks = await chunkTextWithTables(
       section.content,
       targetTokens,
       maxTokens,
@@ -488,7 +553,8 @@ function detectContentType(
 ): 'paragraph' | 'heading' | 'list' | 'table' | 'mixed' {
   const hasHeader = /^#{1,6}\s+/m.test(text)
   const hasList = /^[\-\*\+]\s+/m.test(text) || /^\d+\.\s+/m.test(text)
-  const hasTable = /\|.*\|/m.test(text)
+  // Tabella markdown solo con riga separatore (| --- |), non per pipe isolate nel testo
+  const hasTable = /\|\s*:?-+:?\s*\|/.test(text)
 
   const indicators = [hasHeader, hasList, hasTable].filter(Boolean).length
 
@@ -0,0 +1,161 @@
+/**
+ * Source locations
+ *
+ * Ricava dai chunks di fogli di calcolo e presentazioni la posizione nel
+ * documento originale (foglio/righe o slide), leggendo i marker prodotti
+ * dagli office extractors ("## Sheet N: nome", "| #14 |", "## Slide N").
+ * La posizione finisce nei metadata del chunk e nelle citazioni
+ */
+
+import type { AdaptiveChunk } from './adaptive-chunking'
+
+export type SourceType = 'spreadsheet' | 'presentation' | 'html' | 'markdown' | 'email'
+
+export interface SourceLocationMetadata {
+  sheetIndex?: number
+  sheetName?: string
+  rowStart?: number
+  rowEnd?: number
+  slideNumber?: number
+  slideEnd?: number
+  locationLabel?: string
+}
+
+export type LocatedChunk = AdaptiveChunk & {
+  metadata: AdaptiveChunk['metadata'] & SourceLocationMetadata
+}
+
+const SHEET_MARKER = /(?:^|#{1,6}\s+)Sheet (\d+): (.+?)(?=\s*(?:\||#{1,6}\s|$))/gm
+const ROW_MARKER = /\|\s*#(\d+)\s*(?=\|)/g
+const SLIDE_MARKER = /(?:^|#{1,6}\s+)Slide (\d+)\b/gm
+
+/**
+ * Etichetta leggibile per una posizione ("Slide 7", "Sheet 2 (Costi), rows 14-20")
+ */
+export function formatLocationLabel(location: SourceLocationMetadata): string | undefined {
+  if (location.slideNumber !== undefined) {
+    return location.slideEnd !== undefined && location.slideEnd !== location.slideNumber
+      ? `Slides ${location.slideNumber}-${location.slideEnd}`
+      : `Slide ${location.slideNumber}`
+  }
+
+  if (location.sheetIndex !== undefined) {
+    const sheet = location.sheetName
+      ? `Sheet ${location.sheetIndex} (${location.sheetName})`
+      : `Sheet ${location.sheetIndex}`
+    if (location.rowStart === undefined) {
+      return sheet
+    }
+    return location.rowEnd !== undefined && location.rowEnd !== location.rowStart
+      ? `${sheet}, rows ${location.rowStart}-${location.rowEnd}`
+      : `${sheet}, row ${location.rowStart}`
+  }
+
+  return undefined
+}
+
+function annotateSpreadsheetChunks(chunks: AdaptiveChunk[]): LocatedChunk[] {
+  let currentSheet: { index: number; name: string } | undefined
+
+  return chunks.map((chunk) => {
+    // Un chunk può iniziare a metà foglio: eredita il foglio del chunk precedente
+    const sheetAtStart = currentSheet
+    const text = `${chunk.metadata.sectionTitle ?? ''}\n${chunk.content}`
+
+    const sheetMarkers = Array.from(text.matchAll(SHEET_MARKER))
+    const rows = Array.from(chunk.content.matchAll(ROW_MARKER), (m) => Number(m[1]))
+
+    const lastSheet = sheetMarkers[sheetMarkers.length - 1]
+    if (lastSheet) {
+      currentSheet = { index: Number(lastSheet[1]), name: lastSheet[2].trim() }
+    }
+
+    // Le righe citate appartengono al primo foglio che compare nel chunk
+    const firstSheet = sheetMarkers[0]
+      ? { index: Number(sheetMarkers[0][1]), name: sheetMarkers[0][2].trim() }
+      : sheetAtStart
+
+    if (!firstSheet) {
+      return chunk
+    }
+
+    const location: SourceLocationMetadata = {
+      sheetIndex: firstSheet.index,
+      sheetName: firstSheet.name,
+    }
+    if (rows.length > 0) {
+      location.rowStart = Math.min(...rows)
+      location.rowEnd = Math.max(...rows)
+    }
+
+    return {
+      ...chunk,
+      metadata: {
+        ...chunk.metadata,
+        ...location,
+        locationLabel: formatLocationLabel(location),
+      },
+    }
+  })
+}
+
+function annotatePresentationChunks(chunks: AdaptiveChunk[]): LocatedChunk[] {
+  let currentSlide: number | undefined
+
+  return chunks.map((chunk) => {
+    // Solo gli heading di slide, non le menzioni nel testo ("vedi Slide 3")
+    const titleSlide = chunk.metadata.sectionTitle?.match(/^Slide (\d+)\b/)?.[1]
+    const headingSlides = Array.from(chunk.content.matchAll(SLIDE_MARKER), (m) => Number(m[1]))
+    const startsWithHeading = /^(?:#{1,6}\s+)?Slide \d+/.test(chunk.content.trimStart())
+
+    // Un chunk può iniziare a metà slide: eredita la slide del chunk precedente
+    const first = titleSlide !== undefined
+      ? Number(titleSlide)
+      : startsWithHeading ? headingSlides[0] : currentSlide ?? headingSlides[0]
+
+    if (headingSlides.length > 0) {
+      currentSlide = headingSlides[headingSlides.length - 1]
+    } else if (first !== undefined) {
+      currentSlide = first
+    }
+
+    if (first === undefined) {
+      return chunk
+    }
+
+    const last = Math.max(first, ...headingSlides)
+    const location: SourceLocationMetadata = {
+      slideNumber: first,
+      ...(last !== first ? { slideEnd: last } : {}),
+    }
+
+    return {
+      ...chunk,
+      metadata: {
+        ...chunk.metadata,
+        ...location,
+        locationLabel: formatLocationLabel(location),
+      },
+    }
+  })
+}
+
+/**
+ * Aggiunge ai chunks la posizione nel documento originale
+ *
+ * @param chunks - Chunks prodotti da adaptiveChunking (in ordine)
+ * @param sourceType - Tipo di sorgente riportato dall'extractor
+ * @returns Chunks con sheetIndex/rowStart/rowEnd o slideNumber e locationLabel
+ */
+export function annotateSourceLocations(
+  chunks: AdaptiveChunk[],
+  sourceType: SourceType | undefined
+): LocatedChunk[] {
+  if (sourceType === 'spreadsheet') {
+    return annotateSpreadsheetChunks(chunks)
+  }
+  if (sourceType === 'presentation') {
+    return annotatePresentationChunks(chunks)
+  }
+  return chunks
+}
@@ -0,0 +1,64 @@
+/**
+ * Supported document formats
+ *
+ * Elenco condiviso (client e server) dei formati accettati per l'ingestion
+ */
+
+export const MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  html: 'text/html',
+  markdown: 'text/markdown',
+  eml: 'message/rfc822',
+} as const
+
+export const SUPPORTED_MIME_TYPES: string[] = Object.values(MIME_TYPES)
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: MIME_TYPES.pdf,
+  docx: MIME_TYPES.docx,
+  txt: MIME_TYPES.txt,
+  xlsx: MIME_TYPES.xlsx,
+  pptx: MIME_TYPES.pptx,
+  html: MIME_TYPES.html,
+  htm: MIME_TYPES.html,
+  md: MIME_TYPES.markdown,
+  markdown: MIME_TYPES.markdown,
+  eml: MIME_TYPES.eml,
+}
+
+export const SUPPORTED_EXTENSIONS: string[] = Object.keys(EXTENSION_MIME_TYPES)
+
+export const SUPPORTED_FORMATS_LABEL = 'PDF, DOCX, TXT, XLSX, PPTX, HTML, Markdown, EML'
+
+/**
+ * Determina il MIME type dall'estensione del file
+ *
+ * @returns MIME type supportato, o null se l'estensione non è supportata
+ */
+export function getMimeTypeFromFilename(filename: string): string | null {
+  const ext = filename.toLowerCase().split('.').pop() || ''
+  return EXTENSION_MIME_TYPES[ext] ?? null
+}
+
+/**
+ * Normalizza il MIME type dichiarato dal browser
+ *
+ * I browser non sono coerenti (.md spesso arriva senza type o come text/x-markdown,
+ * .eml come application/octet-stream): in quei casi vale l'estensione
+ *
+ * @param filename - Nome del file
+ * @param reportedType - MIME type dichiarato (File.type)
+ * @returns MIME type supportato, o null se il file non è supportato
+ */
+export function resolveMimeType(filename: string, reportedType?: string | null): string | null {
+  const type = (reportedType || '').toLowerCase()
+  if (SUPPORTED_MIME_TYPES.includes(type) && type !== MIME_TYPES.txt) {
+    return type
+  }
+  // text/plain può essere un .md o un .eml: l'estensione è più precisa
+  return getMimeTypeFromFilename(filename) ?? (type === MIME_TYPES.txt ? type : null)
+}
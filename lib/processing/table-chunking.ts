@@ -0,0 +1,167 @@
+/**
+ * Table-Aware Chunking
+ *
+ * Individua le tabelle markdown (output di Mistral OCR e degli extractor
+ * XLSX/PPTX/HTML) e le tratta come unità atomiche:
+ * - Il testo attorno alle tabelle segue il normale sentence-aware chunking
+ * - Una tabella che sta in maxTokens diventa un chunk unico
+ * - Una tabella troppo grande viene spezzata per gruppi di righe, ripetendo
+ *   l'intestazione (e l'eventuale heading che la precede) in ogni chunk
+ */
+
+export interface TextBlock {
+  type: 'text' | 'table'
+  content: string
+  start: number
+  end: number
+  // Heading immediatamente precedente la tabella, ripetuto in ogni gruppo di righe
+  caption?: string
+}
+
+// Riga separatore GFM: | --- | :---: | --: |
+const SEPARATOR_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+function isTableRow(line: string): boolean {
+  return line.includes('|') && line.trim().length > 0
+}
+
+function isHeadingOnly(text: string): boolean {
+  const lines = text.split('\n').filter((line) => line.trim().length > 0)
+  return lines.length > 0 && lines.every((line) => /^#{1,6}\s+/.test(line.trim()))
+}
+
+/**
+ * Conta token usando approssimazione
+ * 1 token ≈ 4 caratteri (approssimazione standard)
+ */
+async function approximateTokenCount(text: string): Promise<number> {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  return Math.ceil(normalized.length / 4)
+}
+
+/**
+ * Separa il testo in blocchi di testo e tabelle markdown
+ *
+ * Una tabella è riconosciuta solo con riga di intestazione + separatore GFM,
+ * così il testo con pipe occasionali non viene scambiato per tabella
+ *
+ * @param text - Testo (markdown o plain)
+ * @returns Blocchi in ordine, con offset nel testo originale
+ */
+export function splitTableBlocks(text: string): TextBlock[] {
+  const lines = text.split('\n')
+  const blocks: TextBlock[] = []
+
+  let offset = 0
+  let textStart = 0
+  let textLines: string[] = []
+
+  const flushText = (end: number) => {
+    const content = textLines.join('\n')
+    if (content.trim().length > 0) {
+      blocks.push({ type: 'text', content, start: textStart, end })
+    }
+    textLines = []
+  }
+
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+
+    // Il separatore deve contenere una pipe: "---" da solo è una linea orizzontale
+    const next = lines[i + 1]
+    if (isTableRow(line) && next !== undefined && next.includes('|') && SEPARATOR_ROW.test(next)) {
+      flushText(offset)
+
+      const tableStart = offset
+      const tableLines = [line, next]
+      offset += line.length + 1 + next.length + 1
+      i += 2
+
+      while (i < lines.length && isTableRow(lines[i])) {
+        tableLines.push(lines[i])
+        offset += lines[i].length + 1
+        i++
+      }
+
+      // Un heading subito prima della tabella ne è la didascalia
+      const previous = blocks[blocks.length - 1]
+      let caption: string | undefined
+      if (previous?.type === 'text' && previous.end === tableStart && isHeadingOnly(previous.content)) {
+        blocks.pop()
+        caption = previous.content.trim()
+      }
+
+      blocks.push({
+        type: 'table',
+        content: tableLines.join('\n'),
+        start: caption && previous ? previous.start : tableStart,
+        end: offset - 1,
+        caption,
+      })
+      textStart = offset
+      continue
+    }
+
+    if (textLines.length === 0) {
+      textStart = offset
+    }
+    textLines.push(line)
+    offset += line.length + 1
+    i++
+  }
+
+  flushText(Math.min(offset, text.length))
+  return blocks
+}
+
+/**
+ * Spezza una tabella in gruppi di righe che stanno in maxTokens
+ *
+ * Ogni gruppo ripete didascalia, intestazione e separatore, così ogni chunk
+ * resta una tabella markdown valida e leggibile da sola
+ *
+ * @param table - Tabella markdown (intestazione, separatore, righe)
+ * @param maxTokens - Dimensione massima di ogni gruppo
+ * @param caption - Heading da ripetere sopra ogni gruppo
+ * @param countTokens - Token counter (default: approssimazione 4 caratteri/token)
+ * @returns Tabelle markdown, una per chunk
+ */
+export async function splitTableByRows(
+  table: string,
+  maxTokens: number,
+  caption?: string,
+  countTokens: (text: string) => Promise<number> = approximateTokenCount
+): Promise<string[]> {
+  const [headerLine, separatorLine, ...rows] = table.split('\n')
+  const prefix = caption ? `${caption}\n\n` : ''
+  const header = `${prefix}${headerLine}\n${separatorLine}`
+
+  if (rows.length <= 1 || (await countTokens(`${header}\n${rows.join('\n')}`)) <= maxTokens) {
+    return [[header, ...rows].join('\n')]
+  }
+
+  const headerTokens = await countTokens(header)
+  const groups: string[] = []
+  let currentRows: string[] = []
+  let currentTokens = headerTokens
+
+  for (const row of rows) {
+    // +1 per il newline tra le righe
+    const rowTokens = (await countTokens(row)) + 1
+    // Una riga enorme finisce comunque da sola nel suo gruppo
+    if (currentTokens + rowTokens > maxTokens && currentRows.length > 0) {
+      groups.push([header, ...currentRows].join('\n'))
+      currentRows = []
+      currentTokens = headerTokens
+    }
+    currentRows.push(row)
+    currentTokens += rowTokens
+  }
+
+  if (currentRows.length > 0) {
+    groups.push([header, ...currentRows].join('\n'))
+  }
+
+  return groups
+}
@@ -0,0 +1,361 @@
+/**
+ * Version Diff
+ *
+ * Confronta due versioni di un documento allineandole per struttura:
+ * - Articoli ("Articolo N") allineati per numero
+ * - Capitoli allineati per numero
+ * - Sezioni allineate per titolo
+ * - Fallback testuale: paragrafi allineati per contenuto
+ *
+ * Ogni unità allineata viene classificata come aggiunta, rimossa, modificata
+ * o invariata; le unità modificate includono il diff riga per riga.
+ */
+
+import { detectDocumentStructure, type DocumentStructure } from './structure-detector'
+
+export type DiffStrategy = 'articles' | 'chapters' | 'sections' | 'text'
+
+export type SectionChangeType = 'added' | 'removed' | 'modified' | 'unchanged'
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+export interface DocumentUnit {
+  key: string // Chiave di allineamento tra versioni (es. "art:28")
+  title: string
+  content: string
+}
+
+export interface SectionDiff {
+  key: string
+  title: string
+  change: SectionChangeType
+  oldContent?: string
+  newContent?: string
+  lines: DiffLine[] // Diff riga per riga (vuoto per le unità invariate)
+}
+
+export interface VersionDiff {
+  strategy: DiffStrategy
+  sections: SectionDiff[]
+  stats: Record<SectionChangeType, number>
+}
+
+// Oltre questa soglia (righe vecchie × righe nuove) il diff riga per riga mostra
+// il blocco come interamente sostituito, per non bloccare il server
+const MAX_LCS_CELLS = 1_000_000
+
+const PREAMBLE_KEY = 'preamble'
+
+interface UnitMarker {
+  key: string
+  title: string
+  start: number
+}
+
+/**
+ * Sceglie la strategia di allineamento in base alla struttura delle due versioni
+ * Basta che una delle due versioni abbia il pattern (es. il primo articolo aggiunto)
+ */
+export function chooseDiffStrategy(oldStructure: DocumentStructure, newStructure: DocumentStructure): DiffStrategy {
+  const has = (key: keyof DocumentStructure['patterns']) =>
+    (oldStructure.patterns[key]?.length ?? 0) > 0 || (newStructure.patterns[key]?.length ?? 0) > 0
+
+  if (has('articles')) return 'articles'
+  if (has('chapters')) return 'chapters'
+  if (has('sections')) return 'sections'
+  return 'text'
+}
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function getMarkers(structure: DocumentStructure, strategy: DiffStrategy): UnitMarker[] {
+  switch (strategy) {
+    case 'articles':
+      return (structure.patterns.articles ?? []).map((a) => ({
+        key: `art:${a.number}`,
+        title: `Articolo ${a.number}`,
+        start: a.start,
+      }))
+    case 'chapters':
+      return (structure.patterns.chapters ?? []).map((c) => ({
+        key: `cap:${normalizeKey(String(c.number))}`,
+        title: c.title ? `Capitolo ${c.number}: ${c.title}` : `Capitolo ${c.number}`,
+        start: c.start,
+      }))
+    case 'sections':
+      return (structure.patterns.sections ?? []).map((s) => ({
+        key: `sec:${normalizeKey(s.title)}`,
+        title: s.title,
+        start: s.start,
+      }))
+    default:
+      return []
+  }
+}
+
+/**
+ * Divide il testo in unità usando le posizioni di inizio dei pattern strutturali
+ * Ogni unità va dal proprio marker al successivo, così nessuna parte del testo viene persa
+ */
+function splitByMarkers(text: string, markers: UnitMarker[]): DocumentUnit[] {
+  const sorted = [...markers].sort((a, b) => a.start - b.start)
+  const units: DocumentUnit[] = []
+  const occurrences = new Map<string, number>()
+
+  const preamble = text.slice(0, sorted[0]?.start ?? text.length).trim()
+  if (preamble) {
+    units.push({ key: PREAMBLE_KEY, title: 'Premessa', content: preamble })
+  }
+
+  sorted.forEach((marker, index) => {
+    const end = sorted[index + 1]?.start ?? text.length
+    const content = text.slice(marker.start, end).trim()
+    if (!content) return
+
+    // Stesso marker ripetuto (es. riferimenti "Art. 5" a inizio riga): chiave con occorrenza
+    const occurrence = (occurrences.get(marker.key) ?? 0) + 1
+    occurrences.set(marker.key, occurrence)
+
+    units.push({
+      key: occurrence > 1 ? `${marker.key}#${occurrence}` : marker.key,
+      title: marker.title,
+      content,
+    })
+  })
+
+  return units
+}
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+}
+
+function paragraphTitle(paragraph: string): string {
+  const firstLine = paragraph.split('\n')[0].trim()
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine
+}
+
+/**
+ * Indici delle coppie allineate dalla longest common subsequence
+ * Ritorna null se l'input è troppo grande per la tabella LCS
+ */
+function longestCommonSubsequence<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<[number, number]> | null {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return null
+  }
+
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equals(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  const pairs: Array<[number, number]> = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      pairs.push([i, j])
+      i++
+      j++
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return pairs
+}
+
+/**
+ * Diff riga per riga tra due testi
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n')
+  const newLines = newText.split('\n')
+  const pairs = longestCommonSubsequence(oldLines, newLines, (x, y) => x.trim() === y.trim())
+
+  if (!pairs) {
+    return [
+      ...oldLines.map((text) => ({ type: 'removed' as const, text })),
+      ...newLines.map((text) => ({ type: 'added' as const, text })),
+    ]
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  for (const [pairI, pairJ] of [...pairs, [oldLines.length, newLines.length] as [number, number]]) {
+    while (i < pairI) lines.push({ type: 'removed', text: oldLines[i++] })
+    while (j < pairJ) lines.push({ type: 'added', text: newLines[j++] })
+    if (i < oldLines.length && j < newLines.length) {
+      lines.push({ type: 'equal', text: newLines[j] })
+      i++
+      j++
+    }
+  }
+  return lines
+}
+
+function sameContent(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim()
+}
+
+function compareUnits(oldUnit: DocumentUnit | undefined, newUnit: DocumentUnit | undefined): SectionDiff {
+  if (oldUnit && newUnit) {
+    const unchanged = sameContent(oldUnit.content, newUnit.content)
+    return {
+      key: newUnit.key,
+      title: newUnit.title,
+      change: unchanged ? 'unchanged' : 'modified',
+      oldContent: oldUnit.content,
+      newContent: newUnit.content,
+      lines: unchanged ? [] : diffLines(oldUnit.content, newUnit.content),
+    }
+  }
+
+  if (newUnit) {
+    return {
+      key: newUnit.key,
+      title: newUnit.title,
+      change: 'added',
+      newContent: newUnit.content,
+      lines: newUnit.content.split('\n').map((text) => ({ type: 'added', text })),
+    }
+  }
+
+  const removed = oldUnit as DocumentUnit
+  return {
+    key: removed.key,
+    title: removed.title,
+    change: 'removed',
+    oldContent: removed.content,
+    lines: removed.content.split('\n').map((text) => ({ type: 'removed', text })),
+  }
+}
+
+/**
+ * Allinea le unità per chiave, nell'ordine della nuova versione
+ * Le unità rimosse compaiono nella posizione che avevano nella vecchia versione
+ */
+function alignByKey(oldUnits: DocumentUnit[], newUnits: DocumentUnit[]): SectionDiff[] {
+  const oldIndexByKey = new Map(oldUnits.map((unit, index) => [unit.key, index]))
+  const newKeys = new Set(newUnits.map((unit) => unit.key))
+  const result: SectionDiff[] = []
+  let nextOld = 0
+
+  const flushRemoved = (upTo: number) => {
+    for (; nextOld < upTo; nextOld++) {
+      if (!newKeys.has(oldUnits[nextOld].key)) {
+        result.push(compareUnits(oldUnits[nextOld], undefined))
+      }
+    }
+  }
+
+  for (const newUnit of newUnits) {
+    const oldIndex = oldIndexByKey.get(newUnit.key)
+    if (oldIndex !== undefined) {
+      flushRemoved(oldIndex)
+      nextOld = Math.max(nextOld, oldIndex + 1)
+    } else {
+      // Unità nuova: le rimosse nella stessa posizione la precedono (lettura "sostituita da")
+      while (nextOld < oldUnits.length && !newKeys.has(oldUnits[nextOld].key)) {
+        result.push(compareUnits(oldUnits[nextOld++], undefined))
+      }
+    }
+    result.push(compareUnits(oldIndex !== undefined ? oldUnits[oldIndex] : undefined, newUnit))
+  }
+  flushRemoved(oldUnits.length)
+
+  return result
+}
+
+/**
+ * Fallback testuale: allinea i paragrafi identici, i blocchi diversi tra due
+ * paragrafi allineati vengono accoppiati come modifiche
+ */
+function alignParagraphs(oldText: string, newText: string): SectionDiff[] {
+  const oldParagraphs = splitParagraphs(oldText)
+  const newParagraphs = splitParagraphs(newText)
+  const pairs = longestCommonSubsequence(oldParagraphs, newParagraphs, sameContent) ?? []
+  const result: SectionDiff[] = []
+  let i = 0
+  let j = 0
+
+  const unit = (content: string, index: number): DocumentUnit => ({
+    key: `par:${index + 1}`,
+    title: paragraphTitle(content),
+    content,
+  })
+
+  for (const [pairI, pairJ] of [...pairs, [oldParagraphs.length, newParagraphs.length] as [number, number]]) {
+    while (i < pairI || j < pairJ) {
+      const oldUnit = i < pairI ? unit(oldParagraphs[i], i) : undefined
+      const newUnit = j < pairJ ? unit(newParagraphs[j], j) : undefined
+      result.push(compareUnits(oldUnit, newUnit))
+      if (oldUnit) i++
+      if (newUnit) j++
+    }
+    if (i < oldParagraphs.length && j < newParagraphs.length) {
+      result.push(compareUnits(unit(oldParagraphs[i], i), unit(newParagraphs[j], j)))
+      i++
+      j++
+    }
+  }
+
+  return result
+}
+
+/**
+ * Rileva la struttura del testo
+ *
+ * I pattern del detector sono ancorati a "inizio testo o a capo" ma scartano il match
+ * in posizione 0: il newline iniziale fa sì che anche il primo articolo venga rilevato
+ */
+function detectStructure(text: string, format: 'markdown' | 'plain'): { text: string; structure: DocumentStructure } {
+  const padded = `\n${text}`
+  return { text: padded, structure: detectDocumentStructure(padded, format) }
+}
+
+/**
+ * Confronta due versioni di un documento
+ *
+ * @param oldText - Testo della versione precedente
+ * @param newText - Testo della versione più recente
+ * @param format - Formato del testo ('markdown' o 'plain')
+ * @returns Unità allineate con tipo di modifica, diff riga per riga e conteggi
+ */
+export function diffDocumentVersions(
+  oldText: string,
+  newText: string,
+  format: 'markdown' | 'plain' = 'plain'
+): VersionDiff {
+  const oldDetected = detectStructure(oldText, format)
+  const newDetected = detectStructure(newText, format)
+  const strategy = chooseDiffStrategy(oldDetected.structure, newDetected.structure)
+
+  const sections = strategy === 'text'
+    ? alignParagraphs(oldText, newText)
+    : alignByKey(
+        splitByMarkers(oldDetected.text, getMarkers(oldDetected.structure, strategy)),
+        splitByMarkers(newDetected.text, getMarkers(newDetected.structure, strategy))
+      )
+
+  const stats: Record<SectionChangeType, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 }
+  sections.forEach((section) => {
+    stats[section.change]++
+  })
+
+  console.log('[version-diff] Versions compared:', { strategy, ...stats })
+
+  return { strategy, sections, stats }
+}
@@ -0,0 +1,81 @@
+/**
+ * Lexical Reranker
+ *
+ * Reranker locale (nessuna chiamata esterna) basato sulla sovrapposizione
+ * lessicale tra query e chunk. Usato come fallback quando il reranker LLM
+ * non è disponibile o fallisce
+ */
+
+import type { SearchResult } from '@/lib/supabase/database.types'
+import type { Reranker, RerankScore } from './types'
+
+// Peso della copertura lessicale rispetto alla similarity dell'hybrid search
+const OVERLAP_WEIGHT = 0.6
+// Prefisso usato come stem approssimato (normativa/normative, fornitore/fornitori)
+const STEM_LENGTH = 6
+
+const STOPWORDS = new Set([
+  'alla', 'alle', 'allo', 'agli', 'anche', 'come', 'con', 'cosa', 'che', 'chi',
+  'dal', 'dalla', 'dalle', 'dai', 'degli', 'dei', 'del', 'dell', 'della', 'delle', 'dello',
+  'gli', 'nel', 'nella', 'nelle', 'nei', 'non', 'per', 'quale', 'quali', 'quando', 'quanto',
+  'questa', 'queste', 'questi', 'questo', 'quello', 'sono', 'sul', 'sulla', 'sulle', 'tra',
+  'una', 'uno', 'the', 'and', 'for', 'are', 'what', 'which', 'with', 'from', 'this', 'that',
+])
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Estrae gli stem dei termini significativi di un testo
+ */
+export function extractTerms(text: string): string[] {
+  return normalize(text)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOPWORDS.has(token))
+    .map((token) => token.slice(0, STEM_LENGTH))
+}
+
+/**
+ * Calcola la frazione di termini della query presenti nel testo, con bonus per le coppie adiacenti
+ *
+ * @returns Punteggio tra 0 e 1
+ */
+export function lexicalOverlap(queryTerms: string[], text: string): number {
+  const uniqueQueryTerms = Array.from(new Set(queryTerms))
+  if (uniqueQueryTerms.length === 0) {
+    return 0
+  }
+
+  const textTerms = extractTerms(text)
+  const textTermSet = new Set(textTerms)
+  const coverage = uniqueQueryTerms.filter((term) => textTermSet.has(term)).length / uniqueQueryTerms.length
+
+  // Bonus per sequenze di termini della query presenti nello stesso ordine ("codice condotta")
+  const queryBigrams = queryTerms.slice(1).map((term, i) => `${queryTerms[i]} ${term}`)
+  if (queryBigrams.length === 0) {
+    return coverage
+  }
+  const textBigrams = new Set(textTerms.slice(1).map((term, i) => `${textTerms[i]} ${term}`))
+  const bigramCoverage = queryBigrams.filter((bigram) => textBigrams.has(bigram)).length / queryBigrams.length
+
+  return Math.min(1, coverage * 0.8 + bigramCoverage * 0.2)
+}
+
+export const lexicalReranker: Reranker = {
+  name: 'lexical',
+  async score(query: string, candidates: SearchResult[]): Promise<RerankScore[]> {
+    const queryTerms = extractTerms(query)
+
+    return candidates.map((candidate) => {
+      const overlap = lexicalOverlap(queryTerms, `${candidate.document_filename || ''} ${candidate.content}`)
+      return {
+        id: candidate.id,
+        score: OVERLAP_WEIGHT * overlap + (1 - OVERLAP_WEIGHT) * candidate.similarity,
+      }
+    })
+  },
+}
@@ -0,0 +1,135 @@
+/**
+ * LLM Listwise Reranker
+ *
+ * Mostra al modello tutti i candidati in un'unica chiamata e gli chiede
+ * l'ordinamento per rilevanza rispetto alla query (listwise). Più preciso
+ * della similarity dell'hybrid search su query lunghe o con negazioni,
+ * al costo di una chiamata LLM veloce
+ */
+
+import OpenAI from 'openai'
+import type { SearchResult } from '@/lib/supabase/database.types'
+import { PROMPTS, compilePrompt } from '@/lib/observability/prompt-manager'
+import { createGeneration, endGeneration } from '@/lib/observability/langfuse'
+import type { Reranker, RerankOptions, RerankScore } from './types'
+
+const openrouter = new OpenAI({
+  apiKey: process.env.OPENROUTER_API_KEY,
+  baseURL: 'https://openrouter.ai/api/v1',
+})
+
+const RERANK_MODEL = 'google/gemini-2.5-flash'
+const RERANK_TIMEOUT_MS = 8000
+// Caratteri per passaggio mostrati al modello (i chunk sono ~350 token)
+const PASSAGE_PREVIEW_LENGTH = 700
+
+interface LlmRankingShape {
+  ranking?: unknown
+}
+
+function buildPassages(candidates: SearchResult[]): string {
+  return candidates
+    .map((candidate, index) => {
+      const filename = candidate.document_filename || 'Documento sconosciuto'
+      const content = candidate.content.replace(/\s+/g, ' ').trim().slice(0, PASSAGE_PREVIEW_LENGTH)
+      return `[${index + 1}] (${filename}) ${content}`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Converte l'ordinamento restituito dal modello in punteggi 1 → 0
+ *
+ * Indici non validi o duplicati vengono ignorati; i candidati omessi dal modello
+ * finiscono in coda nell'ordine originale
+ */
+export function rankingToScores(ranking: unknown, candidates: SearchResult[]): RerankScore[] {
+  const count = candidates.length
+  const ordered: number[] = []
+
+  if (Array.isArray(ranking)) {
+    for (const value of ranking) {
+      const position = Number(value) - 1
+      if (Number.isInteger(position) && position >= 0 && position < count && !ordered.includes(position)) {
+        ordered.push(position)
+      }
+    }
+  }
+
+  if (ordered.length === 0) {
+    throw new Error('LLM reranker returned an empty or invalid ranking')
+  }
+
+  for (let i = 0; i < count; i++) {
+    if (!ordered.includes(i)) {
+      ordered.push(i)
+    }
+  }
+
+  return ordered.map((position, rank) => ({
+    id: candidates[position].id,
+    score: count > 1 ? 1 - rank / (count - 1) : 1,
+  }))
+}
+
+function parseRanking(content: string): unknown {
+  const firstBrace = content.indexOf('{')
+  const lastBrace = content.lastIndexOf('}')
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    throw new Error('LLM reranker response is not JSON')
+  }
+  const parsed = JSON.parse(content.slice(firstBrace, lastBrace + 1)) as LlmRankingShape
+  return parsed.ranking
+}
+
+export const llmReranker: Reranker = {
+  name: 'llm',
+  async score(query: string, candidates: SearchResult[], options: RerankOptions = {}): Promise<RerankScore[]> {
+    if (!process.env.OPENROUTER_API_KEY) {
+      throw new Error('OPENROUTER_API_KEY is not set')
+    }
+
+    const passages = buildPassages(candidates)
+    const prompt = await compilePrompt(PROMPTS.RERANK, {
+      query,
+      passages,
+      passages_count: candidates.length,
+    })
+
+    const generation = options.parent
+      ? createGeneration(options.parent, 'rerank', `openrouter/${RERANK_MODEL}`, prompt, {
+          candidates: candidates.length,
+        })
+      : null
+
+    try {
+      const response = await openrouter.chat.completions.create(
+        {
+          model: RERANK_MODEL,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0,
+          max_tokens: 300,
+          response_format: { type: 'json_object' },
+        },
+        { timeout: RERANK_TIMEOUT_MS, maxRetries: 0 }
+      )
+
+      const content = response.choices[0]?.message?.content?.trim() || ''
+      const scores = rankingToScores(parseRanking(content), candidates)
+
+      endGeneration(generation, content, response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      } : undefined)
+
+      return scores
+    } catch (error) {
+      endGeneration(generation, undefined, undefined, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        failed: true,
+      })
+      throw error
+    }
+  },
+}
@@ -0,0 +1,145 @@
+/**
+ * Reranking Stage
+ *
+ * Riordina i migliori N candidati dell'hybrid search prima di buildContext.
+ * Il reranker si sceglie con RERANKER_PROVIDER:
+ * - 'lexical': sovrapposizione lessicale locale, nessuna chiamata esterna (default)
+ * - 'llm': listwise reranking con LLM (opt-in: una chiamata LLM in più per richiesta)
+ * - 'none': reranking disabilitato
+ *
+ * Se il reranker LLM fallisce (timeout, JSON non valido) si passa a quello lessicale
+ */
+
+import type { SearchResult } from '@/lib/supabase/database.types'
+import { llmReranker } from './llm-reranker'
+import { lexicalReranker } from './lexical-reranker'
+import type { Reranker, RerankerName, RerankOptions } from './types'
+
+export type { Reranker, RerankerName, RerankScore, RerankOptions } from './types'
+
+// Numero di candidati passati al reranker (il resto mantiene l'ordine originale in coda)
+const DEFAULT_TOP_N = 20
+
+export interface RerankedScore {
+  id: string
+  documentFilename?: string
+  similarity: number
+  rerankScore: number
+  originalRank: number
+  rerankedRank: number
+}
+
+export interface RerankOutcome {
+  results: SearchResult[]
+  // Reranker effettivamente usato (null = reranking disabilitato o saltato)
+  reranker: RerankerName | null
+  fallbackUsed: boolean
+  scores: RerankedScore[]
+  durationMs: number
+  error?: string
+}
+
+/**
+ * Restituisce il reranker configurato, o null se il reranking è disabilitato
+ * Senza RERANKER_PROVIDER (o con un valore sconosciuto) si usa il reranker lessicale
+ */
+export function getReranker(): Reranker | null {
+  const provider = (process.env.RERANKER_PROVIDER || '').toLowerCase()
+
+  if (provider === 'none') {
+    return null
+  }
+  if (provider === 'llm') {
+    return llmReranker
+  }
+
+  return lexicalReranker
+}
+
+/**
+ * Riordina i candidati per rilevanza rispetto alla query
+ *
+ * Non lancia mai: in caso di errore di entrambi i reranker restituisce
+ * i risultati nell'ordine originale
+ *
+ * @param query - Query usata per la ricerca
+ * @param results - Risultati già filtrati per soglia, ordinati per similarity
+ * @param options - topN candidati da riordinare, span Langfuse padre, reranker esplicito
+ * @returns Risultati riordinati e punteggi per l'osservabilità
+ */
+export async function rerankResults(
+  query: string,
+  results: SearchResult[],
+  options: RerankOptions & { topN?: number; reranker?: Reranker | null } = {}
+): Promise<RerankOutcome> {
+  const startTime = Date.now()
+  const reranker = options.reranker !== undefined ? options.reranker : getReranker()
+  const topN = options.topN ?? DEFAULT_TOP_N
+
+  if (!reranker || results.length < 2) {
+    return { results, reranker: null, fallbackUsed: false, scores: [], durationMs: 0 }
+  }
+
+  const candidates = results.slice(0, topN)
+  const tail = results.slice(topN)
+
+  let usedReranker: Reranker = reranker
+  let fallbackUsed = false
+  let error: string | undefined
+  let scores
+
+  try {
+    scores = await reranker.score(query, candidates, { parent: options.parent })
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error'
+    console.error(`[reranker] ${reranker.name} reranker failed:`, error)
+
+    if (reranker === lexicalReranker) {
+      return { results, reranker: null, fallbackUsed: false, scores: [], durationMs: Date.now() - startTime, error }
+    }
+
+    usedReranker = lexicalReranker
+    fallbackUsed = true
+    scores = await lexicalReranker.score(query, candidates)
+  }
+
+  const scoreById = new Map(scores.map((s) => [s.id, s.score]))
+  // Ordinamento stabile: a parità di punteggio vince l'ordine dell'hybrid search
+  const reordered = candidates
+    .map((candidate, originalRank) => ({
+      candidate,
+      originalRank,
+      score: scoreById.get(candidate.id) ?? 0,
+    }))
+    .sort((a, b) => b.score - a.score || a.originalRank - b.originalRank)
+
+  const rerankedScores: RerankedScore[] = reordered.map((entry, rerankedRank) => ({
+    id: entry.candidate.id,
+    documentFilename: entry.candidate.document_filename,
+    similarity: entry.candidate.similarity,
+    rerankScore: entry.score,
+    originalRank: entry.originalRank,
+    rerankedRank,
+  }))
+
+  const durationMs = Date.now() - startTime
+  console.log('[reranker] Reranked candidates:', {
+    reranker: usedReranker.name,
+    fallbackUsed,
+    candidates: candidates.length,
+    moved: rerankedScores.filter((s) => s.originalRank !== s.rerankedRank).length,
+    durationMs,
+  })
+
+  return {
+    results: [
+      ...reordered.map((entry) => ({ ...entry.candidate, rerank_score: entry.score })),
+      ...tail,
+    ],
+    reranker: usedReranker.name,
+    fallbackUsed,
+    scores: rerankedScores,
+    durationMs,
+    error,
+  }
+}
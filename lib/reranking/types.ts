@@ -0,0 +1,34 @@
+/**
+ * Reranking types
+ *
+ * Interfaccia comune dei reranker che riordinano i candidati dell'hybrid search
+ */
+
+import type { SearchResult } from '@/lib/supabase/database.types'
+import type { LangfuseSpanClient, LangfuseTraceClient } from 'langfuse'
+
+export type RerankerName = 'llm' | 'lexical'
+
+/**
+ * Punteggio di rilevanza assegnato da un reranker a un candidato (0-1, più alto = più rilevante)
+ */
+export interface RerankScore {
+  id: string
+  score: number
+}
+
+export interface RerankOptions {
+  // Span/trace padre per tracciare eventuali chiamate LLM
+  parent?: LangfuseTraceClient | LangfuseSpanClient | null
+}
+
+/**
+ * Un reranker assegna un punteggio a ogni candidato rispetto alla query
+ *
+ * Deve restituire un punteggio per ogni candidato ricevuto; in caso di errore
+ * lancia un'eccezione (il chiamante passa al reranker di fallback)
+ */
+export interface Reranker {
+  name: RerankerName
+  score(query: string, candidates: SearchResult[], options?: RerankOptions): Promise<RerankScore[]>
+}
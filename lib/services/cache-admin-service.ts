@@ -0,0 +1,383 @@
+/**
+ * Cache Admin Service
+ *
+ * Statistiche, ispezione ed eliminazione delle voci per tutte le cache delle query
+ * (/admin/cache) e pulizia programmata delle voci scadute.
+ * Le cache legacy (comparative, enhancement, analisi) non sono più lette dalla chat
+ * ma possono contenere ancora voci: restano visibili finché la tabella esiste.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import type { CacheName } from '@/lib/supabase/cache-stats'
+import { cleanExpiredCache } from '@/lib/supabase/semantic-cache'
+import { cleanupUnifiedCache } from '@/lib/supabase/unified-query-cache'
+import { cleanExpiredComparativeDetections } from '@/lib/supabase/comparative-cache'
+import { cleanExpiredEnhancements } from '@/lib/supabase/enhancement-cache'
+import { cleanExpiredQueryAnalyses } from '@/lib/supabase/query-analysis-cache'
+
+export type { CacheName }
+
+interface CacheLayerConfig {
+  table: string
+  label: string
+  description: string
+  legacy: boolean
+  hasExpiry: boolean // false = TTL calcolato su created_at
+  detailColumns: string // Colonne mostrate nel dettaglio (embedding esclusi)
+  cleanup: () => Promise<number>
+}
+
+export interface CacheHitRatePoint {
+  day: string // YYYY-MM-DD (UTC)
+  hits: number
+  misses: number
+  hitRate: number | null // null = nessun lookup nel giorno
+}
+
+export interface CacheEntrySummary {
+  id: string
+  queryText: string
+  hitCount: number
+  createdAt: string
+  expiresAt: string | null
+}
+
+export interface CacheLayerStats {
+  name: CacheName
+  label: string
+  description: string
+  legacy: boolean
+  available: boolean // false = tabella non presente nel database
+  entryCount: number
+  totalHits: number
+  expiredCount: number
+  oldestCreatedAt: string | null
+  totalBytes: number
+  hitRate: number | null // Sul periodo della serie
+  hitRateSeries: CacheHitRatePoint[]
+  oldestEntries: CacheEntrySummary[]
+}
+
+export interface CacheEntryList {
+  items: CacheEntrySummary[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export interface CacheEntryDetail extends CacheEntrySummary {
+  data: Record<string, unknown>
+}
+
+export interface CacheCleanupResult {
+  cache: CacheName
+  deleted: number
+  skipped: boolean // Tabella non presente
+}
+
+interface CacheTableStatsRow {
+  table_name: string
+  entry_count: number
+  total_hits: number
+  expired_count: number
+  oldest_created_at: string | null
+  total_bytes: number
+}
+
+interface CacheLookupStatsRow {
+  cache_name: string
+  day: string
+  hits: number
+  misses: number
+}
+
+interface CacheEntryRow {
+  id: string
+  query_text: string
+  hit_count: number | null
+  created_at: string
+  expires_at?: string | null
+  [key: string]: unknown
+}
+
+const CACHE_LAYERS: Record<CacheName, CacheLayerConfig> = {
+  semantic: {
+    table: 'query_cache',
+    label: 'Risposte (cache semantica)',
+    description: 'Risposte complete servite per domande simili',
+    legacy: false,
+    hasExpiry: true,
+    detailColumns: 'id, query_text, response_text, sources, document_ids, scope_key, hit_count, created_at, expires_at',
+    cleanup: cleanExpiredCache,
+  },
+  unified: {
+    table: 'unified_query_cache',
+    label: 'Analisi ed enhancement delle query',
+    description: 'Intento, analisi ed espansione della query',
+    legacy: false,
+    hasExpiry: false,
+    detailColumns: '*',
+    cleanup: () => cleanupUnifiedCache(),
+  },
+  comparative: {
+    table: 'comparative_query_cache',
+    label: 'Query comparative (legacy)',
+    description: 'Rilevamento delle query di confronto',
+    legacy: true,
+    hasExpiry: true,
+    detailColumns: '*',
+    cleanup: cleanExpiredComparativeDetections,
+  },
+  enhancement: {
+    table: 'query_enhancement_cache',
+    label: 'Enhancement query (legacy)',
+    description: 'Espansione della query',
+    legacy: true,
+    hasExpiry: true,
+    detailColumns: '*',
+    cleanup: cleanExpiredEnhancements,
+  },
+  analysis: {
+    table: 'query_analysis_cache',
+    label: 'Analisi query (legacy)',
+    description: 'Analisi della query',
+    legacy: true,
+    hasExpiry: true,
+    detailColumns: '*',
+    cleanup: cleanExpiredQueryAnalyses,
+  },
+}
+
+export const CACHE_NAMES = Object.keys(CACHE_LAYERS) as CacheName[]
+
+const DEFAULT_PAGE_SIZE = 25
+const OLDEST_ENTRIES_LIMIT = 5
+
+export function isCacheName(value: unknown): value is CacheName {
+  return typeof value === 'string' && (CACHE_NAMES as string[]).includes(value)
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Serie giornaliera dell'hit rate sugli ultimi `days` giorni (oggi incluso)
+ * I giorni senza lookup compaiono con contatori a zero e hitRate null
+ */
+export function buildHitRateSeries(
+  rows: Array<{ day: string; hits: number; misses: number }>,
+  days: number,
+  today: Date = new Date()
+): CacheHitRatePoint[] {
+  const byDay = new Map<string, { hits: number; misses: number }>()
+  for (const row of rows) {
+    const current = byDay.get(row.day) ?? { hits: 0, misses: 0 }
+    byDay.set(row.day, { hits: current.hits + row.hits, misses: current.misses + row.misses })
+  }
+
+  const series: CacheHitRatePoint[] = []
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - offset))
+    const day = toDay(date)
+    const { hits, misses } = byDay.get(day) ?? { hits: 0, misses: 0 }
+    series.push({ day, hits, misses, hitRate: hits + misses > 0 ? hits / (hits + misses) : null })
+  }
+  return series
+}
+
+function toEntrySummary(row: CacheEntryRow): CacheEntrySummary {
+  return {
+    id: row.id,
+    queryText: row.query_text,
+    hitCount: row.hit_count ?? 0,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? null,
+  }
+}
+
+function summaryColumns(layer: CacheLayerConfig): string {
+  return layer.hasExpiry
+    ? 'id, query_text, hit_count, created_at, expires_at'
+    : 'id, query_text, hit_count, created_at'
+}
+
+async function getCacheTableStats(): Promise<Map<string, CacheTableStatsRow>> {
+  const { data, error } = await supabaseAdmin.rpc('get_cache_table_stats', {
+    p_tables: CACHE_NAMES.map((name) => CACHE_LAYERS[name].table),
+  })
+
+  if (error) {
+    console.error('[cache-admin-service] Table stats failed:', error)
+    throw error
+  }
+
+  return new Map(((data || []) as CacheTableStatsRow[]).map((row) => [row.table_name, row]))
+}
+
+async function getOldestEntries(name: CacheName): Promise<CacheEntrySummary[]> {
+  const layer = CACHE_LAYERS[name]
+  const { data, error } = await supabaseAdmin
+    .from(layer.table)
+    .select(summaryColumns(layer))
+    .order('created_at', { ascending: true })
+    .limit(OLDEST_ENTRIES_LIMIT)
+
+  if (error) {
+    console.error('[cache-admin-service] Oldest entries lookup failed:', { cache: name, error })
+    return []
+  }
+
+  return ((data || []) as unknown as CacheEntryRow[]).map(toEntrySummary)
+}
+
+/**
+ * Statistiche di tutte le cache: voci, hit, voci scadute, voce più vecchia,
+ * spazio occupato e hit rate giornaliero sugli ultimi `days` giorni
+ */
+export async function getCacheOverview(days: number = 14): Promise<CacheLayerStats[]> {
+  const since = new Date()
+  since.setUTCDate(since.getUTCDate() - (days - 1))
+
+  const [tableStats, lookupResult] = await Promise.all([
+    getCacheTableStats(),
+    supabaseAdmin
+      .from('cache_lookup_stats')
+      .select('cache_name, day, hits, misses')
+      .gte('day', toDay(since)),
+  ])
+
+  if (lookupResult.error) {
+    console.error('[cache-admin-service] Lookup stats failed:', lookupResult.error)
+    throw lookupResult.error
+  }
+  const lookupRows = (lookupResult.data || []) as CacheLookupStatsRow[]
+
+  return Promise.all(CACHE_NAMES.map(async (name): Promise<CacheLayerStats> => {
+    const layer = CACHE_LAYERS[name]
+    const stats = tableStats.get(layer.table)
+    const hitRateSeries = buildHitRateSeries(lookupRows.filter((row) => row.cache_name === name), days)
+    const hits = hitRateSeries.reduce((sum, point) => sum + point.hits, 0)
+    const lookups = hitRateSeries.reduce((sum, point) => sum + point.hits + point.misses, 0)
+
+    return {
+      name,
+      label: layer.label,
+      description: layer.description,
+      legacy: layer.legacy,
+      available: Boolean(stats),
+      entryCount: Number(stats?.entry_count ?? 0),
+      totalHits: Number(stats?.total_hits ?? 0),
+      expiredCount: Number(stats?.expired_count ?? 0),
+      oldestCreatedAt: stats?.oldest_created_at ?? null,
+      totalBytes: Number(stats?.total_bytes ?? 0),
+      hitRate: lookups > 0 ? hits / lookups : null,
+      hitRateSeries,
+      oldestEntries: stats && stats.entry_count > 0 ? await getOldestEntries(name) : [],
+    }
+  }))
+}
+
+/**
+ * Voci di una cache, dalla più recente, con ricerca sul testo della query
+ */
+export async function listCacheEntries(
+  name: CacheName,
+  options: { search?: string; page?: number; pageSize?: number } = {}
+): Promise<CacheEntryList> {
+  const layer = CACHE_LAYERS[name]
+  const page = Math.max(1, options.page ?? 1)
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+  const from = (page - 1) * pageSize
+
+  let query = supabaseAdmin
+    .from(layer.table)
+    .select(summaryColumns(layer), { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  const search = options.search?.trim()
+  if (search) {
+    query = query.ilike('query_text', `%${search.replace(/[\\%_]/g, (c) => `\\${c}`)}%`)
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    console.error('[cache-admin-service] Entry list failed:', { cache: name, error })
+    throw error
+  }
+
+  return {
+    items: ((data || []) as unknown as CacheEntryRow[]).map(toEntrySummary),
+    total: count ?? 0,
+    page,
+    pageSize,
+  }
+}
+
+/**
+ * Voce completa di una cache (senza embedding)
+ *
+ * @returns null se la voce non esiste
+ */
+export async function getCacheEntry(name: CacheName, id: string): Promise<CacheEntryDetail | null> {
+  const layer = CACHE_LAYERS[name]
+  const { data, error } = await supabaseAdmin
+    .from(layer.table)
+    .select(layer.detailColumns)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[cache-admin-service] Entry lookup failed:', { cache: name, id, error })
+    throw error
+  }
+  if (!data) {
+    return null
+  }
+
+  const row = data as unknown as CacheEntryRow
+  return { ...toEntrySummary(row), data: row }
+}
+
+/**
+ * Elimina una voce di una cache
+ *
+ * @returns false se la voce non esiste
+ */
+export async function deleteCacheEntry(name: CacheName, id: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from(CACHE_LAYERS[name].table)
+    .delete()
+    .eq('id', id)
+    .select('id')
+
+  if (error) {
+    console.error('[cache-admin-service] Entry delete failed:', { cache: name, id, error })
+    throw error
+  }
+
+  return (data?.length || 0) > 0
+}
+
+/**
+ * Elimina le voci scadute di tutte le cache con le funzioni di pulizia di ciascuna
+ * Le tabelle non presenti nel database vengono saltate
+ */
+export async function runCacheCleanup(): Promise<CacheCleanupResult[]> {
+  const tableStats = await getCacheTableStats()
+  const results: CacheCleanupResult[] = []
+
+  for (const name of CACHE_NAMES) {
+    const layer = CACHE_LAYERS[name]
+    if (!tableStats.has(layer.table)) {
+      results.push({ cache: name, deleted: 0, skipped: true })
+      continue
+    }
+    results.push({ cache: name, deleted: await layer.cleanup(), skipped: false })
+  }
+
+  console.log('[cache-admin-service] Cleanup completed:', results)
+  return results
+}
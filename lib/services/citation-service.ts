@@ -29,6 +29,9 @@ export interface Source {
   type?: 'kb' | 'web'
   title?: string
   url?: string
+  location?: string // Posizione nel documento originale (es. "Slide 7", "Sheet 2 (Costi), row 14")
+  versionLabel?: string // Presente solo per chunk di una versione superata del documento
+  contentType?: 'table' // Chunk tabellare: il content è una tabella markdown
 }
 
 /**
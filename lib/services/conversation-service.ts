@@ -1,18 +1,28 @@
 import { createServerSupabaseClient } from '@/lib/supabase/client'
-import type { Message, Source } from '@/types/chat'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { getDeniedFolders, isFolderReadable, type DocumentAccess } from '@/lib/supabase/folder-permissions'
+import { findLatestLeaf, getActiveBranch } from '@/lib/utils/message-branches'
+import type { CitedDocumentInfo } from '@/lib/export/conversation-transcript'
+import type { FeedbackRating, FeedbackReason, Message, Source, SourceDetail } from '@/types/chat'
 
-interface ConversationRow {
+export interface ConversationRow {
   id: string
   title: string | null
+  folder_scope?: string | null
+  active_leaf_id?: string | null
   created_at?: string
   updated_at?: string
 }
 
-interface MessageRow {
+export interface MessageRow {
   id: string
   role: 'user' | 'assistant'
   content: string
   metadata: Record<string, unknown> | null
+  feedback_rating?: FeedbackRating | null
+  feedback_reason?: FeedbackReason | null
+  parent_id: string | null
+  created_at: string
 }
 
 export interface ConversationDetail {
@@ -22,10 +32,77 @@ export interface ConversationDetail {
 }
 
 /**
- * Recupera conversazione e messaggi dalla vista server-side rispettando le policy RLS.
+ * Converte una riga di messages nel messaggio della UI (sources e modello dai metadata)
+ */
+export function mapMessageRow(row: MessageRow): Message {
+  const metadata = row.metadata ?? undefined
+  let sources: Source[] | undefined
+  let model: string | undefined
+
+  if (metadata && typeof metadata === 'object') {
+    // Estrai sources
+    if ('sources' in metadata) {
+      const extracted = (metadata as Record<string, unknown>).sources
+      if (Array.isArray(extracted)) {
+        sources = extracted as Source[]
+      }
+    }
+    
+    // Estrai model
+    if ('model' in metadata) {
+      const extractedModel = (metadata as Record<string, unknown>).model
+      if (typeof extractedModel === 'string') {
+        model = extractedModel
+      }
+    }
+  }
+
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    metadata,
+    sources: sources && sources.length > 0 ? sources : undefined,
+    model, // Includi il modello se presente
+    feedback: row.feedback_rating
+      ? { rating: row.feedback_rating, reason: row.feedback_reason ?? null }
+      : null,
+  }
+}
+
+export interface ConversationDetailOptions {
+  focusMessageId?: string | null // Messaggio da mostrare: se è su un altro ramo, si apre quel ramo
+}
+
+/**
+ * Messaggi del ramo attivo, con le alternative dei messaggi modificati
+ *
+ * @param focusMessageId - Se il messaggio non è nel ramo attivo, restituisce il ramo che lo contiene
+ */
+export function mapActiveBranch(
+  rows: ReadonlyArray<MessageRow>,
+  activeLeafId: string | null,
+  focusMessageId: string | null = null
+): Message[] {
+  let branch = getActiveBranch(rows, activeLeafId)
+  if (focusMessageId && !branch.some(({ node }) => node.id === focusMessageId)) {
+    const focusLeafId = findLatestLeaf(rows, focusMessageId)
+    if (focusLeafId) {
+      branch = getActiveBranch(rows, focusLeafId)
+    }
+  }
+
+  return branch.map(({ node, siblingIds }) =>
+    siblingIds ? { ...mapMessageRow(node), siblingIds } : mapMessageRow(node)
+  )
+}
+
+/**
+ * Recupera conversazione e messaggi (ramo attivo) dalla vista server-side rispettando le policy RLS.
  */
 export async function getConversationDetail(
-  conversationId: string
+  conversationId: string,
+  options: ConversationDetailOptions = {}
 ): Promise<ConversationDetail> {
   const supabase = await createServerSupabaseClient()
   const {
@@ -43,7 +120,7 @@ export async function getConversationDetail(
     error: convError,
   } = await supabase
     .from('conversations')
-    .select('id, title, created_at, updated_at')
+    .select('id, title, folder_scope, active_leaf_id, created_at, updated_at')
     .eq('id', conversationId)
     .single<ConversationRow>()
 
@@ -60,7 +137,7 @@ export async function getConversationDetail(
     error: msgError,
   } = await supabase
     .from('messages')
-    .select('id, role, content, metadata')
+    .select('id, role, content, metadata, feedback_rating, feedback_reason, parent_id, created_at')
     .eq('conversation_id', conversationId)
     .order('created_at', { ascending: true })
 
@@ -69,38 +146,11 @@ export async function getConversationDetail(
     throw msgError
   }
 
-  const messages = (messageRows ?? []).map<Message>((row: MessageRow) => {
-    const metadata = row.metadata ?? undefined
-    let sources: Source[] | undefined
-    let model: string | undefined
-
-    if (metadata && typeof metadata === 'object') {
-      // Estrai sources
-      if ('sources' in metadata) {
-        const extracted = (metadata as Record<string, unknown>).sources
-        if (Array.isArray(extracted)) {
-          sources = extracted as Source[]
-        }
-      }
-      
-      // Estrai model
-      if ('model' in metadata) {
-        const extractedModel = (metadata as Record<string, unknown>).model
-        if (typeof extractedModel === 'string') {
-          model = extractedModel
-        }
-      }
-    }
-
-    return {
-      id: row.id,
-      role: row.role,
-      content: row.content,
-      metadata,
-      sources: sources && sources.length > 0 ? sources : undefined,
-      model, // Includi il modello se presente
-    }
-  })
+  const messages = mapActiveBranch(
+    (messageRows ?? []) as MessageRow[],
+    conversation.active_leaf_id ?? null,
+    options.focusMessageId ?? null
+  )
 
   return {
     conversation,
@@ -109,4 +159,83 @@ export async function getConversationDetail(
   }
 }
 
+/**
+ * Passa al ramo che contiene il messaggio indicato (seguendo le risposte più recenti)
+ *
+ * @returns Il dettaglio della conversazione sul nuovo ramo (notFound se il messaggio non esiste)
+ */
+export async function switchConversationBranch(
+  conversationId: string,
+  messageId: string
+): Promise<ConversationDetail> {
+  const supabase = await createServerSupabaseClient()
+  const { data: rows, error: msgError } = await supabase
+    .from('messages')
+    .select('id, parent_id, created_at')
+    .eq('conversation_id', conversationId)
+
+  if (msgError) {
+    console.error('[conversation-service] Branch lookup failed:', msgError)
+    throw msgError
+  }
+
+  const leafId = findLatestLeaf(rows ?? [], messageId)
+  if (!leafId) {
+    return { conversation: null, messages: [], notFound: true }
+  }
+
+  // RLS: solo il proprietario può aggiornare la conversazione
+  const { error: updateError } = await supabase
+    .from('conversations')
+    .update({ active_leaf_id: leafId })
+    .eq('id', conversationId)
+
+  if (updateError) {
+    console.error('[conversation-service] Active branch update failed:', updateError)
+    throw updateError
+  }
 
+  return getConversationDetail(conversationId)
+}
+
+/**
+ * Cartelle dei documenti citati nei messaggi, con l'ACL di chi legge:
+ * i documenti in cartelle non leggibili sono marcati come riservati
+ */
+export async function getCitedDocuments(
+  messages: ReadonlyArray<Message>,
+  access: DocumentAccess
+): Promise<Map<string, CitedDocumentInfo>> {
+  const documentIds = new Set<string>()
+  messages.forEach((message) => {
+    ;(message.sources as SourceDetail[] | undefined)?.forEach((source) => {
+      if (source.type !== 'web' && source.documentId) {
+        documentIds.add(source.documentId)
+      }
+    })
+  })
+
+  const documents = new Map<string, CitedDocumentInfo>()
+  if (documentIds.size === 0) {
+    return documents
+  }
+
+  const [{ data, error }, deniedFolders] = await Promise.all([
+    supabaseAdmin.from('documents').select('id, folder').in('id', Array.from(documentIds)),
+    getDeniedFolders(access),
+  ])
+
+  if (error) {
+    console.error('[conversation-service] Cited documents lookup failed:', error)
+    throw error
+  }
+
+  ;(data ?? []).forEach((row: { id: string; folder: string | null }) => {
+    documents.set(row.id, {
+      folder: row.folder,
+      restricted: !isFolderReadable(row.folder, deniedFolders),
+    })
+  })
+
+  return documents
+}
@@ -0,0 +1,219 @@
+import { randomBytes } from 'crypto'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import type { DocumentAccess } from '@/lib/supabase/folder-permissions'
+import type { CitedDocumentInfo } from '@/lib/export/conversation-transcript'
+import {
+  getCitedDocuments,
+  mapActiveBranch,
+  type ConversationRow,
+  type MessageRow,
+} from '@/lib/services/conversation-service'
+import type { ConversationShare, Message, SourceDetail } from '@/types/chat'
+
+export const MAX_SHARE_EXPIRY_DAYS = 365
+
+const SHARE_COLUMNS = 'id, conversation_id, token, created_at, expires_at, revoked_at'
+
+export interface SharedConversation {
+  readonly conversation: ConversationRow
+  readonly messages: Message[]
+  readonly expiresAt: string | null
+}
+
+/**
+ * Token casuale URL-safe (192 bit)
+ */
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Un link è attivo se non è stato revocato e non è scaduto
+ */
+export function isShareActive(
+  share: Pick<ConversationShare, 'expires_at' | 'revoked_at'>,
+  now: Date = new Date()
+): boolean {
+  if (share.revoked_at) {
+    return false
+  }
+  return !share.expires_at || new Date(share.expires_at).getTime() > now.getTime()
+}
+
+/**
+ * Toglie dalle fonti KB l'estratto dei documenti che chi legge non può vedere:
+ * il link condivide la risposta, non il contenuto delle cartelle riservate
+ */
+export function redactRestrictedSources(
+  messages: ReadonlyArray<Message>,
+  documents: ReadonlyMap<string, CitedDocumentInfo>
+): Message[] {
+  return messages.map((message) => {
+    if (!message.sources) {
+      return message
+    }
+    const sources = (message.sources as SourceDetail[]).map((source) => {
+      const document = source.type !== 'web' && source.documentId ? documents.get(source.documentId) : undefined
+      if (!document?.restricted) {
+        return source
+      }
+      return { ...source, content: undefined, chunkIndex: undefined }
+    })
+    return { ...message, sources }
+  })
+}
+
+/**
+ * Link di condivisione della conversazione (RLS: solo il proprietario)
+ */
+export async function listConversationShares(conversationId: string): Promise<ConversationShare[]> {
+  const supabase = await createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('conversation_shares')
+    .select(SHARE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('[conversation-share-service] Shares lookup failed:', error)
+    throw error
+  }
+
+  return (data ?? []) as ConversationShare[]
+}
+
+/**
+ * Crea un link di condivisione per una conversazione dell'utente
+ *
+ * @param expiresInDays - giorni di validità, null per un link senza scadenza
+ * @returns il link creato, oppure null se la conversazione non esiste o non è dell'utente
+ */
+export async function createConversationShare(
+  conversationId: string,
+  expiresInDays: number | null
+): Promise<ConversationShare | null> {
+  const supabase = await createServerSupabaseClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return null
+  }
+
+  const { data: conversation, error: convError } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .maybeSingle()
+
+  if (convError) {
+    console.error('[conversation-share-service] Conversation lookup failed:', convError)
+    throw convError
+  }
+  if (!conversation) {
+    return null
+  }
+
+  const expiresAt = expiresInDays === null
+    ? null
+    : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabase
+    .from('conversation_shares')
+    .insert({
+      conversation_id: conversationId,
+      token: generateShareToken(),
+      created_by: user.id,
+      expires_at: expiresAt,
+    })
+    .select(SHARE_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('[conversation-share-service] Share creation failed:', error)
+    throw error
+  }
+
+  return data as ConversationShare
+}
+
+/**
+ * Revoca un link di condivisione
+ *
+ * @returns false se il link non esiste o non appartiene alla conversazione dell'utente
+ */
+export async function revokeConversationShare(conversationId: string, shareId: string): Promise<boolean> {
+  const supabase = await createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('conversation_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId)
+    .eq('conversation_id', conversationId)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) {
+    console.error('[conversation-share-service] Share revocation failed:', error)
+    throw error
+  }
+
+  return (data ?? []).length > 0
+}
+
+/**
+ * Conversazione condivisa in sola lettura, risolta dal token con il service role
+ *
+ * Il feedback e i metadata dei messaggi non vengono esposti; gli estratti dei documenti
+ * nelle cartelle non leggibili da chi apre il link sono rimossi (ACL di chi legge)
+ *
+ * @returns null se il token non esiste, è revocato o scaduto
+ */
+export async function getSharedConversation(
+  token: string,
+  access: DocumentAccess
+): Promise<SharedConversation | null> {
+  const { data: share, error: shareError } = await supabaseAdmin
+    .from('conversation_shares')
+    .select(SHARE_COLUMNS)
+    .eq('token', token)
+    .maybeSingle<ConversationShare>()
+
+  if (shareError) {
+    console.error('[conversation-share-service] Share lookup failed:', shareError)
+    throw shareError
+  }
+  if (!share || !isShareActive(share)) {
+    return null
+  }
+
+  const [{ data: conversation, error: convError }, { data: messageRows, error: msgError }] = await Promise.all([
+    supabaseAdmin
+      .from('conversations')
+      .select('id, title, folder_scope, active_leaf_id, created_at, updated_at')
+      .eq('id', share.conversation_id)
+      .maybeSingle<ConversationRow>(),
+    supabaseAdmin
+      .from('messages')
+      .select('id, role, content, metadata, parent_id, created_at')
+      .eq('conversation_id', share.conversation_id)
+      .order('created_at', { ascending: true }),
+  ])
+
+  if (convError || msgError) {
+    console.error('[conversation-share-service] Shared conversation fetch failed:', convError ?? msgError)
+    throw convError ?? msgError
+  }
+  if (!conversation) {
+    return null
+  }
+
+  // Solo il ramo attivo, senza i rami alternativi
+  const messages = mapActiveBranch((messageRows ?? []) as MessageRow[], conversation.active_leaf_id ?? null)
+    .map(({ id, role, content, sources, model }) => ({ id, role, content, sources, model }))
+
+  return {
+    conversation,
+    messages: redactRestrictedSources(messages, await getCitedDocuments(messages, access)),
+    expiresAt: share.expires_at,
+  }
+}
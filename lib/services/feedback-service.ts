@@ -0,0 +1,222 @@
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { evictCachedResponse } from '@/lib/supabase/semantic-cache'
+import { flushLangfuse, scoreTraceById } from '@/lib/observability/langfuse'
+import type { FeedbackRating, FeedbackReason } from '@/lib/supabase/database.types'
+
+export interface MessageFeedbackInput {
+  readonly rating: FeedbackRating
+  readonly reason?: FeedbackReason | null
+}
+
+export interface FeedbackListFilters {
+  readonly rating?: FeedbackRating
+  readonly reason?: FeedbackReason
+  readonly from?: string
+  readonly to?: string
+  readonly page?: number
+  readonly pageSize?: number
+}
+
+export interface FeedbackListItem {
+  readonly messageId: string
+  readonly conversationId: string
+  readonly conversationTitle: string | null
+  readonly question: string | null
+  readonly answerPreview: string
+  readonly rating: FeedbackRating
+  readonly reason: FeedbackReason | null
+  readonly model: string | null
+  readonly traceId: string | null
+  readonly feedbackAt: string
+}
+
+export interface FeedbackList {
+  readonly items: FeedbackListItem[]
+  readonly total: number
+  readonly page: number
+  readonly pageSize: number
+}
+
+interface FeedbackMessageRow {
+  id: string
+  role: string
+  metadata: Record<string, unknown> | null
+}
+
+const FEEDBACK_SCORE_NAME = 'user-feedback'
+
+function metadataString(metadata: Record<string, unknown> | null, key: string): string | undefined {
+  const value = metadata?.[key]
+  return typeof value === 'string' && value.length > 0 ? value : undefined
+}
+
+/**
+ * Recupera il messaggio assistant con il client dell'utente: le policy RLS
+ * restituiscono solo i messaggi delle sue conversazioni
+ */
+async function getOwnAssistantMessage(messageId: string): Promise<FeedbackMessageRow | null> {
+  const supabase = await createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, role, metadata')
+    .eq('id', messageId)
+    .maybeSingle<FeedbackMessageRow>()
+
+  if (error) {
+    console.error('[feedback-service] Message lookup failed:', error)
+    throw error
+  }
+
+  return data && data.role === 'assistant' ? data : null
+}
+
+/**
+ * Salva il feedback dell'utente su una risposta dell'assistant
+ *
+ * Il feedback viene registrato come score "user-feedback" sul trace Langfuse
+ * della richiesta (1 = up, 0 = down). Un feedback negativo rimuove la risposta
+ * dalla semantic cache, così non viene più servita ad altre query simili.
+ *
+ * @returns false se il messaggio non esiste o non appartiene all'utente
+ */
+export async function submitMessageFeedback(
+  messageId: string,
+  feedback: MessageFeedbackInput
+): Promise<boolean> {
+  const message = await getOwnAssistantMessage(messageId)
+  if (!message) {
+    return false
+  }
+
+  const reason = feedback.rating === 'down' ? feedback.reason ?? null : null
+  const supabase = await createServerSupabaseClient()
+  const { error } = await supabase
+    .from('messages')
+    .update({
+      feedback_rating: feedback.rating,
+      feedback_reason: reason,
+      feedback_at: new Date().toISOString(),
+    })
+    .eq('id', messageId)
+
+  if (error) {
+    console.error('[feedback-service] Failed to save feedback:', error)
+    throw error
+  }
+
+  const traceId = metadataString(message.metadata, 'trace_id')
+  if (traceId) {
+    // Un solo score per messaggio: cambiare idea aggiorna il valore invece di aggiungerne uno
+    scoreTraceById(
+      traceId,
+      FEEDBACK_SCORE_NAME,
+      feedback.rating === 'up' ? 1 : 0,
+      reason ?? undefined,
+      `${messageId}-${FEEDBACK_SCORE_NAME}`
+    )
+    await flushLangfuse()
+  }
+
+  if (feedback.rating === 'down') {
+    try {
+      const evicted = await evictCachedResponse({
+        cacheId: metadataString(message.metadata, 'cache_id'),
+        queryText: metadataString(message.metadata, 'cache_query'),
+        scopeKey: metadataString(message.metadata, 'cache_scope_key'),
+      })
+      console.log('[feedback-service] Negative feedback, cache entries evicted:', { messageId, evicted })
+    } catch (evictError) {
+      // Il feedback è già salvato: l'eviction fallita non blocca la richiesta
+      console.error('[feedback-service] Cache eviction failed:', evictError)
+    }
+  }
+
+  return true
+}
+
+/**
+ * Rimuove il feedback dell'utente da una risposta
+ *
+ * Lo score già inviato a Langfuse resta nello storico del trace
+ *
+ * @returns false se il messaggio non esiste o non appartiene all'utente
+ */
+export async function clearMessageFeedback(messageId: string): Promise<boolean> {
+  const message = await getOwnAssistantMessage(messageId)
+  if (!message) {
+    return false
+  }
+
+  const supabase = await createServerSupabaseClient()
+  const { error } = await supabase
+    .from('messages')
+    .update({ feedback_rating: null, feedback_reason: null, feedback_at: null })
+    .eq('id', messageId)
+
+  if (error) {
+    console.error('[feedback-service] Failed to clear feedback:', error)
+    throw error
+  }
+
+  return true
+}
+
+/**
+ * Elenca i feedback di tutti gli utenti, dal più recente (solo admin)
+ */
+export async function listFeedback(filters: FeedbackListFilters = {}): Promise<FeedbackList> {
+  const page = Math.max(1, filters.page ?? 1)
+  const pageSize = Math.min(100, Math.max(1, filters.pageSize ?? 25))
+  const offset = (page - 1) * pageSize
+
+  let query = supabaseAdmin
+    .from('messages')
+    .select('id, conversation_id, content, metadata, feedback_rating, feedback_reason, feedback_at, conversations(title)', { count: 'exact' })
+    .not('feedback_rating', 'is', null)
+
+  if (filters.rating) {
+    query = query.eq('feedback_rating', filters.rating)
+  }
+  if (filters.reason) {
+    query = query.eq('feedback_reason', filters.reason)
+  }
+  if (filters.from) {
+    query = query.gte('feedback_at', filters.from)
+  }
+  if (filters.to) {
+    query = query.lte('feedback_at', filters.to)
+  }
+
+  const { data, error, count } = await query
+    .order('feedback_at', { ascending: false })
+    .range(offset, offset + pageSize - 1)
+
+  if (error) {
+    console.error('[feedback-service] Feedback listing failed:', error)
+    throw error
+  }
+
+  const items = (data ?? []).map<FeedbackListItem>((row) => {
+    const metadata = (row.metadata ?? null) as Record<string, unknown> | null
+    const conversation = (Array.isArray(row.conversations) ? row.conversations[0] : row.conversations) as
+      | { title: string | null }
+      | null
+      | undefined
+
+    return {
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      conversationTitle: conversation?.title ?? null,
+      question: metadataString(metadata, 'original_query') ?? null,
+      answerPreview: (row.content as string).substring(0, 300),
+      rating: row.feedback_rating as FeedbackRating,
+      reason: (row.feedback_reason ?? null) as FeedbackReason | null,
+      model: metadataString(metadata, 'model') ?? null,
+      traceId: metadataString(metadata, 'trace_id') ?? null,
+      feedbackAt: row.feedback_at as string,
+    }
+  })
+
+  return { items, total: count ?? 0, page, pageSize }
+}
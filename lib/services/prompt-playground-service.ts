@@ -0,0 +1,156 @@
+/**
+ * Prompt Playground Service
+ *
+ * Esegue una domanda con una label o versione scelta di un system prompt (pagina /test/prompts):
+ * stessa pipeline di recupero della chat (analisi, enhancement, ricerca ibrida, reranking)
+ * e generazione senza strumenti. Restituisce il prompt compilato accanto alla risposta.
+ * Nessun salvataggio: né messaggi, né cache, né trace.
+ */
+
+import { generateEmbedding } from '@/lib/embeddings/openai'
+import { analyzeQuery } from '@/lib/embeddings/query-analysis'
+import { enhanceQueryIfNeeded } from '@/lib/embeddings/query-enhancement'
+import { rerankResults } from '@/lib/reranking/reranker'
+import { getRagAgentForModel } from '@/lib/mastra/agent'
+import { PROMPTS } from '@/lib/observability/prompt-manager'
+import type { PromptTarget } from '@/lib/observability/prompt-experiments'
+import { buildSystemPrompt, type SystemPromptUsage } from '@/lib/llm/system-prompt'
+import type { DocumentAccess } from '@/lib/supabase/folder-permissions'
+import type { SearchResult } from '@/lib/supabase/database.types'
+import type { Source } from '@/lib/services/citation-service'
+import { performSearch } from '@/app/api/chat/handlers/search-handler'
+import { processResponse, selectFallbackModel, type LLMMessage } from '@/app/api/chat/handlers/response-handler'
+import {
+  buildContext,
+  calculateAverageSimilarity,
+  extractUniqueDocumentNames,
+  filterRelevantResults,
+} from '@/app/api/chat/services/context-builder'
+import { createKBSources } from '@/app/api/chat/services/source-service'
+
+/**
+ * System prompt selezionabili nel playground
+ */
+export const PLAYGROUND_PROMPTS: string[] = [
+  PROMPTS.SYSTEM_RAG_WITH_CONTEXT,
+  PROMPTS.SYSTEM_RAG_COMPARATIVE,
+  PROMPTS.SYSTEM_RAG_VERSION_CHANGES,
+  PROMPTS.SYSTEM_RAG_NO_CONTEXT,
+  PROMPTS.SYSTEM_RAG_NO_CONTEXT_WEB,
+  PROMPTS.SYSTEM_META_QUERY,
+]
+
+export interface PromptPlaygroundInput {
+  question: string
+  promptName: string
+  target: PromptTarget
+  folder?: string | null
+  access: DocumentAccess
+}
+
+export interface PromptPlaygroundResult {
+  requestedPrompt: string
+  prompt: SystemPromptUsage // Prompt effettivamente usato dalla domanda
+  compiledPrompt: string
+  model: string
+  answer: string
+  sources: Source[]
+  retrieval: {
+    query: string // Query dopo l'enhancement
+    intent: string
+    resultsCount: number
+    relevantCount: number
+  }
+  durationMs: number
+}
+
+/**
+ * Esegue la domanda con la label/versione scelta del prompt
+ *
+ * Il prompt scelto è applicato solo se la domanda usa quel prompt (es. il prompt comparativo
+ * richiede una domanda di confronto): `prompt.overridden` indica se è stato applicato
+ */
+export async function runPromptPlayground(input: PromptPlaygroundInput): Promise<PromptPlaygroundResult> {
+  const startTime = Date.now()
+  const { question, promptName, target, folder = null, access } = input
+
+  const analysis = await analyzeQuery(question)
+  const enhancement = await enhanceQueryIfNeeded(question, analysis, [])
+  const query = enhancement.enhanced
+  const articleNumber = analysis.articleNumber || enhancement.articleNumber
+
+  let searchResults: SearchResult[] = []
+  let relevantResults: SearchResult[] = []
+
+  // Le meta query usano il tool meta_query in chat: qui restano senza contesto
+  if (!analysis.isMeta) {
+    const queryEmbedding = await generateEmbedding(query, 'text-embedding-3-large', null)
+    searchResults = await performSearch(query, queryEmbedding, analysis, articleNumber, null, {
+      folder,
+      includeHistory: false,
+      access,
+    })
+    relevantResults = filterRelevantResults(searchResults, articleNumber ? 0.1 : 0.35)
+    if (relevantResults.length > 1) {
+      relevantResults = (await rerankResults(query, relevantResults)).results
+    }
+  }
+
+  const context = relevantResults.length > 0 ? buildContext(relevantResults) : null
+  const sources = createKBSources(relevantResults)
+
+  const systemPrompt = await buildSystemPrompt({
+    hasContext: context !== null,
+    context: context || undefined,
+    documentCount: relevantResults.length,
+    uniqueDocumentNames: context && analysis.comparativeTerms ? extractUniqueDocumentNames(relevantResults) : [],
+    comparativeTerms: analysis.comparativeTerms || undefined,
+    articleNumber,
+    webSearchEnabled: false,
+    sourcesInsufficient: false,
+    avgSimilarity: calculateAverageSimilarity(relevantResults),
+    isMetaQuery: analysis.isMeta,
+    promptOverride: { name: promptName, target },
+  })
+
+  const promptModel = typeof systemPrompt.config?.model === 'string' ? systemPrompt.config.model : undefined
+  const model = promptModel ?? selectFallbackModel(analysis, false)
+  const messages: LLMMessage[] = [
+    { role: 'system', content: systemPrompt.text },
+    { role: 'user', content: question },
+  ]
+
+  // Nessuno strumento: la risposta dipende solo dal prompt e dal contesto recuperato
+  const agent = getRagAgentForModel(model, false)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const generated = await agent.generate(messages as any, { maxToolRoundtrips: 0 } as any)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const answer = (generated as any).text || (generated as any).content || ''
+
+  const processed = await processResponse(answer, { sources, analysis }, model)
+
+  console.log('[prompt-playground-service] Run completed:', {
+    requestedPrompt: promptName,
+    target,
+    usedPrompt: systemPrompt.prompt.name,
+    version: systemPrompt.prompt.version,
+    overridden: systemPrompt.prompt.overridden,
+    model,
+  })
+
+  return {
+    requestedPrompt: promptName,
+    prompt: systemPrompt.prompt,
+    compiledPrompt: systemPrompt.text,
+    model,
+    answer: processed.content,
+    sources: processed.sources,
+    retrieval: {
+      query,
+      intent: analysis.intent,
+      resultsCount: searchResults.length,
+      relevantCount: relevantResults.length,
+    },
+    durationMs: Date.now() - startTime,
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Regeneration Service
+ *
+ * "Rigenera con…": riesegue una risposta assistant con un altro modello OpenRouter
+ * usando esattamente lo stesso input della risposta originale (system prompt con il
+ * contesto recuperato, cronologia, domanda) e le stesse fonti citabili.
+ * La risposta alternativa resta in attesa finché l'utente non sceglie quale tenere.
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { embedMessage } from '@/lib/supabase/conversation-search'
+import { mapMessageRow, type MessageRow } from '@/lib/services/conversation-service'
+import type { CitationContext, LLMMessage } from '@/app/api/chat/handlers/response-handler'
+import type { Message } from '@/types/chat'
+
+export interface GenerationContextSnapshot {
+  llmMessages: LLMMessage[]
+  citationContext: CitationContext
+}
+
+export interface RegenerationSource {
+  messageId: string
+  model: string | null // Modello della risposta originale
+  snapshot: GenerationContextSnapshot | null // null = risposta dalla cache o precedente alla funzione
+}
+
+export interface RegenerationInput {
+  model: string
+  content: string
+  sources: unknown[]
+}
+
+interface OwnMessageRow {
+  id: string
+  role: string
+  metadata: Record<string, unknown> | null
+}
+
+// Metadata legati alla risposta originale (cache e trace), non validi per la risposta scelta
+const REPLACED_METADATA_KEYS = ['cache_id', 'cache_query', 'cache_scope_key', 'trace_id', 'chunks_used']
+
+/**
+ * Salva l'input del modello e le fonti citabili di una risposta (best effort)
+ */
+export async function saveGenerationContext(
+  messageId: string,
+  snapshot: GenerationContextSnapshot
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('message_generation_contexts')
+    .upsert({
+      message_id: messageId,
+      llm_messages: snapshot.llmMessages,
+      citation_context: snapshot.citationContext,
+    })
+
+  if (error) {
+    console.error('[regeneration-service] Failed to save generation context:', error)
+  }
+}
+
+/**
+ * Messaggi per il nuovo modello: lo stesso input della risposta originale.
+ * I risultati degli strumenti usati dalla risposta originale (ricerca web, elenco documenti)
+ * vengono aggiunti al system prompt, perché il nuovo modello gira senza strumenti.
+ */
+export function buildReplayMessages(snapshot: GenerationContextSnapshot): LLMMessage[] {
+  const { webSearchResults = [], metaQueryDocuments = [] } = snapshot.citationContext
+  const toolSections: string[] = []
+
+  if (webSearchResults.length > 0) {
+    toolSections.push(
+      'RISULTATI DELLA RICERCA WEB (cita con [web:N]):\n' +
+        webSearchResults
+          .map((result) => `[web:${result.index}] ${result.title} (${result.url})\n${result.content}`)
+          .join('\n\n')
+    )
+  }
+  if (metaQueryDocuments.length > 0) {
+    toolSections.push(
+      'DOCUMENTI ELENCATI (cita con [cit:N]):\n' +
+        metaQueryDocuments
+          .map((doc) => `[cit:${doc.index}] ${doc.filename}${doc.folder ? ` (cartella: ${doc.folder})` : ''}`)
+          .join('\n')
+    )
+  }
+
+  if (toolSections.length === 0) {
+    return snapshot.llmMessages
+  }
+
+  const suffix = `\n\n${toolSections.join('\n\n')}`
+  let appended = false
+  return snapshot.llmMessages.map((message) => {
+    if (message.role !== 'system' || appended) {
+      return message
+    }
+    appended = true
+    return { ...message, content: `${message.content}${suffix}` }
+  })
+}
+
+/**
+ * Recupera il messaggio assistant con il client dell'utente: le policy RLS
+ * restituiscono solo i messaggi delle sue conversazioni
+ */
+async function getOwnAssistantMessage(messageId: string): Promise<OwnMessageRow | null> {
+  const supabase = await createServerSupabaseClient()
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, role, metadata')
+    .eq('id', messageId)
+    .maybeSingle<OwnMessageRow>()
+
+  if (error) {
+    console.error('[regeneration-service] Message lookup failed:', error)
+    throw error
+  }
+
+  return data && data.role === 'assistant' ? data : null
+}
+
+/**
+ * Risposta da rigenerare con il suo contesto di generazione
+ *
+ * @returns null se il messaggio non esiste o non appartiene all'utente
+ */
+export async function getRegenerationSource(messageId: string): Promise<RegenerationSource | null> {
+  const message = await getOwnAssistantMessage(messageId)
+  if (!message) {
+    return null
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('message_generation_contexts')
+    .select('llm_messages, citation_context')
+    .eq('message_id', messageId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[regeneration-service] Generation context lookup failed:', error)
+    throw error
+  }
+
+  const model = message.metadata?.model
+  return {
+    messageId,
+    model: typeof model === 'string' ? model : null,
+    snapshot: data
+      ? { llmMessages: data.llm_messages as LLMMessage[], citationContext: data.citation_context as CitationContext }
+      : null,
+  }
+}
+
+/**
+ * Salva la risposta rigenerata in attesa della scelta dell'utente
+ *
+ * @returns ID della rigenerazione
+ */
+export async function saveRegeneration(
+  messageId: string,
+  userId: string,
+  regeneration: RegenerationInput
+): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('message_regenerations')
+    .insert({
+      message_id: messageId,
+      model: regeneration.model,
+      content: regeneration.content,
+      sources: regeneration.sources,
+      created_by: userId,
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('[regeneration-service] Failed to save regeneration:', error)
+    throw error
+  }
+
+  return data.id
+}
+
+/**
+ * Sostituisce la risposta originale con quella rigenerata scelta dall'utente.
+ * Il feedback e i riferimenti alla cache della risposta originale vengono rimossi.
+ *
+ * @returns Il messaggio aggiornato, null se messaggio o rigenerazione non esistono
+ */
+export async function acceptRegeneration(
+  messageId: string,
+  regenerationId: string
+): Promise<Message | null> {
+  const message = await getOwnAssistantMessage(messageId)
+  if (!message) {
+    return null
+  }
+
+  const { data: regeneration, error: regenerationError } = await supabaseAdmin
+    .from('message_regenerations')
+    .select('id, model, content, sources')
+    .eq('id', regenerationId)
+    .eq('message_id', messageId)
+    .is('accepted_at', null)
+    .maybeSingle()
+
+  if (regenerationError) {
+    console.error('[regeneration-service] Regeneration lookup failed:', regenerationError)
+    throw regenerationError
+  }
+  if (!regeneration) {
+    return null
+  }
+
+  const metadata = Object.fromEntries(
+    Object.entries(message.metadata ?? {}).filter(([key]) => !REPLACED_METADATA_KEYS.includes(key))
+  )
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('messages')
+    .update({
+      content: regeneration.content,
+      metadata: {
+        ...metadata,
+        sources: regeneration.sources,
+        model: regeneration.model,
+        previous_model: message.metadata?.model ?? null,
+        regeneration_id: regeneration.id,
+      },
+      feedback_rating: null,
+      feedback_reason: null,
+      feedback_at: null,
+    })
+    .eq('id', messageId)
+    .select('id, role, content, metadata, feedback_rating, feedback_reason, parent_id, created_at')
+    .single<MessageRow>()
+
+  if (updateError) {
+    console.error('[regeneration-service] Failed to replace message:', updateError)
+    throw updateError
+  }
+
+  const { error: acceptError } = await supabaseAdmin
+    .from('message_regenerations')
+    .update({ accepted_at: new Date().toISOString() })
+    .eq('id', regeneration.id)
+
+  if (acceptError) {
+    console.error('[regeneration-service] Failed to mark regeneration as accepted:', acceptError)
+  }
+
+  // Embedding aggiornato per la ricerca nella cronologia
+  await embedMessage(messageId, regeneration.content)
+
+  return mapMessageRow(updated)
+}
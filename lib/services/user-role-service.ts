@@ -0,0 +1,90 @@
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { isBootstrapAdminEmail, resolveUserRole, type UserRole } from '@/lib/auth/roles'
+
+export interface UserRoleItem {
+  readonly userId: string
+  readonly email: string | null
+  readonly displayName: string | null
+  readonly role: UserRole
+  readonly bootstrapAdmin: boolean // Amministratore da ADMIN_EMAILS: il ruolo salvato non si applica
+  readonly createdAt: string
+  readonly lastSignInAt: string | null
+}
+
+interface ProfileRoleRow {
+  user_id: string
+  display_name: string | null
+  role: string
+}
+
+const USERS_PAGE_SIZE = 1000
+
+/**
+ * Elenca gli utenti registrati con il loro ruolo (solo admin)
+ *
+ * Gli utenti vengono da auth.users, il ruolo da user_profiles: un utente senza profilo ha il ruolo di default
+ */
+export async function listUsersWithRoles(): Promise<UserRoleItem[]> {
+  const { data: usersData, error: usersError } = await supabaseAdmin.auth.admin.listUsers({
+    perPage: USERS_PAGE_SIZE,
+  })
+
+  if (usersError) {
+    console.error('[user-role-service] User listing failed:', usersError)
+    throw usersError
+  }
+
+  const { data: profiles, error: profilesError } = await supabaseAdmin
+    .from('user_profiles')
+    .select('user_id, display_name, role')
+    .returns<ProfileRoleRow[]>()
+
+  if (profilesError) {
+    console.error('[user-role-service] Profile listing failed:', profilesError)
+    throw profilesError
+  }
+
+  const profileByUser = new Map((profiles ?? []).map((p) => [p.user_id, p]))
+
+  return usersData.users
+    .map<UserRoleItem>((user) => {
+      const profile = profileByUser.get(user.id)
+      return {
+        userId: user.id,
+        email: user.email ?? null,
+        displayName: profile?.display_name ?? null,
+        role: resolveUserRole(profile?.role, user.email),
+        bootstrapAdmin: isBootstrapAdminEmail(user.email),
+        createdAt: user.created_at,
+        lastSignInAt: user.last_sign_in_at ?? null,
+      }
+    })
+    .sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''))
+}
+
+/**
+ * Assegna un ruolo a un utente (solo admin)
+ *
+ * Il profilo viene creato se manca; con il service role il trigger di protezione del ruolo non interviene
+ *
+ * @returns false se l'utente non esiste
+ */
+export async function setUserRole(userId: string, role: UserRole): Promise<boolean> {
+  const { data: userData, error: userError } = await supabaseAdmin.auth.admin.getUserById(userId)
+
+  if (userError || !userData.user) {
+    return false
+  }
+
+  const { error } = await supabaseAdmin
+    .from('user_profiles')
+    .upsert({ user_id: userId, role }, { onConflict: 'user_id' })
+
+  if (error) {
+    console.error('[user-role-service] Role update failed:', error)
+    throw error
+  }
+
+  console.log('[user-role-service] Role updated:', { userId, role })
+  return true
+}
@@ -0,0 +1,22 @@
+import { supabaseAdmin } from './admin'
+
+/**
+ * Contatori di lookup delle cache (hit rate nel tempo per /admin/cache)
+ */
+
+export type CacheName = 'semantic' | 'unified' | 'comparative' | 'enhancement' | 'analysis'
+
+/**
+ * Registra un lookup in cache_lookup_stats (fire-and-forget)
+ *
+ * Non blocca il lookup: un errore viene solo loggato
+ */
+export function recordCacheLookup(cacheName: CacheName, hit: boolean): void {
+  supabaseAdmin
+    .rpc('record_cache_lookup', { p_cache_name: cacheName, p_hit: hit })
+    .then(({ error }) => {
+      if (error) {
+        console.warn('[cache-stats] Failed to record lookup:', { cacheName, hit, error: error.message })
+      }
+    })
+}
@@ -0,0 +1,308 @@
+/**
+ * Conversation Search
+ *
+ * Ricerca nella cronologia delle conversazioni dell'utente:
+ * - testo: full-text search Postgres (italiano) con estratti evidenziati da ts_headline
+ * - semantica: similarità tra l'embedding della query e quello dei messaggi
+ *
+ * Le ricerche usano il client di sessione: le funzioni SQL filtrano per auth.uid()
+ * Gli embedding mancanti sono completati dal cron /api/conversations/search/backfill,
+ * non durante la ricerca (il percorso di ricerca è in sola lettura)
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { generateEmbedding, generateEmbeddings } from '@/lib/embeddings/openai'
+import type {
+  ConversationSearchMode,
+  ConversationSearchResult,
+  SnippetSegment,
+} from '@/types/chat'
+
+// Delimitatori restituiti da ts_headline (vedi migrazione conversation_search)
+const HIGHLIGHT_START = '[[hl]]'
+const HIGHLIGHT_END = '[[/hl]]'
+
+const CITATION_MARKER_REGEX = /\[(?:cit|web):[^\]]*\]/g
+const SNIPPET_MAX_LENGTH = 240
+const SNIPPET_CONTEXT_BEFORE = 60
+const MAX_EMBEDDING_CHARS = 8000
+const EMBEDDING_BACKFILL_BATCH = 50
+const EMBEDDING_BACKFILL_MAX_PER_RUN = 200
+const EMBEDDING_BACKFILL_MAX_SCANNED = 1000
+const SEMANTIC_MATCH_THRESHOLD = 0.3
+
+interface SearchRow {
+  message_id: string
+  conversation_id: string
+  conversation_title: string | null
+  role: 'user' | 'assistant'
+  snippet?: string
+  content?: string
+  score: number
+  created_at: string
+}
+
+export interface ConversationSearchOptions {
+  mode?: ConversationSearchMode
+  limit?: number
+}
+
+/**
+ * Rimuove i marker di citazione [cit:N] / [web:N] dal testo
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(CITATION_MARKER_REGEX, '').replace(/[ \t]{2,}/g, ' ')
+}
+
+function pushSegment(segments: SnippetSegment[], text: string, highlight: boolean): void {
+  if (!text) {
+    return
+  }
+  const last = segments[segments.length - 1]
+  if (last && last.highlight === highlight) {
+    last.text += text
+  } else {
+    segments.push({ text, highlight })
+  }
+}
+
+/**
+ * Converte l'estratto di ts_headline ([[hl]]termine[[/hl]]) in segmenti evidenziati
+ */
+export function parseHighlightedSnippet(raw: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  const text = stripCitationMarkers(raw).replace(/\s+/g, ' ').trim()
+  let cursor = 0
+
+  while (cursor < text.length) {
+    const start = text.indexOf(HIGHLIGHT_START, cursor)
+    if (start === -1) {
+      pushSegment(segments, text.slice(cursor), false)
+      break
+    }
+    const end = text.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length)
+    if (end === -1) {
+      pushSegment(segments, text.slice(cursor).split(HIGHLIGHT_START).join(''), false)
+      break
+    }
+    pushSegment(segments, text.slice(cursor, start), false)
+    pushSegment(segments, text.slice(start + HIGHLIGHT_START.length, end), true)
+    cursor = end + HIGHLIGHT_END.length
+  }
+
+  return segments
+}
+
+function queryTerms(query: string): string[] {
+  return Array.from(new Set(
+    query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length >= 3)
+  ))
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Estratto evidenziato per i risultati semantici: finestra attorno al primo termine
+ * della query trovato nel messaggio (o l'inizio del messaggio se nessun termine compare)
+ */
+export function buildHighlightedSnippet(
+  content: string,
+  query: string,
+  maxLength: number = SNIPPET_MAX_LENGTH
+): SnippetSegment[] {
+  const text = stripCitationMarkers(content).replace(/\s+/g, ' ').trim()
+  const terms = queryTerms(query)
+  const termRegex = terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu')
+    : null
+
+  // Finestra attorno alla prima occorrenza
+  let start = 0
+  const firstMatch = termRegex ? text.search(termRegex) : -1
+  if (firstMatch > SNIPPET_CONTEXT_BEFORE) {
+    const spaceBefore = text.lastIndexOf(' ', firstMatch - SNIPPET_CONTEXT_BEFORE)
+    start = spaceBefore === -1 ? 0 : spaceBefore + 1
+  }
+  let end = Math.min(text.length, start + maxLength)
+  if (end < text.length) {
+    const spaceAfter = text.lastIndexOf(' ', end)
+    end = spaceAfter > start ? spaceAfter : end
+  }
+
+  const window = text.slice(start, end)
+  const segments: SnippetSegment[] = []
+  pushSegment(segments, start > 0 ? '... ' : '', false)
+
+  let cursor = 0
+  if (termRegex) {
+    termRegex.lastIndex = 0
+    for (const match of Array.from(window.matchAll(termRegex))) {
+      const index = match.index ?? 0
+      pushSegment(segments, window.slice(cursor, index), false)
+      pushSegment(segments, match[0], true)
+      cursor = index + match[0].length
+    }
+  }
+  pushSegment(segments, window.slice(cursor), false)
+  pushSegment(segments, end < text.length ? ' ...' : '', false)
+
+  return segments
+}
+
+function embeddingText(content: string): string {
+  return stripCitationMarkers(content).trim().substring(0, MAX_EMBEDDING_CHARS)
+}
+
+/**
+ * Calcola e salva l'embedding di un messaggio (best effort: gli errori sono solo loggati)
+ */
+export async function embedMessage(messageId: string, content: string): Promise<void> {
+  const text = embeddingText(content)
+  if (!text) {
+    return
+  }
+
+  try {
+    const embedding = await generateEmbedding(text)
+    const { error } = await supabaseAdmin
+      .from('messages')
+      .update({ embedding })
+      .eq('id', messageId)
+
+    if (error) {
+      console.error('[conversation-search] Failed to save message embedding:', error)
+    }
+  } catch (error) {
+    console.error('[conversation-search] Message embedding failed:', error)
+  }
+}
+
+export interface EmbeddingBackfillResult {
+  embedded: number
+  scanned: number
+}
+
+/**
+ * Completa a lotti gli embedding mancanti dei messaggi di tutti gli utenti
+ * (messaggi salvati prima della ricerca semantica o il cui embedding è fallito)
+ *
+ * La scansione procede per data con un cursore: i messaggi senza testo da indicizzare
+ * (es. solo marker di citazione) restano senza embedding ma non bloccano i lotti successivi
+ *
+ * @param limit - Numero massimo di embedding calcolati per esecuzione
+ */
+export async function backfillMessageEmbeddings(
+  limit: number = EMBEDDING_BACKFILL_MAX_PER_RUN
+): Promise<EmbeddingBackfillResult> {
+  let embedded = 0
+  let scanned = 0
+  let before: string | null = null
+
+  while (embedded < limit && scanned < EMBEDDING_BACKFILL_MAX_SCANNED) {
+    let query = supabaseAdmin
+      .from('messages')
+      .select('id, content, created_at')
+      .is('embedding', null)
+      .in('role', ['user', 'assistant'])
+      .order('created_at', { ascending: false })
+      .limit(EMBEDDING_BACKFILL_BATCH)
+    if (before) {
+      query = query.lt('created_at', before)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('[conversation-search] Missing embeddings lookup failed:', error)
+      break
+    }
+
+    const rows = (data ?? []) as { id: string; content: string; created_at: string }[]
+    if (rows.length === 0) {
+      break
+    }
+    scanned += rows.length
+    before = rows[rows.length - 1].created_at
+
+    const pending = rows
+      .map((row) => ({ id: row.id, text: embeddingText(row.content) }))
+      .filter((row) => row.text.length > 0)
+      .slice(0, limit - embedded)
+
+    if (pending.length === 0) {
+      continue
+    }
+
+    try {
+      const embeddings = await generateEmbeddings(pending.map((row) => row.text))
+      await Promise.all(
+        pending.map((row, idx) =>
+          supabaseAdmin.from('messages').update({ embedding: embeddings[idx] }).eq('id', row.id)
+        )
+      )
+      embedded += pending.length
+    } catch (err) {
+      console.error('[conversation-search] Embedding backfill failed:', err)
+      break
+    }
+  }
+
+  console.log('[conversation-search] Backfilled message embeddings:', { embedded, scanned })
+  return { embedded, scanned }
+}
+
+/**
+ * Cerca nei messaggi delle conversazioni dell'utente corrente
+ *
+ * @param query - Testo cercato (sintassi websearch: "frase esatta", -escludi, OR)
+ * @returns Risultati ordinati per rilevanza, con estratto evidenziato
+ */
+export async function searchConversationMessages(
+  query: string,
+  options: ConversationSearchOptions = {}
+): Promise<ConversationSearchResult[]> {
+  const { mode = 'text', limit = 20 } = options
+  const supabase = await createServerSupabaseClient()
+
+  let rows: SearchRow[]
+  if (mode === 'semantic') {
+    const queryEmbedding = await generateEmbedding(query)
+    const { data, error } = await supabase.rpc('search_conversation_messages_semantic', {
+      p_query_embedding: queryEmbedding,
+      p_match_threshold: SEMANTIC_MATCH_THRESHOLD,
+      p_limit: limit,
+    })
+    if (error) {
+      console.error('[conversation-search] Semantic search failed:', error)
+      throw error
+    }
+    rows = (data ?? []) as SearchRow[]
+  } else {
+    const { data, error } = await supabase.rpc('search_conversation_messages', {
+      p_query: query,
+      p_limit: limit,
+    })
+    if (error) {
+      console.error('[conversation-search] Full-text search failed:', error)
+      throw error
+    }
+    rows = (data ?? []) as SearchRow[]
+  }
+
+  return rows.map((row) => ({
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    conversationTitle: row.conversation_title,
+    role: row.role,
+    snippet: mode === 'semantic'
+      ? buildHighlightedSnippet(row.content ?? '', query)
+      : parseHighlightedSnippet(row.snippet ?? ''),
+    score: row.score,
+    createdAt: row.created_at,
+  }))
+}
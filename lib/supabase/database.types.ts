@@ -17,6 +17,7 @@ export interface Document {
   folder?: string
   version?: number
   parent_version_id?: string
+  is_latest_version?: boolean // Versione più recente (completata) della catena di versioni
   summary?: string | null
   summary_embedding?: number[] | null
   summary_generated_at?: string | null
@@ -40,22 +41,33 @@ export interface SearchResult extends DocumentChunk {
   document_metadata?: Record<string, unknown>
   vector_score?: number
   text_score?: number
+  rerank_score?: number // Punteggio del reranker (presente solo dopo il reranking)
+  document_version?: number
+  is_latest_version?: boolean // false = chunk di una versione superata (solo con includeHistory)
 }
 
 export interface Conversation {
   id: string
   user_id?: string
   title?: string
+  folder_scope?: string | null // Cartella a cui è ristretta la conversazione (null = tutto il corpus)
   created_at: string
   updated_at: string
 }
 
+export type FeedbackRating = 'up' | 'down'
+
+export type FeedbackReason = 'wrong_source' | 'hallucination' | 'incomplete' | 'outdated'
+
 export interface Message {
   id: string
   conversation_id: string
   role: 'user' | 'assistant' | 'system'
   content: string
   metadata?: Record<string, unknown>
+  feedback_rating?: FeedbackRating | null
+  feedback_reason?: FeedbackReason | null
+  feedback_at?: string | null
   created_at: string
 }
 
@@ -66,6 +78,8 @@ export interface QueryCache {
   response_text: string
   similarity_threshold: number
   hit_count: number
+  scope_key?: string // Scope di retrieval (es. 'folder:GRI'), '' se non ristretto
+  document_ids?: string[] // Documenti citati: la voce viene invalidata quando uno di essi cambia
   created_at: string
   expires_at: string
   sources?: Array<{
@@ -78,3 +92,24 @@ export interface QueryCache {
   }>
 }
 
+
+export type IngestionStage = 'extract' | 'structure' | 'chunk' | 'embed' | 'summarize'
+
+export interface IngestionJob {
+  id: string
+  document_id: string
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  current_stage: IngestionStage | null
+  completed_stages: IngestionStage[]
+  progress: number
+  message: string | null
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  locked_at: string | null
+  locked_by: string | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
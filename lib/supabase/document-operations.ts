@@ -1,5 +1,6 @@
 import { supabaseAdmin } from './admin'
 import type { Document } from './database.types'
+import { invalidateCacheForDocuments } from './semantic-cache'
 
 /**
  * Document operations
@@ -91,6 +92,8 @@ export async function deleteDocument(id: string): Promise<void> {
     console.error('[document-operations] Delete failed:', error)
     throw new Error(`Failed to delete document: ${error.message}`)
   }
+
+  await invalidateCacheForDocuments([id], 'document deleted')
 }
 
 /**
@@ -172,6 +175,9 @@ export async function checkDuplicateFilename(
 
 /**
  * Update document folder
+ *
+ * Le risposte in cache che citano il documento vengono invalidate: erano legate allo
+ * scope della cartella di origine e ai suoi permessi (es. spostamento in cartella riservata)
  */
 export async function updateDocumentFolder(
   documentId: string,
@@ -189,6 +195,8 @@ export async function updateDocumentFolder(
     throw new Error(`Failed to update document folder: ${error.message}`)
   }
 
+  await invalidateCacheForDocuments([documentId], 'document moved')
+
   return data as Document
 }
 
@@ -209,10 +217,12 @@ export async function batchDeleteDocuments(ids: string[]): Promise<void> {
     console.error('[document-operations] Batch delete failed:', error)
     throw new Error(`Failed to batch delete documents: ${error.message}`)
   }
+
+  await invalidateCacheForDocuments(ids, 'documents deleted')
 }
 
 /**
- * Batch move documents to folder
+ * Batch move documents to folder (invalida la cache come updateDocumentFolder)
  */
 export async function batchMoveDocuments(
   ids: string[],
@@ -231,5 +241,7 @@ export async function batchMoveDocuments(
     console.error('[document-operations] Batch move failed:', error)
     throw new Error(`Failed to batch move documents: ${error.message}`)
   }
+
+  await invalidateCacheForDocuments(ids, 'documents moved')
 }
 
@@ -9,6 +9,7 @@
 
 import { supabaseAdmin } from './admin'
 import { generateEmbeddings } from '../embeddings/openai'
+import { ANONYMOUS_DOCUMENT_ACCESS, type DocumentAccess } from './folder-permissions'
 
 export interface DocumentSearchResult {
   id: string
@@ -20,12 +21,17 @@ export interface DocumentSearchResult {
   folder_path: string | null
   processing_status: string
   summary_generated_at: string | null
+  version?: number
+  is_latest_version?: boolean
 }
 
 export interface DocumentSearchOptions {
   threshold?: number
   limit?: number
   includeWithoutSummary?: boolean
+  folder?: string | null // Limita la ricerca ai documenti di una cartella
+  includeHistory?: boolean // Include le versioni superate (default: solo l'ultima versione)
+  access?: DocumentAccess // Utente che legge: ACL delle cartelle applicata in SQL (default: solo cartelle aperte)
 }
 
 /**
@@ -48,14 +54,19 @@ export async function searchDocumentsBySummary(
   const {
     threshold = 0.6, // Lower than chunk search (summaries are broader)
     limit = 50,
-    includeWithoutSummary = false
+    includeWithoutSummary = false,
+    folder = null,
+    includeHistory = false,
+    access = ANONYMOUS_DOCUMENT_ACCESS
   } = options
 
   console.log('[document-search] Searching documents by summary:', {
     query,
     threshold,
     limit,
-    includeWithoutSummary
+    includeWithoutSummary,
+    folder,
+    includeHistory
   })
 
   try {
@@ -71,7 +82,11 @@ export async function searchDocumentsBySummary(
     const { data, error } = await supabaseAdmin.rpc('search_documents_by_summary', {
       query_embedding: queryEmbedding,
       match_threshold: threshold,
-      match_count: limit
+      match_count: limit,
+      p_folder: folder,
+      p_include_history: includeHistory,
+      p_user_id: access.userId,
+      p_unrestricted: access.unrestricted
     })
 
     if (error) {
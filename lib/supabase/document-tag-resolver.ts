@@ -0,0 +1,239 @@
+/**
+ * Document Tag Resolver
+ *
+ * Risolve i tag @documento digitati nella chat in document IDs reali.
+ * Strategia di risoluzione (in ordine):
+ * 1. UUID esplicito (es. @3f2b...-...)
+ * 2. Match esatto/parziale sul filename (ilike)
+ * 3. Fuzzy match tramite searchByFilename (termini del tag)
+ */
+
+import { supabaseAdmin } from './admin'
+import { searchByFilename } from './filename-search'
+import { ANONYMOUS_DOCUMENT_ACCESS, buildDeniedFoldersFilter, getDeniedFolders, type DocumentAccess } from './folder-permissions'
+import type { DocumentTag } from '@/lib/utils/document-tag-parser'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface ResolvedDocumentTag {
+  tag: string
+  identifier: string
+  documentId: string
+  filename: string
+  matchType: 'id' | 'filename' | 'fuzzy'
+}
+
+export interface DocumentTagResolution {
+  resolved: ResolvedDocumentTag[]
+  unresolved: DocumentTag[]
+}
+
+/**
+ * Escape dei caratteri jolly di ilike (% e _) e del carattere di escape
+ */
+function escapeIlikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Filtro PostgREST (or) per i filename che contengono una delle varianti
+ * I valori sono tra virgolette, come in buildDeniedFoldersFilter: virgole e parentesi
+ * nel nome (es. "Report (2023)") non rompono la sintassi del filtro
+ */
+export function buildFilenameFilter(variants: readonly string[]): string {
+  return variants
+    .map((variant) => {
+      const pattern = `%${escapeIlikePattern(variant)}%`
+      return `filename.ilike."${pattern.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+    })
+    .join(',')
+}
+
+/**
+ * Cerca un documento per ID
+ */
+async function resolveById(
+  identifier: string,
+  deniedFoldersFilter: string | null
+): Promise<{ id: string; filename: string } | null> {
+  let query = supabaseAdmin
+    .from('documents')
+    .select('id, filename')
+    .eq('id', identifier)
+    .eq('processing_status', 'completed')
+
+  if (deniedFoldersFilter) {
+    query = query.or(deniedFoldersFilter)
+  }
+
+  const { data, error } = await query.maybeSingle()
+
+  if (error) {
+    console.error('[document-tag-resolver] Lookup by id failed:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Cerca un documento per filename (match esatto preferito, poi parziale)
+ */
+async function resolveByFilename(
+  identifier: string,
+  deniedFoldersFilter: string | null
+): Promise<{ id: string; filename: string } | null> {
+  // I tag senza virgolette usano "-" al posto degli spazi (es. @GDPR-report)
+  const variants = Array.from(new Set([identifier, identifier.replace(/-/g, ' ')]))
+  const orConditions = buildFilenameFilter(variants)
+
+  let query = supabaseAdmin
+    .from('documents')
+    .select('id, filename')
+    .eq('processing_status', 'completed')
+    .or(orConditions)
+
+  if (deniedFoldersFilter) {
+    query = query.or(deniedFoldersFilter)
+  }
+
+  const { data, error } = await query.limit(10)
+
+  if (error) {
+    console.error('[document-tag-resolver] Lookup by filename failed:', error)
+    return null
+  }
+
+  if (!data || data.length === 0) {
+    return null
+  }
+
+  // Preferisci il match esatto (con o senza estensione), poi il filename più corto
+  const normalizedVariants = variants.map((v) => v.toLowerCase())
+  const exact = data.find((doc) => {
+    const lower = doc.filename.toLowerCase()
+    const withoutExtension = lower.replace(/\.[^.]+$/, '')
+    return normalizedVariants.includes(lower) || normalizedVariants.includes(withoutExtension)
+  })
+
+  if (exact) {
+    return exact
+  }
+
+  return [...data].sort((a, b) => a.filename.length - b.filename.length)[0]
+}
+
+/**
+ * Fuzzy match: usa searchByFilename con i termini significativi del tag
+ */
+async function resolveByFuzzyMatch(
+  identifier: string,
+  access: DocumentAccess
+): Promise<{ id: string; filename: string } | null> {
+  const terms = identifier
+    .split(/[\s\-_.]+/)
+    .filter((term) => term.length >= 3)
+
+  if (terms.length === 0) {
+    return null
+  }
+
+  const results = await searchByFilename(terms, 5, undefined, false, access)
+  if (results.length === 0) {
+    return null
+  }
+
+  // Scegli il documento che copre più termini del tag
+  const scored = new Map<string, { id: string; filename: string; score: number }>()
+  results.forEach((result) => {
+    if (scored.has(result.document_id)) {
+      return
+    }
+    const filename = result.document_filename || ''
+    const lower = filename.toLowerCase()
+    const score = terms.filter((term) => lower.includes(term.toLowerCase())).length
+    scored.set(result.document_id, { id: result.document_id, filename, score })
+  })
+
+  const best = Array.from(scored.values()).sort((a, b) => b.score - a.score)[0]
+  return best && best.score > 0 ? { id: best.id, filename: best.filename } : null
+}
+
+/**
+ * Risolve un identificativo di documento (ID, filename o nome parziale)
+ * con la stessa strategia dei tag @documento
+ *
+ * @param access - Utente che legge: i documenti delle cartelle riservate non accessibili non vengono risolti
+ * @returns Documento trovato e tipo di match, null se nessun documento corrisponde
+ */
+export async function resolveDocumentIdentifier(
+  identifier: string,
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
+): Promise<{ id: string; filename: string; matchType: ResolvedDocumentTag['matchType'] } | null> {
+  const deniedFoldersFilter = buildDeniedFoldersFilter(await getDeniedFolders(access))
+
+  if (UUID_PATTERN.test(identifier)) {
+    const match = await resolveById(identifier, deniedFoldersFilter)
+    if (match) {
+      return { ...match, matchType: 'id' }
+    }
+  }
+
+  const byFilename = await resolveByFilename(identifier, deniedFoldersFilter)
+  if (byFilename) {
+    return { ...byFilename, matchType: 'filename' }
+  }
+
+  const fuzzy = await resolveByFuzzyMatch(identifier, access)
+  return fuzzy ? { ...fuzzy, matchType: 'fuzzy' } : null
+}
+
+/**
+ * Risolve i tag @documento in document IDs
+ *
+ * @param tags - Tag estratti con parseDocumentTags
+ * @param access - Utente che legge: i tag verso cartelle riservate non accessibili restano non risolti
+ * @returns Tag risolti (deduplicati per documento) e tag non risolvibili
+ */
+export async function resolveDocumentTags(
+  tags: DocumentTag[],
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
+): Promise<DocumentTagResolution> {
+  const resolved: ResolvedDocumentTag[] = []
+  const unresolved: DocumentTag[] = []
+  const seenDocumentIds = new Set<string>()
+
+  for (const tag of tags) {
+    try {
+      const match = await resolveDocumentIdentifier(tag.identifier, access)
+
+      if (!match) {
+        unresolved.push(tag)
+        continue
+      }
+
+      if (seenDocumentIds.has(match.id)) {
+        continue
+      }
+      seenDocumentIds.add(match.id)
+
+      resolved.push({
+        tag: tag.tag,
+        identifier: tag.identifier,
+        documentId: match.id,
+        filename: match.filename,
+        matchType: match.matchType,
+      })
+    } catch (error) {
+      console.error('[document-tag-resolver] Failed to resolve tag:', { tag: tag.tag, error })
+      unresolved.push(tag)
+    }
+  }
+
+  console.log('[document-tag-resolver] Tags resolved:', {
+    resolved: resolved.map((r) => ({ tag: r.tag, filename: r.filename, matchType: r.matchType })),
+    unresolved: unresolved.map((t) => t.tag),
+  })
+
+  return { resolved, unresolved }
+}
@@ -7,6 +7,7 @@
 
 import { supabaseAdmin } from './admin'
 import type { SearchResult } from './database.types'
+import { ANONYMOUS_DOCUMENT_ACCESS, buildDeniedFoldersFilter, getDeniedFolders, type DocumentAccess } from './folder-permissions'
 
 /**
  * Estrae possibili nomi di file dalla query
@@ -97,23 +98,45 @@ export function extractPossibleFilenames(query: string): string[] {
 
 /**
  * Cerca documenti per nome file e restituisce i chunks
+ * 
+ * @param folder - Optional: limita la ricerca ai documenti di una cartella
+ * @param includeHistory - Se true include anche le versioni superate (default: solo l'ultima versione)
+ * @param access - Utente che legge: esclude le cartelle riservate non accessibili
  */
 export async function searchByFilename(
   filenames: string[],
-  limit: number = 10
+  limit: number = 10,
+  folder?: string,
+  includeHistory: boolean = false,
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
 ): Promise<SearchResult[]> {
   if (filenames.length === 0) {
     return []
   }
 
   try {
+    const deniedFoldersFilter = buildDeniedFoldersFilter(await getDeniedFolders(access))
+
     // Cerca documenti con nomi che contengono gli acronimi
     // Costruisci query OR per ogni acronimo
     let query = supabaseAdmin
       .from('documents')
-      .select('id, filename')
+      .select('id, filename, version, is_latest_version')
       .eq('processing_status', 'completed')
     
+    if (folder) {
+      query = query.eq('folder', folder)
+    }
+
+    // Versioni diverse condividono il nome file: di default solo l'ultima
+    if (!includeHistory) {
+      query = query.eq('is_latest_version', true)
+    }
+
+    if (deniedFoldersFilter) {
+      query = query.or(deniedFoldersFilter)
+    }
+    
     // Aggiungi filtri OR per ogni acronimo
     const orConditions = filenames.map(f => `filename.ilike.%${f}%`).join(',')
     query = query.or(orConditions)
@@ -132,7 +155,7 @@ export async function searchByFilename(
 
     // Per ogni documento trovato, recupera i chunks
     const documentIds = documents.map(d => d.id)
-    const filenameMap = new Map(documents.map(d => [d.id, d.filename]))
+    const documentMap = new Map(documents.map(d => [d.id, d]))
     
     const { data: chunks, error: chunksError } = await supabaseAdmin
       .from('document_chunks')
@@ -152,7 +175,8 @@ export async function searchByFilename(
 
     // Converti in SearchResult con similarity alta (perché match esatto per nome)
     const results: SearchResult[] = chunks.map((chunk: any) => {
-      const filename = filenameMap.get(chunk.document_id) || 'Documento sconosciuto'
+      const document = documentMap.get(chunk.document_id)
+      const filename = document?.filename || 'Documento sconosciuto'
       return {
         id: chunk.id,
         document_id: chunk.document_id,
@@ -165,6 +189,8 @@ export async function searchByFilename(
         document_metadata: {},
         vector_score: 0.8,
         text_score: 1.0, // Score alto per match esatto
+        document_version: document?.version ?? 1,
+        is_latest_version: document?.is_latest_version ?? true,
       }
     })
 
@@ -0,0 +1,239 @@
+import { supabaseAdmin } from './admin'
+
+/**
+ * Permessi per cartella (ACL)
+ *
+ * Una cartella con almeno un gruppo in folder_permissions è riservata ai membri di quei gruppi;
+ * le cartelle senza gruppi restano visibili a tutti. hybrid_search e search_documents_by_summary
+ * applicano l'ACL in SQL; le altre query sui documenti escludono le cartelle di getDeniedFolders
+ */
+
+/**
+ * Chi sta leggendo i documenti
+ * - userId: utente della richiesta (null = nessun utente, solo cartelle aperte)
+ * - unrestricted: ignora l'ACL (amministratori, job di sistema)
+ */
+export interface DocumentAccess {
+  readonly userId: string | null
+  readonly unrestricted: boolean
+}
+
+/** Nessun utente: solo le cartelle aperte (default sicuro quando l'accesso non è indicato) */
+export const ANONYMOUS_DOCUMENT_ACCESS: DocumentAccess = { userId: null, unrestricted: false }
+
+/** Job di sistema e strumenti di amministrazione: tutte le cartelle */
+export const SYSTEM_DOCUMENT_ACCESS: DocumentAccess = { userId: null, unrestricted: true }
+
+export interface UserGroup {
+  id: string
+  name: string
+  description: string | null
+  memberIds: string[]
+  folders: string[]
+}
+
+interface UserGroupRow {
+  id: string
+  name: string
+  description: string | null
+  user_group_members: Array<{ user_id: string }> | null
+  folder_permissions: Array<{ folder: string }> | null
+}
+
+/**
+ * Cartelle riservate che l'utente non può leggere, in ordine alfabetico
+ */
+export async function getDeniedFolders(access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS): Promise<string[]> {
+  if (access.unrestricted) {
+    return []
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('denied_folders', { p_user_id: access.userId })
+
+  if (error) {
+    console.error('[folder-permissions] denied_folders failed:', error)
+    throw new Error(`Failed to resolve folder permissions: ${error.message}`)
+  }
+
+  return ((data || []) as Array<{ folder: string }>).map((row) => row.folder)
+}
+
+/**
+ * Verifica se una cartella è leggibile, dato l'elenco delle cartelle negate
+ */
+export function isFolderReadable(folder: string | null | undefined, deniedFolders: readonly string[]): boolean {
+  return !folder || !deniedFolders.includes(folder)
+}
+
+/**
+ * Verifica se l'utente può leggere un documento della cartella indicata
+ */
+export async function canReadFolder(
+  folder: string | null | undefined,
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
+): Promise<boolean> {
+  if (!folder || access.unrestricted) {
+    return true
+  }
+  return isFolderReadable(folder, await getDeniedFolders(access))
+}
+
+/**
+ * Filtro PostgREST che esclude i documenti delle cartelle negate (mantiene quelli senza cartella)
+ *
+ * @returns null se non ci sono cartelle da escludere
+ */
+export function buildDeniedFoldersFilter(deniedFolders: readonly string[]): string | null {
+  if (deniedFolders.length === 0) {
+    return null
+  }
+  const values = deniedFolders
+    .map((folder) => `"${folder.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`)
+    .join(',')
+  return `folder.is.null,folder.not.in.(${values})`
+}
+
+/**
+ * Elenca i gruppi con membri e cartelle riservate (solo admin)
+ */
+export async function listUserGroups(): Promise<UserGroup[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_groups')
+    .select('id, name, description, user_group_members(user_id), folder_permissions(folder)')
+    .order('name', { ascending: true })
+    .returns<UserGroupRow[]>()
+
+  if (error) {
+    console.error('[folder-permissions] Group listing failed:', error)
+    throw new Error(`Failed to list groups: ${error.message}`)
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    memberIds: (row.user_group_members || []).map((m) => m.user_id),
+    folders: (row.folder_permissions || []).map((p) => p.folder).sort(),
+  }))
+}
+
+/**
+ * Crea un gruppo (solo admin)
+ */
+export async function createUserGroup(name: string, description?: string | null): Promise<UserGroup> {
+  const { data, error } = await supabaseAdmin
+    .from('user_groups')
+    .insert({ name: name.trim(), description: description?.trim() || null })
+    .select('id, name, description')
+    .single()
+
+  if (error) {
+    console.error('[folder-permissions] Group creation failed:', error)
+    throw new Error(`Failed to create group: ${error.message}`)
+  }
+
+  return { ...data, memberIds: [], folders: [] }
+}
+
+/**
+ * Elimina un gruppo: le cartelle riservate solo a questo gruppo tornano visibili a tutti
+ */
+export async function deleteUserGroup(groupId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('user_groups')
+    .delete()
+    .eq('id', groupId)
+
+  if (error) {
+    console.error('[folder-permissions] Group deletion failed:', error)
+    throw new Error(`Failed to delete group: ${error.message}`)
+  }
+}
+
+/**
+ * Sostituisce i membri di un gruppo
+ */
+export async function setGroupMembers(groupId: string, userIds: string[]): Promise<void> {
+  const { error: deleteError } = await supabaseAdmin
+    .from('user_group_members')
+    .delete()
+    .eq('group_id', groupId)
+
+  if (deleteError) {
+    console.error('[folder-permissions] Member reset failed:', deleteError)
+    throw new Error(`Failed to update group members: ${deleteError.message}`)
+  }
+
+  if (userIds.length === 0) {
+    return
+  }
+
+  const { error } = await supabaseAdmin
+    .from('user_group_members')
+    .insert(Array.from(new Set(userIds)).map((userId) => ({ group_id: groupId, user_id: userId })))
+
+  if (error) {
+    console.error('[folder-permissions] Member insert failed:', error)
+    throw new Error(`Failed to update group members: ${error.message}`)
+  }
+}
+
+/**
+ * Elenca l'ACL di tutte le cartelle riservate: cartella → gruppi ammessi
+ */
+export async function listFolderPermissions(): Promise<Record<string, string[]>> {
+  const { data, error } = await supabaseAdmin
+    .from('folder_permissions')
+    .select('folder, group_id')
+
+  if (error) {
+    console.error('[folder-permissions] ACL listing failed:', error)
+    throw new Error(`Failed to list folder permissions: ${error.message}`)
+  }
+
+  return (data || []).reduce<Record<string, string[]>>((acl, row) => {
+    acl[row.folder] = [...(acl[row.folder] || []), row.group_id]
+    return acl
+  }, {})
+}
+
+/**
+ * Sostituisce i gruppi ammessi a una cartella (nessun gruppo = cartella aperta a tutti)
+ *
+ * L'inserimento precede la rimozione: durante l'aggiornamento la cartella non risulta mai aperta
+ */
+export async function setFolderGroups(folder: string, groupIds: string[]): Promise<void> {
+  const uniqueGroupIds = Array.from(new Set(groupIds))
+
+  if (uniqueGroupIds.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('folder_permissions')
+      .upsert(
+        uniqueGroupIds.map((groupId) => ({ folder, group_id: groupId })),
+        { onConflict: 'folder,group_id', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      console.error('[folder-permissions] ACL insert failed:', error)
+      throw new Error(`Failed to update folder permissions: ${error.message}`)
+    }
+  }
+
+  let removal = supabaseAdmin
+    .from('folder_permissions')
+    .delete()
+    .eq('folder', folder)
+
+  if (uniqueGroupIds.length > 0) {
+    removal = removal.not('group_id', 'in', `(${uniqueGroupIds.join(',')})`)
+  }
+
+  const { error: deleteError } = await removal
+
+  if (deleteError) {
+    console.error('[folder-permissions] ACL removal failed:', deleteError)
+    throw new Error(`Failed to update folder permissions: ${deleteError.message}`)
+  }
+
+  console.log('[folder-permissions] Folder ACL updated:', { folder, groups: uniqueGroupIds.length })
+}
@@ -0,0 +1,228 @@
+import { supabaseAdmin } from './admin'
+import type { IngestionJob, IngestionStage } from './database.types'
+
+/**
+ * Ingestion job operations
+ *
+ * Coda persistente per il processing dei documenti (tabella ingestion_jobs)
+ */
+
+export const INGESTION_STAGES: IngestionStage[] = ['extract', 'structure', 'chunk', 'embed', 'summarize']
+
+const RETRY_BASE_DELAY_SECONDS = 30
+const RETRY_MAX_DELAY_SECONDS = 15 * 60
+
+/**
+ * Calcola il backoff esponenziale per il prossimo tentativo
+ *
+ * @param attempts - Tentativi già effettuati (>= 1)
+ * @returns Ritardo in secondi (30s, 60s, 120s, ... fino a 15 minuti)
+ */
+export function computeRetryDelaySeconds(attempts: number): number {
+  const delay = RETRY_BASE_DELAY_SECONDS * Math.pow(2, Math.max(0, attempts - 1))
+  return Math.min(delay, RETRY_MAX_DELAY_SECONDS)
+}
+
+/**
+ * Restituisce il primo stage non ancora completato (null se tutti completati)
+ */
+export function getNextStage(completedStages: IngestionStage[]): IngestionStage | null {
+  return INGESTION_STAGES.find((stage) => !completedStages.includes(stage)) ?? null
+}
+
+export async function enqueueIngestionJob(documentId: string, maxAttempts: number = 3): Promise<IngestionJob> {
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .insert({
+      document_id: documentId,
+      status: 'queued',
+      max_attempts: maxAttempts,
+      message: 'In coda per il processing',
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[ingestion-jobs] Enqueue failed:', error)
+    throw new Error(`Failed to enqueue ingestion job: ${error.message}`)
+  }
+
+  return data as IngestionJob
+}
+
+export async function getIngestionJob(id: string): Promise<IngestionJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[ingestion-jobs] Get failed:', error)
+    throw new Error(`Failed to get ingestion job: ${error.message}`)
+  }
+
+  return data as IngestionJob | null
+}
+
+/**
+ * Claim atomico del prossimo job disponibile (queued con backoff scaduto o lock stale)
+ *
+ * @param workerId - Identificativo del worker che prende il job
+ * @returns Il job claimato, o null se la coda è vuota
+ */
+export async function claimNextIngestionJob(workerId: string): Promise<IngestionJob | null> {
+  const { data, error } = await supabaseAdmin.rpc('claim_ingestion_job', {
+    p_worker_id: workerId,
+  })
+
+  if (error) {
+    console.error('[ingestion-jobs] Claim failed:', error)
+    throw new Error(`Failed to claim ingestion job: ${error.message}`)
+  }
+
+  const jobs = (data || []) as IngestionJob[]
+  return jobs[0] ?? null
+}
+
+export async function updateIngestionJobProgress(
+  id: string,
+  stage: IngestionStage,
+  progress: number,
+  message: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      current_stage: stage,
+      progress: Math.round(progress),
+      message,
+      // Rinnova il lock: il job è ancora vivo
+      locked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (error) {
+    // Non bloccare il processing per un aggiornamento di progresso fallito
+    console.error('[ingestion-jobs] Progress update failed:', error)
+  }
+}
+
+export async function markIngestionStageCompleted(
+  id: string,
+  completedStages: IngestionStage[],
+  stage: IngestionStage
+): Promise<IngestionStage[]> {
+  const stages = completedStages.includes(stage) ? completedStages : [...completedStages, stage]
+
+  const { error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      completed_stages: stages,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (error) {
+    console.error('[ingestion-jobs] Stage completion update failed:', error)
+    throw new Error(`Failed to mark stage ${stage} as completed: ${error.message}`)
+  }
+
+  return stages
+}
+
+export async function markIngestionJobCompleted(id: string, message: string): Promise<void> {
+  const now = new Date().toISOString()
+  const { error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'completed',
+      current_stage: null,
+      progress: 100,
+      message,
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq('id', id)
+
+  if (error) {
+    console.error('[ingestion-jobs] Completion update failed:', error)
+    throw new Error(`Failed to mark ingestion job as completed: ${error.message}`)
+  }
+}
+
+/**
+ * Registra un fallimento: ri-accoda con backoff se ci sono tentativi disponibili,
+ * altrimenti marca il job come failed
+ *
+ * @returns true se il job verrà ritentato
+ */
+export async function markIngestionJobFailed(job: IngestionJob, errorMessage: string): Promise<boolean> {
+  const willRetry = job.attempts < job.max_attempts
+  const now = new Date()
+
+  const updates: Record<string, unknown> = {
+    last_error: errorMessage,
+    locked_at: null,
+    locked_by: null,
+    updated_at: now.toISOString(),
+  }
+
+  if (willRetry) {
+    const delaySeconds = computeRetryDelaySeconds(job.attempts)
+    updates.status = 'queued'
+    updates.next_attempt_at = new Date(now.getTime() + delaySeconds * 1000).toISOString()
+    updates.message = `Errore, nuovo tentativo tra ${delaySeconds}s (${job.attempts}/${job.max_attempts})`
+  } else {
+    updates.status = 'failed'
+    updates.message = 'Processing fallito'
+  }
+
+  const { error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update(updates)
+    .eq('id', job.id)
+
+  if (error) {
+    console.error('[ingestion-jobs] Failure update failed:', error)
+    throw new Error(`Failed to record ingestion job failure: ${error.message}`)
+  }
+
+  return willRetry
+}
+
+/**
+ * Ri-accoda un job fallito: riparte dall'ultimo stage completato con nuovi tentativi
+ */
+export async function requeueIngestionJob(id: string): Promise<IngestionJob> {
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      message: 'In coda per un nuovo tentativo',
+      locked_at: null,
+      locked_by: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'failed')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('[ingestion-jobs] Requeue failed:', error)
+    throw new Error(`Failed to requeue ingestion job: ${error.message}`)
+  }
+
+  if (!data) {
+    throw new Error('Only failed jobs can be retried')
+  }
+
+  return data as IngestionJob
+}
@@ -1,9 +1,19 @@
 import { supabaseAdmin } from './admin'
+import {
+  ANONYMOUS_DOCUMENT_ACCESS,
+  buildDeniedFoldersFilter,
+  canReadFolder,
+  getDeniedFolders,
+  type DocumentAccess,
+} from './folder-permissions'
 
 /**
  * Meta queries for database statistics and metadata
  * These functions provide information about the database itself,
  * not the content of documents.
+ *
+ * Every function takes the reader's DocumentAccess: restricted folders the reader
+ * cannot open are left out of listings and statistics.
  */
 
 export interface DatabaseStats {
@@ -51,38 +61,53 @@ export interface ListDocumentsOptions {
   limit?: number
   offset?: number
   search?: string
+  access?: DocumentAccess
 }
 
 /**
  * Get comprehensive database statistics
  * 
+ * @param access - Reader of the documents (restricted folders are excluded)
  * @returns Database statistics including counts, types, folders, etc.
  */
-export async function getDatabaseStats(): Promise<DatabaseStats> {
+export async function getDatabaseStats(
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
+): Promise<DatabaseStats> {
   try {
+    const deniedFoldersFilter = buildDeniedFoldersFilter(await getDeniedFolders(access))
+
     // Get all documents
-    const { data: documents, error: docError } = await supabaseAdmin
+    let documentsQuery = supabaseAdmin
       .from('documents')
       .select('id, file_type, folder, file_size, processing_status, chunks_count')
 
+    if (deniedFoldersFilter) {
+      documentsQuery = documentsQuery.or(deniedFoldersFilter)
+    }
+
+    const { data: documents, error: docError } = await documentsQuery
+
     if (docError) {
       console.error('[meta-queries] Failed to fetch documents:', docError)
       throw new Error(`Failed to fetch documents: ${docError.message}`)
     }
 
-    // Get total chunks count
-    const { count: totalChunks, error: chunksError } = await supabaseAdmin
-      .from('document_chunks')
-      .select('*', { count: 'exact', head: true })
+    // Get total chunks count (only without restrictions: otherwise it is summed from the visible documents)
+    let totalChunks: number | null = null
+    if (!deniedFoldersFilter) {
+      const { count, error: chunksError } = await supabaseAdmin
+        .from('document_chunks')
+        .select('*', { count: 'exact', head: true })
 
-    if (chunksError) {
-      console.error('[meta-queries] Failed to count chunks:', chunksError)
-      throw new Error(`Failed to count chunks: ${chunksError.message}`)
+      if (chunksError) {
+        console.error('[meta-queries] Failed to count chunks:', chunksError)
+        throw new Error(`Failed to count chunks: ${chunksError.message}`)
+      }
+      totalChunks = count
     }
 
     const docs = documents || []
     const totalDocs = docs.length
-    const totalChunksCount = totalChunks || 0
 
     // Calculate statistics
     const documentsByType: Record<string, number> = {}
@@ -115,6 +140,7 @@ export async function getDatabaseStats(): Promise<DatabaseStats> {
       totalChunksFromDocs += doc.chunks_count || 0
     })
 
+    const totalChunksCount = totalChunks ?? totalChunksFromDocs
     const avgChunksPerDocument = totalDocs > 0 ? totalChunksFromDocs / totalDocs : 0
     const avgFileSize = totalDocs > 0 ? totalFileSize / totalDocs : 0
 
@@ -151,14 +177,21 @@ export async function listDocumentsMeta(
       limit = 1000, // Default: show all documents (increased from 100)
       offset = 0,
       search,
+      access = ANONYMOUS_DOCUMENT_ACCESS,
     } = options
 
+    const deniedFoldersFilter = buildDeniedFoldersFilter(await getDeniedFolders(access))
+
     let query = supabaseAdmin
       .from('documents')
       .select('id, filename, file_type, folder, file_size, processing_status, chunks_count, summary, created_at, updated_at')
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1)
 
+    if (deniedFoldersFilter) {
+      query = query.or(deniedFoldersFilter)
+    }
+
     // Apply filters
     if (folder !== undefined) {
       if (folder === null || folder === '') {
@@ -206,6 +239,7 @@ export async function listDocumentsMeta(
  * 
  * @param queryFolderName - Folder name extracted from user query
  * @param threshold - Minimum similarity score (0-1, default 0.6)
+ * @param access - Reader of the documents (restricted folders are never matched)
  * @returns Best matching folder name or null if no good match
  * 
  * @example
@@ -215,13 +249,14 @@ export async function listDocumentsMeta(
  */
 export async function findBestMatchingFolder(
   queryFolderName: string,
-  threshold: number = 0.6
+  threshold: number = 0.6,
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
 ): Promise<string | null> {
   try {
     console.log('[meta-queries] Finding best matching folder for:', queryFolderName)
     
     // Get all existing folders
-    const folders = await listFoldersMeta()
+    const folders = await listFoldersMeta(access)
     
     if (folders.length === 0) {
       console.log('[meta-queries] No folders found in database')
@@ -297,15 +332,26 @@ export async function findBestMatchingFolder(
 /**
  * List all folders with document counts and statistics
  * 
+ * @param access - Reader of the documents (restricted folders are excluded)
  * @returns Array of folder metadata
  */
-export async function listFoldersMeta(): Promise<FolderMeta[]> {
+export async function listFoldersMeta(
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
+): Promise<FolderMeta[]> {
   try {
+    const deniedFoldersFilter = buildDeniedFoldersFilter(await getDeniedFolders(access))
+
     // Get all documents with folder info
-    const { data: documents, error: docError } = await supabaseAdmin
+    let documentsQuery = supabaseAdmin
       .from('documents')
       .select('id, folder, chunks_count, file_size')
 
+    if (deniedFoldersFilter) {
+      documentsQuery = documentsQuery.or(deniedFoldersFilter)
+    }
+
+    const { data: documents, error: docError } = await documentsQuery
+
     if (docError) {
       console.error('[meta-queries] Failed to fetch documents:', docError)
       throw new Error(`Failed to fetch documents: ${docError.message}`)
@@ -350,15 +396,26 @@ export async function listFoldersMeta(): Promise<FolderMeta[]> {
 /**
  * Get statistics by document type
  * 
+ * @param access - Reader of the documents (restricted folders are excluded)
  * @returns Array of document type metadata
  */
-export async function getDocumentTypesMeta(): Promise<DocumentTypeMeta[]> {
+export async function getDocumentTypesMeta(
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
+): Promise<DocumentTypeMeta[]> {
   try {
+    const deniedFoldersFilter = buildDeniedFoldersFilter(await getDeniedFolders(access))
+
     // Get all documents
-    const { data: documents, error: docError } = await supabaseAdmin
+    let documentsQuery = supabaseAdmin
       .from('documents')
       .select('file_type, chunks_count, file_size')
 
+    if (deniedFoldersFilter) {
+      documentsQuery = documentsQuery.or(deniedFoldersFilter)
+    }
+
+    const { data: documents, error: docError } = await documentsQuery
+
     if (docError) {
       console.error('[meta-queries] Failed to fetch documents:', docError)
       throw new Error(`Failed to fetch documents: ${docError.message}`)
@@ -403,10 +460,18 @@ export async function getDocumentTypesMeta(): Promise<DocumentTypeMeta[]> {
  * Get statistics for a specific folder
  * 
  * @param folder - Folder name (null for documents without folder)
+ * @param access - Reader of the documents (a restricted folder is reported as not found)
  * @returns Folder statistics
  */
-export async function getFolderStats(folder: string | null): Promise<FolderMeta | null> {
+export async function getFolderStats(
+  folder: string | null,
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
+): Promise<FolderMeta | null> {
   try {
+    if (!(await canReadFolder(folder, access))) {
+      return null
+    }
+
     let query = supabaseAdmin
       .from('documents')
       .select('id, chunks_count, file_size')
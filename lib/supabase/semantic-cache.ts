@@ -1,20 +1,44 @@
 import { supabaseAdmin } from './admin'
 import type { QueryCache } from './database.types'
+import { recordCacheLookup } from './cache-stats'
 
 /**
  * Semantic cache operations
  */
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface CachePurgeFilter {
+  documentId?: string
+  folder?: string | null // null = documenti senza cartella
+  olderThan?: Date
+}
+
+/**
+ * ID dei documenti citati da una risposta, salvati in query_cache.document_ids
+ * Le fonti senza documento (es. risultati web) vengono ignorate
+ */
+export function getCitedDocumentIds(sources?: Array<{ documentId?: string | null }>): string[] {
+  const ids = (sources || [])
+    .map((source) => source.documentId)
+    .filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id))
+  return Array.from(new Set(ids))
+}
+
 /**
  * Cerca risposta cached simile alla query
+ * 
+ * @param scopeKey - Scope di retrieval (es. 'folder:GRI'): vengono considerate solo entry con lo stesso scope
  */
 export async function findCachedResponse(
   queryEmbedding: number[],
-  threshold: number = 0.95
+  threshold: number = 0.95,
+  scopeKey: string = ''
 ): Promise<QueryCache | null> {
   const { data, error } = await supabaseAdmin.rpc('match_cached_query', {
     p_query_embedding: queryEmbedding,
     match_threshold: threshold,
+    p_scope_key: scopeKey,
   })
 
   if (error) {
@@ -23,6 +47,7 @@ export async function findCachedResponse(
   }
 
   if (!data || data.length === 0) {
+    recordCacheLookup('semantic', false)
     return null
   }
 
@@ -55,6 +80,7 @@ export async function findCachedResponse(
   // Verifica che la risposta cached non sia vuota
   if (!cached.response_text || cached.response_text.trim().length === 0) {
     console.warn('[semantic-cache] Found cached response but it is empty, ignoring')
+    recordCacheLookup('semantic', false)
     return null
   }
 
@@ -72,11 +98,15 @@ export async function findCachedResponse(
     })
     .eq('id', cached.id)
 
+  recordCacheLookup('semantic', true)
+
   return cachedWithSources
 }
 
 /**
  * Salva risposta nel cache con sources
+ * 
+ * @param scopeKey - Scope di retrieval con cui è stata generata la risposta ('' se non ristretta)
  */
 export async function saveCachedResponse(
   queryText: string,
@@ -90,7 +120,8 @@ export async function saveCachedResponse(
     content: string
     chunkIndex: number | null
   }>,
-  ttlDays: number = 7
+  ttlDays: number = 7,
+  scopeKey: string = ''
 ): Promise<void> {
   // Non salvare cache vuote
   if (!responseText || responseText.trim().length === 0) {
@@ -108,6 +139,8 @@ export async function saveCachedResponse(
       query_embedding: queryEmbedding,
       response_text: responseText.trim(),
       sources: sources || [],
+      document_ids: getCitedDocumentIds(sources),
+      scope_key: scopeKey,
       expires_at: expiresAt.toISOString(),
     })
 
@@ -117,17 +150,109 @@ export async function saveCachedResponse(
   }
 }
 
+/**
+ * Rimuove dalla cache la risposta servita o memorizzata per un messaggio
+ *
+ * La voce si identifica per id (risposta servita dalla cache) oppure per
+ * query + scope (risposta generata e salvata dopo la ricerca)
+ *
+ * @returns Numero di voci eliminate
+ */
+export async function evictCachedResponse(target: {
+  cacheId?: string
+  queryText?: string
+  scopeKey?: string
+}): Promise<number> {
+  let query = supabaseAdmin.from('query_cache').delete()
+
+  if (target.cacheId) {
+    query = query.eq('id', target.cacheId)
+  } else if (target.queryText) {
+    query = query.eq('query_text', target.queryText).eq('scope_key', target.scopeKey ?? '')
+  } else {
+    return 0
+  }
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    console.error('[semantic-cache] Eviction failed:', error)
+    throw new Error(`Failed to evict cached response: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+/**
+ * Invalida le risposte in cache costruite su uno dei documenti indicati
+ *
+ * Best effort: un errore viene loggato ma non interrompe l'operazione sul documento
+ *
+ * @param reason - Motivo dell'invalidazione (solo per i log)
+ * @returns Numero di voci eliminate
+ */
+export async function invalidateCacheForDocuments(documentIds: string[], reason: string): Promise<number> {
+  if (documentIds.length === 0) {
+    return 0
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('query_cache')
+    .delete()
+    .overlaps('document_ids', documentIds)
+    .select('id')
+
+  if (error) {
+    console.error('[semantic-cache] Document invalidation failed:', { reason, documentIds, error })
+    return 0
+  }
+
+  const count = data?.length || 0
+  if (count > 0) {
+    console.log('[semantic-cache] Invalidated cached responses:', { reason, documents: documentIds.length, count })
+  }
+  return count
+}
+
+/**
+ * Elimina le voci di cache per documento, cartella e/o età (criteri in AND)
+ * I documenti della cartella sono risolti in SQL (RPC purge_query_cache)
+ *
+ * @returns Numero di voci eliminate
+ */
+export async function purgeCache(filter: CachePurgeFilter): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('purge_query_cache', {
+    p_document_id: filter.documentId ?? null,
+    p_filter_folder: filter.folder !== undefined,
+    p_folder: filter.folder ?? null,
+    p_older_than: filter.olderThan ? filter.olderThan.toISOString() : null,
+  })
+
+  if (error) {
+    console.error('[semantic-cache] Purge failed:', error)
+    throw new Error(`Failed to purge cache: ${error.message}`)
+  }
+
+  return (data as number | null) ?? 0
+}
+
 /**
  * Pulisce cache scaduti
+ *
+ * @returns Numero di voci eliminate
  */
-export async function cleanExpiredCache(): Promise<void> {
-  const { error } = await supabaseAdmin
+export async function cleanExpiredCache(): Promise<number> {
+  const { data, error } = await supabaseAdmin
     .from('query_cache')
     .delete()
     .lt('expires_at', new Date().toISOString())
+    .select('id')
 
   if (error) {
     console.error('[semantic-cache] Cleanup failed:', error)
+    return 0
   }
+
+  return data?.length || 0
 }
 
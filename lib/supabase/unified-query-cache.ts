@@ -1,4 +1,5 @@
 import { supabaseAdmin } from './admin'
+import { recordCacheLookup } from './cache-stats'
 import type { QueryAnalysisResult } from '@/lib/embeddings/query-analysis'
 import crypto from 'crypto'
 
@@ -63,6 +64,7 @@ export async function findUnifiedCache(
       // Not found is expected, don't log as error
       if (error.code === 'PGRST116') {
         console.log('[unified-cache] Cache miss:', { queryHash: queryHash.substring(0, 12) })
+        recordCacheLookup('unified', false)
         return null
       }
       console.error('[unified-cache] Lookup failed:', error)
@@ -73,6 +75,8 @@ export async function findUnifiedCache(
       return null
     }
     
+    recordCacheLookup('unified', true)
+
     // Update hit count asynchronously (don't await)
     supabaseAdmin
       .from('unified_query_cache')
@@ -1,5 +1,6 @@
 import { supabaseAdmin } from './admin'
 import type { SearchResult } from './database.types'
+import { ANONYMOUS_DOCUMENT_ACCESS, getDeniedFolders, isFolderReadable, type DocumentAccess } from './folder-permissions'
 
 /**
  * Vector search operations usando pgvector
@@ -11,17 +12,21 @@ import type { SearchResult } from './database.types'
  * 
  * @param documentIds - Array di document IDs
  * @param limit - Numero massimo di chunks per documento (default: 5)
+ * @param access - Utente che legge: i documenti delle cartelle riservate non accessibili vengono esclusi
  * @returns Array di SearchResult con i chunks dei documenti specificati
  */
 export async function getChunksByDocumentIds(
   documentIds: string[],
-  limit: number = 5
+  limit: number = 5,
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
 ): Promise<SearchResult[]> {
   if (documentIds.length === 0) {
     return []
   }
 
   try {
+    const deniedFolders = await getDeniedFolders(access)
+
     console.log('[vector-operations] Fetching chunks for documents:', {
       documentIds: documentIds.length,
       limitPerDoc: limit,
@@ -53,6 +58,12 @@ export async function getChunksByDocumentIds(
         return []
       }
 
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      if (!isFolderReadable((data?.[0]?.document as any)?.folder, deniedFolders)) {
+        console.warn(`[vector-operations] Document ${documentId} is in a restricted folder, skipped`)
+        return []
+      }
+
       // Transform to SearchResult format
       return (data || []).map((chunk) => ({
         id: chunk.id,
@@ -116,6 +127,10 @@ export async function searchSimilarChunks(
  * @param threshold - Soglia minima di similarity
  * @param vectorWeight - Peso per vector similarity (0-1, default 0.7). Il resto va al full-text search.
  * @param articleNumber - Optional: filtra chunks per numero articolo specifico (es. 28 per "articolo 28")
+ * @param documentId - Optional: filtra chunks di un documento specifico (es. tag @documento in chat)
+ * @param folder - Optional: filtra chunks dei documenti di una cartella (conversazioni con scope cartella)
+ * @param includeHistory - Se true include anche le versioni superate dei documenti (default: solo l'ultima versione)
+ * @param access - Utente che legge: l'ACL delle cartelle è applicata in SQL (default: solo cartelle aperte)
  * @returns Array di SearchResult ordinati per similarity
  */
 export async function hybridSearch(
@@ -124,7 +139,11 @@ export async function hybridSearch(
   limit: number = 5,
   threshold: number = 0.7,
   vectorWeight: number = 0.7,
-  articleNumber?: number
+  articleNumber?: number,
+  documentId?: string,
+  folder?: string,
+  includeHistory: boolean = false,
+  access: DocumentAccess = ANONYMOUS_DOCUMENT_ACCESS
 ): Promise<SearchResult[]> {
   const { data, error } = await supabaseAdmin.rpc('hybrid_search', {
     query_embedding: queryEmbedding,
@@ -133,6 +152,11 @@ export async function hybridSearch(
     match_count: limit,
     vector_weight: vectorWeight,
     article_number: articleNumber ?? null,
+    p_document_id: documentId ?? null,
+    p_folder: folder ?? null,
+    p_include_history: includeHistory,
+    p_user_id: access.userId,
+    p_unrestricted: access.unrestricted,
   })
 
   if (error) {
@@ -145,6 +169,20 @@ export async function hybridSearch(
     console.log(`[vector-operations] Article filter applied: ${articleNumber}`)
   }
 
+  // Log filtro documento se presente
+  if (documentId) {
+    console.log(`[vector-operations] Document filter applied: ${documentId}`)
+  }
+
+  // Log filtro cartella se presente
+  if (folder) {
+    console.log(`[vector-operations] Folder filter applied: ${folder}`)
+  }
+
+  if (includeHistory) {
+    console.log('[vector-operations] Including superseded document versions')
+  }
+
   // Log similarity values per verifica
   if (data && data.length > 0) {
     console.log('[vector-operations] Hybrid search results similarity values:')
@@ -67,14 +67,46 @@ export function parseDocumentTags(query: string): ParsedQuery {
   }
 }
 
+export interface ActiveDocumentTag {
+  query: string // Testo digitato dopo @ (senza virgolette)
+  startIndex: number // Posizione del carattere @
+  endIndex: number // Posizione del cursore
+}
 
+/**
+ * Trova il tag @documento in corso di digitazione alla posizione del cursore
+ * Usato dall'autocomplete della chat per suggerire documenti
+ *
+ * @param text - Testo corrente dell'input
+ * @param caret - Posizione del cursore
+ * @returns Tag attivo o null se il cursore non è dentro un tag
+ *
+ * @example
+ * findActiveDocumentTag('Cosa dice @GDP', 14)
+ * // Returns: { query: 'GDP', startIndex: 10, endIndex: 14 }
+ */
+export function findActiveDocumentTag(text: string, caret: number): ActiveDocumentTag | null {
+  const beforeCaret = text.slice(0, caret)
+  // @ deve essere a inizio testo o preceduto da spazio; supporta @parola e @"frase aperta
+  const match = beforeCaret.match(/(?:^|\s)@("[^"]*|[\w-]*)$/)
+  if (!match) {
+    return null
+  }
 
+  const raw = match[1]
+  const startIndex = caret - raw.length - 1
 
+  return {
+    query: raw.replace(/^"/, ''),
+    startIndex,
+    endIndex: caret,
+  }
+}
 
-
-
-
-
-
-
-
+/**
+ * Formatta un filename come tag @documento compatibile con parseDocumentTags
+ * Usa le virgolette quando il nome contiene caratteri fuori da [\w-]
+ */
+export function formatDocumentTag(filename: string): string {
+  return /^[\w-]+$/.test(filename) ? `@${filename}` : `@"${filename.replace(/"/g, '')}"`
+}
@@ -0,0 +1,23 @@
+import type { FeedbackRating, FeedbackReason } from '@/lib/supabase/database.types'
+
+/**
+ * Motivi del feedback negativo, nell'ordine mostrato all'utente
+ */
+export const FEEDBACK_REASONS: ReadonlyArray<{ value: FeedbackReason; label: string }> = [
+  { value: 'wrong_source', label: 'Fonte sbagliata' },
+  { value: 'hallucination', label: 'Informazione inventata' },
+  { value: 'incomplete', label: 'Risposta incompleta' },
+  { value: 'outdated', label: 'Informazione non aggiornata' },
+]
+
+export function isFeedbackRating(value: unknown): value is FeedbackRating {
+  return value === 'up' || value === 'down'
+}
+
+export function isFeedbackReason(value: unknown): value is FeedbackReason {
+  return FEEDBACK_REASONS.some((reason) => reason.value === value)
+}
+
+export function getFeedbackReasonLabel(reason: FeedbackReason | null | undefined): string | null {
+  return FEEDBACK_REASONS.find((r) => r.value === reason)?.label ?? null
+}
@@ -0,0 +1,98 @@
+/**
+ * Message Branches
+ *
+ * I messaggi di una conversazione formano un albero tramite parent_id: modificare un
+ * messaggio precedente crea un fratello (nuovo ramo) invece di sovrascrivere lo scambio.
+ * Il ramo attivo è il percorso dalla radice alla foglia attiva della conversazione.
+ */
+
+export interface BranchNode {
+  id: string
+  parent_id: string | null
+  created_at: string
+}
+
+function compareByCreation(a: BranchNode, b: BranchNode): number {
+  if (a.created_at !== b.created_at) {
+    return a.created_at < b.created_at ? -1 : 1
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * Figli di ogni messaggio (chiave null = radici), in ordine di creazione
+ */
+function groupChildren<T extends BranchNode>(nodes: ReadonlyArray<T>): Map<string | null, T[]> {
+  const children = new Map<string | null, T[]>()
+  nodes.forEach((node) => {
+    const siblings = children.get(node.parent_id) ?? []
+    siblings.push(node)
+    children.set(node.parent_id, siblings)
+  })
+  children.forEach((siblings) => siblings.sort(compareByCreation))
+  return children
+}
+
+/**
+ * Foglia raggiunta scendendo da un messaggio e seguendo sempre il figlio più recente
+ * (il ramo mostrato quando si passa a un messaggio alternativo)
+ */
+export function findLatestLeaf<T extends BranchNode>(nodes: ReadonlyArray<T>, fromId: string): string | null {
+  if (!nodes.some((node) => node.id === fromId)) {
+    return null
+  }
+
+  const children = groupChildren(nodes)
+  const visited = new Set<string>()
+  let currentId = fromId
+  while (!visited.has(currentId)) {
+    visited.add(currentId)
+    const next = children.get(currentId)
+    if (!next || next.length === 0) {
+      break
+    }
+    currentId = next[next.length - 1].id
+  }
+  return currentId
+}
+
+/**
+ * Percorso dalla radice alla foglia indicata, in ordine cronologico.
+ * Senza foglia (o con una foglia inesistente) usa il messaggio creato per ultimo.
+ */
+export function getBranchPath<T extends BranchNode>(nodes: ReadonlyArray<T>, leafId: string | null): T[] {
+  if (nodes.length === 0) {
+    return []
+  }
+
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  let current: T | undefined = leafId ? byId.get(leafId) : undefined
+  if (!current) {
+    current = [...nodes].sort(compareByCreation)[nodes.length - 1]
+  }
+
+  const path: T[] = []
+  const visited = new Set<string>()
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    path.push(current)
+    current = current.parent_id ? byId.get(current.parent_id) : undefined
+  }
+  return path.reverse()
+}
+
+/**
+ * Ramo attivo con le alternative di ogni messaggio (solo dove esiste più di un ramo)
+ */
+export function getActiveBranch<T extends BranchNode>(
+  nodes: ReadonlyArray<T>,
+  leafId: string | null
+): Array<{ node: T; siblingIds?: string[] }> {
+  const children = groupChildren(nodes)
+  return getBranchPath(nodes, leafId).map((node) => {
+    const siblings = children.get(node.parent_id) ?? [node]
+    return siblings.length > 1
+      ? { node, siblingIds: siblings.map((sibling) => sibling.id) }
+      : { node }
+  })
+}
@@ -1,5 +1,7 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { getRequiredPermission, hasPermission } from '@/lib/auth/roles'
+import { getUserRole } from '@/lib/auth/user-role'
 
 export async function middleware(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
@@ -58,6 +60,7 @@ export async function middleware(request: NextRequest) {
     !request.nextUrl.pathname.startsWith('/reset-password') &&
     !request.nextUrl.pathname.startsWith('/error') &&
     !request.nextUrl.pathname.startsWith('/auth') &&
+    !request.nextUrl.pathname.startsWith('/share') && // Conversazioni condivise (link pubblici)
     !request.nextUrl.pathname.startsWith('/api') &&
     !request.nextUrl.pathname.startsWith('/_next') &&
     !request.nextUrl.pathname.startsWith('/test')
@@ -67,6 +70,34 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url)
   }
 
+  // Role-based access: azioni riservate a editor e amministratori
+  const requiredPermission = getRequiredPermission(request.nextUrl.pathname, request.method)
+  if (requiredPermission) {
+    const isApi = request.nextUrl.pathname.startsWith('/api')
+
+    if (!user) {
+      if (isApi) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      const url = request.nextUrl.clone()
+      url.pathname = '/login'
+      return NextResponse.redirect(url)
+    }
+
+    const role = await getUserRole(supabase, user)
+    if (!hasPermission(role, requiredPermission)) {
+      if (isApi) {
+        return NextResponse.json(
+          { error: 'Forbidden', details: `Your role does not allow this action (${requiredPermission})` },
+          { status: 403 }
+        )
+      }
+      const url = request.nextUrl.clone()
+      url.pathname = '/chat'
+      return NextResponse.redirect(url)
+    }
+  }
+
   // Redirect to chat if already logged in and trying to access public auth pages
   if (user && (
     request.nextUrl.pathname === '/login' ||
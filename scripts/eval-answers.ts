@@ -0,0 +1,315 @@
+// IMPORTANT: Load environment variables FIRST before any other imports
+import { config } from 'dotenv'
+import { resolve } from 'path'
+config({ path: resolve(process.cwd(), '.env.local') })
+
+/**
+ * Answer Quality Evaluation Runner
+ *
+ * Riesegue le domande di un golden set attraverso la pipeline della chat
+ * (ricerca → generateResponse → processResponse) e valuta ogni risposta:
+ * - faithfulness: le frasi con [cit:N] sono supportate dai chunk citati?
+ * - citation coverage: quota di frasi sostanziali con una citazione
+ * - completeness: la risposta copre la domanda e gli expectedPoints?
+ *
+ * Ogni domanda produce un trace Langfuse (tag "eval") con i punteggi come trace score.
+ * Come scripts/eval-retrieval.ts gira contro un'istanza Supabase locale.
+ *
+ * Usage:
+ * npx tsx scripts/eval-answers.ts --set tests/eval/retrieval-golden.example.jsonl [--out eval-results/answers.json]
+ *   [--limit 10] [--rerank] [--use-cache] [--allow-remote]
+ *
+ * Options:
+ * --set PATH         Golden set JSONL (obbligatorio)
+ * --out PATH         Scrive il report JSON
+ * --limit N          Valuta al massimo N domande
+ * --rerank           Applica il reranking configurato prima di costruire il contesto
+ * --use-cache        Usa la cache di analisi/enhancement
+ * --allow-remote     Permette di usare un'istanza Supabase non locale
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { parseGoldenSet, type GoldenQuestion } from '../lib/evaluation/golden-set'
+import { configureEvalEnvironment } from '../lib/evaluation/eval-environment'
+import { round } from '../lib/evaluation/retrieval-metrics'
+import type { AnswerQualityResult } from '../lib/evaluation/answer-judge'
+import type { StreamController } from '../app/api/chat/handlers/stream-handler'
+
+interface ScriptOptions {
+  set?: string
+  out?: string
+  limit?: number
+  rerank: boolean
+  useCache: boolean
+  allowRemote: boolean
+}
+
+interface AnswerReport {
+  id: string
+  question: string
+  intent: string
+  model: string
+  traceId: string | null
+  answer: string
+  sourcesCited: number
+  quality: AnswerQualityResult | null
+  error?: string
+}
+
+interface QualitySummary {
+  questions: number
+  faithfulness: number | null
+  citationCoverage: number
+  completeness: number
+}
+
+// La valutazione non legge lo stream SSE: i messaggi restano nella coda del ReadableStream
+async function createOfflineStreamController(): Promise<StreamController> {
+  const { StreamController } = await import('../app/api/chat/handlers/stream-handler')
+  const holder: { controller?: StreamController } = {}
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      holder.controller = new StreamController(controller)
+    },
+  })
+  return holder.controller!
+}
+
+function parseArgs(): ScriptOptions {
+  const args = process.argv.slice(2)
+  const options: ScriptOptions = {
+    rerank: false,
+    useCache: false,
+    allowRemote: false,
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+
+    if (arg === '--set' && i + 1 < args.length) {
+      options.set = args[++i]
+    } else if (arg === '--out' && i + 1 < args.length) {
+      options.out = args[++i]
+    } else if (arg === '--limit' && i + 1 < args.length) {
+      options.limit = parseInt(args[++i], 10)
+    } else if (arg === '--rerank') {
+      options.rerank = true
+    } else if (arg === '--use-cache') {
+      options.useCache = true
+    } else if (arg === '--allow-remote') {
+      options.allowRemote = true
+    }
+  }
+
+  return options
+}
+
+async function evaluateAnswer(
+  golden: GoldenQuestion,
+  options: ScriptOptions,
+  runId: string
+): Promise<AnswerReport> {
+  const { analyzeQuery } = await import('../lib/embeddings/query-analysis')
+  const { enhanceQueryIfNeeded } = await import('../lib/embeddings/query-enhancement')
+  const { generateEmbedding } = await import('../lib/embeddings/openai')
+  const { performSearch } = await import('../app/api/chat/handlers/search-handler')
+  const { generateResponse, processResponse } = await import('../app/api/chat/handlers/response-handler')
+  const { buildContext, filterRelevantResults } = await import('../app/api/chat/services/context-builder')
+  const { createKBSources } = await import('../app/api/chat/services/source-service')
+  const { rerankResults } = await import('../lib/reranking/reranker')
+  const { judgeAnswerQuality } = await import('../lib/evaluation/answer-judge')
+  const { createChatTrace, updateTrace, scoreTrace } = await import('../lib/observability/langfuse')
+  const { SYSTEM_DOCUMENT_ACCESS } = await import('../lib/supabase/folder-permissions')
+
+  const traceContext = createChatTrace(runId, null, golden.question, {
+    tags: ['eval', 'answer-quality'],
+    evalQuestionId: golden.id,
+  })
+
+  // Stessi passi di app/api/chat/route.ts per una query KB (senza cache risposte né web search)
+  const analysis = await analyzeQuery(golden.question)
+  const enhancement = await enhanceQueryIfNeeded(golden.question, analysis)
+  const queryToEmbed = enhancement.enhanced
+  const articleNumber = analysis.articleNumber || enhancement.articleNumber
+  const queryEmbedding = await generateEmbedding(queryToEmbed, 'text-embedding-3-large', traceContext?.trace)
+
+  // Il golden set copre l'intero corpus, incluse le cartelle riservate
+  const searchResults = await performSearch(queryToEmbed, queryEmbedding, analysis, articleNumber, traceContext, {
+    access: SYSTEM_DOCUMENT_ACCESS,
+  })
+  let relevantResults = filterRelevantResults(searchResults, articleNumber ? 0.1 : 0.35)
+  if (options.rerank) {
+    relevantResults = (await rerankResults(queryToEmbed, relevantResults, { parent: traceContext?.trace })).results
+  }
+  const context = buildContext(relevantResults, false)
+  const sources = createKBSources(relevantResults, false)
+
+  const responseContext = {
+    message: golden.question,
+    conversationHistory: [],
+    analysis,
+    queryToEmbed,
+    queryEmbedding,
+    searchResults,
+    relevantResults,
+    context,
+    sources,
+    webSearchEnabled: false,
+    articleNumber,
+    documentAccess: SYSTEM_DOCUMENT_ACCESS,
+    traceContext,
+  }
+
+  const generated = await generateResponse(responseContext, await createOfflineStreamController())
+  if (!generated.fullResponse || generated.fullResponse.trim().length === 0) {
+    throw new Error('Empty response')
+  }
+
+  const processed = await processResponse(generated.fullResponse, {
+    ...responseContext,
+    webSearchResults: generated.webSearchResults,
+    metaQueryDocuments: generated.metaQueryDocuments,
+  }, generated.model)
+
+  // Le Source contengono un'anteprima troncata: il giudice riceve il chunk completo
+  const judgedSources = processed.sources.map((source) => {
+    const chunk = relevantResults.find(
+      (r) => r.document_id === source.documentId && r.chunk_index === source.chunkIndex
+    )
+    return {
+      index: source.index,
+      filename: source.filename,
+      content: chunk?.content || source.content,
+    }
+  })
+
+  const quality = await judgeAnswerQuality({
+    question: golden.question,
+    answer: processed.content,
+    sources: judgedSources,
+    expectedPoints: golden.expectedPoints,
+  }, { parent: traceContext?.trace })
+
+  if (traceContext) {
+    updateTrace(traceContext.trace, {
+      response: processed.content,
+      responseLength: processed.content.length,
+      sourcesCount: processed.sources.length,
+    }, {
+      analysis: analysis.intent,
+      enhancement: enhancement.shouldEnhance,
+      model: processed.model,
+      eval: true,
+      evalQuestionId: golden.id,
+      missingPoints: quality.missingPoints,
+    })
+
+    if (quality.faithfulness !== null) {
+      const unsupported = quality.claims.filter((c) => c.verdict === 'unsupported').length
+      scoreTrace(traceContext.trace, 'faithfulness', round(quality.faithfulness), `${unsupported} unsupported claim(s)`)
+    }
+    scoreTrace(traceContext.trace, 'citation-coverage', round(quality.citationCoverage))
+    scoreTrace(traceContext.trace, 'completeness', round(quality.completeness), quality.missingPoints.join('; ') || undefined)
+  }
+
+  return {
+    id: golden.id,
+    question: golden.question,
+    intent: golden.intent || analysis.intent,
+    model: processed.model,
+    traceId: traceContext?.traceId ?? null,
+    answer: processed.content,
+    sourcesCited: processed.sources.length,
+    quality,
+  }
+}
+
+function summarizeQuality(reports: AnswerReport[]): QualitySummary {
+  const judged = reports.map((r) => r.quality).filter((q): q is AnswerQualityResult => q !== null)
+  const faithfulness = judged.map((q) => q.faithfulness).filter((f): f is number => f !== null)
+  const average = (values: number[]) => values.length === 0 ? 0 : round(values.reduce((s, v) => s + v, 0) / values.length)
+
+  return {
+    questions: reports.length,
+    faithfulness: faithfulness.length > 0 ? average(faithfulness) : null,
+    citationCoverage: average(judged.map((q) => q.citationCoverage)),
+    completeness: average(judged.map((q) => q.completeness)),
+  }
+}
+
+async function runEvaluation(options: ScriptOptions) {
+  console.log('\n=== ANSWER QUALITY EVALUATION ===\n')
+
+  if (!options.set) {
+    console.error('❌ Missing --set <golden-set.jsonl>')
+    process.exit(1)
+  }
+
+  try {
+    const supabaseUrl = configureEvalEnvironment(options)
+    const goldenSet = parseGoldenSet(readFileSync(options.set, 'utf-8')).slice(0, options.limit)
+    const runId = `eval-answers-${Date.now()}`
+
+    console.log(`Golden set: ${options.set} (${goldenSet.length} questions)`)
+    console.log(`Supabase: ${supabaseUrl}`)
+    console.log(`Langfuse session: ${runId}\n`)
+
+    const reports: AnswerReport[] = []
+    let failCount = 0
+
+    for (const golden of goldenSet) {
+      try {
+        const report = await evaluateAnswer(golden, options, runId)
+        reports.push(report)
+        const q = report.quality!
+        console.log(`  ✅ ${golden.id}: faithfulness=${q.faithfulness === null ? '-' : round(q.faithfulness)} coverage=${round(q.citationCoverage)} completeness=${round(q.completeness)}`)
+      } catch (error) {
+        failCount++
+        console.error(`  ❌ ${golden.id} failed:`, error)
+        reports.push({
+          id: golden.id,
+          question: golden.question,
+          intent: golden.intent || 'unknown',
+          model: 'unknown',
+          traceId: null,
+          answer: '',
+          sourcesCited: 0,
+          quality: null,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    reports.sort((a, b) => a.id.localeCompare(b.id))
+
+    const summary: Record<string, QualitySummary> = { overall: summarizeQuality(reports) }
+    for (const intent of Array.from(new Set(reports.map((r) => r.intent))).sort()) {
+      summary[`intent:${intent}`] = summarizeQuality(reports.filter((r) => r.intent === intent))
+    }
+
+    console.log('\n📊 SUMMARY:\n')
+    console.table(Object.entries(summary).map(([group, s]) => ({ group, ...s })))
+
+    const { flushLangfuse } = await import('../lib/observability/langfuse')
+    await flushLangfuse()
+
+    if (options.out) {
+      if (!existsSync(dirname(options.out))) {
+        mkdirSync(dirname(options.out), { recursive: true })
+      }
+      writeFileSync(options.out, `${JSON.stringify({ goldenSet: options.set, rerank: options.rerank, summary, questions: reports }, null, 2)}\n`)
+      console.log(`\n💾 Report saved to ${options.out}`)
+    }
+
+    console.log('\n=== COMPLETE ===\n')
+    process.exit(failCount > 0 ? 1 : 0)
+  } catch (error) {
+    console.error('\n❌ Evaluation failed:', error)
+    process.exit(1)
+  }
+}
+
+// Parse arguments and run
+const options = parseArgs()
+runEvaluation(options)
@@ -0,0 +1,294 @@
+// IMPORTANT: Load environment variables FIRST before any other imports
+import { config } from 'dotenv'
+import { resolve } from 'path'
+config({ path: resolve(process.cwd(), '.env.local') })
+
+/**
+ * Retrieval Evaluation Runner
+ *
+ * Esegue il percorso reale analyzeQuery → enhanceQueryIfNeeded → performSearch
+ * su un golden set JSONL e riporta recall@k, MRR e nDCG per intent.
+ * Il report JSON è deterministico (nessun timestamp, chiavi ordinate, valori
+ * arrotondati) così due run si confrontano con un semplice diff o con --compare.
+ *
+ * Gira contro un'istanza Supabase locale (`supabase start`) popolata con gli
+ * stessi documenti del golden set: URL remoti vengono rifiutati senza --allow-remote.
+ *
+ * Usage:
+ * npx tsx scripts/eval-retrieval.ts --set tests/eval/retrieval-golden.example.jsonl [--k 1,5,10]
+ *   [--out eval-results/baseline.json] [--compare eval-results/previous.json] [--rerank] [--use-cache]
+ *
+ * Options:
+ * --set PATH         Golden set JSONL (obbligatorio)
+ * --k LIST           Cutoff per recall/nDCG (default: 1,3,5,10)
+ * --out PATH         Scrive il report JSON
+ * --compare PATH     Confronta con un report precedente e stampa le differenze
+ * --rerank           Applica il reranking configurato (RERANKER_PROVIDER) dopo la ricerca
+ * --use-cache        Usa la cache di analisi/enhancement (default: disabilitata per run riproducibili)
+ * --allow-remote     Permette di usare un'istanza Supabase non locale
+ *
+ * Env:
+ * EVAL_SUPABASE_URL                 URL dell'istanza locale (default: http://127.0.0.1:54321)
+ * EVAL_SUPABASE_SERVICE_ROLE_KEY    Service role key dell'istanza locale (`supabase status`)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { parseGoldenSet, type GoldenQuestion } from '../lib/evaluation/golden-set'
+import { configureEvalEnvironment } from '../lib/evaluation/eval-environment'
+import {
+  aggregateMetrics,
+  compareAggregates,
+  computeQuestionMetrics,
+  rankDocuments,
+  type AggregateMetrics,
+  type QuestionMetrics,
+} from '../lib/evaluation/retrieval-metrics'
+
+const DEFAULT_KS = [1, 3, 5, 10]
+// Documenti salvati nel report per ogni domanda
+const REPORT_TOP_DOCUMENTS = 10
+
+interface ScriptOptions {
+  set?: string
+  ks: number[]
+  out?: string
+  compare?: string
+  rerank: boolean
+  useCache: boolean
+  allowRemote: boolean
+}
+
+interface QuestionReport {
+  id: string
+  question: string
+  intent: string
+  detectedIntent: string
+  enhancedQuery: string
+  articleNumber: number | null
+  expectedDocumentIds: string[]
+  retrievedDocumentIds: string[]
+  firstRelevantRank: number | null
+  metrics: QuestionMetrics
+  error?: string
+}
+
+interface EvaluationReport {
+  goldenSet: string
+  ks: number[]
+  rerank: boolean
+  summary: Record<string, AggregateMetrics>
+  questions: QuestionReport[]
+}
+
+function parseArgs(): ScriptOptions {
+  const args = process.argv.slice(2)
+  const options: ScriptOptions = {
+    ks: DEFAULT_KS,
+    rerank: false,
+    useCache: false,
+    allowRemote: false,
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+
+    if (arg === '--set' && i + 1 < args.length) {
+      options.set = args[++i]
+    } else if (arg === '--k' && i + 1 < args.length) {
+      options.ks = args[++i]
+        .split(',')
+        .map((k) => parseInt(k, 10))
+        .filter((k) => k > 0)
+        .sort((a, b) => a - b)
+    } else if (arg === '--out' && i + 1 < args.length) {
+      options.out = args[++i]
+    } else if (arg === '--compare' && i + 1 < args.length) {
+      options.compare = args[++i]
+    } else if (arg === '--rerank') {
+      options.rerank = true
+    } else if (arg === '--use-cache') {
+      options.useCache = true
+    } else if (arg === '--allow-remote') {
+      options.allowRemote = true
+    }
+  }
+
+  return options
+}
+
+async function evaluateQuestion(
+  golden: GoldenQuestion,
+  options: ScriptOptions
+): Promise<QuestionReport> {
+  const { analyzeQuery } = await import('../lib/embeddings/query-analysis')
+  const { enhanceQueryIfNeeded } = await import('../lib/embeddings/query-enhancement')
+  const { generateEmbedding } = await import('../lib/embeddings/openai')
+  const { performSearch } = await import('../app/api/chat/handlers/search-handler')
+  const { rerankResults } = await import('../lib/reranking/reranker')
+  const { SYSTEM_DOCUMENT_ACCESS } = await import('../lib/supabase/folder-permissions')
+
+  const analysis = await analyzeQuery(golden.question)
+  const enhancement = await enhanceQueryIfNeeded(golden.question, analysis)
+  const articleNumber = analysis.articleNumber || enhancement.articleNumber
+  const queryEmbedding = await generateEmbedding(enhancement.enhanced)
+
+  // Il golden set copre l'intero corpus, incluse le cartelle riservate
+  let results = await performSearch(enhancement.enhanced, queryEmbedding, analysis, articleNumber, null, {
+    access: SYSTEM_DOCUMENT_ACCESS,
+  })
+  if (options.rerank) {
+    results = (await rerankResults(enhancement.enhanced, results)).results
+  }
+
+  const ranked = rankDocuments(results.map((r) => r.document_id))
+  const expectedArticles = golden.expectedArticles
+  const articleHits = expectedArticles && expectedArticles.length > 0
+    ? ranked.map((documentId) =>
+        results.some((r) =>
+          r.document_id === documentId &&
+          golden.expectedDocumentIds.includes(documentId) &&
+          expectedArticles.includes(Number(r.metadata?.articleNumber))
+        )
+      )
+    : undefined
+
+  const firstRelevant = ranked.findIndex((id) => golden.expectedDocumentIds.includes(id))
+
+  return {
+    id: golden.id,
+    question: golden.question,
+    intent: golden.intent || analysis.intent,
+    detectedIntent: analysis.intent,
+    enhancedQuery: enhancement.enhanced,
+    articleNumber: articleNumber ?? null,
+    expectedDocumentIds: golden.expectedDocumentIds,
+    retrievedDocumentIds: ranked.slice(0, REPORT_TOP_DOCUMENTS),
+    firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+    metrics: computeQuestionMetrics(ranked, golden.expectedDocumentIds, options.ks, articleHits),
+  }
+}
+
+function summarize(questions: QuestionReport[], ks: number[]): Record<string, AggregateMetrics> {
+  const summary: Record<string, AggregateMetrics> = {
+    overall: aggregateMetrics(questions.map((q) => q.metrics), ks),
+  }
+
+  const intents = Array.from(new Set(questions.map((q) => q.intent))).sort()
+  for (const intent of intents) {
+    summary[`intent:${intent}`] = aggregateMetrics(
+      questions.filter((q) => q.intent === intent).map((q) => q.metrics),
+      ks
+    )
+  }
+
+  return summary
+}
+
+function printSummary(summary: Record<string, AggregateMetrics>, ks: number[]) {
+  const rows = Object.entries(summary).map(([group, metrics]) => ({
+    group,
+    n: metrics.questions,
+    ...Object.fromEntries(ks.map((k) => [`R@${k}`, metrics.recall[k]])),
+    MRR: metrics.mrr,
+    ...Object.fromEntries(ks.map((k) => [`nDCG@${k}`, metrics.ndcg[k]])),
+  }))
+  console.table(rows)
+}
+
+function printComparison(previousPath: string, summary: Record<string, AggregateMetrics>) {
+  const previous = JSON.parse(readFileSync(previousPath, 'utf-8')) as EvaluationReport
+  const deltas = compareAggregates(previous.summary, summary).filter((d) => d.delta !== 0)
+
+  console.log(`\n📈 Comparison with ${previousPath}:\n`)
+  if (deltas.length === 0) {
+    console.log('  No metric changed')
+    return
+  }
+  for (const d of deltas) {
+    const sign = d.delta > 0 ? '+' : ''
+    const marker = d.delta > 0 ? '✅' : '❌'
+    console.log(`  ${marker} ${d.group} ${d.metric}: ${d.previous} → ${d.current} (${sign}${d.delta})`)
+  }
+}
+
+async function runEvaluation(options: ScriptOptions) {
+  console.log('\n=== RETRIEVAL EVALUATION ===\n')
+
+  if (!options.set) {
+    console.error('❌ Missing --set <golden-set.jsonl>')
+    process.exit(1)
+  }
+
+  try {
+    const supabaseUrl = configureEvalEnvironment(options)
+    const goldenSet = parseGoldenSet(readFileSync(options.set, 'utf-8'))
+
+    console.log(`Golden set: ${options.set} (${goldenSet.length} questions)`)
+    console.log(`Supabase: ${supabaseUrl}`)
+    console.log(`Cutoffs: ${options.ks.join(', ')}`)
+    console.log(`Rerank: ${options.rerank ? 'yes' : 'no'}\n`)
+
+    const questions: QuestionReport[] = []
+    let failCount = 0
+
+    for (const golden of goldenSet) {
+      try {
+        const report = await evaluateQuestion(golden, options)
+        questions.push(report)
+        console.log(`  ${report.firstRelevantRank === 1 ? '✅' : report.firstRelevantRank ? '⚠️ ' : '❌'} ${golden.id} (rank: ${report.firstRelevantRank ?? '-'})`)
+      } catch (error) {
+        failCount++
+        console.error(`  ❌ ${golden.id} failed:`, error)
+        questions.push({
+          id: golden.id,
+          question: golden.question,
+          intent: golden.intent || 'unknown',
+          detectedIntent: 'unknown',
+          enhancedQuery: golden.question,
+          articleNumber: null,
+          expectedDocumentIds: golden.expectedDocumentIds,
+          retrievedDocumentIds: [],
+          firstRelevantRank: null,
+          metrics: computeQuestionMetrics([], golden.expectedDocumentIds, options.ks),
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    questions.sort((a, b) => a.id.localeCompare(b.id))
+    const summary = summarize(questions, options.ks)
+
+    console.log('\n📊 SUMMARY:\n')
+    printSummary(summary, options.ks)
+
+    if (options.compare) {
+      printComparison(options.compare, summary)
+    }
+
+    if (options.out) {
+      const report: EvaluationReport = {
+        goldenSet: options.set,
+        ks: options.ks,
+        rerank: options.rerank,
+        summary,
+        questions,
+      }
+      if (!existsSync(dirname(options.out))) {
+        mkdirSync(dirname(options.out), { recursive: true })
+      }
+      writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`)
+      console.log(`\n💾 Report saved to ${options.out}`)
+    }
+
+    console.log('\n=== COMPLETE ===\n')
+    process.exit(failCount > 0 ? 1 : 0)
+  } catch (error) {
+    console.error('\n❌ Evaluation failed:', error)
+    process.exit(1)
+  }
+}
+
+// Parse arguments and run
+const options = parseArgs()
+runEvaluation(options)
@@ -0,0 +1,301 @@
+// IMPORTANT: Load environment variables FIRST before any other imports
+import { config } from 'dotenv'
+import { resolve } from 'path'
+config({ path: resolve(process.cwd(), '.env.local') })
+
+/**
+ * Langfuse Prompt Sync
+ *
+ * Allinea il registry locale dei prompt (prompts/<nome>.json) con Langfuse:
+ * - diff: confronta testo e config del registry con la label su Langfuse
+ * - push: crea una nuova versione su Langfuse per i prompt diversi o mancanti
+ *   (con le label della voce del registry, es. production)
+ * - pull: riscrive le voci del registry con la versione della label su Langfuse
+ *
+ * Prima di diff e push il registry viene validato: ogni prompt in PROMPTS deve avere
+ * una voce e le variabili dichiarate devono corrispondere ai segnaposto del testo.
+ *
+ * Usage:
+ * npx tsx scripts/setup-langfuse-prompts.ts [diff|push|pull] [--label production] [--prompt NAME] [--dry-run]
+ *
+ * Options:
+ * --label LABEL      Label Langfuse da confrontare o scaricare (default: production)
+ * --prompt NAME      Limita il comando a un prompt
+ * --dry-run          push: mostra cosa verrebbe creato senza scrivere su Langfuse
+ *
+ * Senza comando esegue push (npm run setup-prompts).
+ * diff termina con exit code 1 se il registry e Langfuse non sono allineati.
+ */
+
+import { writeFileSync } from 'fs'
+import type { TextPromptClient } from '@langfuse/client'
+import { getLangfuseClient } from '../lib/observability/langfuse-client'
+import { PROMPTS } from '../lib/observability/prompt-manager'
+import {
+  getLocalPrompt,
+  getLocalPromptText,
+  listLocalPrompts,
+  serializeLocalPrompt,
+  toLocalPrompt,
+  validateLocalPrompt,
+  type LocalPrompt,
+} from '../lib/observability/prompt-registry'
+
+type SyncCommand = 'diff' | 'push' | 'pull'
+
+interface ScriptOptions {
+  command: SyncCommand
+  label: string
+  prompt?: string
+  dryRun: boolean
+}
+
+type PromptStatus = 'in-sync' | 'changed' | 'missing'
+
+interface PromptComparison {
+  name: string
+  status: PromptStatus
+  remoteVersion: number | null
+  changes: string[]
+}
+
+const PROMPTS_DIR = resolve(process.cwd(), 'prompts')
+
+function parseArgs(): ScriptOptions {
+  const args = process.argv.slice(2)
+  const options: ScriptOptions = {
+    command: 'push',
+    label: 'production',
+    dryRun: false,
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+
+    if (arg === 'diff' || arg === 'push' || arg === 'pull') {
+      options.command = arg
+    } else if (arg === '--label' && i + 1 < args.length) {
+      options.label = args[++i]
+    } else if (arg === '--prompt' && i + 1 < args.length) {
+      options.prompt = args[++i]
+    } else if (arg === '--dry-run') {
+      options.dryRun = true
+    }
+  }
+
+  return options
+}
+
+function getPromptNames(options: ScriptOptions): string[] {
+  const names: string[] = Object.values(PROMPTS)
+  if (!options.prompt) {
+    return names
+  }
+  if (!names.includes(options.prompt)) {
+    throw new Error(`Unknown prompt "${options.prompt}" (available: ${names.join(', ')})`)
+  }
+  return [options.prompt]
+}
+
+/**
+ * Problemi del registry per i prompt selezionati (vuoto = registry valido)
+ */
+function validateRegistry(names: string[]): string[] {
+  const issues: string[] = []
+
+  for (const name of names) {
+    const local = getLocalPrompt(name)
+    if (!local) {
+      issues.push(`${name}: missing prompts/${name}.json`)
+      continue
+    }
+    for (const issue of validateLocalPrompt(local)) {
+      issues.push(`${name}: ${issue}`)
+    }
+  }
+
+  const known: string[] = Object.values(PROMPTS)
+  for (const local of listLocalPrompts()) {
+    if (!known.includes(local.name)) {
+      issues.push(`${local.name}: not listed in PROMPTS`)
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Versione della label su Langfuse (null se il prompt o la label non esistono)
+ */
+async function fetchRemotePrompt(name: string, label: string): Promise<TextPromptClient | null> {
+  try {
+    return await getLangfuseClient().prompt.get(name, { label, cacheTtlSeconds: 0 })
+  } catch (error) {
+    if ((error as { statusCode?: number }).statusCode === 404) {
+      return null
+    }
+    throw error
+  }
+}
+
+function normalizeConfig(value: unknown): string {
+  const configObject = (value ?? {}) as Record<string, unknown>
+  return JSON.stringify(Object.fromEntries(Object.entries(configObject).sort(([a], [b]) => a.localeCompare(b))))
+}
+
+/**
+ * Prima riga diversa tra due testi (per un riepilogo leggibile del diff)
+ */
+function describeTextChange(local: string, remote: string): string {
+  const localLines = local.split('\n')
+  const remoteLines = remote.split('\n')
+  const line = localLines.findIndex((text, index) => text !== remoteLines[index])
+  const index = line === -1 ? localLines.length : line
+
+  return `text differs from line ${index + 1} (registry ${localLines.length} lines, Langfuse ${remoteLines.length} lines)\n` +
+    `      registry: ${JSON.stringify(localLines[index] ?? '')}\n` +
+    `      langfuse: ${JSON.stringify(remoteLines[index] ?? '')}`
+}
+
+function comparePrompt(local: LocalPrompt, remote: TextPromptClient | null): PromptComparison {
+  if (!remote) {
+    return { name: local.name, status: 'missing', remoteVersion: null, changes: [] }
+  }
+
+  const changes: string[] = []
+  const localText = getLocalPromptText(local)
+  if (localText !== remote.prompt) {
+    changes.push(describeTextChange(localText, remote.prompt))
+  }
+  if (normalizeConfig(local.config) !== normalizeConfig(remote.config)) {
+    changes.push(`config differs: registry ${normalizeConfig(local.config)}, Langfuse ${normalizeConfig(remote.config)}`)
+  }
+
+  return {
+    name: local.name,
+    status: changes.length > 0 ? 'changed' : 'in-sync',
+    remoteVersion: remote.version,
+    changes,
+  }
+}
+
+async function comparePrompts(names: string[], label: string): Promise<PromptComparison[]> {
+  const comparisons: PromptComparison[] = []
+
+  for (const name of names) {
+    const remote = await fetchRemotePrompt(name, label)
+    const comparison = comparePrompt(getLocalPrompt(name)!, remote)
+    comparisons.push(comparison)
+
+    if (comparison.status === 'in-sync') {
+      console.log(`✅ ${name}: in sync (v${comparison.remoteVersion})`)
+    } else if (comparison.status === 'missing') {
+      console.log(`➕ ${name}: not on Langfuse with label "${label}"`)
+    } else {
+      console.log(`✏️  ${name}: changed vs v${comparison.remoteVersion}`)
+      for (const change of comparison.changes) {
+        console.log(`    - ${change}`)
+      }
+    }
+  }
+
+  return comparisons
+}
+
+async function pushPrompts(comparisons: PromptComparison[], dryRun: boolean): Promise<void> {
+  const pending = comparisons.filter((comparison) => comparison.status !== 'in-sync')
+  if (pending.length === 0) {
+    console.log('\nNothing to push')
+    return
+  }
+
+  console.log(`\n${dryRun ? '🔍 Dry run: would push' : '⬆️  Pushing'} ${pending.length} prompt(s)`)
+  for (const { name } of pending) {
+    const local = getLocalPrompt(name)!
+    if (dryRun) {
+      console.log(`   ${name} (labels: ${local.labels.join(', ') || 'none'})`)
+      continue
+    }
+
+    const created = await getLangfuseClient().prompt.create({
+      name,
+      type: 'text',
+      prompt: getLocalPromptText(local),
+      config: local.config,
+      labels: local.labels,
+      commitMessage: 'Sync from local prompt registry',
+    })
+    console.log(`   ${name}: created v${created.version} (labels: ${local.labels.join(', ') || 'none'})`)
+  }
+}
+
+async function pullPrompts(names: string[], label: string): Promise<void> {
+  for (const name of names) {
+    const remote = await fetchRemotePrompt(name, label)
+    if (!remote) {
+      console.log(`⚠️  ${name}: not on Langfuse with label "${label}", registry entry kept`)
+      continue
+    }
+
+    const local = getLocalPrompt(name)
+    const pulled = toLocalPrompt(
+      name,
+      remote.prompt,
+      (remote.config ?? {}) as Record<string, unknown>,
+      local?.labels ?? [label]
+    )
+    const content = serializeLocalPrompt(pulled)
+
+    if (local && serializeLocalPrompt(local) === content) {
+      console.log(`✅ ${name}: in sync (v${remote.version})`)
+      continue
+    }
+
+    writeFileSync(resolve(PROMPTS_DIR, `${name}.json`), content)
+    console.log(`⬇️  ${name}: written from v${remote.version}`)
+  }
+}
+
+async function runSync(options: ScriptOptions): Promise<void> {
+  console.log(`\n=== PROMPT SYNC: ${options.command} (label "${options.label}") ===\n`)
+
+  try {
+    if (!process.env.LANGFUSE_PUBLIC_KEY || !process.env.LANGFUSE_SECRET_KEY) {
+      throw new Error('LANGFUSE_PUBLIC_KEY and LANGFUSE_SECRET_KEY are required')
+    }
+
+    const names = getPromptNames(options)
+
+    if (options.command === 'pull') {
+      await pullPrompts(names, options.label)
+      console.log('\n=== COMPLETE ===\n')
+      process.exit(0)
+    }
+
+    const issues = validateRegistry(names)
+    if (issues.length > 0) {
+      console.error('❌ Invalid prompt registry:')
+      issues.forEach((issue) => console.error(`   - ${issue}`))
+      process.exit(1)
+    }
+
+    const comparisons = await comparePrompts(names, options.label)
+    const outOfSync = comparisons.filter((comparison) => comparison.status !== 'in-sync').length
+
+    if (options.command === 'push') {
+      await pushPrompts(comparisons, options.dryRun)
+    } else {
+      console.log(`\n${outOfSync} of ${comparisons.length} prompt(s) out of sync`)
+    }
+
+    console.log('\n=== COMPLETE ===\n')
+    process.exit(options.command === 'diff' && outOfSync > 0 ? 1 : 0)
+  } catch (error) {
+    console.error('\n❌ Prompt sync failed:', error)
+    process.exit(1)
+  }
+}
+
+// Parse arguments and run
+const options = parseArgs()
+runSync(options)
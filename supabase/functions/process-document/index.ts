@@ -1,10 +1,11 @@
 /**
- * Supabase Edge Function per processare documenti in background
- * Questo viene chiamato dopo l'upload del file
+ * Supabase Edge Function per avviare il worker di ingestion
+ * Il processing vero e proprio avviene in /api/ingestion/worker (Next.js):
+ * questa funzione può essere schedulata (pg_cron) o chiamata dopo l'upload
+ * come trigger alternativo al cron di Vercel
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,46 +19,28 @@ serve(async (req) => {
   }
 
   try {
-    const { documentId } = await req.json()
-
-    if (!documentId) {
-      return new Response(
-        JSON.stringify({ error: 'documentId is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    const appUrl = Deno.env.get('APP_URL')
+    if (!appUrl) {
+      throw new Error('APP_URL is not set')
     }
 
-    // Inizializza Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Recupera documento
-    const { data: document, error: docError } = await supabase
-      .from('documents')
-      .select('*')
-      .eq('id', documentId)
-      .single()
-
-    if (docError || !document) {
-      throw new Error(`Document not found: ${documentId}`)
+    const headers: Record<string, string> = {}
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    if (cronSecret) {
+      headers.Authorization = `Bearer ${cronSecret}`
     }
 
-    // Download file da storage
-    const { data: fileData, error: fileError } = await supabase.storage
-      .from('documents')
-      .download(document.storage_path)
+    // Il worker processa i job in coda (inclusi i retry) e risponde a fine run
+    const response = await fetch(`${appUrl}/api/ingestion/worker`, {
+      method: 'POST',
+      headers,
+    })
 
-    if (fileError || !fileData) {
-      throw new Error(`Failed to download file: ${document.storage_path}`)
-    }
-
-    // Processa documento (qui dovresti chiamare le funzioni di estrazione)
-    // Per ora placeholder - implementare con le librerie appropriate
+    const result = await response.json()
 
     return new Response(
-      JSON.stringify({ success: true, documentId }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      JSON.stringify(result),
+      { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
   } catch (error) {
     console.error('Edge function error:', error)
@@ -67,4 +50,3 @@ serve(async (req) => {
     )
   }
 })
-
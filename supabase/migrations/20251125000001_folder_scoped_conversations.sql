@@ -0,0 +1,242 @@
+-- Folder-scoped chat sessions
+-- A conversation can optionally be restricted to a single documents.folder:
+-- chunk search, summary search and the semantic cache all honour the scope
+
+-- Step 1: Folder scope on conversations (NULL = whole knowledge base)
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS folder_scope TEXT;
+
+COMMENT ON COLUMN conversations.folder_scope IS 'Optional documents.folder the conversation is restricted to (NULL = search the whole corpus)';
+
+-- Step 2: hybrid_search with optional folder filter
+DROP FUNCTION IF EXISTS hybrid_search CASCADE;
+
+CREATE OR REPLACE FUNCTION hybrid_search(
+  query_embedding vector(1536),
+  query_text TEXT,
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  vector_weight FLOAT DEFAULT 0.7,
+  article_number INT DEFAULT NULL,
+  p_document_id UUID DEFAULT NULL,
+  p_folder TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  chunk_index INTEGER,
+  metadata JSONB,
+  similarity DOUBLE PRECISION,
+  vector_score DOUBLE PRECISION,
+  text_score DOUBLE PRECISION,
+  document_filename TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  text_weight FLOAT := 1.0 - vector_weight;
+  cleaned_query TEXT := regexp_replace(
+    regexp_replace(query_text, '[?!.,;:()\[\]{}"''`]', ' ', 'g'),
+    '\s+',
+    ' ',
+    'g'
+  );
+  tsquery_result tsquery;
+  filter_document_id UUID := p_document_id;
+  filter_article_number INT := article_number;
+  filter_folder TEXT := p_folder;
+  avg_length FLOAT;
+BEGIN
+  -- Calculate average document length for BM25
+  SELECT AVG(array_length(string_to_array(dc.content, ' '), 1))::FLOAT 
+  INTO avg_length
+  FROM document_chunks dc;
+  
+  -- Build tsquery with multiple fallbacks for robustness
+  tsquery_result := COALESCE(
+    websearch_to_tsquery('italian', query_text),
+    plainto_tsquery('italian', query_text),
+    plainto_tsquery('italian', cleaned_query)
+  );
+  
+  -- If still null, create a basic OR query from words
+  IF tsquery_result IS NULL OR tsquery_result::text = '' THEN
+    tsquery_result := to_tsquery('italian', 
+      regexp_replace(
+        array_to_string(
+          string_to_array(lower(cleaned_query), ' '),
+          ' | '
+        ),
+        '[^a-z0-9|àèéìòù ]',
+        '',
+        'g'
+      )
+    );
+  END IF;
+  
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.chunk_index,
+    dc.metadata,
+    -- Combined similarity: hybrid if text_score > 0, else vector-only
+    CASE
+      WHEN COALESCE(
+        bm25_score(
+          COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+          tsquery_result,
+          array_length(string_to_array(dc.content, ' '), 1),
+          avg_length
+        ),
+        0.0
+      ) = 0.0 THEN
+        -- No text match: use vector-only
+        (1 - (dc.embedding <=> query_embedding))::DOUBLE PRECISION
+      ELSE
+        -- Text match found: use hybrid scoring
+        (
+          vector_weight * (1 - (dc.embedding <=> query_embedding)) +
+          text_weight * bm25_score(
+            COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+            tsquery_result,
+            array_length(string_to_array(dc.content, ' '), 1),
+            avg_length
+          )
+        )::DOUBLE PRECISION
+    END AS similarity,
+    -- Separate vector similarity score
+    (1 - (dc.embedding <=> query_embedding))::DOUBLE PRECISION AS vector_score,
+    -- Separate BM25 text score
+    bm25_score(
+      COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+      tsquery_result,
+      array_length(string_to_array(dc.content, ' '), 1),
+      avg_length
+    ) AS text_score,
+    -- Document filename for citations
+    d.filename AS document_filename
+  FROM document_chunks dc
+  LEFT JOIN documents d ON dc.document_id = d.id
+  WHERE 
+    -- Document ID filter
+    (filter_document_id IS NULL OR dc.document_id = filter_document_id)
+    AND
+    -- Folder filter (folder-scoped conversations)
+    (filter_folder IS NULL OR d.folder = filter_folder)
+    AND
+    -- Article number filter
+    (filter_article_number IS NULL OR (dc.metadata->>'articleNumber')::INTEGER = filter_article_number)
+    AND
+    -- Permissive candidate filter: vector OR text match
+    (
+      -- Vector similarity above half threshold
+      (1 - (dc.embedding <=> query_embedding) > match_threshold * 0.5)
+      OR
+      -- Full-text match (including keywords)
+      (COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)) @@ tsquery_result)
+    )
+  ORDER BY similarity DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION hybrid_search IS 'BM25-enhanced hybrid search with optional article number, document ID and folder filters. When p_folder is provided, only chunks of documents in that folder are returned.';
+
+-- Step 3: search_documents_by_summary with optional folder filter
+DROP FUNCTION IF EXISTS search_documents_by_summary(vector(1536), float, int);
+
+CREATE OR REPLACE FUNCTION search_documents_by_summary(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 10,
+  p_folder text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  filename text,
+  folder text,
+  file_type text,
+  summary text,
+  similarity float,
+  chunks_count int,
+  file_size bigint,
+  processing_status text,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.filename,
+    d.folder,
+    d.file_type,
+    d.summary,
+    1 - (d.summary_embedding <=> query_embedding) AS similarity,
+    d.chunks_count,
+    d.file_size,
+    d.processing_status,
+    d.created_at,
+    d.updated_at
+  FROM documents d
+  WHERE 
+    d.summary_embedding IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND (p_folder IS NULL OR d.folder = p_folder)
+    AND 1 - (d.summary_embedding <=> query_embedding) > match_threshold
+  ORDER BY d.summary_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_documents_by_summary IS 'Search documents by semantic similarity of their summaries, optionally restricted to a folder - used for exploratory queries like "documents about topic X"';
+
+-- Step 4: Partition the semantic cache by scope
+-- scope_key is '' for unscoped answers, 'folder:<name>' for folder-scoped ones
+ALTER TABLE query_cache
+ADD COLUMN IF NOT EXISTS scope_key TEXT NOT NULL DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS idx_query_cache_scope_key ON query_cache(scope_key);
+
+COMMENT ON COLUMN query_cache.scope_key IS 'Retrieval scope the cached answer was built with. Lookups only match entries with the same scope_key.';
+
+DROP FUNCTION IF EXISTS match_cached_query(vector(1536), FLOAT);
+
+CREATE OR REPLACE FUNCTION match_cached_query(
+  p_query_embedding vector(1536),
+  match_threshold FLOAT,
+  p_scope_key TEXT DEFAULT ''
+)
+RETURNS TABLE (
+  id UUID,
+  query_text TEXT,
+  response_text TEXT,
+  similarity FLOAT,
+  hit_count INTEGER,
+  sources JSONB
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    qc.id,
+    qc.query_text,
+    qc.response_text,
+    1 - (qc.query_embedding <=> p_query_embedding) AS similarity,
+    qc.hit_count,
+    COALESCE(qc.sources, '[]'::jsonb) AS sources
+  FROM query_cache qc
+  WHERE 
+    qc.scope_key = COALESCE(p_scope_key, '')
+    AND 1 - (qc.query_embedding <=> p_query_embedding) > match_threshold
+    AND qc.expires_at > NOW()
+  ORDER BY qc.query_embedding <=> p_query_embedding
+  LIMIT 1;
+END;
+$$;
@@ -0,0 +1,105 @@
+-- Migration: Background ingestion job queue
+-- Description: Persistent ingestion jobs with stages (extract, structure, chunk, embed, summarize),
+-- retries with exponential backoff and resumable processing from the last completed stage
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  current_stage TEXT
+    CHECK (current_stage IN ('extract', 'structure', 'chunk', 'embed', 'summarize')),
+  completed_stages TEXT[] NOT NULL DEFAULT '{}',
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE ingestion_jobs IS 'Background ingestion queue: one job per uploaded document';
+COMMENT ON COLUMN ingestion_jobs.completed_stages IS 'Stages already completed; a retried job resumes from the first missing stage';
+COMMENT ON COLUMN ingestion_jobs.next_attempt_at IS 'Earliest time the job can be claimed (exponential backoff after failures)';
+COMMENT ON COLUMN ingestion_jobs.locked_at IS 'Set when a worker claims the job; stale locks are reclaimed';
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_claim_idx
+ON ingestion_jobs (status, next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_document_id_idx
+ON ingestion_jobs (document_id);
+
+-- Claim atomico del prossimo job disponibile
+-- - job in coda con next_attempt_at scaduto
+-- - job "running" con lock più vecchio di p_stale_after_seconds (worker morto/timeout)
+--   e tentativi ancora disponibili; quelli oltre max_attempts vengono marcati failed
+--   (un job che manda in timeout o out of memory il worker non viene ripreso all'infinito)
+-- FOR UPDATE SKIP LOCKED evita che due worker prendano lo stesso job
+CREATE OR REPLACE FUNCTION claim_ingestion_job(
+  p_worker_id TEXT,
+  p_stale_after_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF ingestion_jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  claimed_id UUID;
+BEGIN
+  WITH exhausted AS (
+    UPDATE ingestion_jobs j
+    SET status = 'failed',
+        message = 'Processing fallito',
+        last_error = COALESCE(j.last_error, 'Worker interrotto (timeout o memoria esaurita)'),
+        locked_at = NULL,
+        locked_by = NULL,
+        updated_at = NOW()
+    WHERE j.status = 'running'
+      AND j.locked_at < NOW() - make_interval(secs => p_stale_after_seconds)
+      AND j.attempts >= j.max_attempts
+    RETURNING j.document_id, j.last_error
+  )
+  UPDATE documents d
+  SET processing_status = 'error',
+      error_message = e.last_error
+  FROM exhausted e
+  WHERE d.id = e.document_id;
+
+  SELECT j.id INTO claimed_id
+  FROM ingestion_jobs j
+  WHERE (j.status = 'queued' AND j.next_attempt_at <= NOW())
+     OR (j.status = 'running'
+         AND j.locked_at < NOW() - make_interval(secs => p_stale_after_seconds)
+         AND j.attempts < j.max_attempts)
+  ORDER BY j.next_attempt_at ASC
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF claimed_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE ingestion_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_at = NOW(),
+      locked_by = p_worker_id,
+      updated_at = NOW()
+  WHERE id = claimed_id
+  RETURNING *;
+END;
+$$;
+
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Gli utenti autenticati possono leggere lo stato dei job (polling dall'uploader)
+-- Le scritture avvengono solo lato server con service role
+CREATE POLICY "Authenticated users can view ingestion jobs"
+ON ingestion_jobs FOR SELECT
+TO authenticated
+USING (true);
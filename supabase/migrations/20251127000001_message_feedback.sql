@@ -0,0 +1,27 @@
+-- Migration: User feedback on assistant messages
+-- Description: Thumbs up/down with an optional reason category stored on the messages row.
+-- Negative feedback evicts the answer from the semantic cache (handled in the API layer)
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS feedback_rating TEXT
+  CHECK (feedback_rating IN ('up', 'down')),
+ADD COLUMN IF NOT EXISTS feedback_reason TEXT
+  CHECK (feedback_reason IN ('wrong_source', 'hallucination', 'incomplete', 'outdated')),
+ADD COLUMN IF NOT EXISTS feedback_at TIMESTAMPTZ;
+
+-- Il motivo ha senso solo per un feedback negativo
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_feedback_reason_requires_down;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_feedback_reason_requires_down
+  CHECK (feedback_reason IS NULL OR feedback_rating = 'down');
+
+COMMENT ON COLUMN messages.feedback_rating IS 'User rating of an assistant answer: up or down (NULL = not rated)';
+COMMENT ON COLUMN messages.feedback_reason IS 'Reason category for negative feedback: wrong_source, hallucination, incomplete, outdated';
+COMMENT ON COLUMN messages.feedback_at IS 'When the feedback was last set';
+
+-- Listing admin: solo i messaggi con feedback, dal più recente
+CREATE INDEX IF NOT EXISTS messages_feedback_idx
+ON messages (feedback_at DESC)
+WHERE feedback_rating IS NOT NULL;
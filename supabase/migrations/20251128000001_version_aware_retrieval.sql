@@ -0,0 +1,265 @@
+-- Version-aware retrieval
+-- Uploading with action 'version' adds a documents row linked through parent_version_id
+-- (always the id of the first version). Retrieval now defaults to the newest completed
+-- version of each chain; callers can opt into the full history with p_include_history
+
+-- Step 1: Latest-version flag, maintained by trigger
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS is_latest_version BOOLEAN NOT NULL DEFAULT TRUE;
+
+COMMENT ON COLUMN documents.is_latest_version IS 'TRUE for the newest completed version of a version chain (COALESCE(parent_version_id, id)). Until a new version finishes processing the previous one stays the latest';
+
+CREATE INDEX IF NOT EXISTS documents_version_chain_idx
+ON documents ((COALESCE(parent_version_id, id)), version DESC);
+
+-- Step 2: Recompute the flag for a whole chain
+CREATE OR REPLACE FUNCTION refresh_document_version_chain(p_chain_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  latest_id UUID;
+BEGIN
+  -- Newest completed version; if none is completed yet, the newest version
+  SELECT d.id INTO latest_id
+  FROM documents d
+  WHERE COALESCE(d.parent_version_id, d.id) = p_chain_id
+  ORDER BY (d.processing_status = 'completed') DESC, COALESCE(d.version, 1) DESC, d.created_at DESC
+  LIMIT 1;
+
+  UPDATE documents d
+  SET is_latest_version = (d.id = latest_id)
+  WHERE COALESCE(d.parent_version_id, d.id) = p_chain_id
+    AND d.is_latest_version IS DISTINCT FROM (d.id = latest_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION documents_version_chain_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_document_version_chain(COALESCE(OLD.parent_version_id, OLD.id));
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_document_version_chain(COALESCE(NEW.parent_version_id, NEW.id));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Does not fire on is_latest_version updates, so the refresh cannot recurse
+DROP TRIGGER IF EXISTS documents_version_chain ON documents;
+CREATE TRIGGER documents_version_chain
+AFTER INSERT OR DELETE OR UPDATE OF version, parent_version_id, processing_status ON documents
+FOR EACH ROW
+EXECUTE FUNCTION documents_version_chain_trigger();
+
+-- Backfill existing chains
+SELECT refresh_document_version_chain(chain_id)
+FROM (SELECT DISTINCT COALESCE(parent_version_id, id) AS chain_id FROM documents) chains;
+
+-- Step 3: hybrid_search defaults to the latest version
+DROP FUNCTION IF EXISTS hybrid_search CASCADE;
+
+CREATE OR REPLACE FUNCTION hybrid_search(
+  query_embedding vector(1536),
+  query_text TEXT,
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  vector_weight FLOAT DEFAULT 0.7,
+  article_number INT DEFAULT NULL,
+  p_document_id UUID DEFAULT NULL,
+  p_folder TEXT DEFAULT NULL,
+  p_include_history BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  chunk_index INTEGER,
+  metadata JSONB,
+  similarity DOUBLE PRECISION,
+  vector_score DOUBLE PRECISION,
+  text_score DOUBLE PRECISION,
+  document_filename TEXT,
+  document_version INTEGER,
+  is_latest_version BOOLEAN
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  text_weight FLOAT := 1.0 - vector_weight;
+  cleaned_query TEXT := regexp_replace(
+    regexp_replace(query_text, '[?!.,;:()\[\]{}"''`]', ' ', 'g'),
+    '\s+',
+    ' ',
+    'g'
+  );
+  tsquery_result tsquery;
+  filter_document_id UUID := p_document_id;
+  filter_article_number INT := article_number;
+  filter_folder TEXT := p_folder;
+  avg_length FLOAT;
+BEGIN
+  -- Calculate average document length for BM25
+  SELECT AVG(array_length(string_to_array(dc.content, ' '), 1))::FLOAT 
+  INTO avg_length
+  FROM document_chunks dc;
+  
+  -- Build tsquery with multiple fallbacks for robustness
+  tsquery_result := COALESCE(
+    websearch_to_tsquery('italian', query_text),
+    plainto_tsquery('italian', query_text),
+    plainto_tsquery('italian', cleaned_query)
+  );
+  
+  -- If still null, create a basic OR query from words
+  IF tsquery_result IS NULL OR tsquery_result::text = '' THEN
+    tsquery_result := to_tsquery('italian', 
+      regexp_replace(
+        array_to_string(
+          string_to_array(lower(cleaned_query), ' '),
+          ' | '
+        ),
+        '[^a-z0-9|àèéìòù ]',
+        '',
+        'g'
+      )
+    );
+  END IF;
+  
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.chunk_index,
+    dc.metadata,
+    -- Combined similarity: hybrid if text_score > 0, else vector-only
+    CASE
+      WHEN COALESCE(
+        bm25_score(
+          COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+          tsquery_result,
+          array_length(string_to_array(dc.content, ' '), 1),
+          avg_length
+        ),
+        0.0
+      ) = 0.0 THEN
+        -- No text match: use vector-only
+        (1 - (dc.embedding <=> query_embedding))::DOUBLE PRECISION
+      ELSE
+        -- Text match found: use hybrid scoring
+        (
+          vector_weight * (1 - (dc.embedding <=> query_embedding)) +
+          text_weight * bm25_score(
+            COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+            tsquery_result,
+            array_length(string_to_array(dc.content, ' '), 1),
+            avg_length
+          )
+        )::DOUBLE PRECISION
+    END AS similarity,
+    -- Separate vector similarity score
+    (1 - (dc.embedding <=> query_embedding))::DOUBLE PRECISION AS vector_score,
+    -- Separate BM25 text score
+    bm25_score(
+      COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+      tsquery_result,
+      array_length(string_to_array(dc.content, ' '), 1),
+      avg_length
+    ) AS text_score,
+    -- Document filename for citations
+    d.filename AS document_filename,
+    -- Version info (labels for superseded chunks in history mode)
+    COALESCE(d.version, 1) AS document_version,
+    COALESCE(d.is_latest_version, TRUE) AS is_latest_version
+  FROM document_chunks dc
+  LEFT JOIN documents d ON dc.document_id = d.id
+  WHERE 
+    -- Document ID filter
+    (filter_document_id IS NULL OR dc.document_id = filter_document_id)
+    AND
+    -- Folder filter (folder-scoped conversations)
+    (filter_folder IS NULL OR d.folder = filter_folder)
+    AND
+    -- Version filter: latest version only, unless history is requested
+    -- or a specific document (e.g. @tag on an older version) is targeted
+    (p_include_history OR filter_document_id IS NOT NULL OR COALESCE(d.is_latest_version, TRUE))
+    AND
+    -- Article number filter
+    (filter_article_number IS NULL OR (dc.metadata->>'articleNumber')::INTEGER = filter_article_number)
+    AND
+    -- Permissive candidate filter: vector OR text match
+    (
+      -- Vector similarity above half threshold
+      (1 - (dc.embedding <=> query_embedding) > match_threshold * 0.5)
+      OR
+      -- Full-text match (including keywords)
+      (COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)) @@ tsquery_result)
+    )
+  ORDER BY similarity DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION hybrid_search IS 'BM25-enhanced hybrid search with optional article number, document ID and folder filters. Only chunks of the latest version of each document chain are returned unless p_include_history is true or p_document_id is provided.';
+
+-- Step 4: search_documents_by_summary restricted to latest versions
+DROP FUNCTION IF EXISTS search_documents_by_summary(vector(1536), float, int, text);
+
+CREATE OR REPLACE FUNCTION search_documents_by_summary(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 10,
+  p_folder text DEFAULT NULL,
+  p_include_history boolean DEFAULT FALSE
+)
+RETURNS TABLE (
+  id uuid,
+  filename text,
+  folder text,
+  file_type text,
+  summary text,
+  similarity float,
+  chunks_count int,
+  file_size bigint,
+  processing_status text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  version int,
+  is_latest_version boolean
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.filename,
+    d.folder,
+    d.file_type,
+    d.summary,
+    1 - (d.summary_embedding <=> query_embedding) AS similarity,
+    d.chunks_count,
+    d.file_size,
+    d.processing_status,
+    d.created_at,
+    d.updated_at,
+    COALESCE(d.version, 1),
+    COALESCE(d.is_latest_version, TRUE)
+  FROM documents d
+  WHERE 
+    d.summary_embedding IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND (p_folder IS NULL OR d.folder = p_folder)
+    AND (p_include_history OR COALESCE(d.is_latest_version, TRUE))
+    AND 1 - (d.summary_embedding <=> query_embedding) > match_threshold
+  ORDER BY d.summary_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_documents_by_summary IS 'Search documents by semantic similarity of their summaries, optionally restricted to a folder - used for exploratory queries like "documents about topic X". Only latest versions unless p_include_history is true';
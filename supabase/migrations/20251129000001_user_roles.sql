@@ -0,0 +1,72 @@
+-- Migration: Role-based access control
+-- Description: Role stored on user_profiles (admin, editor, reader).
+-- admin: everything, including settings, diagnostics and role assignment
+-- editor: upload, delete, move and version documents
+-- reader: chat and browse documents only
+-- Enforcement happens in middleware.ts and in each API route (service role bypasses RLS)
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'reader'
+  CHECK (role IN ('admin', 'editor', 'reader'));
+
+COMMENT ON COLUMN user_profiles.role IS 'Access role: admin, editor or reader (default for new users)';
+
+-- Gli utenti esistenti potevano già gestire i documenti: restano editor
+UPDATE user_profiles SET role = 'editor' WHERE role = 'reader';
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_role ON user_profiles(role);
+
+-- ============================================================================
+-- Role changes are reserved to the service role (admin API)
+-- The own-profile RLS policies would otherwise let users promote themselves
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION protect_user_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'reader';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Role changes are not allowed for this user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_user_profile_role_trigger ON user_profiles;
+CREATE TRIGGER protect_user_profile_role_trigger
+  BEFORE INSERT OR UPDATE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_user_profile_role();
+
+-- ============================================================================
+-- Helper for RLS policies
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- app_settings: writes were open to every authenticated user ("only admins should do this")
+DROP POLICY IF EXISTS "Allow authenticated updates" ON app_settings;
+DROP POLICY IF EXISTS "Allow authenticated inserts" ON app_settings;
+
+CREATE POLICY "Allow admin updates"
+ON app_settings FOR UPDATE
+TO authenticated
+USING (is_admin())
+WITH CHECK (is_admin());
+
+CREATE POLICY "Allow admin inserts"
+ON app_settings FOR INSERT
+TO authenticated
+WITH CHECK (is_admin());
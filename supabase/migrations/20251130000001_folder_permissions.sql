@@ -0,0 +1,291 @@
+-- Migration: Per-folder document permissions
+-- Description: Groups of users and a folder ACL. A folder with at least one row in
+-- folder_permissions is restricted: its documents are readable only by members of the
+-- listed groups (admins bypass the ACL via p_unrestricted). Folders without rows stay open.
+-- Enforced inside hybrid_search and search_documents_by_summary; the API layer applies
+-- denied_folders() to the other document queries and to the semantic cache partition
+
+-- Step 1: Groups and membership
+CREATE TABLE IF NOT EXISTS user_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT UNIQUE NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS user_group_members (
+  group_id UUID NOT NULL REFERENCES user_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_group_members_user_id ON user_group_members(user_id);
+
+-- Step 2: Folder ACL
+CREATE TABLE IF NOT EXISTS folder_permissions (
+  folder TEXT NOT NULL,
+  group_id UUID NOT NULL REFERENCES user_groups(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (folder, group_id)
+);
+
+COMMENT ON TABLE folder_permissions IS 'Folder ACL: a folder listed here is readable only by members of its groups';
+
+-- Service role only (managed through the admin API)
+ALTER TABLE user_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE folder_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Step 3: ACL check
+CREATE OR REPLACE FUNCTION can_read_folder(
+  p_folder TEXT,
+  p_user_id UUID,
+  p_unrestricted BOOLEAN DEFAULT FALSE
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_unrestricted
+    OR p_folder IS NULL
+    OR NOT EXISTS (SELECT 1 FROM folder_permissions fp WHERE fp.folder = p_folder)
+    OR EXISTS (
+      SELECT 1
+      FROM folder_permissions fp
+      JOIN user_group_members m ON m.group_id = fp.group_id
+      WHERE fp.folder = p_folder AND m.user_id = p_user_id
+    );
+$$;
+
+-- Restricted folders the user cannot read (NULL user = only open folders)
+CREATE OR REPLACE FUNCTION denied_folders(p_user_id UUID DEFAULT NULL)
+RETURNS TABLE (folder TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT fp.folder
+  FROM folder_permissions fp
+  WHERE NOT can_read_folder(fp.folder, p_user_id, FALSE)
+  ORDER BY fp.folder;
+$$;
+
+-- Step 4: hybrid_search with folder ACL
+DROP FUNCTION IF EXISTS hybrid_search CASCADE;
+
+CREATE OR REPLACE FUNCTION hybrid_search(
+  query_embedding vector(1536),
+  query_text TEXT,
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  vector_weight FLOAT DEFAULT 0.7,
+  article_number INT DEFAULT NULL,
+  p_document_id UUID DEFAULT NULL,
+  p_folder TEXT DEFAULT NULL,
+  p_include_history BOOLEAN DEFAULT FALSE,
+  p_user_id UUID DEFAULT NULL,
+  p_unrestricted BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  chunk_index INTEGER,
+  metadata JSONB,
+  similarity DOUBLE PRECISION,
+  vector_score DOUBLE PRECISION,
+  text_score DOUBLE PRECISION,
+  document_filename TEXT,
+  document_version INTEGER,
+  is_latest_version BOOLEAN
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  text_weight FLOAT := 1.0 - vector_weight;
+  cleaned_query TEXT := regexp_replace(
+    regexp_replace(query_text, '[?!.,;:()\[\]{}"''`]', ' ', 'g'),
+    '\s+',
+    ' ',
+    'g'
+  );
+  tsquery_result tsquery;
+  filter_document_id UUID := p_document_id;
+  filter_article_number INT := article_number;
+  filter_folder TEXT := p_folder;
+  avg_length FLOAT;
+BEGIN
+  -- Calculate average document length for BM25
+  SELECT AVG(array_length(string_to_array(dc.content, ' '), 1))::FLOAT 
+  INTO avg_length
+  FROM document_chunks dc;
+  
+  -- Build tsquery with multiple fallbacks for robustness
+  tsquery_result := COALESCE(
+    websearch_to_tsquery('italian', query_text),
+    plainto_tsquery('italian', query_text),
+    plainto_tsquery('italian', cleaned_query)
+  );
+  
+  -- If still null, create a basic OR query from words
+  IF tsquery_result IS NULL OR tsquery_result::text = '' THEN
+    tsquery_result := to_tsquery('italian', 
+      regexp_replace(
+        array_to_string(
+          string_to_array(lower(cleaned_query), ' '),
+          ' | '
+        ),
+        '[^a-z0-9|àèéìòù ]',
+        '',
+        'g'
+      )
+    );
+  END IF;
+  
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.chunk_index,
+    dc.metadata,
+    -- Combined similarity: hybrid if text_score > 0, else vector-only
+    CASE
+      WHEN COALESCE(
+        bm25_score(
+          COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+          tsquery_result,
+          array_length(string_to_array(dc.content, ' '), 1),
+          avg_length
+        ),
+        0.0
+      ) = 0.0 THEN
+        -- No text match: use vector-only
+        (1 - (dc.embedding <=> query_embedding))::DOUBLE PRECISION
+      ELSE
+        -- Text match found: use hybrid scoring
+        (
+          vector_weight * (1 - (dc.embedding <=> query_embedding)) +
+          text_weight * bm25_score(
+            COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+            tsquery_result,
+            array_length(string_to_array(dc.content, ' '), 1),
+            avg_length
+          )
+        )::DOUBLE PRECISION
+    END AS similarity,
+    -- Separate vector similarity score
+    (1 - (dc.embedding <=> query_embedding))::DOUBLE PRECISION AS vector_score,
+    -- Separate BM25 text score
+    bm25_score(
+      COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)),
+      tsquery_result,
+      array_length(string_to_array(dc.content, ' '), 1),
+      avg_length
+    ) AS text_score,
+    -- Document filename for citations
+    d.filename AS document_filename,
+    -- Version info (labels for superseded chunks in history mode)
+    COALESCE(d.version, 1) AS document_version,
+    COALESCE(d.is_latest_version, TRUE) AS is_latest_version
+  FROM document_chunks dc
+  LEFT JOIN documents d ON dc.document_id = d.id
+  WHERE 
+    -- Document ID filter
+    (filter_document_id IS NULL OR dc.document_id = filter_document_id)
+    AND
+    -- Folder filter (folder-scoped conversations)
+    (filter_folder IS NULL OR d.folder = filter_folder)
+    AND
+    -- Version filter: latest version only, unless history is requested
+    -- or a specific document (e.g. @tag on an older version) is targeted
+    (p_include_history OR filter_document_id IS NOT NULL OR COALESCE(d.is_latest_version, TRUE))
+    AND
+    -- Folder ACL: never return chunks the user is not allowed to read (also for @tagged documents)
+    can_read_folder(d.folder, p_user_id, p_unrestricted)
+    AND
+    -- Article number filter
+    (filter_article_number IS NULL OR (dc.metadata->>'articleNumber')::INTEGER = filter_article_number)
+    AND
+    -- Permissive candidate filter: vector OR text match
+    (
+      -- Vector similarity above half threshold
+      (1 - (dc.embedding <=> query_embedding) > match_threshold * 0.5)
+      OR
+      -- Full-text match (including keywords)
+      (COALESCE(dc.content_tsv, to_tsvector('italian', dc.content)) @@ tsquery_result)
+    )
+  ORDER BY similarity DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION hybrid_search IS 'BM25-enhanced hybrid search with optional article number, document ID and folder filters. Only chunks of the latest version of each document chain are returned unless p_include_history is true or p_document_id is provided. Chunks in restricted folders are returned only to members of the allowed groups (p_user_id) or when p_unrestricted is true.';
+
+-- Step 5: search_documents_by_summary with folder ACL
+DROP FUNCTION IF EXISTS search_documents_by_summary(vector(1536), float, int, text, boolean);
+
+CREATE OR REPLACE FUNCTION search_documents_by_summary(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 10,
+  p_folder text DEFAULT NULL,
+  p_include_history boolean DEFAULT FALSE,
+  p_user_id uuid DEFAULT NULL,
+  p_unrestricted boolean DEFAULT FALSE
+)
+RETURNS TABLE (
+  id uuid,
+  filename text,
+  folder text,
+  file_type text,
+  summary text,
+  similarity float,
+  chunks_count int,
+  file_size bigint,
+  processing_status text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  version int,
+  is_latest_version boolean
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.filename,
+    d.folder,
+    d.file_type,
+    d.summary,
+    1 - (d.summary_embedding <=> query_embedding) AS similarity,
+    d.chunks_count,
+    d.file_size,
+    d.processing_status,
+    d.created_at,
+    d.updated_at,
+    COALESCE(d.version, 1),
+    COALESCE(d.is_latest_version, TRUE)
+  FROM documents d
+  WHERE 
+    d.summary_embedding IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND (p_folder IS NULL OR d.folder = p_folder)
+    AND (p_include_history OR COALESCE(d.is_latest_version, TRUE))
+    AND can_read_folder(d.folder, p_user_id, p_unrestricted)
+    AND 1 - (d.summary_embedding <=> query_embedding) > match_threshold
+  ORDER BY d.summary_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_documents_by_summary IS 'Search documents by semantic similarity of their summaries, optionally restricted to a folder - used for exploratory queries like "documents about topic X". Only latest versions unless p_include_history is true. Restricted folders follow the folder ACL (p_user_id, p_unrestricted)';
+
+-- Step 6: The ACL parameters are trusted, so only the service role may call the search functions
+REVOKE EXECUTE ON FUNCTION hybrid_search(vector, TEXT, FLOAT, INT, FLOAT, INT, UUID, TEXT, BOOLEAN, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION search_documents_by_summary(vector, float, int, text, boolean, uuid, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION denied_folders(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hybrid_search(vector, TEXT, FLOAT, INT, FLOAT, INT, UUID, TEXT, BOOLEAN, UUID, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION search_documents_by_summary(vector, float, int, text, boolean, uuid, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION denied_folders(UUID) TO service_role;
@@ -0,0 +1,58 @@
+-- Migration: Shareable read-only conversation links
+-- Description: Revocable, optionally expiring tokens that expose a conversation on the public
+-- /share/[token] page. The owner manages the links through RLS; the public page resolves the
+-- token with the service role. Sharing never grants access to document files: previews and
+-- downloads still check the viewer's own folder permissions
+
+CREATE TABLE IF NOT EXISTS conversation_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  token TEXT UNIQUE NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ, -- NULL = nessuna scadenza
+  revoked_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE conversation_shares IS 'Read-only share links for conversations (revocable, optionally expiring)';
+COMMENT ON COLUMN conversation_shares.token IS 'Random URL-safe token used in /share/[token]';
+
+CREATE INDEX IF NOT EXISTS idx_conversation_shares_conversation_id
+ON conversation_shares(conversation_id);
+
+ALTER TABLE conversation_shares ENABLE ROW LEVEL SECURITY;
+
+-- Solo il proprietario della conversazione gestisce i link
+CREATE POLICY "Users can view shares of their own conversations"
+  ON public.conversation_shares
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE conversations.id = conversation_shares.conversation_id
+      AND conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can share their own conversations"
+  ON public.conversation_shares
+  FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE conversations.id = conversation_shares.conversation_id
+      AND conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can revoke shares of their own conversations"
+  ON public.conversation_shares
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE conversations.id = conversation_shares.conversation_id
+      AND conversations.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,113 @@
+-- Migration: Full-text and semantic search over conversation history
+-- Description: Adds a generated tsvector and an optional embedding to messages, plus two
+-- search functions. Both run as SECURITY INVOKER with the caller's session and only return
+-- messages of conversations owned by auth.uid()
+
+-- Step 1: Full-text index (i marker di citazione [cit:N] / [web:N] non vengono indicizzati)
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('italian', regexp_replace(content, '\[(cit|web):[^\]]*\]', ' ', 'g'))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS messages_content_tsv_idx
+ON messages
+USING gin(content_tsv);
+
+-- Step 2: Embedding per la ricerca semantica (text-embedding-3-large, 1536 dimensioni)
+-- Calcolato al salvataggio del messaggio; i messaggi precedenti vengono completati a lotti
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS embedding vector(1536);
+
+COMMENT ON COLUMN messages.embedding IS 'Message embedding for semantic conversation search (NULL = not computed yet)';
+
+CREATE INDEX IF NOT EXISTS messages_embedding_idx
+ON messages
+USING hnsw (embedding vector_cosine_ops)
+WITH (m = 16, ef_construction = 64);
+
+-- Step 3: Full-text search with highlighted snippets
+-- Gli estratti usano i delimitatori [[hl]]...[[/hl]]: il client li trasforma in evidenziazioni
+-- senza interpretare HTML
+CREATE OR REPLACE FUNCTION search_conversation_messages(
+  p_query TEXT,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  conversation_title TEXT,
+  role TEXT,
+  snippet TEXT,
+  score FLOAT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('italian', p_query) AS tsq
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    ts_headline(
+      'italian',
+      m.content,
+      q.tsq,
+      'StartSel=[[hl]], StopSel=[[/hl]], MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" ... "'
+    ),
+    ts_rank_cd(m.content_tsv, q.tsq)::float,
+    m.created_at
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  CROSS JOIN q
+  WHERE c.user_id = auth.uid()
+    AND m.role IN ('user', 'assistant')
+    AND m.content_tsv @@ q.tsq
+  ORDER BY 6 DESC, m.created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Step 4: Semantic search (l'estratto viene costruito lato applicazione)
+CREATE OR REPLACE FUNCTION search_conversation_messages_semantic(
+  p_query_embedding vector(1536),
+  p_match_threshold FLOAT DEFAULT 0.3,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  conversation_title TEXT,
+  role TEXT,
+  content TEXT,
+  score FLOAT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    m.content,
+    (1 - (m.embedding <=> p_query_embedding))::float,
+    m.created_at
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  WHERE c.user_id = auth.uid()
+    AND m.role IN ('user', 'assistant')
+    AND m.embedding IS NOT NULL
+    AND 1 - (m.embedding <=> p_query_embedding) >= p_match_threshold
+  ORDER BY m.embedding <=> p_query_embedding
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_conversation_messages(TEXT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_conversation_messages_semantic(vector(1536), FLOAT, INT) TO authenticated;
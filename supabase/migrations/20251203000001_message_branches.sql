@@ -0,0 +1,43 @@
+-- Migration: Conversation branches
+-- Description: Messages form a tree through parent_id. Editing an earlier user message
+-- inserts a sibling instead of deleting the previous exchange; conversations.active_leaf_id
+-- marks the branch shown in the chat and used as LLM context
+
+-- Step 1: Parent pointer (NULL = primo messaggio di un ramo dalla radice)
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS messages_parent_id_idx
+ON messages(parent_id);
+
+COMMENT ON COLUMN messages.parent_id IS 'Previous message in the branch (NULL = root). Siblings are alternative branches';
+
+-- Step 2: Foglia del ramo attivo
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN conversations.active_leaf_id IS 'Last message of the active branch (NULL = latest message)';
+
+-- Step 3: Backfill: le conversazioni esistenti diventano un unico ramo lineare
+WITH ordered AS (
+  SELECT
+    id,
+    LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM messages
+)
+UPDATE messages m
+SET parent_id = ordered.previous_id
+FROM ordered
+WHERE m.id = ordered.id
+  AND m.parent_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+UPDATE conversations c
+SET active_leaf_id = (
+  SELECT m.id
+  FROM messages m
+  WHERE m.conversation_id = c.id
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT 1
+)
+WHERE c.active_leaf_id IS NULL;
@@ -0,0 +1,34 @@
+-- Migration: Regenerate answers with a different model
+-- Description: Stores the exact LLM input (system prompt with the retrieved context) and the
+-- citable sources of each generated answer, plus the alternative answers produced by other
+-- models. Both tables are accessed only server-side with the service role, after the
+-- ownership of the message has been checked with the user's session
+
+-- Step 1: Contesto di generazione delle risposte assistant
+CREATE TABLE IF NOT EXISTS message_generation_contexts (
+  message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  llm_messages JSONB NOT NULL,
+  citation_context JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE message_generation_contexts IS 'LLM input and citable sources of an assistant answer, replayed by "regenerate with another model"';
+
+ALTER TABLE message_generation_contexts ENABLE ROW LEVEL SECURITY;
+
+-- Step 2: Risposte rigenerate con un altro modello (in attesa della scelta dell'utente)
+CREATE TABLE IF NOT EXISTS message_regenerations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,
+  content TEXT NOT NULL,
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  accepted_at TIMESTAMPTZ -- Impostato quando la risposta sostituisce l'originale
+);
+
+CREATE INDEX IF NOT EXISTS message_regenerations_message_id_idx
+ON message_regenerations(message_id);
+
+ALTER TABLE message_regenerations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,65 @@
+-- Migration: Semantic cache linked to cited documents
+-- Description: query_cache.document_ids lists the documents an answer was built from, so that
+-- deleting, replacing, moving or re-processing a document evicts the answers that cite it
+
+-- Step 1: Documenti citati dalla risposta in cache
+ALTER TABLE query_cache
+ADD COLUMN IF NOT EXISTS document_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_query_cache_document_ids
+ON query_cache USING GIN (document_ids);
+
+COMMENT ON COLUMN query_cache.document_ids IS 'Documents cited by the cached answer (from sources[].documentId). Entries are evicted when any of them changes';
+
+-- Step 2: Backfill dalle sources salvate (solo documentId in formato UUID)
+UPDATE query_cache qc
+SET document_ids = COALESCE((
+  SELECT ARRAY_AGG(DISTINCT (source->>'documentId')::uuid)
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(qc.sources) = 'array' THEN qc.sources ELSE '[]'::jsonb END
+  ) AS source
+  WHERE source->>'documentId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+), '{}')
+WHERE qc.document_ids = '{}';
+
+-- Step 3: Svuotamento manuale per documento, cartella e/o età (criteri in AND)
+-- La cartella è risolta qui con una join: gli ID dei documenti di una cartella grande
+-- non passano dall'URL della richiesta PostgREST
+CREATE OR REPLACE FUNCTION purge_query_cache(
+  p_document_id UUID DEFAULT NULL,
+  p_filter_folder BOOLEAN DEFAULT FALSE,
+  p_folder TEXT DEFAULT NULL, -- NULL con p_filter_folder = documenti senza cartella
+  p_older_than TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_ids UUID[];
+  deleted_count INTEGER;
+BEGIN
+  IF p_filter_folder THEN
+    SELECT ARRAY_AGG(d.id) INTO target_ids
+    FROM documents d
+    WHERE d.folder IS NOT DISTINCT FROM p_folder
+      AND (p_document_id IS NULL OR d.id = p_document_id);
+
+    IF target_ids IS NULL THEN
+      RETURN 0;
+    END IF;
+  ELSIF p_document_id IS NOT NULL THEN
+    target_ids := ARRAY[p_document_id];
+  END IF;
+
+  IF target_ids IS NULL AND p_older_than IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM query_cache qc
+  WHERE (target_ids IS NULL OR qc.document_ids && target_ids)
+    AND (p_older_than IS NULL OR qc.created_at < p_older_than);
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
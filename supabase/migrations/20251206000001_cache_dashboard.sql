@@ -0,0 +1,71 @@
+-- Migration: Cache management dashboard
+-- Description: Daily hit/miss counters per cache layer (hit rate over time) and a stats function
+-- returning entry counts, hits, oldest entry and storage size of each cache table.
+-- Accessed only server-side with the service role from /admin/cache
+
+-- Step 1: Contatori giornalieri di lookup per cache
+CREATE TABLE IF NOT EXISTS cache_lookup_stats (
+  cache_name TEXT NOT NULL,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (cache_name, day)
+);
+
+COMMENT ON TABLE cache_lookup_stats IS 'Daily lookup counters per cache layer (semantic, unified, legacy caches)';
+
+ALTER TABLE cache_lookup_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION record_cache_lookup(p_cache_name TEXT, p_hit BOOLEAN)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO cache_lookup_stats (cache_name, day, hits, misses)
+  VALUES (p_cache_name, CURRENT_DATE, CASE WHEN p_hit THEN 1 ELSE 0 END, CASE WHEN p_hit THEN 0 ELSE 1 END)
+  ON CONFLICT (cache_name, day) DO UPDATE
+  SET hits = cache_lookup_stats.hits + EXCLUDED.hits,
+      misses = cache_lookup_stats.misses + EXCLUDED.misses;
+$$;
+
+-- Step 2: Statistiche delle tabelle di cache (le tabelle non presenti vengono saltate)
+CREATE OR REPLACE FUNCTION get_cache_table_stats(p_tables TEXT[])
+RETURNS TABLE (
+  table_name TEXT,
+  entry_count BIGINT,
+  total_hits BIGINT,
+  expired_count BIGINT,
+  oldest_created_at TIMESTAMPTZ,
+  total_bytes BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  t TEXT;
+  has_expires BOOLEAN;
+BEGIN
+  FOREACH t IN ARRAY p_tables LOOP
+    IF to_regclass(format('public.%I', t)) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = t AND c.column_name = 'expires_at'
+    ) INTO has_expires;
+
+    RETURN QUERY EXECUTE format(
+      'SELECT %L::TEXT, COUNT(*), COALESCE(SUM(hit_count), 0)::BIGINT, %s, MIN(created_at), pg_total_relation_size(%L::regclass) FROM public.%I',
+      t,
+      CASE WHEN has_expires THEN 'COUNT(*) FILTER (WHERE expires_at < NOW())' ELSE '0::BIGINT' END,
+      format('public.%I', t),
+      t
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_cache_lookup(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_cache_table_stats(TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_cache_lookup(TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION get_cache_table_stats(TEXT[]) TO service_role;
@@ -14,7 +14,7 @@
  */
 
 import { analyzeQuery } from '../../lib/embeddings/query-analysis'
-import { getRagAgentForModel, clearToolResults, getWebSearchResults } from '../../lib/mastra/agent'
+import { getRagAgentForModel, createToolExecutionContext, getWebSearchResults } from '../../lib/mastra/agent'
 import { buildSystemPrompt } from '../../lib/llm/system-prompt'
 import { DEFAULT_FLASH_MODEL } from '../../lib/llm/models'
 
@@ -211,10 +211,9 @@ async function testAgentToolInvocation(testCase: TestCase): Promise<boolean> {
       isMetaQuery: false,
     })
     
-    const agent = getRagAgentForModel(DEFAULT_FLASH_MODEL, true)
-    
-    // Clear cache before test
-    clearToolResults()
+    // Contesto tools dedicato al test
+    const toolContext = createToolExecutionContext()
+    const agent = getRagAgentForModel(DEFAULT_FLASH_MODEL, true, toolContext)
     
     const messages = [
       {
@@ -253,7 +252,7 @@ async function testAgentToolInvocation(testCase: TestCase): Promise<boolean> {
     console.log(`   Response length: ${fullResponse.length} chars`)
     
     // Check if web search was called
-    const webResults = getWebSearchResults()
+    const webResults = getWebSearchResults(toolContext)
     const webSearchWasCalled = webResults.length > 0
     
     console.log(`   Web search tool called: ${webSearchWasCalled}`)
@@ -0,0 +1,51 @@
+/**
+ * Unit Tests: Cache Dashboard
+ *
+ * Tests the daily hit rate series and the cache names accepted by the admin API
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildHitRateSeries, isCacheName } from '@/lib/services/cache-admin-service'
+
+const today = new Date('2025-12-06T15:30:00Z')
+
+describe('Cache Dashboard', () => {
+  describe('buildHitRateSeries', () => {
+    it('should cover every day of the period, oldest first', () => {
+      const series = buildHitRateSeries([], 3, today)
+
+      expect(series.map((point) => point.day)).toEqual(['2025-12-04', '2025-12-05', '2025-12-06'])
+      expect(series.every((point) => point.hitRate === null && point.hits === 0)).toBe(true)
+    })
+
+    it('should compute the hit rate of each day', () => {
+      const series = buildHitRateSeries(
+        [
+          { day: '2025-12-05', hits: 3, misses: 1 },
+          { day: '2025-12-06', hits: 0, misses: 2 },
+        ],
+        2,
+        today
+      )
+
+      expect(series).toEqual([
+        { day: '2025-12-05', hits: 3, misses: 1, hitRate: 0.75 },
+        { day: '2025-12-06', hits: 0, misses: 2, hitRate: 0 },
+      ])
+    })
+
+    it('should ignore days outside the period', () => {
+      const series = buildHitRateSeries([{ day: '2025-11-01', hits: 10, misses: 0 }], 2, today)
+      expect(series.reduce((sum, point) => sum + point.hits, 0)).toBe(0)
+    })
+  })
+
+  describe('isCacheName', () => {
+    it('should accept known caches only', () => {
+      expect(isCacheName('semantic')).toBe(true)
+      expect(isCacheName('unified')).toBe(true)
+      expect(isCacheName('query_cache')).toBe(false)
+      expect(isCacheName(undefined)).toBe(false)
+    })
+  })
+})
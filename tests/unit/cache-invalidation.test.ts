@@ -0,0 +1,43 @@
+/**
+ * Unit Tests: Cache Invalidation
+ *
+ * Tests the document links stored with cached answers and the cache permission route rules
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { getCitedDocumentIds } from '@/lib/supabase/semantic-cache'
+import { getRequiredPermission, hasPermission } from '@/lib/auth/roles'
+
+const DOC_A = '3f2b8c1e-4d5a-4e6f-8a9b-0c1d2e3f4a5b'
+const DOC_B = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d'
+
+describe('Cache Invalidation', () => {
+  describe('getCitedDocumentIds', () => {
+    it('should collect each cited document once', () => {
+      expect(getCitedDocumentIds([
+        { documentId: DOC_A },
+        { documentId: DOC_B },
+        { documentId: DOC_A },
+      ])).toEqual([DOC_A, DOC_B])
+    })
+
+    it('should ignore sources without a document', () => {
+      expect(getCitedDocumentIds([
+        { documentId: DOC_A },
+        { documentId: null },
+        { documentId: '' },
+        { documentId: 'web-1' },
+        {},
+      ])).toEqual([DOC_A])
+      expect(getCitedDocumentIds(undefined)).toEqual([])
+    })
+  })
+
+  describe('cache:manage', () => {
+    it('should reserve cache purges to admins', () => {
+      expect(hasPermission('admin', 'cache:manage')).toBe(true)
+      expect(hasPermission('editor', 'cache:manage')).toBe(false)
+      expect(getRequiredPermission('/api/admin/cache/purge', 'POST')).toBe('cache:manage')
+    })
+  })
+})
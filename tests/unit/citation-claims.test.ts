@@ -0,0 +1,59 @@
+/**
+ * Unit Tests: Citation Claims
+ *
+ * Tests sentence/citation extraction and the deterministic answer-quality scores
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { citationCoverage, extractCitedClaims, faithfulnessScore } from '@/lib/evaluation/citation-claims'
+
+describe('Citation Claims', () => {
+  describe('extractCitedClaims', () => {
+    it('should attach a citation after the period to the previous sentence', () => {
+      const claims = extractCitedClaims(
+        'Le ferie vanno richieste con trenta giorni di anticipo. [cit:1] Il modulo si compila sul portale aziendale [cit:2,3].'
+      )
+
+      expect(claims).toEqual([
+        { text: 'Le ferie vanno richieste con trenta giorni di anticipo.', citedIndices: [1] },
+        { text: 'Il modulo si compila sul portale aziendale.', citedIndices: [2, 3] },
+      ])
+    })
+
+    it('should not split on abbreviations or decimal numbers', () => {
+      const claims = extractCitedClaims("L'art. 28 prevede un rimborso di 1.200 euro annui per dipendente [cit:1].")
+
+      expect(claims).toHaveLength(1)
+      expect(claims[0].citedIndices).toEqual([1])
+    })
+
+    it('should skip headings, table rows and short fragments', () => {
+      const claims = extractCitedClaims([
+        '## Procedura',
+        'Ecco i dettagli:',
+        '| Voce | Importo |',
+        '- **Preavviso**: almeno trenta giorni per periodi lunghi [cit:1]',
+      ].join('\n'))
+
+      expect(claims).toEqual([
+        { text: 'Preavviso: almeno trenta giorni per periodi lunghi', citedIndices: [1] },
+      ])
+    })
+  })
+
+  describe('scores', () => {
+    it('should compute citation coverage over substantive sentences', () => {
+      const claims = extractCitedClaims(
+        'Il regolamento si applica a tutti i dipendenti [cit:1]. Il contratto nazionale prevede ulteriori tutele per i turnisti.'
+      )
+
+      expect(citationCoverage(claims)).toBe(0.5)
+      expect(citationCoverage([])).toBe(1)
+    })
+
+    it('should average claim verdicts', () => {
+      expect(faithfulnessScore(['supported', 'partial', 'unsupported', 'supported'])).toBe(0.625)
+      expect(faithfulnessScore([])).toBeNull()
+    })
+  })
+})
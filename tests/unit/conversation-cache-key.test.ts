@@ -0,0 +1,66 @@
+/**
+ * Unit Tests: Conversation-aware Cache Keys
+ *
+ * Tests follow-up detection for the semantic cache and the scope key with documents, model and context
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildCacheScopeKey,
+  buildConversationFingerprint,
+  getConversationCacheContext,
+} from '@/app/api/chat/handlers/cache-handler'
+import type { ConversationMessage } from '@/lib/context/conversation-context'
+
+const gdprExchange: ConversationMessage[] = [
+  { role: 'user', content: "Cosa prevede l'articolo 4 del GDPR?" },
+  { role: 'assistant', content: "L'articolo 4 contiene le definizioni [cit:1]" },
+]
+
+const esprExchange: ConversationMessage[] = [
+  { role: 'user', content: "Cosa prevede l'articolo 4 dell'ESPR?" },
+  { role: 'assistant', content: "L'articolo 4 dell'ESPR riguarda gli atti delegati [cit:1]" },
+]
+
+describe('Conversation-aware Cache Keys', () => {
+  describe('getConversationCacheContext', () => {
+    it('should share the cache for standalone questions', () => {
+      expect(getConversationCacheContext('Cosa prevede il GDPR?', [])).toEqual({ isFollowUp: false, fingerprint: null })
+      expect(getConversationCacheContext('Cosa prevede il GDPR?', undefined).fingerprint).toBeNull()
+    })
+
+    it('should bind follow-ups to the previous exchange', () => {
+      const gdpr = getConversationCacheContext("e per l'articolo 5?", gdprExchange)
+      const espr = getConversationCacheContext("e per l'articolo 5?", esprExchange)
+
+      expect(gdpr.isFollowUp).toBe(true)
+      expect(gdpr.fingerprint).not.toBeNull()
+      expect(gdpr.fingerprint).not.toBe(espr.fingerprint)
+    })
+  })
+
+  describe('buildConversationFingerprint', () => {
+    it('should ignore case, whitespace and older messages', () => {
+      const older: ConversationMessage[] = [{ role: 'user', content: 'Domanda iniziale' }, ...gdprExchange]
+      const reformatted = gdprExchange.map((msg) => ({ ...msg, content: `  ${msg.content.toUpperCase()} ` }))
+
+      expect(buildConversationFingerprint(older)).toBe(buildConversationFingerprint(gdprExchange))
+      expect(buildConversationFingerprint(reformatted)).toBe(buildConversationFingerprint(gdprExchange))
+    })
+  })
+
+  describe('buildCacheScopeKey', () => {
+    it('should include tagged documents in a stable order', () => {
+      expect(buildCacheScopeKey({ documentIds: ['b', 'a', 'b'] })).toBe('docs:a,b')
+    })
+
+    it('should append model and conversation context after the retrieval scope', () => {
+      expect(buildCacheScopeKey({
+        folder: 'GRI',
+        deniedFolders: ['HR'],
+        model: 'openrouter/google/gemini-2.5-flash',
+        conversationFingerprint: 'abc123',
+      })).toBe('folder:GRI|deny:HR|model:openrouter/google/gemini-2.5-flash|ctx:abc123')
+    })
+  })
+})
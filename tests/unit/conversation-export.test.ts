@@ -0,0 +1,109 @@
+/**
+ * Unit Tests: Conversation Export
+ *
+ * Tests citation parsing, footnote numbering, restricted excerpts and the Markdown/PDF renderers
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildConversationTranscript,
+  parseCitationGroup,
+  renderTranscriptMarkdown,
+  transcriptFilename,
+} from '@/lib/export/conversation-transcript'
+import { renderTranscriptPdf } from '@/lib/export/pdf-writer'
+import type { Message } from '@/types/chat'
+
+const messages: Message[] = [
+  { id: 'm1', role: 'user', content: 'Qual è la policy ferie?' },
+  {
+    id: 'm2',
+    role: 'assistant',
+    content: 'La policy prevede **ferie** [cit:1] e rimborsi [cit:1, web:1].\n- Punto riservato [cit:2]\n- Fonte mancante [cit:9]',
+    sources: [
+      { index: 1, type: 'kb', filename: 'policy.pdf', documentId: 'd1', content: 'Testo  del\nchunk', location: 'p. 3' },
+      { index: 2, type: 'kb', filename: 'hr.pdf', documentId: 'd2', content: 'contenuto riservato' },
+      { index: 1, type: 'web', title: 'Sito', url: 'https://example.com', content: 'estratto web' },
+    ],
+  } as Message,
+]
+
+const transcript = buildConversationTranscript(messages, {
+  title: 'Policy ferie: è ok?',
+  folderScope: 'GRI',
+  exportedAt: new Date('2025-01-02T10:00:00Z'),
+  documents: new Map([
+    ['d1', { folder: 'GRI', restricted: false }],
+    ['d2', { folder: 'HR', restricted: true }],
+  ]),
+})
+
+describe('Conversation Export', () => {
+  describe('parseCitationGroup', () => {
+    it('should inherit the previous kind for unprefixed numbers', () => {
+      expect(parseCitationGroup('cit:1, 2, web:3')).toEqual([
+        { kind: 'kb', index: 1 },
+        { kind: 'kb', index: 2 },
+        { kind: 'web', index: 3 },
+      ])
+    })
+  })
+
+  describe('buildConversationTranscript', () => {
+    it('should number footnotes in citation order and reuse repeated sources', () => {
+      expect(transcript.footnotes.map((f) => [f.number, f.kind, f.label])).toEqual([
+        [1, 'kb', 'policy.pdf'],
+        [2, 'web', 'Sito'],
+        [3, 'kb', 'hr.pdf'],
+      ])
+    })
+
+    it('should include folder, location and collapsed excerpt for readable documents', () => {
+      expect(transcript.footnotes[0]).toMatchObject({
+        folder: 'GRI',
+        location: 'p. 3',
+        excerpt: 'Testo del chunk',
+      })
+    })
+
+    it('should omit folder and excerpt for documents in restricted folders', () => {
+      expect(transcript.footnotes[2].restricted).toBe(true)
+      expect(transcript.footnotes[2].folder).toBeUndefined()
+      expect(transcript.footnotes[2].excerpt).toBeUndefined()
+    })
+  })
+
+  describe('renderTranscriptMarkdown', () => {
+    const markdown = renderTranscriptMarkdown(transcript)
+
+    it('should replace citation markers with footnote references', () => {
+      expect(markdown).toContain('rimborsi [^1][^2].')
+      expect(markdown).not.toContain('[cit:')
+      expect(markdown).not.toContain('[web:')
+    })
+
+    it('should drop citations without a matching source', () => {
+      expect(markdown).toContain('- Fonte mancante\n')
+    })
+
+    it('should list footnotes at the end', () => {
+      expect(markdown).toContain('[^1]: policy.pdf, cartella GRI, p. 3 - "Testo del chunk"')
+      expect(markdown).toContain('[^2]: Sito - https://example.com - "estratto web"')
+      expect(markdown).toContain('[^3]: hr.pdf (documento in una cartella riservata, estratto non incluso)')
+    })
+  })
+
+  describe('transcriptFilename', () => {
+    it('should build an ASCII slug from the title', () => {
+      expect(transcriptFilename('Policy ferie: è ok?', 'pdf')).toBe('policy-ferie-e-ok.pdf')
+    })
+  })
+
+  describe('renderTranscriptPdf', () => {
+    it('should produce a complete PDF document', () => {
+      const pdf = renderTranscriptPdf(transcript).toString('latin1')
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    })
+  })
+})
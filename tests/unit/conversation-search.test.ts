@@ -0,0 +1,68 @@
+/**
+ * Unit Tests: Conversation Search
+ *
+ * Tests highlighted snippet parsing (full-text) and building (semantic mode)
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildHighlightedSnippet,
+  parseHighlightedSnippet,
+  stripCitationMarkers,
+} from '@/lib/supabase/conversation-search'
+
+describe('Conversation Search', () => {
+  describe('stripCitationMarkers', () => {
+    it('should remove KB, web and hybrid citation markers', () => {
+      expect(stripCitationMarkers('Il regolamento ESPR [cit:1, 2] si applica [web:3] [cit:1, web:2].')).toBe(
+        'Il regolamento ESPR si applica .'
+      )
+    })
+  })
+
+  describe('parseHighlightedSnippet', () => {
+    it('should split ts_headline output into highlighted segments', () => {
+      expect(parseHighlightedSnippet('Il regolamento [[hl]]ESPR[[/hl]] introduce il passaporto')).toEqual([
+        { text: 'Il regolamento ', highlight: false },
+        { text: 'ESPR', highlight: true },
+        { text: ' introduce il passaporto', highlight: false },
+      ])
+    })
+
+    it('should merge adjacent highlights and drop citation markers', () => {
+      expect(parseHighlightedSnippet('[[hl]]passaporto[[/hl]][[hl]] digitale[[/hl]] [cit:2]')).toEqual([
+        { text: 'passaporto digitale', highlight: true },
+      ])
+    })
+
+    it('should treat unbalanced delimiters as plain text', () => {
+      expect(parseHighlightedSnippet('testo [[hl]]senza chiusura')).toEqual([
+        { text: 'testo senza chiusura', highlight: false },
+      ])
+    })
+  })
+
+  describe('buildHighlightedSnippet', () => {
+    it('should highlight query terms case-insensitively, including inflections', () => {
+      const segments = buildHighlightedSnippet('Le scadenze ESPR per i prodotti tessili [cit:1]', 'espr prodott')
+
+      expect(segments.filter((s) => s.highlight).map((s) => s.text)).toEqual(['ESPR', 'prodotti'])
+      expect(segments.map((s) => s.text).join('')).toBe('Le scadenze ESPR per i prodotti tessili')
+    })
+
+    it('should center the window on the first match in long messages', () => {
+      const content = `${'premessa '.repeat(60)}il regolamento ESPR si applica ${'dettaglio '.repeat(60)}`
+      const text = buildHighlightedSnippet(content, 'ESPR', 120).map((s) => s.text).join('')
+
+      expect(text.startsWith('... ')).toBe(true)
+      expect(text.endsWith(' ...')).toBe(true)
+      expect(text).toContain('ESPR')
+    })
+
+    it('should start from the beginning when no term matches', () => {
+      const segments = buildHighlightedSnippet('Risposta sulla rendicontazione CSRD', 'sostenibilità')
+
+      expect(segments).toEqual([{ text: 'Risposta sulla rendicontazione CSRD', highlight: false }])
+    })
+  })
+})
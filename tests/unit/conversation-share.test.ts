@@ -0,0 +1,76 @@
+/**
+ * Unit Tests: Conversation Share Links
+ *
+ * Tests token generation, link expiry/revocation and redaction of restricted sources
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  generateShareToken,
+  isShareActive,
+  redactRestrictedSources,
+} from '@/lib/services/conversation-share-service'
+import type { Message, SourceDetail } from '@/types/chat'
+
+describe('Conversation Share Links', () => {
+  describe('generateShareToken', () => {
+    it('should generate unique URL-safe tokens', () => {
+      const first = generateShareToken()
+      const second = generateShareToken()
+
+      expect(first).toMatch(/^[A-Za-z0-9_-]{32}$/)
+      expect(first).not.toBe(second)
+    })
+  })
+
+  describe('isShareActive', () => {
+    const now = new Date('2025-06-01T12:00:00Z')
+
+    it('should keep links without expiry active', () => {
+      expect(isShareActive({ expires_at: null, revoked_at: null }, now)).toBe(true)
+    })
+
+    it('should expire links after expires_at', () => {
+      expect(isShareActive({ expires_at: '2025-06-02T00:00:00Z', revoked_at: null }, now)).toBe(true)
+      expect(isShareActive({ expires_at: '2025-06-01T11:59:59Z', revoked_at: null }, now)).toBe(false)
+    })
+
+    it('should deactivate revoked links', () => {
+      expect(isShareActive({ expires_at: null, revoked_at: '2025-05-30T08:00:00Z' }, now)).toBe(false)
+    })
+  })
+
+  describe('redactRestrictedSources', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'Domanda' },
+      {
+        role: 'assistant',
+        content: 'Risposta [cit:1, 2] [web:1]',
+        sources: [
+          { index: 1, type: 'kb', filename: 'policy.pdf', documentId: 'd1', content: 'testo aperto', chunkIndex: 3 },
+          { index: 2, type: 'kb', filename: 'hr.pdf', documentId: 'd2', content: 'testo riservato', chunkIndex: 5 },
+          { index: 1, type: 'web', filename: 'Sito', url: 'https://example.com', content: 'snippet' },
+        ] as SourceDetail[],
+      },
+    ]
+    const documents = new Map([
+      ['d1', { folder: 'GRI', restricted: false }],
+      ['d2', { folder: 'HR', restricted: true }],
+    ])
+
+    it('should remove excerpts of documents the viewer cannot read', () => {
+      const sources = redactRestrictedSources(messages, documents)[1].sources as SourceDetail[]
+
+      expect(sources[1].filename).toBe('hr.pdf')
+      expect(sources[1].content).toBeUndefined()
+      expect(sources[1].chunkIndex).toBeUndefined()
+    })
+
+    it('should keep readable and web sources unchanged', () => {
+      const sources = redactRestrictedSources(messages, documents)[1].sources as SourceDetail[]
+
+      expect(sources[0].content).toBe('testo aperto')
+      expect(sources[2].content).toBe('snippet')
+    })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests: Document Tag Parser
+ *
+ * Tests @document tag parsing, the autocomplete helpers used by the chat input
+ * and the filename filter used by the resolver
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  parseDocumentTags,
+  findActiveDocumentTag,
+  formatDocumentTag,
+} from '@/lib/utils/document-tag-parser'
+import { buildFilenameFilter } from '@/lib/supabase/document-tag-resolver'
+
+describe('Document Tag Parser', () => {
+  describe('parseDocumentTags', () => {
+    it('should extract unquoted and quoted tags', () => {
+      const parsed = parseDocumentTags('Confronta @GDPR-report con @"ESPR draft 2024.pdf" sui dati')
+
+      expect(parsed.tags.map(t => t.identifier)).toEqual(['GDPR-report', 'ESPR draft 2024.pdf'])
+      expect(parsed.cleanedQuery).toBe('Confronta con sui dati')
+    })
+
+    it('should return no tags for plain queries', () => {
+      const parsed = parseDocumentTags('Cosa dice il GDPR?')
+
+      expect(parsed.tags).toHaveLength(0)
+      expect(parsed.cleanedQuery).toBe('Cosa dice il GDPR?')
+    })
+  })
+
+  describe('findActiveDocumentTag', () => {
+    it('should detect a tag being typed at the caret', () => {
+      const text = 'Cosa dice @GDP'
+      expect(findActiveDocumentTag(text, text.length)).toEqual({
+        query: 'GDP',
+        startIndex: 10,
+        endIndex: 14,
+      })
+    })
+
+    it('should detect an open quoted tag with spaces', () => {
+      const text = '@"GDPR rep'
+      expect(findActiveDocumentTag(text, text.length)).toEqual({
+        query: 'GDPR rep',
+        startIndex: 0,
+        endIndex: 10,
+      })
+    })
+
+    it('should return an empty query right after @', () => {
+      const text = 'Riassumi @'
+      expect(findActiveDocumentTag(text, text.length)?.query).toBe('')
+    })
+
+    it('should ignore @ inside words (e.g. emails)', () => {
+      const text = 'scrivi a mario@example'
+      expect(findActiveDocumentTag(text, text.length)).toBeNull()
+    })
+
+    it('should ignore completed tags followed by a space', () => {
+      const text = '@GDPR-report cosa dice'
+      expect(findActiveDocumentTag(text, text.length)).toBeNull()
+    })
+  })
+
+  describe('formatDocumentTag', () => {
+    it('should leave simple filenames unquoted', () => {
+      expect(formatDocumentTag('GDPR-report')).toBe('@GDPR-report')
+    })
+
+    it('should quote filenames with spaces or extensions', () => {
+      expect(formatDocumentTag('GDPR report.pdf')).toBe('@"GDPR report.pdf"')
+    })
+
+    it('should produce tags that parseDocumentTags reads back', () => {
+      const tag = formatDocumentTag('ESPR draft 2024.pdf')
+      const parsed = parseDocumentTags(`${tag} cosa cambia?`)
+      expect(parsed.tags[0].identifier).toBe('ESPR draft 2024.pdf')
+    })
+  })
+
+  describe('buildFilenameFilter', () => {
+    it('should quote filenames with commas and parentheses', () => {
+      const parsed = parseDocumentTags('Riassumi @"Rossi, Bianchi (2023).pdf"')
+      const identifier = parsed.tags[0].identifier
+
+      expect(identifier).toBe('Rossi, Bianchi (2023).pdf')
+      expect(buildFilenameFilter([identifier])).toBe('filename.ilike."%Rossi, Bianchi (2023).pdf%"')
+    })
+
+    it('should escape ilike wildcards, backslashes and double quotes', () => {
+      expect(buildFilenameFilter(['100%_report', 'nota "v2"'])).toBe(
+        'filename.ilike."%100\\\\%\\\\_report%",filename.ilike."%nota \\"v2\\"%"'
+      )
+    })
+  })
+})
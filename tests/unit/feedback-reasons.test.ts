@@ -0,0 +1,29 @@
+/**
+ * Unit Tests: Feedback Reasons
+ *
+ * Tests validation of feedback ratings and reason categories
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { getFeedbackReasonLabel, isFeedbackRating, isFeedbackReason } from '@/lib/utils/feedback-reasons'
+
+describe('Feedback Reasons', () => {
+  it('should accept only up/down ratings', () => {
+    expect(isFeedbackRating('up')).toBe(true)
+    expect(isFeedbackRating('down')).toBe(true)
+    expect(isFeedbackRating('neutral')).toBe(false)
+    expect(isFeedbackRating(null)).toBe(false)
+  })
+
+  it('should accept only known reason categories', () => {
+    expect(isFeedbackReason('wrong_source')).toBe(true)
+    expect(isFeedbackReason('outdated')).toBe(true)
+    expect(isFeedbackReason('other')).toBe(false)
+    expect(isFeedbackReason(undefined)).toBe(false)
+  })
+
+  it('should return the label for a reason', () => {
+    expect(getFeedbackReasonLabel('hallucination')).toBe('Informazione inventata')
+    expect(getFeedbackReasonLabel(null)).toBeNull()
+  })
+})
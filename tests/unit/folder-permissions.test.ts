@@ -0,0 +1,78 @@
+/**
+ * Unit Tests: Folder Permissions
+ *
+ * Tests denied-folder filters, admin access to restricted folders and cache partitioning by ACL
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  ANONYMOUS_DOCUMENT_ACCESS,
+  buildDeniedFoldersFilter,
+  isFolderReadable,
+} from '@/lib/supabase/folder-permissions'
+import { buildCacheScopeKey } from '@/app/api/chat/handlers/cache-handler'
+import { hasPermission } from '@/lib/auth/roles'
+
+describe('Folder Permissions', () => {
+  describe('isFolderReadable', () => {
+    it('should allow documents without folder', () => {
+      expect(isFolderReadable(null, ['HR'])).toBe(true)
+      expect(isFolderReadable(undefined, ['HR'])).toBe(true)
+    })
+
+    it('should deny folders in the denied list', () => {
+      expect(isFolderReadable('HR', ['HR', 'Legale'])).toBe(false)
+    })
+
+    it('should allow folders outside the denied list', () => {
+      expect(isFolderReadable('GRI', ['HR'])).toBe(true)
+    })
+  })
+
+  describe('buildDeniedFoldersFilter', () => {
+    it('should return null without denied folders', () => {
+      expect(buildDeniedFoldersFilter([])).toBeNull()
+    })
+
+    it('should keep documents without folder and exclude denied folders', () => {
+      expect(buildDeniedFoldersFilter(['HR', 'Legale'])).toBe('folder.is.null,folder.not.in.("HR","Legale")')
+    })
+
+    it('should quote folder names with commas and quotes', () => {
+      expect(buildDeniedFoldersFilter(['Contratti, 2025', 'Nota "riservata"'])).toBe(
+        'folder.is.null,folder.not.in.("Contratti, 2025","Nota \\"riservata\\"")'
+      )
+    })
+  })
+
+  describe('document access', () => {
+    it('should default to open folders only', () => {
+      expect(ANONYMOUS_DOCUMENT_ACCESS).toEqual({ userId: null, unrestricted: false })
+    })
+
+    it('should let only admins read restricted folders', () => {
+      expect(hasPermission('admin', 'folders:read-restricted')).toBe(true)
+      expect(hasPermission('editor', 'folders:read-restricted')).toBe(false)
+      expect(hasPermission('reader', 'folders:read-restricted')).toBe(false)
+    })
+  })
+
+  describe('buildCacheScopeKey', () => {
+    it('should keep the unscoped key when no folder is denied', () => {
+      expect(buildCacheScopeKey({ deniedFolders: [] })).toBe('')
+    })
+
+    it('should partition the cache by denied folders', () => {
+      expect(buildCacheScopeKey({ deniedFolders: ['HR'] })).toBe('deny:HR')
+    })
+
+    it('should not depend on the order of denied folders', () => {
+      expect(buildCacheScopeKey({ folder: 'GRI', deniedFolders: ['Legale', 'HR'] })).toBe(
+        buildCacheScopeKey({ folder: 'GRI', deniedFolders: ['HR', 'Legale'] })
+      )
+      expect(buildCacheScopeKey({ folder: 'GRI', includeHistory: true, deniedFolders: ['HR'] })).toBe(
+        'folder:GRI|history|deny:HR'
+      )
+    })
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * Unit Tests: Ingestion Jobs
+ *
+ * Tests retry backoff and stage resumption for the background ingestion queue
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+jest.mock('@/lib/supabase/admin', () => ({ supabaseAdmin: {} }))
+
+import { computeRetryDelaySeconds, getNextStage, INGESTION_STAGES } from '@/lib/supabase/ingestion-jobs'
+
+describe('Ingestion Jobs', () => {
+  describe('computeRetryDelaySeconds', () => {
+    it('should back off exponentially from 30 seconds', () => {
+      expect(computeRetryDelaySeconds(1)).toBe(30)
+      expect(computeRetryDelaySeconds(2)).toBe(60)
+      expect(computeRetryDelaySeconds(3)).toBe(120)
+    })
+
+    it('should cap the delay at 15 minutes', () => {
+      expect(computeRetryDelaySeconds(20)).toBe(15 * 60)
+    })
+  })
+
+  describe('getNextStage', () => {
+    it('should start from extract for a new job', () => {
+      expect(getNextStage([])).toBe('extract')
+    })
+
+    it('should resume from the first stage not yet completed', () => {
+      expect(getNextStage(['extract', 'structure', 'chunk'])).toBe('embed')
+    })
+
+    it('should return null when all stages are completed', () => {
+      expect(getNextStage([...INGESTION_STAGES])).toBeNull()
+    })
+  })
+})
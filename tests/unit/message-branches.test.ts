@@ -0,0 +1,71 @@
+/**
+ * Unit Tests: Message Branches
+ *
+ * Tests active branch resolution, branch switching and sibling detection on the message tree
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { findLatestLeaf, getActiveBranch, getBranchPath } from '@/lib/utils/message-branches'
+
+// u1 -> a1 -> u2  -> a2
+//             u2b -> a2b   (u2 modificato: nuovo ramo)
+const nodes = [
+  { id: 'u1', parent_id: null, created_at: '2025-06-01T10:00:00Z' },
+  { id: 'a1', parent_id: 'u1', created_at: '2025-06-01T10:00:05Z' },
+  { id: 'u2', parent_id: 'a1', created_at: '2025-06-01T10:01:00Z' },
+  { id: 'a2', parent_id: 'u2', created_at: '2025-06-01T10:01:05Z' },
+  { id: 'u2b', parent_id: 'a1', created_at: '2025-06-01T10:05:00Z' },
+  { id: 'a2b', parent_id: 'u2b', created_at: '2025-06-01T10:05:05Z' },
+]
+
+describe('Message Branches', () => {
+  describe('getBranchPath', () => {
+    it('should follow parent pointers from the leaf to the root', () => {
+      expect(getBranchPath(nodes, 'a2').map((n) => n.id)).toEqual(['u1', 'a1', 'u2', 'a2'])
+      expect(getBranchPath(nodes, 'a2b').map((n) => n.id)).toEqual(['u1', 'a1', 'u2b', 'a2b'])
+    })
+
+    it('should fall back to the latest message without an active leaf', () => {
+      expect(getBranchPath(nodes, null).map((n) => n.id)).toEqual(['u1', 'a1', 'u2b', 'a2b'])
+      expect(getBranchPath(nodes, 'missing').map((n) => n.id)).toEqual(['u1', 'a1', 'u2b', 'a2b'])
+    })
+
+    it('should stop on parent cycles', () => {
+      const cyclic = [
+        { id: 'x', parent_id: 'y', created_at: '2025-06-01T10:00:00Z' },
+        { id: 'y', parent_id: 'x', created_at: '2025-06-01T10:00:01Z' },
+      ]
+      expect(getBranchPath(cyclic, 'y').map((n) => n.id)).toEqual(['x', 'y'])
+    })
+  })
+
+  describe('findLatestLeaf', () => {
+    it('should descend through the most recent children', () => {
+      expect(findLatestLeaf(nodes, 'u1')).toBe('a2b')
+      expect(findLatestLeaf(nodes, 'u2')).toBe('a2')
+    })
+
+    it('should return null for unknown messages', () => {
+      expect(findLatestLeaf(nodes, 'missing')).toBeNull()
+    })
+  })
+
+  describe('getActiveBranch', () => {
+    it('should list alternative branches in creation order only where they exist', () => {
+      const branch = getActiveBranch(nodes, 'a2')
+
+      expect(branch.map(({ node }) => node.id)).toEqual(['u1', 'a1', 'u2', 'a2'])
+      expect(branch[2].siblingIds).toEqual(['u2', 'u2b'])
+      expect(branch[0].siblingIds).toBeUndefined()
+      expect(branch[3].siblingIds).toBeUndefined()
+    })
+
+    it('should list edited root messages as siblings', () => {
+      const withRootEdit = [...nodes, { id: 'u1b', parent_id: null, created_at: '2025-06-01T11:00:00Z' }]
+
+      expect(getActiveBranch(withRootEdit, 'u1b')).toEqual([
+        { node: withRootEdit[6], siblingIds: ['u1', 'u1b'] },
+      ])
+    })
+  })
+})
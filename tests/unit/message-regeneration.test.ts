@@ -0,0 +1,66 @@
+/**
+ * Unit Tests: Message Regeneration
+ *
+ * Tests the selectable models and the replay of the original LLM input for "regenerate with…"
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { DEFAULT_PRO_MODEL, getModelLabel, isRegenerationModel } from '@/lib/llm/models'
+import { buildReplayMessages, type GenerationContextSnapshot } from '@/lib/services/regeneration-service'
+
+const baseSnapshot: GenerationContextSnapshot = {
+  llmMessages: [
+    { role: 'system', content: 'CONTESTO:\n[cit:1] policy.pdf' },
+    { role: 'user', content: 'Domanda precedente' },
+    { role: 'assistant', content: 'Risposta precedente' },
+    { role: 'user', content: 'Quali sono gli obblighi ESPR?' },
+  ],
+  citationContext: {
+    sources: [{ index: 1, filename: 'policy.pdf', documentId: 'd1' }],
+    analysis: { isMeta: false, metaType: null },
+  },
+}
+
+describe('Message Regeneration', () => {
+  describe('isRegenerationModel', () => {
+    it('should accept listed models with or without the OpenRouter prefix', () => {
+      expect(isRegenerationModel(DEFAULT_PRO_MODEL)).toBe(true)
+      expect(isRegenerationModel('google/gemini-2.5-pro')).toBe(true)
+    })
+
+    it('should reject unknown or invalid models', () => {
+      expect(isRegenerationModel('openrouter/some/expensive-model')).toBe(false)
+      expect(isRegenerationModel('')).toBe(false)
+      expect(isRegenerationModel(42)).toBe(false)
+    })
+  })
+
+  describe('getModelLabel', () => {
+    it('should label known models and strip the prefix of unknown ones', () => {
+      expect(getModelLabel('openrouter/google/gemini-2.5-flash')).toBe('Gemini 2.5 Flash')
+      expect(getModelLabel('openrouter/mistralai/mistral-large')).toBe('mistralai/mistral-large')
+    })
+  })
+
+  describe('buildReplayMessages', () => {
+    it('should replay the original input unchanged when no tools were used', () => {
+      expect(buildReplayMessages(baseSnapshot)).toBe(baseSnapshot.llmMessages)
+    })
+
+    it('should append web results and listed documents to the system prompt', () => {
+      const replay = buildReplayMessages({
+        ...baseSnapshot,
+        citationContext: {
+          ...baseSnapshot.citationContext,
+          webSearchResults: [{ index: 1, title: 'Commissione UE', url: 'https://ec.europa.eu', content: 'ESPR in vigore' }],
+          metaQueryDocuments: [{ id: 'd2', filename: 'report.pdf', index: 2, folder: 'GRI' }],
+        },
+      })
+
+      expect(replay).toHaveLength(4)
+      expect(replay[0].content).toContain('[web:1] Commissione UE (https://ec.europa.eu)\nESPR in vigore')
+      expect(replay[0].content).toContain('[cit:2] report.pdf (cartella: GRI)')
+      expect(replay.slice(1)).toEqual(baseSnapshot.llmMessages.slice(1))
+    })
+  })
+})
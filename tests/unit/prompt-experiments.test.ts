@@ -0,0 +1,62 @@
+/**
+ * Unit Tests: Prompt Experiments
+ *
+ * Tests the PROMPT_EXPERIMENTS parsing and the sticky traffic split between prompt variants
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { assignPromptVariant, parsePromptExperiments, type PromptExperiment } from '@/lib/observability/prompt-experiments'
+
+const experiment: PromptExperiment = {
+  prompt: 'system-rag-with-context',
+  control: { label: 'production' },
+  candidate: { version: 7 },
+  candidateTraffic: 0.3,
+}
+
+describe('Prompt Experiments', () => {
+  describe('parsePromptExperiments', () => {
+    it('should parse valid experiments and skip invalid or duplicate entries', () => {
+      const experiments = parsePromptExperiments(JSON.stringify([
+        experiment,
+        { prompt: 'system-rag-comparative', control: { label: 'production' }, candidate: {}, candidateTraffic: 0.5 },
+        { prompt: 'system-meta-query', control: { label: 'a' }, candidate: { label: 'b' }, candidateTraffic: 2 },
+        { ...experiment, candidateTraffic: 0.9 },
+      ]))
+
+      expect(experiments).toEqual([experiment])
+    })
+
+    it('should return no experiments for empty or malformed configuration', () => {
+      expect(parsePromptExperiments(undefined)).toEqual([])
+      expect(parsePromptExperiments('not json')).toEqual([])
+      expect(parsePromptExperiments('{"prompt":"x"}')).toEqual([])
+    })
+  })
+
+  describe('assignPromptVariant', () => {
+    it('should return null for prompts without an experiment', () => {
+      expect(assignPromptVariant('system-meta-query', 'conv-1', [experiment])).toBeNull()
+    })
+
+    it('should assign the same variant to the same key', () => {
+      const first = assignPromptVariant(experiment.prompt, 'conv-1', [experiment])
+      const second = assignPromptVariant(experiment.prompt, 'conv-1', [experiment])
+
+      expect(second).toEqual(first)
+      expect(first?.target).toEqual(first?.variant === 'candidate' ? experiment.candidate : experiment.control)
+    })
+
+    it('should split traffic according to candidateTraffic', () => {
+      const keys = Array.from({ length: 2000 }, (_, i) => `conv-${i}`)
+      const candidates = keys.filter(
+        (key) => assignPromptVariant(experiment.prompt, key, [experiment])?.variant === 'candidate'
+      ).length
+
+      expect(candidates / keys.length).toBeGreaterThan(0.25)
+      expect(candidates / keys.length).toBeLessThan(0.35)
+      expect(assignPromptVariant(experiment.prompt, 'conv-1', [{ ...experiment, candidateTraffic: 0 }])?.variant).toBe('control')
+      expect(assignPromptVariant(experiment.prompt, 'conv-1', [{ ...experiment, candidateTraffic: 1 }])?.variant).toBe('candidate')
+    })
+  })
+})
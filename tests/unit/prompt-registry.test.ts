@@ -0,0 +1,83 @@
+/**
+ * Unit Tests: Local Prompt Registry
+ *
+ * Tests the prompts/ registry entries, the {{variable}} template compilation
+ * and the offline mode (PROMPT_SOURCE=local) of the prompt manager
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { compilePromptWithConfig, PROMPTS } from '@/lib/observability/prompt-manager'
+import {
+  compilePromptTemplate,
+  extractPromptVariables,
+  getLocalPrompt,
+  listLocalPrompts,
+  serializeLocalPrompt,
+  toLocalPrompt,
+  validateLocalPrompt,
+} from '@/lib/observability/prompt-registry'
+
+describe('Prompt Registry', () => {
+  describe('registry entries', () => {
+    it('should have a valid entry for every prompt in PROMPTS', () => {
+      for (const name of Object.values(PROMPTS)) {
+        const prompt = getLocalPrompt(name)
+
+        expect(prompt?.name).toBe(name)
+        expect(validateLocalPrompt(prompt!)).toEqual([])
+      }
+      expect(listLocalPrompts()).toHaveLength(Object.values(PROMPTS).length)
+    })
+
+    it('should report undeclared and unused variables', () => {
+      const prompt = { ...toLocalPrompt('test', 'Query: {{query}} {{intent}}', {}, []), variables: ['query', 'context'] }
+
+      expect(validateLocalPrompt(prompt)).toEqual([
+        'undeclared variables: intent',
+        'declared but unused variables: context',
+      ])
+    })
+
+    it('should round-trip an entry through serialization', () => {
+      const prompt = toLocalPrompt('test', 'Riga 1\n{{query}}\n', { model: 'x' }, ['production'])
+
+      expect(prompt.prompt).toEqual(['Riga 1', '{{query}}', ''])
+      expect(JSON.parse(serializeLocalPrompt(prompt))).toEqual(prompt)
+    })
+  })
+
+  describe('compilePromptTemplate', () => {
+    it('should replace variables without escaping and blank the missing ones', () => {
+      const text = 'Query: "{{query}}" ({{ count }}) {{missing}}fine'
+
+      expect(compilePromptTemplate(text, { query: 'a < b & "c"', count: 3 })).toBe('Query: "a < b & "c"" (3) fine')
+      expect(extractPromptVariables(text)).toEqual(['query', 'count', 'missing'])
+    })
+  })
+
+  describe('offline mode', () => {
+    it('should compile prompts from the registry without Langfuse', async () => {
+      const previous = process.env.PROMPT_SOURCE
+      process.env.PROMPT_SOURCE = 'local'
+
+      try {
+        const result = await compilePromptWithConfig(
+          PROMPTS.SYSTEM_RAG_WITH_CONTEXT,
+          { context: 'CONTESTO_TEST' },
+          { assignmentKey: 'conv-1' }
+        )
+
+        expect(result.text).toContain('CONTESTO_TEST')
+        expect(result.version).toBeNull()
+        expect(result.variant).toBeNull()
+        expect(result.config).toEqual(getLocalPrompt(PROMPTS.SYSTEM_RAG_WITH_CONTEXT)!.config)
+      } finally {
+        if (previous === undefined) {
+          delete process.env.PROMPT_SOURCE
+        } else {
+          process.env.PROMPT_SOURCE = previous
+        }
+      }
+    })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Unit Tests: Reranking Stage
+ *
+ * Tests lexical scoring, listwise ranking parsing and the fallback
+ * from a failing reranker to the lexical one
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import type { SearchResult } from '@/lib/supabase/database.types'
+
+jest.mock('@/lib/observability/prompt-manager', () => ({
+  PROMPTS: { RERANK: 'rerank' },
+  compilePrompt: async (_name: string, _vars: unknown, options: { fallback: string }) => options.fallback,
+}))
+
+import { rerankResults } from '@/lib/reranking/reranker'
+import { lexicalReranker } from '@/lib/reranking/lexical-reranker'
+import { rankingToScores } from '@/lib/reranking/llm-reranker'
+import type { Reranker } from '@/lib/reranking/types'
+
+function result(id: string, content: string, similarity: number): SearchResult {
+  return {
+    id,
+    document_id: `doc-${id}`,
+    content,
+    chunk_index: 0,
+    created_at: '2024-01-01T00:00:00Z',
+    similarity,
+    document_filename: `${id}.pdf`,
+  }
+}
+
+const candidates = [
+  result('a', 'Il regolamento interno disciplina gli orari di apertura degli uffici.', 0.62),
+  result('b', 'Le ferie dei dipendenti vanno richieste con almeno trenta giorni di anticipo.', 0.58),
+  result('c', 'Procedura di richiesta ferie: il dipendente compila il modulo ferie nel portale.', 0.55),
+]
+
+describe('Reranking Stage', () => {
+  describe('lexicalReranker', () => {
+    it('should promote chunks covering the query terms', async () => {
+      const outcome = await rerankResults('come richiedere le ferie', candidates, { reranker: lexicalReranker })
+
+      expect(outcome.reranker).toBe('lexical')
+      expect(outcome.results[0].id).not.toBe('a')
+      expect(outcome.results.every((r) => typeof r.rerank_score === 'number')).toBe(true)
+    })
+  })
+
+  describe('rankingToScores', () => {
+    it('should append candidates omitted by the model in original order', () => {
+      const scores = rankingToScores([3], candidates)
+
+      expect(scores.map((s) => s.id)).toEqual(['c', 'a', 'b'])
+      expect(scores[0].score).toBe(1)
+      expect(scores[2].score).toBe(0)
+    })
+
+    it('should reject an invalid ranking', () => {
+      expect(() => rankingToScores([0, 7, 'x'], candidates)).toThrow()
+    })
+  })
+
+  describe('rerankResults', () => {
+    it('should fall back to the lexical reranker when the primary fails', async () => {
+      const failing: Reranker = {
+        name: 'llm',
+        score: async () => {
+          throw new Error('timeout')
+        },
+      }
+
+      const outcome = await rerankResults('richiesta ferie', candidates, { reranker: failing })
+
+      expect(outcome.reranker).toBe('lexical')
+      expect(outcome.fallbackUsed).toBe(true)
+      expect(outcome.error).toBe('timeout')
+      expect(outcome.results).toHaveLength(candidates.length)
+    })
+
+    it('should only reorder the top N candidates', async () => {
+      const reverse: Reranker = {
+        name: 'llm',
+        score: async (_query, items) => items.map((item, i) => ({ id: item.id, score: i })),
+      }
+
+      const outcome = await rerankResults('ferie', candidates, { reranker: reverse, topN: 2 })
+
+      expect(outcome.results.map((r) => r.id)).toEqual(['b', 'a', 'c'])
+      expect(outcome.scores.map((s) => s.originalRank)).toEqual([1, 0])
+    })
+
+    it('should leave results untouched when reranking is disabled', async () => {
+      const outcome = await rerankResults('ferie', candidates, { reranker: null })
+
+      expect(outcome.reranker).toBeNull()
+      expect(outcome.results).toBe(candidates)
+    })
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Unit Tests: Retrieval Evaluation
+ *
+ * Tests ranking metrics, aggregation, report comparison and golden set parsing
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  aggregateMetrics,
+  compareAggregates,
+  computeQuestionMetrics,
+  ndcgAtK,
+  rankDocuments,
+  recallAtK,
+  reciprocalRank,
+} from '@/lib/evaluation/retrieval-metrics'
+import { parseGoldenSet } from '@/lib/evaluation/golden-set'
+
+describe('Retrieval Evaluation', () => {
+  describe('metrics', () => {
+    const ranked = ['d1', 'd2', 'd3', 'd4']
+
+    it('should deduplicate chunk document ids keeping first occurrence', () => {
+      expect(rankDocuments(['d2', 'd1', 'd2', 'd3', 'd1'])).toEqual(['d2', 'd1', 'd3'])
+    })
+
+    it('should compute recall at k', () => {
+      expect(recallAtK(ranked, ['d2', 'd4'], 1)).toBe(0)
+      expect(recallAtK(ranked, ['d2', 'd4'], 2)).toBe(0.5)
+      expect(recallAtK(ranked, ['d2', 'd4'], 4)).toBe(1)
+    })
+
+    it('should compute reciprocal rank of the first relevant document', () => {
+      expect(reciprocalRank(ranked, ['d3', 'd4'])).toBeCloseTo(1 / 3)
+      expect(reciprocalRank(ranked, ['missing'])).toBe(0)
+    })
+
+    it('should compute nDCG with binary relevance', () => {
+      expect(ndcgAtK(ranked, ['d1'], 5)).toBe(1)
+      expect(ndcgAtK(ranked, ['d2'], 5)).toBeCloseTo(1 / Math.log2(3))
+      expect(ndcgAtK(ranked, ['d2'], 1)).toBe(0)
+    })
+
+    it('should only average article hits over questions with expected articles', () => {
+      const withArticle = computeQuestionMetrics(ranked, ['d1'], [1], [false, true])
+      const withoutArticle = computeQuestionMetrics(ranked, ['d1'], [1])
+
+      const aggregate = aggregateMetrics([withArticle, withoutArticle], [1])
+
+      expect(aggregate.questions).toBe(2)
+      expect(aggregate.recall[1]).toBe(1)
+      expect(aggregate.articleHit).toEqual({ 1: 0 })
+    })
+  })
+
+  describe('compareAggregates', () => {
+    it('should report deltas for shared groups and metrics', () => {
+      const before = aggregateMetrics([computeQuestionMetrics(['d2', 'd1'], ['d1'], [1])], [1])
+      const after = aggregateMetrics([computeQuestionMetrics(['d1', 'd2'], ['d1'], [1])], [1])
+
+      const deltas = compareAggregates({ overall: before }, { overall: after, 'intent:new': after })
+
+      expect(deltas.every((d) => d.group === 'overall')).toBe(true)
+      expect(deltas.find((d) => d.metric === 'mrr')).toMatchObject({ previous: 0.5, current: 1, delta: 0.5 })
+    })
+  })
+
+  describe('parseGoldenSet', () => {
+    it('should parse questions skipping comments and blank lines', () => {
+      const questions = parseGoldenSet([
+        '// commento',
+        '',
+        '{"id": "q1", "question": "Cosa prevede l\'articolo 28?", "expectedDocumentIds": ["d1"], "expectedArticles": [28]}',
+      ].join('\n'))
+
+      expect(questions).toHaveLength(1)
+      expect(questions[0].expectedArticles).toEqual([28])
+    })
+
+    it('should reject duplicate ids with the line number', () => {
+      const line = '{"id": "q1", "question": "Domanda", "expectedDocumentIds": ["d1"]}'
+
+      expect(() => parseGoldenSet(`${line}\n${line}`)).toThrow('Line 2: duplicate id "q1"')
+    })
+
+    it('should require expected documents', () => {
+      expect(() => parseGoldenSet('{"id": "q1", "question": "Domanda", "expectedDocumentIds": []}')).toThrow('expectedDocumentIds')
+    })
+  })
+})
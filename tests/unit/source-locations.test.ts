@@ -0,0 +1,99 @@
+/**
+ * Unit Tests: Source Locations
+ *
+ * Tests sheet/row and slide metadata derived from spreadsheet and presentation chunks
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { annotateSourceLocations, formatLocationLabel } from '@/lib/processing/source-locations'
+import type { AdaptiveChunk } from '@/lib/processing/adaptive-chunking'
+
+function chunk(chunkIndex: number, content: string, sectionTitle?: string): AdaptiveChunk {
+  return {
+    content,
+    chunkIndex,
+    metadata: {
+      tokenCount: 0,
+      sentenceCount: 1,
+      charStart: 0,
+      charEnd: content.length,
+      contentType: 'table',
+      hasOverlap: false,
+      sectionTitle,
+    },
+  }
+}
+
+describe('Source Locations', () => {
+  describe('spreadsheet', () => {
+    it('should record sheet and row range from row markers', () => {
+      const [located] = annotateSourceLocations(
+        [chunk(0, '## Sheet 2: Costi | # | Voce | | --- | --- | | #14 | Affitto | | #15 | Utenze |')],
+        'spreadsheet'
+      )
+
+      expect(located.metadata).toMatchObject({
+        sheetIndex: 2,
+        sheetName: 'Costi',
+        rowStart: 14,
+        rowEnd: 15,
+        locationLabel: 'Sheet 2 (Costi), rows 14-15',
+      })
+    })
+
+    it('should inherit the sheet when a chunk starts mid-table', () => {
+      const located = annotateSourceLocations(
+        [
+          chunk(0, '| # | Voce | | --- | --- | | #2 | Affitto |', 'Sheet 1: Budget'),
+          chunk(1, '| #3 | Utenze |'),
+        ],
+        'spreadsheet'
+      )
+
+      expect(located[1].metadata.locationLabel).toBe('Sheet 1 (Budget), row 3')
+    })
+  })
+
+  describe('presentation', () => {
+    it('should use the slide heading of the section', () => {
+      const [located] = annotateSourceLocations(
+        [chunk(0, '- Ricavi in crescita', 'Slide 7: Risultati')],
+        'presentation'
+      )
+
+      expect(located.metadata.slideNumber).toBe(7)
+      expect(located.metadata.locationLabel).toBe('Slide 7')
+    })
+
+    it('should span slides when a chunk covers more than one', () => {
+      const located = annotateSourceLocations(
+        [
+          chunk(0, '## Slide 3: Agenda - Punto uno'),
+          chunk(1, '- Punto due ## Slide 4: Budget - Voce'),
+        ],
+        'presentation'
+      )
+
+      expect(located[1].metadata.locationLabel).toBe('Slides 3-4')
+    })
+
+    it('should ignore slide mentions in body text', () => {
+      const [located] = annotateSourceLocations(
+        [chunk(0, 'Come visto in Slide 9, i costi calano', 'Slide 2: Costi')],
+        'presentation'
+      )
+
+      expect(located.metadata.slideNumber).toBe(2)
+      expect(located.metadata.slideEnd).toBeUndefined()
+    })
+  })
+
+  it('should leave chunks of other sources untouched', () => {
+    const chunks = [chunk(0, '## Slide 1 | #4 |')]
+    expect(annotateSourceLocations(chunks, 'html')).toBe(chunks)
+  })
+
+  it('should format a single-row location', () => {
+    expect(formatLocationLabel({ sheetIndex: 2, rowStart: 14, rowEnd: 14 })).toBe('Sheet 2, row 14')
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests: Table-Aware Chunking
+ *
+ * Tests markdown table detection and row-group splitting with repeated headers
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { splitTableBlocks, splitTableByRows } from '@/lib/processing/table-chunking'
+import { adaptiveChunking } from '@/lib/processing/adaptive-chunking'
+
+const table = [
+  '| Voce | Importo |',
+  '| --- | ---: |',
+  '| Affitto | 1200 |',
+  '| Utenze | 300 |',
+].join('\n')
+
+describe('Table-Aware Chunking', () => {
+  describe('splitTableBlocks', () => {
+    it('should separate tables from surrounding text', () => {
+      const blocks = splitTableBlocks(`Testo iniziale.\n\n${table}\n\nTesto finale.`)
+
+      expect(blocks.map((b) => b.type)).toEqual(['text', 'table', 'text'])
+      expect(blocks[1].content).toBe(table)
+    })
+
+    it('should use a heading right before the table as caption', () => {
+      const blocks = splitTableBlocks(`## Costi 2024\n\n${table}`)
+
+      expect(blocks).toHaveLength(1)
+      expect(blocks[0].caption).toBe('## Costi 2024')
+    })
+
+    it('should not treat pipes in prose as a table', () => {
+      const blocks = splitTableBlocks('Scegli A | B oppure C | D.\nNessuna tabella qui.')
+
+      expect(blocks).toHaveLength(1)
+      expect(blocks[0].type).toBe('text')
+    })
+
+    it('should require a pipe in the separator row', () => {
+      const blocks = splitTableBlocks('Titolo | con pipe\n---\nTesto')
+
+      expect(blocks.every((b) => b.type === 'text')).toBe(true)
+    })
+  })
+
+  describe('splitTableByRows', () => {
+    it('should keep a small table in a single chunk', async () => {
+      const groups = await splitTableByRows(table, 450)
+
+      expect(groups).toEqual([table])
+    })
+
+    it('should split large tables by rows repeating the header', async () => {
+      const rows = Array.from({ length: 60 }, (_, i) => `| Voce ${i} con descrizione | ${i * 10} |`)
+      const largeTable = ['| Voce | Importo |', '| --- | --- |', ...rows].join('\n')
+
+      const groups = await splitTableByRows(largeTable, 100, '## Costi')
+
+      expect(groups.length).toBeGreaterThan(1)
+      for (const group of groups) {
+        expect(group.startsWith('## Costi\n\n| Voce | Importo |\n| --- | --- |\n')).toBe(true)
+      }
+      // Nessuna riga persa o duplicata
+      const dataRows = groups.flatMap((g) => g.split('\n').slice(4))
+      expect(dataRows).toEqual(rows)
+    })
+  })
+
+  describe('adaptiveChunking', () => {
+    it('should keep tables of article-structured documents as atomic table chunks', async () => {
+      const text = `Articolo 1\nLe spese ammesse sono elencate nella tabella.\n\n${table}\n\nArticolo 2\nIl rimborso avviene entro 30 giorni.`
+      const secondArticle = text.indexOf('Articolo 2')
+      const chunks = await adaptiveChunking(text, {
+        type: 'regulatory',
+        confidence: 0.9,
+        patterns: {
+          articles: [
+            { number: 1, text: 'Articolo 1', start: 0, end: secondArticle },
+            { number: 2, text: 'Articolo 2', start: secondArticle, end: text.length },
+          ],
+        },
+      })
+
+      const tableChunk = chunks.find((c) => c.metadata.contentType === 'table')
+      expect(tableChunk?.content).toBe(table)
+      expect(tableChunk?.metadata.articleNumber).toBe(1)
+      expect(chunks.filter((c) => c.metadata.articleNumber === 1).every((c) => c.metadata.articleType === 'partial')).toBe(true)
+      expect(chunks.find((c) => c.metadata.articleNumber === 2)?.metadata.articleType).toBe('complete')
+    })
+  })
+})
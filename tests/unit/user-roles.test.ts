@@ -0,0 +1,76 @@
+/**
+ * Unit Tests: User Roles
+ *
+ * Tests role permissions, route rules and role resolution
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals'
+import { getRequiredPermission, hasPermission, resolveUserRole } from '@/lib/auth/roles'
+
+describe('User Roles', () => {
+  describe('hasPermission', () => {
+    it('should grant document writes to editors and admins only', () => {
+      expect(hasPermission('admin', 'documents:write')).toBe(true)
+      expect(hasPermission('editor', 'documents:write')).toBe(true)
+      expect(hasPermission('reader', 'documents:write')).toBe(false)
+    })
+
+    it('should reserve settings and diagnostics to admins', () => {
+      expect(hasPermission('editor', 'settings:manage')).toBe(false)
+      expect(hasPermission('editor', 'diagnostics:access')).toBe(false)
+      expect(hasPermission('admin', 'users:manage')).toBe(true)
+    })
+
+    it('should deny everything without a role', () => {
+      expect(hasPermission(null, 'documents:write')).toBe(false)
+    })
+  })
+
+  describe('getRequiredPermission', () => {
+    it('should protect document writes but not reads', () => {
+      expect(getRequiredPermission('/api/documents/batch', 'PATCH')).toBe('documents:write')
+      expect(getRequiredPermission('/api/documents/abc', 'DELETE')).toBe('documents:write')
+      expect(getRequiredPermission('/api/documents/abc', 'GET')).toBeNull()
+      expect(getRequiredPermission('/api/upload/process', 'POST')).toBe('documents:write')
+    })
+
+    it('should keep settings reads public', () => {
+      expect(getRequiredPermission('/api/settings', 'GET')).toBeNull()
+      expect(getRequiredPermission('/api/settings/logo', 'POST')).toBe('settings:manage')
+    })
+
+    it('should protect diagnostics and test routes', () => {
+      expect(getRequiredPermission('/api/diagnostics/search', 'POST')).toBe('diagnostics:access')
+      expect(getRequiredPermission('/api/test/all', 'GET')).toBe('diagnostics:access')
+      expect(getRequiredPermission('/test', 'GET')).toBe('diagnostics:access')
+    })
+
+    it('should match whole path segments only', () => {
+      expect(getRequiredPermission('/testing', 'GET')).toBeNull()
+      expect(getRequiredPermission('/api/ingestion/worker', 'POST')).toBeNull()
+      expect(getRequiredPermission('/chat', 'GET')).toBeNull()
+    })
+  })
+
+  describe('resolveUserRole', () => {
+    const originalAdmins = process.env.ADMIN_EMAILS
+
+    afterEach(() => {
+      process.env.ADMIN_EMAILS = originalAdmins
+    })
+
+    it('should use the profile role', () => {
+      expect(resolveUserRole('editor', 'editor@example.com')).toBe('editor')
+    })
+
+    it('should fall back to reader for missing or unknown roles', () => {
+      expect(resolveUserRole(undefined, 'user@example.com')).toBe('reader')
+      expect(resolveUserRole('superuser', 'user@example.com')).toBe('reader')
+    })
+
+    it('should treat ADMIN_EMAILS as admins', () => {
+      process.env.ADMIN_EMAILS = 'Boss@example.com, other@example.com'
+      expect(resolveUserRole('reader', 'boss@example.com')).toBe('admin')
+    })
+  })
+})
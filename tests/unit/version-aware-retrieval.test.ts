@@ -0,0 +1,68 @@
+/**
+ * Unit Tests: Version-Aware Retrieval
+ *
+ * Tests labels for superseded document versions and cache partitioning by history mode
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildContext, getVersionLabel } from '@/app/api/chat/services/context-builder'
+import { buildCacheScopeKey } from '@/app/api/chat/handlers/cache-handler'
+import type { SearchResult } from '@/lib/supabase/database.types'
+
+function result(overrides: Partial<SearchResult> = {}): SearchResult {
+  return {
+    id: 'chunk-1',
+    document_id: 'doc-1',
+    content: 'Il canone è di 1.200 euro',
+    chunk_index: 0,
+    created_at: '2025-01-01T00:00:00Z',
+    similarity: 0.8,
+    document_filename: 'contratto.pdf',
+    ...overrides,
+  }
+}
+
+describe('Version-Aware Retrieval', () => {
+  describe('getVersionLabel', () => {
+    it('should not label latest versions', () => {
+      expect(getVersionLabel(result({ document_version: 3, is_latest_version: true }))).toBeUndefined()
+    })
+
+    it('should not label results without version info', () => {
+      expect(getVersionLabel(result())).toBeUndefined()
+    })
+
+    it('should label superseded versions with their number', () => {
+      expect(getVersionLabel(result({ document_version: 2, is_latest_version: false }))).toBe(
+        'VERSIONE PRECEDENTE (v2, superata da una versione più recente)'
+      )
+    })
+  })
+
+  describe('buildContext', () => {
+    it('should add the version label to the document header', () => {
+      const context = buildContext([
+        result({ document_version: 1, is_latest_version: false }),
+        result({ id: 'chunk-2', document_id: 'doc-2', document_version: 2, is_latest_version: true }),
+      ])
+
+      expect(context).toContain(
+        '[Documento 1: contratto.pdf — VERSIONE PRECEDENTE (v1, superata da una versione più recente)]'
+      )
+      expect(context).toContain('[Documento 2: contratto.pdf]')
+    })
+  })
+
+  describe('buildCacheScopeKey', () => {
+    it('should keep the empty key for the default scope', () => {
+      expect(buildCacheScopeKey()).toBe('')
+      expect(buildCacheScopeKey({ folder: null, includeHistory: false })).toBe('')
+    })
+
+    it('should partition history answers from latest-only answers', () => {
+      expect(buildCacheScopeKey({ includeHistory: true })).toBe('history')
+      expect(buildCacheScopeKey({ folder: 'Contratti', includeHistory: true })).toBe('folder:Contratti|history')
+      expect(buildCacheScopeKey({ folder: 'Contratti' })).toBe('folder:Contratti')
+    })
+  })
+})
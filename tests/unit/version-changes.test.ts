@@ -0,0 +1,61 @@
+/**
+ * Unit Tests: Version Changes
+ *
+ * Tests detection of "what changed" queries and selection of the changed sections
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { detectVersionChangeQuery } from '@/lib/embeddings/query-analysis'
+import { selectChangedSections } from '@/app/api/chat/services/version-change-service'
+import type { SectionDiff } from '@/lib/processing/version-diff'
+
+function section(key: string, change: SectionDiff['change'], content: string): SectionDiff {
+  return {
+    key,
+    title: key,
+    change,
+    oldContent: change === 'added' ? undefined : content,
+    newContent: change === 'removed' ? undefined : content,
+    lines: [],
+  }
+}
+
+describe('Version Changes', () => {
+  describe('detectVersionChangeQuery', () => {
+    it('should detect questions about changes between versions', () => {
+      expect(detectVersionChangeQuery('Cosa è cambiato nel regolamento?')).toBe(true)
+      expect(detectVersionChangeQuery('Quali sono le novità della nuova versione?')).toBe(true)
+      expect(detectVersionChangeQuery('What changed in the policy?')).toBe(true)
+    })
+
+    it('should not detect ordinary questions', () => {
+      expect(detectVersionChangeQuery('Cosa dice l\'articolo 5?')).toBe(false)
+      expect(detectVersionChangeQuery('Quali sono i costi del progetto?')).toBe(false)
+    })
+  })
+
+  describe('selectChangedSections', () => {
+    const sections = [
+      section('preamble', 'unchanged', 'Regolamento'),
+      section('art:1', 'modified', 'Orario di lavoro'),
+      section('art:2', 'unchanged', 'Definizioni'),
+      section('art:3', 'removed', 'Ferie e permessi'),
+      section('art:4', 'added', 'Lavoro agile'),
+    ]
+
+    it('should drop unchanged sections', () => {
+      expect(selectChangedSections(sections, 'cosa è cambiato?').map((s) => s.key))
+        .toEqual(['art:1', 'art:3', 'art:4'])
+    })
+
+    it('should keep only the requested article', () => {
+      expect(selectChangedSections(sections, 'cosa è cambiato?', 3).map((s) => s.key))
+        .toEqual(['art:3'])
+    })
+
+    it('should keep the sections matching the query in document order', () => {
+      expect(selectChangedSections(sections, 'cosa è cambiato su ferie e modalità agile?', undefined, 2).map((s) => s.key))
+        .toEqual(['art:3', 'art:4'])
+    })
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests: Version Diff
+ *
+ * Tests structural alignment of two document versions and the text fallback
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { diffDocumentVersions, diffLines } from '@/lib/processing/version-diff'
+
+const OLD_REGULATION = [
+  'Regolamento interno',
+  '',
+  'Articolo 1',
+  'Ambito di applicazione.',
+  'Vale per tutti.',
+  '',
+  'Articolo 2',
+  'Definizioni.',
+  '',
+  'Articolo 3',
+  'Norma abrogata.',
+].join('\n')
+
+const NEW_REGULATION = [
+  'Regolamento interno',
+  '',
+  'Articolo 1',
+  'Ambito di applicazione.',
+  'Vale per tutti i dipendenti.',
+  '',
+  'Articolo 2',
+  'Definizioni.',
+  '',
+  'Articolo 4',
+  'Nuova norma.',
+].join('\n')
+
+describe('Version Diff', () => {
+  describe('diffLines', () => {
+    it('should mark removed and added lines around common ones', () => {
+      expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+        { type: 'equal', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'equal', text: 'c' },
+        { type: 'added', text: 'd' },
+      ])
+    })
+  })
+
+  describe('diffDocumentVersions', () => {
+    it('should align articles by number', () => {
+      const diff = diffDocumentVersions(OLD_REGULATION, NEW_REGULATION)
+
+      expect(diff.strategy).toBe('articles')
+      expect(diff.sections.map((s) => [s.key, s.change])).toEqual([
+        ['preamble', 'unchanged'],
+        ['art:1', 'modified'],
+        ['art:2', 'unchanged'],
+        ['art:3', 'removed'],
+        ['art:4', 'added'],
+      ])
+      expect(diff.stats).toEqual({ added: 1, removed: 1, modified: 1, unchanged: 2 })
+    })
+
+    it('should include the line diff of modified articles', () => {
+      const diff = diffDocumentVersions(OLD_REGULATION, NEW_REGULATION)
+      const article = diff.sections.find((s) => s.key === 'art:1')
+
+      expect(article?.lines).toContainEqual({ type: 'removed', text: 'Vale per tutti.' })
+      expect(article?.lines).toContainEqual({ type: 'added', text: 'Vale per tutti i dipendenti.' })
+    })
+
+    it('should align markdown sections by title', () => {
+      const diff = diffDocumentVersions(
+        '# Intro\nTesto.\n\n# Costi\nAffitto 1000',
+        '# Intro\nTesto.\n\n# Costi\nAffitto 1200',
+        'markdown'
+      )
+
+      expect(diff.strategy).toBe('sections')
+      expect(diff.sections.map((s) => [s.title, s.change])).toEqual([
+        ['Intro', 'unchanged'],
+        ['Costi', 'modified'],
+      ])
+    })
+
+    it('should fall back to paragraphs for unstructured text', () => {
+      const diff = diffDocumentVersions(
+        'Primo paragrafo.\n\nSecondo vecchio.\n\nTerzo.',
+        'Primo paragrafo.\n\nSecondo nuovo.\n\nTerzo.\n\nQuarto.'
+      )
+
+      expect(diff.strategy).toBe('text')
+      expect(diff.sections.map((s) => s.change)).toEqual(['unchanged', 'modified', 'unchanged', 'added'])
+    })
+
+    it('should ignore whitespace-only changes', () => {
+      const diff = diffDocumentVersions(OLD_REGULATION, OLD_REGULATION.replace('Definizioni.', 'Definizioni.  '))
+
+      expect(diff.stats.modified).toBe(0)
+    })
+  })
+})
@@ -2,6 +2,10 @@
  * Shared types for chat functionality
  */
 
+import type { FeedbackRating, FeedbackReason } from '@/lib/supabase/database.types'
+
+export type { FeedbackRating, FeedbackReason }
+
 export interface Source {
   index: number
   type?: 'kb' | 'web' // Tipo di source: 'kb' per knowledge base, 'web' per ricerca web
@@ -11,6 +15,9 @@ export interface Source {
   // Campi per sources web
   title?: string // Titolo della fonte web
   url?: string // URL della fonte web
+  location?: string // Posizione nel documento (foglio/righe o slide) per sources KB
+  versionLabel?: string // Versione superata del documento (solo con "includi versioni precedenti")
+  contentType?: 'table' // Chunk tabellare, renderizzato come tabella nel pannello fonti
 }
 
 export interface SourceDetail extends Source {
@@ -19,6 +26,11 @@ export interface SourceDetail extends Source {
   originalIndex?: number
 }
 
+export interface MessageFeedback {
+  rating: FeedbackRating
+  reason?: FeedbackReason | null
+}
+
 export interface Message {
   id?: string
   role: 'user' | 'assistant'
@@ -26,6 +38,8 @@ export interface Message {
   metadata?: Record<string, unknown>
   sources?: Source[]
   model?: string // Nome del modello LLM usato per generare la risposta
+  feedback?: MessageFeedback | null // Valutazione dell'utente (solo messaggi assistant)
+  siblingIds?: string[] // Rami alternativi (messaggi con lo stesso padre), in ordine di creazione
 }
 
 export interface Conversation {
@@ -37,6 +51,7 @@ export interface Conversation {
 export interface ConversationListItem {
   id: string
   title: string | null
+  folder_scope?: string | null
   created_at: string
   updated_at: string
 }
@@ -53,3 +68,35 @@ export interface SourceDetailPanelProps {
   onClose: () => void
 }
 
+
+/**
+ * Link di condivisione in sola lettura di una conversazione
+ */
+export interface ConversationShare {
+  id: string
+  conversation_id: string
+  token: string
+  created_at: string
+  expires_at: string | null // null = nessuna scadenza
+  revoked_at: string | null
+}
+
+/**
+ * Parte di un estratto evidenziato nei risultati di ricerca
+ */
+export interface SnippetSegment {
+  text: string
+  highlight: boolean
+}
+
+export type ConversationSearchMode = 'text' | 'semantic'
+
+export interface ConversationSearchResult {
+  messageId: string
+  conversationId: string
+  conversationTitle: string | null
+  role: 'user' | 'assistant'
+  snippet: SnippetSegment[]
+  score: number // ts_rank_cd (testo) o similarità coseno (semantica)
+  createdAt: string
+}